@@ -2,11 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "../server/routes.js";
 import { runMigrations } from "../server/migrate.js";
 import { resolveTenant } from "../server/tenant.js";
+import { jsonBodyParser } from "../server/bodyParser.js";
 
 const app = express();
 
 // Increase body size limits to handle logo uploads (up to 10MB)
-app.use(express.json({ limit: '10mb' }));
+app.use(jsonBodyParser);
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Add tenant resolution middleware early in the pipeline
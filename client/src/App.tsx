@@ -19,6 +19,7 @@ import BusinessJoinNew from "@/pages/business-join-new";
 import BusinessLogin from "@/pages/business-login";
 import TenantNotFound from "@/pages/tenant-not-found";
 import AdminSetup from "@/pages/admin-setup";
+import TrackOrder from "@/pages/track";
 import { lazy, Suspense } from "react";
 
 const PricingPage = lazy(() => import("@/pages/pricing"));
@@ -61,6 +62,7 @@ function Router() {
       <Route path="/business-signup" component={BusinessJoinNew} />
       <Route path="/user-signup" component={Signup} />
       <Route path="/admin-setup" component={AdminSetup} />
+      <Route path="/track/:token" component={TrackOrder} />
       <Route component={NotFound} />
     </Switch>
   );
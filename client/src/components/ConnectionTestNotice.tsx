@@ -0,0 +1,25 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+// Result of checking a payment provider's credentials
+export interface ConnectionTestResult {
+  success: boolean;
+  accountName?: string; // the Square location or Stripe account reached
+  locations?: { id: string; name: string }[]; // Square only
+  error?: string;
+}
+
+export function ConnectionTestNotice({ result }: { result: ConnectionTestResult }) {
+  return (
+    <div className={`flex items-start gap-2 rounded-md border p-3 text-sm ${result.success ? 'border-green-200 bg-green-50 text-green-700' : 'border-red-200 bg-red-50 text-red-700'}`}>
+      {result.success ? <CheckCircle2 className="h-4 w-4 mt-0.5" /> : <XCircle className="h-4 w-4 mt-0.5" />}
+      <div>
+        <p>{result.success ? `Connected to ${result.accountName}` : result.error}</p>
+        {!result.success && !!result.locations?.length && (
+          <p className="text-xs mt-1">
+            Locations on this account: {result.locations.map((location) => `${location.name} (${location.id})`).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Navigation } from 'lucide-react';
+import { useDeliveryLocationRealtime } from '@/hooks/use-realtime';
+
+export interface DeliveryTracking {
+  enabled: boolean;
+  status: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    heading: number | null;
+    recordedAt: string;
+  } | null;
+  etaMinutes: number | null;
+}
+
+// Live ETA for a customer's in-progress delivery, refreshed as the driver's GPS pings arrive
+export function DeliveryEta({ deliveryId }: { deliveryId: string }) {
+  const { data: tracking } = useQuery<DeliveryTracking>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/tracking`],
+    refetchInterval: 60000, // Fallback if the realtime channel drops
+  });
+
+  useDeliveryLocationRealtime(deliveryId, tracking?.enabled ?? false);
+
+  return tracking ? <DeliveryEtaBanner tracking={tracking} /> : null;
+}
+
+export function DeliveryEtaBanner({ tracking }: { tracking: DeliveryTracking }) {
+  if (!tracking.enabled || !tracking.location) {
+    return null;
+  }
+
+  const { latitude, longitude, recordedAt } = tracking.location;
+
+  return (
+    <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3">
+      <div className="flex items-center gap-2">
+        <Navigation className="h-4 w-4 text-green-600" />
+        <div>
+          <p className="text-sm font-medium text-green-800">
+            {tracking.etaMinutes === null
+              ? 'Your driver is on the way'
+              : tracking.etaMinutes <= 1
+                ? 'Your driver is arriving now'
+                : `Arriving in about ${tracking.etaMinutes} min`}
+          </p>
+          <p className="text-xs text-green-700">
+            Updated {formatDistanceToNow(new Date(recordedAt), { addSuffix: true })}
+          </p>
+        </div>
+      </div>
+      <a
+        href={`https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-xs text-green-700 underline"
+      >
+        View on map
+      </a>
+    </div>
+  );
+}
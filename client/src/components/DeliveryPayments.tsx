@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { PaymentTransaction } from '@shared/schema';
+
+interface DeliveryPaymentSummary {
+  charged: number;
+  adjustments: number;
+  refunded: number;
+  refundable: number;
+  transactions: PaymentTransaction[];
+  paymentStatus: string | null;
+  squarePaymentId: string | null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  charge: 'Charge',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+// Refund all or part of what's left on the order - the reason is kept on the ledger
+function RefundForm({ deliveryId, paymentId, refundable }: {
+  deliveryId: string;
+  paymentId: string;
+  refundable: number;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState(refundable.toFixed(2));
+  const [reason, setReason] = useState('');
+  const parsedAmount = parseFloat(amount) || 0;
+
+  const refundMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/payments/${paymentId}/refund`, 'POST', { amount: parsedAmount, reason }),
+    onSuccess: () => {
+      toast({ title: 'Refund Issued', description: `$${parsedAmount.toFixed(2)} is on its way back to the customer.` });
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: [`/api/delivery-requests/${deliveryId}/payments`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/deliveries'] });
+    },
+    onError: (error) => {
+      toast({ title: 'Refund Failed', description: getApiErrorMessage(error, 'Failed to refund payment.'), variant: 'destructive' });
+      queryClient.invalidateQueries({ queryKey: [`/api/delivery-requests/${deliveryId}/payments`] });
+    },
+  });
+
+  return (
+    <div className="space-y-2 border rounded-md p-3">
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`refund-amount-${deliveryId}`} className="text-xs">Refund amount</Label>
+          <Input
+            id={`refund-amount-${deliveryId}`}
+            type="number"
+            min="0.01"
+            max={refundable}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-28 h-8"
+          />
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setAmount(refundable.toFixed(2))}>
+          Full
+        </Button>
+      </div>
+      <Textarea
+        placeholder="Reason for the refund"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={2}
+      />
+      <Button
+        size="sm"
+        variant="destructive"
+        onClick={() => refundMutation.mutate()}
+        disabled={parsedAmount <= 0 || parsedAmount > refundable || !reason.trim() || refundMutation.isPending}
+      >
+        {refundMutation.isPending ? 'Refunding...' : `Refund $${parsedAmount.toFixed(2)}`}
+      </Button>
+    </div>
+  );
+}
+
+// Charges, refunds and adjustments on a delivery, with a refund form for admins
+export function DeliveryPayments({ deliveryId, canRefund }: { deliveryId: string; canRefund: boolean }) {
+  const { data, isLoading } = useQuery<DeliveryPaymentSummary>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/payments`],
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading payments...</p>;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <div className="border-t pt-4 mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Payments</p>
+        {data.paymentStatus && (
+          <Badge variant={data.paymentStatus === 'refunded' ? 'secondary' : 'outline'}>{data.paymentStatus}</Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <p className="text-muted-foreground">Charged</p>
+          <p className="font-medium">${(data.charged + data.adjustments).toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Refunded</p>
+          <p className="font-medium">${data.refunded.toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Left to refund</p>
+          <p className="font-medium">${data.refundable.toFixed(2)}</p>
+        </div>
+      </div>
+
+      {data.transactions.length > 0 && (
+        <div className="space-y-1">
+          {data.transactions.map((transaction) => (
+            <div key={transaction.id} className="border-b py-1 text-xs last:border-0">
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  {KIND_LABELS[transaction.kind] ?? transaction.kind}
+                  <span className="text-muted-foreground"> • {format(new Date(transaction.createdAt), 'MMM d, h:mm a')}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  {transaction.status !== 'completed' && <Badge variant="outline">{transaction.status}</Badge>}
+                  <span className="font-medium">
+                    {transaction.kind === 'refund' || parseFloat(transaction.amount) < 0 ? '-' : ''}${Math.abs(parseFloat(transaction.amount)).toFixed(2)}
+                  </span>
+                </span>
+              </div>
+              {transaction.reason && <p className="text-muted-foreground">{transaction.reason}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canRefund && data.squarePaymentId && data.refundable > 0 && (
+        <RefundForm
+          key={data.refundable}
+          deliveryId={deliveryId}
+          paymentId={data.squarePaymentId}
+          refundable={data.refundable}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, MapPin, Clock, DollarSign } from 'lucide-react';
+import { OrderEligibilityNotice, type OrderEligibility } from '@/components/OrderEligibilityNotice';
 
 interface DeliveryPriceCalculatorProps {
   pickupAddress: string;
@@ -27,6 +28,10 @@ interface PricingResult {
     baseFeeRadius: number;
     extraMiles: number;
   };
+  // Service zone the delivery address fell in, when the business uses zones
+  zone?: { name: string; estimatedTime: number } | null;
+  // Distance and opening-hours checks the order will face
+  eligibility?: OrderEligibility;
 }
 
 export function DeliveryPriceCalculator({ 
@@ -126,6 +131,8 @@ export function DeliveryPriceCalculator({
     <Card className={className}>
       <CardContent className="pt-6">
         <div className="space-y-4">
+          <OrderEligibilityNotice eligibility={result.eligibility} />
+
           <div className="text-sm space-y-2">
             <div className="flex justify-between">
               <span className="text-muted-foreground">
@@ -144,17 +151,14 @@ export function DeliveryPriceCalculator({
             )}
             
             {isRush && (
-              <div className="flex justify-between">
-                <span className="text-orange-600">Rush delivery (1.5×)</span>
-                <span className="font-medium text-orange-600">+${(result.deliveryFee * 0.5).toFixed(2)}</span>
-              </div>
+              <div className="text-xs text-orange-600 pl-4">Includes the rush delivery rate</div>
             )}
           </div>
 
           <div className="border-t pt-3">
             <div className="text-center">
               <div className="text-2xl font-bold text-green-600">
-                ${isRush ? (result.deliveryFee * 1.5).toFixed(2) : result.deliveryFee.toFixed(2)}
+                ${result.deliveryFee.toFixed(2)}
               </div>
               <p className="text-sm text-muted-foreground">
                 {isRush ? 'Rush Delivery Fee' : 'Delivery Fee'}
@@ -162,6 +166,13 @@ export function DeliveryPriceCalculator({
             </div>
           </div>
           
+          {result.zone && (
+            <div className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-3 w-3" />
+              {result.zone.name} zone • about {result.zone.estimatedTime} minutes
+            </div>
+          )}
+
           {result.isWithinBaseRadius && (
             <div className="text-center">
               <Badge variant="default" className="bg-green-100 text-green-800">
@@ -0,0 +1,44 @@
+import { format } from 'date-fns';
+import { MapPin, User } from 'lucide-react';
+import type { DeliveryProof } from '@shared/schema';
+
+type DeliveryProofSummary = Pick<DeliveryProof, 'photoUrl' | 'signatureUrl' | 'recipientName' | 'latitude' | 'longitude'> & {
+  capturedAt: string | Date;
+};
+
+// Photo, signature, recipient and drop-off location captured by the driver
+export function DeliveryProofView({ proof }: { proof: DeliveryProofSummary }) {
+  return (
+    <div className="space-y-3">
+      <a href={proof.photoUrl} target="_blank" rel="noopener noreferrer">
+        <img src={proof.photoUrl} alt="Proof of delivery" className="w-full rounded-md border" />
+      </a>
+      <div className="text-sm space-y-1">
+        <p className="flex items-center gap-2">
+          <User className="h-4 w-4 text-gray-500" />
+          Received by <strong>{proof.recipientName}</strong>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {format(new Date(proof.capturedAt), 'MMM d, yyyy h:mm a')}
+        </p>
+        {proof.latitude != null && proof.longitude != null && (
+          <a
+            href={`https://www.google.com/maps/search/?api=1&query=${proof.latitude},${proof.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-blue-600 underline flex items-center gap-1"
+          >
+            <MapPin className="h-3 w-3" />
+            Drop-off location
+          </a>
+        )}
+      </div>
+      {proof.signatureUrl && (
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">Signature</p>
+          <img src={proof.signatureUrl} alt="Recipient signature" className="w-full max-h-24 object-contain border rounded-md bg-white" />
+        </div>
+      )}
+    </div>
+  );
+}
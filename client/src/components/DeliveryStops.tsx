@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CheckCircle, Circle, MapPin, SkipForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { DeliveryStop } from '@shared/schema';
+
+interface DeliveryStopsProps {
+  deliveryId: string;
+  // When set, the driver can complete or skip the next pending stop
+  driverId?: string;
+  canUpdate?: boolean;
+}
+
+// Ordered route for a multi-stop delivery. Renders nothing for single drop-off deliveries.
+export function DeliveryStops({ deliveryId, driverId, canUpdate = false }: DeliveryStopsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [driverNotes, setDriverNotes] = useState('');
+
+  const { data: stops = [] } = useQuery<DeliveryStop[]>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/stops`],
+  });
+
+  const updateStopMutation = useMutation({
+    mutationFn: async ({ stopId, status }: { stopId: string; status: 'completed' | 'skipped' }) => {
+      return apiRequest(`/api/driver/${driverId}/stops/${stopId}`, 'PATCH', {
+        status,
+        driverNotes: driverNotes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/delivery-requests/${deliveryId}/stops`] });
+      setDriverNotes('');
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update stop"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (stops.length === 0) return null;
+
+  const nextStop = stops.find(stop => stop.status === 'pending');
+
+  return (
+    <div className="space-y-2">
+      <p className="font-medium text-sm">Route ({stops.length} stops)</p>
+      {stops.map(stop => {
+        const isNext = stop.id === nextStop?.id;
+        return (
+          <div key={stop.id} className={`rounded-md border p-2 text-sm ${isNext ? 'border-blue-300 bg-blue-50' : ''}`}>
+            <div className="flex items-start gap-2">
+              {stop.status === 'completed' ? (
+                <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+              ) : stop.status === 'skipped' ? (
+                <SkipForward className="h-4 w-4 mt-0.5 text-orange-500" />
+              ) : (
+                <Circle className="h-4 w-4 mt-0.5 text-gray-400" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{stop.sequence + 1}.</span>
+                  <Badge variant="outline">{stop.type === 'pickup' ? 'Pickup' : 'Drop-off'}</Badge>
+                  {stop.status !== 'pending' && stop.completedAt && (
+                    <span className="text-xs text-muted-foreground">
+                      {stop.status === 'skipped' ? 'Skipped' : 'Done'} {format(new Date(stop.completedAt), 'h:mm a')}
+                    </span>
+                  )}
+                </div>
+                <a
+                  href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(stop.address)}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-blue-600 hover:underline"
+                >
+                  <MapPin className="h-3 w-3" />
+                  {stop.address}
+                </a>
+                {stop.notes && <p className="text-xs text-gray-600">{stop.notes}</p>}
+                {stop.driverNotes && <p className="text-xs text-gray-600 italic">Driver: {stop.driverNotes}</p>}
+              </div>
+            </div>
+
+            {isNext && canUpdate && driverId && (
+              <div className="mt-2 space-y-2">
+                <Input
+                  value={driverNotes}
+                  onChange={(e) => setDriverNotes(e.target.value)}
+                  placeholder="Stop notes (required to skip)"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => updateStopMutation.mutate({ stopId: stop.id, status: 'completed' })}
+                    disabled={updateStopMutation.isPending}
+                  >
+                    {stop.type === 'pickup' ? 'Picked Up' : 'Dropped Off'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateStopMutation.mutate({ stopId: stop.id, status: 'skipped' })}
+                    disabled={updateStopMutation.isPending || !driverNotes.trim()}
+                  >
+                    Skip
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Clock } from 'lucide-react';
+import type { DeliveryEvent } from '@shared/schema';
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  available: 'Waiting for Driver',
+  claimed: 'Driver Assigned',
+  in_progress: 'In Transit',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const ACTOR_LABELS: Record<string, string> = {
+  driver: 'Driver',
+  dispatcher: 'Dispatcher',
+  customer: 'Customer',
+  system: 'System',
+};
+
+interface DeliveryTimelineProps {
+  deliveryId: string;
+  // Pre-loaded events (e.g. from the public tracking endpoint) - skips the history request
+  events?: DeliveryEvent[];
+  // Customers only see what happened, not who did it
+  showActors?: boolean;
+  className?: string;
+}
+
+export function DeliveryTimeline({ deliveryId, events: providedEvents, showActors = false, className }: DeliveryTimelineProps) {
+  const { data: fetchedEvents = [], isLoading } = useQuery<DeliveryEvent[]>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/history`],
+    refetchInterval: 60000, // Refresh every minute
+    enabled: !providedEvents,
+  });
+  const events = providedEvents ?? fetchedEvents;
+
+  if (!providedEvents && isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-xs text-muted-foreground">No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className={`relative border-l border-gray-200 ml-2 space-y-3 ${className || ''}`}>
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <div className="absolute w-2 h-2 bg-blue-500 rounded-full -left-1 mt-1.5" />
+          <p className="text-sm font-medium">
+            {STATUS_LABELS[event.toStatus] || event.toStatus}
+          </p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {event.createdAt && !isNaN(new Date(event.createdAt).getTime())
+              ? format(new Date(event.createdAt), 'MMM d, h:mm a')
+              : 'Unknown time'}
+            {showActors && (
+              <span>
+                {' '}• {ACTOR_LABELS[event.actorType] || event.actorType}
+                {event.actorId ? ` (${event.actorId.slice(-8)})` : ''}
+              </span>
+            )}
+          </p>
+          {showActors && event.notes && (
+            <p className="text-xs text-gray-600 mt-1">{event.notes}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
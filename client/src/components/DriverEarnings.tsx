@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { DollarSign } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { DriverEarning } from '@shared/schema';
+
+interface EarningsPeriod {
+  start: string;
+  total: number;
+  tips: number;
+  deliveries: number;
+}
+
+interface EarningsSummary {
+  today: EarningsPeriod;
+  week: EarningsPeriod;
+  earnings: DriverEarning[];
+}
+
+function PeriodCard({ title, period }: { title: string; period?: EarningsPeriod }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">${(period?.total ?? 0).toFixed(2)}</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm text-muted-foreground">
+        {period?.deliveries ?? 0} deliver{period?.deliveries === 1 ? 'y' : 'ies'} · ${(period?.tips ?? 0).toFixed(2)} in tips
+      </CardContent>
+    </Card>
+  );
+}
+
+// What the driver has earned today and this week, from the earnings ledger
+export function DriverEarnings({ driverId }: { driverId: string }) {
+  const { data, isLoading } = useQuery<EarningsSummary>({
+    queryKey: ['/api/driver', driverId, 'earnings'],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading earnings...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <PeriodCard title="Today" period={data?.today} />
+        <PeriodCard title={data ? `This week (since ${format(new Date(data.week.start), 'EEE MMM d')})` : 'This week'} period={data?.week} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            This Week
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!data?.earnings.length ? (
+            <p className="text-sm text-muted-foreground">Complete a delivery to start earning.</p>
+          ) : (
+            <div className="space-y-1">
+              {data.earnings.map((earning) => (
+                <div key={earning.id} className="flex items-center justify-between gap-4 border-b py-2 text-sm last:border-0">
+                  <span className="text-muted-foreground">{format(new Date(earning.earnedAt), 'EEE h:mm a')}</span>
+                  <span className="flex-1 truncate">
+                    #{earning.deliveryId.slice(-8)}
+                    {earning.distance !== null && ` · ${earning.distance.toFixed(1)} mi`}
+                  </span>
+                  {parseFloat(earning.tipAmount) > 0 && (
+                    <Badge variant="outline" className="text-green-700 border-green-600">
+                      ${parseFloat(earning.tipAmount).toFixed(2)} tip
+                    </Badge>
+                  )}
+                  <span className="font-medium">${parseFloat(earning.totalAmount).toFixed(2)}</span>
+                  {earning.payoutId && <Badge variant="secondary">Paid</Badge>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { TILE_SIZE, project, getVisibleTiles } from '@/lib/webMercator';
+
+export interface MapMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  label: string;
+  detail?: string;
+}
+
+interface DriverLocationMapProps {
+  markers: MapMarker[];
+  height?: number;
+  className?: string;
+}
+
+const MAX_ZOOM = 16;
+const MIN_ZOOM = 3;
+const EDGE_PADDING = 40; // keep markers this many px away from the edge
+
+// Highest zoom at which every marker fits in the viewport
+function fitZoom(markers: MapMarker[], width: number, height: number) {
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const points = markers.map((m) => project(m.latitude, m.longitude, zoom));
+    const spanX = Math.max(...points.map((p) => p.x)) - Math.min(...points.map((p) => p.x));
+    const spanY = Math.max(...points.map((p) => p.y)) - Math.min(...points.map((p) => p.y));
+    if (spanX <= width - EDGE_PADDING * 2 && spanY <= height - EDGE_PADDING * 2) {
+      return zoom;
+    }
+  }
+  return MIN_ZOOM;
+}
+
+// Lightweight OpenStreetMap tile view with a pin per driver - no map SDK or API key needed
+export function DriverLocationMap({ markers, height = 400, className }: DriverLocationMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => setWidth(entries[0].contentRect.width));
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const hasMarkers = markers.length > 0;
+  const zoom = width > 0 && hasMarkers ? fitZoom(markers, width, height) : MIN_ZOOM;
+  const points = markers.map((m) => ({ marker: m, ...project(m.latitude, m.longitude, zoom) }));
+  const centerX = (Math.min(...points.map((p) => p.x)) + Math.max(...points.map((p) => p.x))) / 2;
+  const centerY = (Math.min(...points.map((p) => p.y)) + Math.max(...points.map((p) => p.y))) / 2;
+  const left = centerX - width / 2;
+  const top = centerY - height / 2;
+
+  const tiles = width > 0 && hasMarkers ? getVisibleTiles(zoom, left, top, width, height) : [];
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-lg bg-gray-100 ${className || ''}`}
+      style={{ height }}
+    >
+      {!hasMarkers && (
+        <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+          No drivers are sharing their location right now
+        </div>
+      )}
+      {width > 0 && tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.src}
+          alt=""
+          draggable={false}
+          className="absolute select-none"
+          style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+      {width > 0 && points.map(({ marker, x, y }) => (
+        <div
+          key={marker.id}
+          className="absolute -translate-x-1/2 -translate-y-full flex flex-col items-center"
+          style={{ left: x - left, top: y - top }}
+          title={marker.detail}
+        >
+          <span className="mb-1 whitespace-nowrap rounded bg-white px-2 py-0.5 text-xs font-medium shadow">
+            {marker.label}
+          </span>
+          <span className="h-3 w-3 rounded-full border-2 border-white bg-blue-600 shadow" />
+        </div>
+      ))}
+      {hasMarkers && (
+        <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-600">
+          © OpenStreetMap contributors
+        </span>
+      )}
+    </div>
+  );
+}
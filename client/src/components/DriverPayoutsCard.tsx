@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Download, FileText } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { DriverPayout } from '@shared/schema';
+
+interface PayoutDriverTotal {
+  driverId: string;
+  driverName: string;
+  earningCount: number;
+  total: number;
+  tips: number;
+}
+
+// Local date-time string for a datetime-local input
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+async function downloadStatement(payout: DriverPayout, driver: PayoutDriverTotal, fileType: 'csv' | 'pdf') {
+  try {
+    const response = await apiRequest(`/api/admin/payouts/${payout.id}/statements/${driver.driverId}?format=${fileType}`, 'GET');
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `payout-${format(new Date(payout.periodEnd), 'yyyy-MM-dd')}-${driver.driverName.replace(/\W+/g, '-').toLowerCase()}.${fileType}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    toast({ title: 'Error', description: getApiErrorMessage(error, 'Failed to download statement'), variant: 'destructive' });
+  }
+}
+
+function DriverTotals({ drivers, payout }: { drivers: PayoutDriverTotal[]; payout?: DriverPayout }) {
+  return (
+    <div className="space-y-1">
+      {drivers.map((driver) => (
+        <div key={driver.driverId} className="flex items-center justify-between gap-4 border-b py-2 text-sm last:border-0">
+          <span className="flex-1 truncate">{driver.driverName}</span>
+          <span className="text-muted-foreground">{driver.earningCount} entr{driver.earningCount === 1 ? 'y' : 'ies'}</span>
+          <span className="text-muted-foreground">${driver.tips.toFixed(2)} tips</span>
+          <span className="font-medium">${driver.total.toFixed(2)}</span>
+          {payout && (
+            <span className="flex gap-1">
+              <Button size="sm" variant="outline" onClick={() => downloadStatement(payout, driver, 'csv')}>
+                <Download className="h-3 w-3 mr-1" />
+                CSV
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => downloadStatement(payout, driver, 'pdf')}>
+                <FileText className="h-3 w-3 mr-1" />
+                PDF
+              </Button>
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StatementsDialog({ payout, onClose }: { payout: DriverPayout | null; onClose: () => void }) {
+  const { data, isLoading } = useQuery<DriverPayout & { drivers: PayoutDriverTotal[] }>({
+    queryKey: [`/api/admin/payouts/${payout?.id}`],
+    enabled: !!payout,
+  });
+
+  return (
+    <Dialog open={!!payout} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Driver Statements</DialogTitle>
+          <DialogDescription>
+            {payout && `${format(new Date(payout.periodStart), 'MMM d')} - ${format(new Date(payout.periodEnd), 'MMM d, yyyy h:mm a')} · $${parseFloat(payout.totalAmount).toFixed(2)}`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !data ? (
+          <p className="text-sm text-muted-foreground">Loading statements...</p>
+        ) : (
+          <DriverTotals drivers={data.drivers} payout={data} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Close out a pay period and download what each driver is owed for it
+export function DriverPayoutsCard() {
+  const queryClient = useQueryClient();
+  const [periodEnd, setPeriodEnd] = useState(() => toLocalInput(new Date()));
+  const [statementsFor, setStatementsFor] = useState<DriverPayout | null>(null);
+  const periodEndIso = periodEnd ? new Date(periodEnd).toISOString() : '';
+
+  const { data: payouts = [], isLoading } = useQuery<DriverPayout[]>({
+    queryKey: ['/api/admin/payouts'],
+  });
+  const { data: preview } = useQuery<{ periodEnd: string; drivers: PayoutDriverTotal[] }>({
+    queryKey: [`/api/admin/payouts/preview?periodEnd=${encodeURIComponent(periodEndIso)}`],
+    enabled: !!periodEndIso,
+  });
+  const unpaidTotal = (preview?.drivers ?? []).reduce((sum, driver) => sum + driver.total, 0);
+
+  const closePeriodMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('/api/admin/payouts', 'POST', { periodEnd: periodEndIso });
+      return response.json() as Promise<DriverPayout>;
+    },
+    onSuccess: (payout) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/payouts'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/payouts/preview') });
+      toast({ title: 'Pay Period Closed', description: `$${parseFloat(payout.totalAmount).toFixed(2)} owed to ${payout.driverCount} driver${payout.driverCount === 1 ? '' : 's'}.` });
+      setStatementsFor(payout);
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Failed to close pay period'), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Driver Payouts</CardTitle>
+        <CardDescription>Close a pay period to mark drivers' earnings as paid and get a statement for each driver</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="payoutPeriodEnd">Pay earnings up to</Label>
+              <Input
+                id="payoutPeriodEnd"
+                type="datetime-local"
+                value={periodEnd}
+                max={toLocalInput(new Date())}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="w-[240px]"
+              />
+            </div>
+            <Button
+              onClick={() => closePeriodMutation.mutate()}
+              disabled={!periodEndIso || !preview?.drivers.length || closePeriodMutation.isPending}
+            >
+              {closePeriodMutation.isPending ? 'Closing...' : `Close Period ($${unpaidTotal.toFixed(2)})`}
+            </Button>
+          </div>
+          {preview && preview.drivers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No unpaid earnings before this date.</p>
+          ) : (
+            <DriverTotals drivers={preview?.drivers ?? []} />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Closed Periods</h4>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading payouts...</p>
+          ) : payouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pay periods have been closed yet.</p>
+          ) : (
+            payouts.map((payout) => (
+              <div key={payout.id} className="flex items-center justify-between gap-4 border rounded-md p-3 text-sm">
+                <span className="flex-1">
+                  {format(new Date(payout.periodStart), 'MMM d')} - {format(new Date(payout.periodEnd), 'MMM d, yyyy')}
+                </span>
+                <span className="text-muted-foreground">{payout.driverCount} driver{payout.driverCount === 1 ? '' : 's'}</span>
+                <span className="font-medium">${parseFloat(payout.totalAmount).toFixed(2)}</span>
+                <Button size="sm" variant="outline" onClick={() => setStatementsFor(payout)}>
+                  Statements
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+      <StatementsDialog payout={statementsFor} onClose={() => setStatementsFor(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { CalendarClock, MapPinOff, Store } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { OrderEligibilityReason } from '@shared/schema';
+
+export interface OpenWindow {
+  start: string;
+  label: string;
+  date: string;
+  slotStart?: string; // Present when the window is a bookable delivery slot
+}
+
+export interface OrderEligibility {
+  eligible: boolean;
+  reasons: { reason: OrderEligibilityReason; message: string; address?: string; distance?: number }[];
+  nextWindow: OpenWindow | null;
+}
+
+const REASON_ICONS: Record<OrderEligibilityReason, typeof Store> = {
+  out_of_range: MapPinOff,
+  closed: Store,
+  outside_slot: CalendarClock,
+};
+
+interface OrderEligibilityNoticeProps {
+  eligibility: OrderEligibility | null | undefined;
+  onBookNextWindow?: (window: OpenWindow) => void; // Omit to only show when the business next opens
+  className?: string;
+}
+
+// Why an order can't go through as entered, shown before the customer submits
+export function OrderEligibilityNotice({ eligibility, onBookNextWindow, className }: OrderEligibilityNoticeProps) {
+  if (!eligibility || eligibility.eligible) {
+    return null;
+  }
+
+  const { reasons, nextWindow } = eligibility;
+  // Booking later doesn't help an address that's out of range
+  const canBookLater = !!nextWindow && reasons.every((issue) => issue.reason !== 'out_of_range');
+
+  return (
+    <div className={`rounded-lg border border-red-200 bg-red-50 p-3 space-y-2 ${className || ''}`}>
+      {reasons.map((issue, index) => {
+        const Icon = REASON_ICONS[issue.reason];
+        return (
+          <p key={index} className="flex items-start gap-2 text-sm text-red-700">
+            <Icon className="h-4 w-4 mt-0.5 shrink-0" />
+            {issue.message}
+          </p>
+        );
+      })}
+      {canBookLater && (
+        <div className="flex items-center justify-between gap-2 pl-6">
+          <p className="text-sm text-red-700">
+            Next available: <strong>{nextWindow.label}</strong>
+          </p>
+          {onBookNextWindow && (
+            <Button type="button" size="sm" variant="outline" onClick={() => onBookNextWindow(nextWindow)}>
+              Book for then
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
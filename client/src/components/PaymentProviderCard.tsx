@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { SquareSettingsCard, type SquareSettings } from '@/components/SquareSettingsCard';
+import { StripeSettingsCard, type StripeSettings } from '@/components/StripeSettingsCard';
+import type { PaymentProviderName } from '@shared/schema';
+
+const PROVIDER_LABELS: Record<PaymentProviderName, string> = {
+  square: 'Square',
+  stripe: 'Stripe',
+};
+
+// Pick which processor takes this business's payments, and set up either one. Orders keep the provider they were paid through.
+export function PaymentProviderCard({ paymentProvider, squareSettings, stripeSettings }: {
+  paymentProvider?: PaymentProviderName;
+  squareSettings?: SquareSettings;
+  stripeSettings?: StripeSettings;
+}) {
+  const queryClient = useQueryClient();
+  const active = paymentProvider ?? 'square';
+  const [selected, setSelected] = useState<PaymentProviderName>(active);
+
+  useEffect(() => {
+    setSelected(active);
+  }, [active]);
+
+  const switchMutation = useMutation({
+    mutationFn: (provider: PaymentProviderName) =>
+      apiRequest('/api/admin/payment-provider', 'PUT', { paymentProvider: provider }),
+    onSuccess: (_, provider) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/business-settings'] });
+      toast({ title: 'Payment Provider Changed', description: `New payments will go through ${PROVIDER_LABELS[provider]}.` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Failed to change payment provider'), variant: 'destructive' });
+    },
+  });
+
+  const configured = selected === 'stripe' ? stripeSettings?.configured : squareSettings?.configured;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Provider</CardTitle>
+          <CardDescription>
+            Card payments, tips and refunds go through {PROVIDER_LABELS[active]}. Refunds for earlier orders still go through the provider that took them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          {(Object.keys(PROVIDER_LABELS) as PaymentProviderName[]).map((provider) => (
+            <Button
+              key={provider}
+              variant={selected === provider ? 'default' : 'outline'}
+              onClick={() => setSelected(provider)}
+            >
+              {PROVIDER_LABELS[provider]}
+              {provider === active && <Badge variant="secondary" className="ml-2">Active</Badge>}
+            </Button>
+          ))}
+          {selected !== active && (
+            <Button
+              variant="secondary"
+              onClick={() => switchMutation.mutate(selected)}
+              disabled={!configured || switchMutation.isPending}
+              title={configured ? undefined : `Connect ${PROVIDER_LABELS[selected]} first`}
+            >
+              {switchMutation.isPending ? 'Switching...' : `Use ${PROVIDER_LABELS[selected]}`}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected === 'stripe'
+        ? <StripeSettingsCard settings={stripeSettings} />
+        : <SquareSettingsCard settings={squareSettings} />}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Calculator } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { LOYALTY_TIERS, type Business, type LoyaltyTier, type QuoteLineItem } from '@shared/schema';
+
+interface SimulatedPrice {
+  distance: number;
+  deliveryFee: number;
+  distanceFee: number;
+  zone: { name: string } | null;
+  breakdown: QuoteLineItem[];
+  appliedRules: { id: string; name: string; amount: number }[];
+  promotionError: { message: string } | null;
+}
+
+const NO_BUSINESS = 'none';
+const GUEST = 'guest';
+
+// Local date-time string for a datetime-local input
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+// Prices a sample trip with the saved rules so admins can check them before customers see them
+export function PriceSimulator() {
+  const [pickup, setPickup] = useState('');
+  const [delivery, setDelivery] = useState('');
+  const [businessId, setBusinessId] = useState(NO_BUSINESS);
+  const [orderValue, setOrderValue] = useState('');
+  const [loyaltyTier, setLoyaltyTier] = useState<LoyaltyTier | typeof GUEST>(GUEST);
+  const [at, setAt] = useState(() => toLocalInput(new Date()));
+  const [isRush, setIsRush] = useState(false);
+  const [promoCode, setPromoCode] = useState('');
+
+  const { data: businesses = [] } = useQuery<Business[]>({
+    queryKey: ['/api/businesses'],
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async (): Promise<SimulatedPrice> => {
+      const response = await apiRequest('/api/admin/pricing-rules/simulate', 'POST', {
+        pickup,
+        delivery,
+        isRush,
+        businessId: businessId === NO_BUSINESS ? null : businessId,
+        orderValue: orderValue.trim() === '' ? null : parseFloat(orderValue),
+        loyaltyTier: loyaltyTier === GUEST ? null : loyaltyTier,
+        at: at ? new Date(at).toISOString() : undefined,
+        promoCode: promoCode.trim() || undefined,
+      });
+      return response.json();
+    },
+  });
+
+  const selectBusiness = (id: string) => {
+    setBusinessId(id);
+    const business = businesses.find((b) => b.id === id);
+    if (business) setPickup(business.address);
+  };
+
+  const result = simulateMutation.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Simulate a Price</CardTitle>
+        <CardDescription>Price a sample trip with your saved settings and active rules. Nothing is charged or saved.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Pickup business</Label>
+            <Select value={businessId} onValueChange={selectBusiness}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_BUSINESS}>Custom pickup</SelectItem>
+                {businesses.map((business) => (
+                  <SelectItem key={business.id} value={business.id}>{business.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="simPickup">Pickup address</Label>
+            <Input id="simPickup" value={pickup} onChange={(e) => setPickup(e.target.value)} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="simDelivery">Delivery address</Label>
+            <Input id="simDelivery" value={delivery} onChange={(e) => setDelivery(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="simAt">Delivery time</Label>
+            <Input id="simAt" type="datetime-local" value={at} onChange={(e) => setAt(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="simOrderValue">Order value ($)</Label>
+            <Input id="simOrderValue" type="number" step="0.01" min="0" placeholder="Not entered" value={orderValue} onChange={(e) => setOrderValue(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Customer</Label>
+            <Select value={loyaltyTier} onValueChange={(value) => setLoyaltyTier(value as LoyaltyTier | typeof GUEST)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GUEST}>Guest</SelectItem>
+                {LOYALTY_TIERS.map((tier) => (
+                  <SelectItem key={tier} value={tier} className="capitalize">{tier} tier</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="simPromoCode">Promo code</Label>
+            <Input id="simPromoCode" className="uppercase" placeholder="None" value={promoCode} onChange={(e) => setPromoCode(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2 pt-6">
+            <Switch id="simRush" checked={isRush} onCheckedChange={setIsRush} />
+            <Label htmlFor="simRush">Rush delivery</Label>
+          </div>
+        </div>
+
+        <Button onClick={() => simulateMutation.mutate()} disabled={!pickup.trim() || !delivery.trim() || simulateMutation.isPending}>
+          <Calculator className="h-4 w-4 mr-1" />
+          {simulateMutation.isPending ? 'Calculating...' : 'Simulate'}
+        </Button>
+
+        {simulateMutation.isError && (
+          <p className="text-sm text-red-600">{getApiErrorMessage(simulateMutation.error, 'Could not price this trip')}</p>
+        )}
+
+        {result && !simulateMutation.isError && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-muted-foreground">
+                {result.distance.toFixed(1)} miles{result.zone ? ` • ${result.zone.name} zone` : ''}
+              </span>
+              <span className="text-2xl font-bold text-green-600">${result.deliveryFee.toFixed(2)}</span>
+            </div>
+            <div className="space-y-1">
+              {result.breakdown.map((item, index) => (
+                <div key={index} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">{item.label}</span>
+                  <span>{item.amount < 0 ? '-' : ''}${Math.abs(item.amount).toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+            {result.promotionError && (
+              <p className="text-sm text-orange-600">{result.promotionError.message}</p>
+            )}
+            <div className="flex flex-wrap items-center gap-2 border-t pt-3 text-sm">
+              <span className="text-muted-foreground">Matched rules:</span>
+              {result.appliedRules.length === 0 ? (
+                <span>None</span>
+              ) : (
+                result.appliedRules.map((rule) => (
+                  <Badge key={rule.id} variant="secondary">{rule.name}</Badge>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
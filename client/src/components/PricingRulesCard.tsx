@@ -0,0 +1,436 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import {
+  LOYALTY_TIERS,
+  PRICING_RULE_ACTIONS,
+  type Business,
+  type LoyaltyTier,
+  type PricingRule,
+  type PricingRuleAction,
+  type PricingRuleConditions,
+} from '@shared/schema';
+
+const ACTION_LABELS: Record<PricingRuleAction, string> = {
+  flat_fee: 'Add a flat amount',
+  percent: 'Adjust by percent',
+  per_mile: 'Charge a different per-mile rate',
+  waive: 'Waive the delivery fee',
+  cap: 'Cap the delivery fee',
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface PricingRulesCardProps {
+  zones: { id?: string; name: string }[];
+}
+
+// Editable copy of a rule - numbers stay strings while they're being typed
+interface RuleDraft {
+  id?: string;
+  name: string;
+  action: PricingRuleAction;
+  amount: string;
+  isActive: boolean;
+  days: number[];
+  startTime: string;
+  endTime: string;
+  businessIds: string[];
+  zoneIds: string[];
+  minDistance: string;
+  maxDistance: string;
+  minOrderValue: string;
+  maxOrderValue: string;
+  loyaltyTiers: LoyaltyTier[];
+}
+
+const emptyDraft: RuleDraft = {
+  name: '',
+  action: 'flat_fee',
+  amount: '',
+  isActive: true,
+  days: [],
+  startTime: '',
+  endTime: '',
+  businessIds: [],
+  zoneIds: [],
+  minDistance: '',
+  maxDistance: '',
+  minOrderValue: '',
+  maxOrderValue: '',
+  loyaltyTiers: [],
+};
+
+const optionalString = (value?: number) => (value === undefined ? '' : String(value));
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
+
+function toDraft(rule: PricingRule): RuleDraft {
+  const c = rule.conditions;
+  return {
+    id: rule.id,
+    name: rule.name,
+    action: rule.action as PricingRuleAction,
+    amount: rule.amount ?? '',
+    isActive: rule.isActive,
+    days: c.days ?? [],
+    startTime: c.startTime ?? '',
+    endTime: c.endTime ?? '',
+    businessIds: c.businessIds ?? [],
+    zoneIds: c.zoneIds ?? [],
+    minDistance: optionalString(c.minDistance),
+    maxDistance: optionalString(c.maxDistance),
+    minOrderValue: optionalString(c.minOrderValue),
+    maxOrderValue: optionalString(c.maxOrderValue),
+    loyaltyTiers: c.loyaltyTiers ?? [],
+  };
+}
+
+function toPayload(draft: RuleDraft) {
+  const conditions: PricingRuleConditions = {
+    days: draft.days.length ? [...draft.days].sort() : undefined,
+    startTime: draft.startTime || undefined,
+    endTime: draft.endTime || undefined,
+    businessIds: draft.businessIds.length ? draft.businessIds : undefined,
+    zoneIds: draft.zoneIds.length ? draft.zoneIds : undefined,
+    minDistance: optionalNumber(draft.minDistance),
+    maxDistance: optionalNumber(draft.maxDistance),
+    minOrderValue: optionalNumber(draft.minOrderValue),
+    maxOrderValue: optionalNumber(draft.maxOrderValue),
+    loyaltyTiers: draft.loyaltyTiers.length ? draft.loyaltyTiers : undefined,
+  };
+  return {
+    name: draft.name,
+    action: draft.action,
+    amount: draft.action === 'waive' || draft.amount.trim() === '' ? null : draft.amount,
+    isActive: draft.isActive,
+    conditions,
+  };
+}
+
+function describeAction(rule: Pick<PricingRule, 'action' | 'amount'>): string {
+  const amount = parseFloat(rule.amount ?? '') || 0;
+  switch (rule.action) {
+    case 'flat_fee':
+      return amount < 0 ? `$${Math.abs(amount).toFixed(2)} off` : `+$${amount.toFixed(2)}`;
+    case 'percent':
+      return amount < 0 ? `${Math.abs(amount)}% off` : `+${amount}%`;
+    case 'per_mile':
+      return `$${amount.toFixed(2)}/mile past the base radius`;
+    case 'waive':
+      return 'Free delivery';
+    case 'cap':
+      return `At most $${amount.toFixed(2)}`;
+    default:
+      return rule.action;
+  }
+}
+
+function describeConditions(conditions: PricingRuleConditions, businesses: Business[], zones: PricingRulesCardProps['zones']): string {
+  const parts: string[] = [];
+  if (conditions.days?.length) parts.push(conditions.days.map((day) => DAY_LABELS[day]).join(', '));
+  if (conditions.startTime && conditions.endTime) parts.push(`${conditions.startTime}–${conditions.endTime}`);
+  if (conditions.businessIds?.length) {
+    parts.push(`from ${conditions.businessIds.map((id) => businesses.find((b) => b.id === id)?.name ?? 'a removed business').join(' or ')}`);
+  }
+  if (conditions.zoneIds?.length) {
+    parts.push(`in ${conditions.zoneIds.map((id) => zones.find((z) => z.id === id)?.name ?? 'a removed zone').join(' or ')}`);
+  }
+  if (conditions.minDistance !== undefined || conditions.maxDistance !== undefined) {
+    parts.push(`${conditions.minDistance ?? 0}–${conditions.maxDistance ?? '∞'} mi`);
+  }
+  if (conditions.minOrderValue !== undefined || conditions.maxOrderValue !== undefined) {
+    parts.push(`orders $${conditions.minOrderValue ?? 0}–${conditions.maxOrderValue !== undefined ? `$${conditions.maxOrderValue}` : '∞'}`);
+  }
+  if (conditions.loyaltyTiers?.length) parts.push(`${conditions.loyaltyTiers.join(' or ')} customers`);
+  return parts.length ? parts.join(' · ') : 'Every delivery';
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+// Ordered pricing rules - each matching rule adjusts the fee the rules above it left
+export function PricingRulesCard({ zones }: PricingRulesCardProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<PricingRule[]>({
+    queryKey: ['/api/admin/pricing-rules'],
+  });
+  const { data: businesses = [] } = useQuery<Business[]>({
+    queryKey: ['/api/businesses'],
+  });
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({ title: 'Error', description: getApiErrorMessage(error, fallback), variant: 'destructive' });
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (rule: RuleDraft) => {
+      const payload = toPayload(rule);
+      return rule.id
+        ? apiRequest(`/api/admin/pricing-rules/${rule.id}`, 'PUT', payload)
+        : apiRequest('/api/admin/pricing-rules', 'POST', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/pricing-rules'] });
+      setDraft(null);
+      toast({ title: 'Rule Saved', description: 'Prices quoted from now on use this rule.' });
+    },
+    onError: onError('Failed to save pricing rule'),
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async (rule: PricingRule) => {
+      return apiRequest(`/api/admin/pricing-rules/${rule.id}`, 'PUT', toPayload({ ...toDraft(rule), isActive: !rule.isActive }));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/pricing-rules'] }),
+    onError: onError('Failed to update pricing rule'),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: string[]) => apiRequest('/api/admin/pricing-rules/order', 'PUT', { ids }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/pricing-rules'] }),
+    onError: onError('Failed to reorder pricing rules'),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/admin/pricing-rules/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/pricing-rules'] });
+      toast({ title: 'Rule Deleted', description: 'The pricing rule has been removed.' });
+    },
+    onError: onError('Failed to delete pricing rule'),
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = rules.map((rule) => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const update = (changes: Partial<RuleDraft>) => setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  const needsAmount = draft && draft.action !== 'waive';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Pricing Rules</CardTitle>
+          <CardDescription>
+            Surcharges and discounts for particular times, businesses, zones, distances, order values and loyalty tiers.
+            Rules run top to bottom, each on the fee left by the ones above it.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setDraft({ ...emptyDraft })}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading rules...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pricing rules yet - every delivery is priced by distance and zone.</p>
+        ) : (
+          rules.map((rule, index) => (
+            <div key={rule.id} className={`flex items-center gap-3 rounded-lg border p-3 ${rule.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex flex-col">
+                <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0 || reorderMutation.isPending} onClick={() => move(index, -1)} aria-label="Move up">
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === rules.length - 1 || reorderMutation.isPending} onClick={() => move(index, 1)} aria-label="Move down">
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{rule.name}</span>
+                  <Badge variant="secondary">{describeAction(rule)}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground truncate">{describeConditions(rule.conditions, businesses, zones)}</p>
+              </div>
+              <Switch checked={rule.isActive} onCheckedChange={() => toggleRuleMutation.mutate(rule)} aria-label="Active" />
+              <Button variant="outline" size="sm" onClick={() => setDraft(toDraft(rule))}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => deleteRuleMutation.mutate(rule.id)} disabled={deleteRuleMutation.isPending}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Pricing Rule' : 'New Pricing Rule'}</DialogTitle>
+            <DialogDescription>Leave a condition empty to match every delivery.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleName">Name</Label>
+                <Input id="ruleName" value={draft.name} placeholder="e.g. Late night surcharge" onChange={(e) => update({ name: e.target.value })} />
+                <p className="text-xs text-muted-foreground">Customers see this as a line on their price.</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Action</Label>
+                  <Select value={draft.action} onValueChange={(value) => update({ action: value as PricingRuleAction })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRICING_RULE_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {needsAmount && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleAmount">{draft.action === 'percent' ? 'Percent' : 'Amount ($)'}</Label>
+                    <Input id="ruleAmount" type="number" step="0.01" value={draft.amount} onChange={(e) => update({ amount: e.target.value })} />
+                    {(draft.action === 'flat_fee' || draft.action === 'percent') && (
+                      <p className="text-xs text-muted-foreground">Use a negative number for a discount.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Days</Label>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={draft.days.includes(day) ? 'default' : 'outline'}
+                      onClick={() => update({ days: toggle(draft.days, day) })}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleStart">From</Label>
+                  <Input id="ruleStart" type="time" value={draft.startTime} onChange={(e) => update({ startTime: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleEnd">Until</Label>
+                  <Input id="ruleEnd" type="time" value={draft.endTime} onChange={(e) => update({ endTime: e.target.value })} />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                In your business timezone, at the time of delivery. A window like 22:00–02:00 runs past midnight.
+              </p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMinDistance">Min distance (mi)</Label>
+                  <Input id="ruleMinDistance" type="number" step="0.1" min="0" value={draft.minDistance} onChange={(e) => update({ minDistance: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMaxDistance">Max distance (mi)</Label>
+                  <Input id="ruleMaxDistance" type="number" step="0.1" min="0" value={draft.maxDistance} onChange={(e) => update({ maxDistance: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMinOrder">Min order value ($)</Label>
+                  <Input id="ruleMinOrder" type="number" step="0.01" min="0" value={draft.minOrderValue} onChange={(e) => update({ minOrderValue: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMaxOrder">Max order value ($)</Label>
+                  <Input id="ruleMaxOrder" type="number" step="0.01" min="0" value={draft.maxOrderValue} onChange={(e) => update({ maxOrderValue: e.target.value })} />
+                </div>
+              </div>
+
+              {businesses.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Pickup business</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {businesses.map((business) => (
+                      <label key={business.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.businessIds.includes(business.id)}
+                          onCheckedChange={() => update({ businessIds: toggle(draft.businessIds, business.id) })}
+                        />
+                        {business.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {zones.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Service zone</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {zones.filter((zone) => zone.id).map((zone) => (
+                      <label key={zone.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.zoneIds.includes(zone.id!)}
+                          onCheckedChange={() => update({ zoneIds: toggle(draft.zoneIds, zone.id!) })}
+                        />
+                        {zone.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Loyalty tier</Label>
+                <div className="flex gap-4">
+                  {LOYALTY_TIERS.map((tier) => (
+                    <label key={tier} className="flex items-center gap-2 text-sm capitalize">
+                      <Checkbox
+                        checked={draft.loyaltyTiers.includes(tier)}
+                        onCheckedChange={() => update({ loyaltyTiers: toggle(draft.loyaltyTiers, tier) })}
+                      />
+                      {tier}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Guests never match a loyalty tier condition.</p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch id="ruleActive" checked={draft.isActive} onCheckedChange={(isActive) => update({ isActive })} />
+                <Label htmlFor="ruleActive">Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => draft && saveRuleMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || (!!needsAmount && !draft?.amount.trim()) || saveRuleMutation.isPending}
+            >
+              {saveRuleMutation.isPending ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,444 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { BarChart3, Edit, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import {
+  PROMOTION_DISCOUNT_TYPES,
+  type Business,
+  type Promotion,
+  type PromotionDiscountType,
+  type PromotionRedemption,
+} from '@shared/schema';
+
+const DISCOUNT_LABELS: Record<PromotionDiscountType, string> = {
+  percent: 'Percent off the delivery fee',
+  flat: 'Dollars off the delivery fee',
+  free_delivery: 'Free delivery',
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface PromotionsCardProps {
+  zones: { id?: string; name: string }[];
+}
+
+// Editable copy of a promotion - numbers and dates stay strings while they're being typed
+interface PromotionDraft {
+  id?: string;
+  code: string;
+  name: string;
+  discountType: PromotionDiscountType;
+  amount: string;
+  isActive: boolean;
+  startsAt: string;
+  endsAt: string;
+  days: number[];
+  maxRedemptions: string;
+  maxRedemptionsPerCustomer: string;
+  firstOrderOnly: boolean;
+  minOrderValue: string;
+  businessIds: string[];
+  zoneIds: string[];
+}
+
+const emptyDraft: PromotionDraft = {
+  code: '',
+  name: '',
+  discountType: 'percent',
+  amount: '',
+  isActive: true,
+  startsAt: '',
+  endsAt: '',
+  days: [],
+  maxRedemptions: '',
+  maxRedemptionsPerCustomer: '1',
+  firstOrderOnly: false,
+  minOrderValue: '',
+  businessIds: [],
+  zoneIds: [],
+};
+
+// Local date-time string for a datetime-local input
+function toLocalInput(value: string | Date | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+const optionalLimit = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+
+function toDraft(promotion: Promotion): PromotionDraft {
+  return {
+    id: promotion.id,
+    code: promotion.code,
+    name: promotion.name,
+    discountType: promotion.discountType as PromotionDiscountType,
+    amount: promotion.amount ?? '',
+    isActive: promotion.isActive,
+    startsAt: toLocalInput(promotion.startsAt),
+    endsAt: toLocalInput(promotion.endsAt),
+    days: promotion.days,
+    maxRedemptions: promotion.maxRedemptions === null ? '' : String(promotion.maxRedemptions),
+    maxRedemptionsPerCustomer: promotion.maxRedemptionsPerCustomer === null ? '' : String(promotion.maxRedemptionsPerCustomer),
+    firstOrderOnly: promotion.firstOrderOnly,
+    minOrderValue: promotion.minOrderValue ?? '',
+    businessIds: promotion.businessIds,
+    zoneIds: promotion.zoneIds,
+  };
+}
+
+function toPayload(draft: PromotionDraft) {
+  return {
+    code: draft.code,
+    name: draft.name,
+    discountType: draft.discountType,
+    amount: draft.discountType === 'free_delivery' || draft.amount.trim() === '' ? null : draft.amount,
+    isActive: draft.isActive,
+    startsAt: draft.startsAt ? new Date(draft.startsAt).toISOString() : null,
+    endsAt: draft.endsAt ? new Date(draft.endsAt).toISOString() : null,
+    days: [...draft.days].sort(),
+    maxRedemptions: optionalLimit(draft.maxRedemptions),
+    maxRedemptionsPerCustomer: optionalLimit(draft.maxRedemptionsPerCustomer),
+    firstOrderOnly: draft.firstOrderOnly,
+    minOrderValue: draft.minOrderValue.trim() === '' ? null : draft.minOrderValue,
+    businessIds: draft.businessIds,
+    zoneIds: draft.zoneIds,
+  };
+}
+
+function describeDiscount(promotion: Pick<Promotion, 'discountType' | 'amount'>): string {
+  const amount = parseFloat(promotion.amount ?? '') || 0;
+  switch (promotion.discountType) {
+    case 'percent':
+      return `${amount}% off`;
+    case 'flat':
+      return `$${amount.toFixed(2)} off`;
+    case 'free_delivery':
+      return 'Free delivery';
+    default:
+      return promotion.discountType;
+  }
+}
+
+function describeTerms(promotion: Promotion, businesses: Business[], zones: PromotionsCardProps['zones']): string {
+  const parts: string[] = [];
+  if (promotion.startsAt || promotion.endsAt) {
+    const from = promotion.startsAt ? format(new Date(promotion.startsAt), 'MMM d') : 'now';
+    const until = promotion.endsAt ? format(new Date(promotion.endsAt), 'MMM d') : 'no end date';
+    parts.push(`${from} – ${until}`);
+  }
+  if (promotion.days.length) parts.push(promotion.days.map((day) => DAY_LABELS[day]).join(', '));
+  if (promotion.minOrderValue) parts.push(`orders over $${parseFloat(promotion.minOrderValue).toFixed(2)}`);
+  if (promotion.businessIds.length) {
+    parts.push(`from ${promotion.businessIds.map((id) => businesses.find((b) => b.id === id)?.name ?? 'a removed business').join(' or ')}`);
+  }
+  if (promotion.zoneIds.length) {
+    parts.push(`in ${promotion.zoneIds.map((id) => zones.find((z) => z.id === id)?.name ?? 'a removed zone').join(' or ')}`);
+  }
+  if (promotion.firstOrderOnly) parts.push('first order only');
+  if (promotion.maxRedemptionsPerCustomer !== null) parts.push(`${promotion.maxRedemptionsPerCustomer} per customer`);
+  return parts.length ? parts.join(' · ') : 'Any delivery';
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+// Orders placed with one code, for the redemption report
+function RedemptionsDialog({ promotion, onClose }: { promotion: Promotion | null; onClose: () => void }) {
+  const { data: redemptions = [], isLoading } = useQuery<PromotionRedemption[]>({
+    queryKey: [`/api/admin/promotions/${promotion?.id}/redemptions`],
+    enabled: !!promotion,
+  });
+  const totalDiscount = redemptions.reduce((sum, redemption) => sum + (parseFloat(redemption.discountAmount) || 0), 0);
+
+  return (
+    <Dialog open={!!promotion} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{promotion?.code} Redemptions</DialogTitle>
+          <DialogDescription>
+            {redemptions.length} order{redemptions.length === 1 ? '' : 's'} · ${totalDiscount.toFixed(2)} in discounts
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading redemptions...</p>
+        ) : redemptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This code hasn't been used yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {redemptions.map((redemption) => (
+              <div key={redemption.id} className="flex justify-between gap-4 border-b py-2 text-sm last:border-0">
+                <span className="text-muted-foreground">{format(new Date(redemption.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                <span className="flex-1 truncate">{redemption.customerEmail}{redemption.customerId ? '' : ' (guest)'}</span>
+                <span>-${parseFloat(redemption.discountAmount).toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Promo codes customers enter at checkout - the discount comes off after the pricing rules
+export function PromotionsCard({ zones }: PromotionsCardProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<PromotionDraft | null>(null);
+  const [reportFor, setReportFor] = useState<Promotion | null>(null);
+
+  const { data: promotions = [], isLoading } = useQuery<Promotion[]>({
+    queryKey: ['/api/admin/promotions'],
+  });
+  const { data: businesses = [] } = useQuery<Business[]>({
+    queryKey: ['/api/businesses'],
+  });
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({ title: 'Error', description: getApiErrorMessage(error, fallback), variant: 'destructive' });
+  };
+
+  const savePromotionMutation = useMutation({
+    mutationFn: async (promotion: PromotionDraft) => {
+      const payload = toPayload(promotion);
+      return promotion.id
+        ? apiRequest(`/api/admin/promotions/${promotion.id}`, 'PUT', payload)
+        : apiRequest('/api/admin/promotions', 'POST', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promotions'] });
+      setDraft(null);
+      toast({ title: 'Promotion Saved', description: 'Customers can use this code from now on.' });
+    },
+    onError: onError('Failed to save promotion'),
+  });
+
+  const togglePromotionMutation = useMutation({
+    mutationFn: async (promotion: Promotion) => {
+      return apiRequest(`/api/admin/promotions/${promotion.id}`, 'PUT', toPayload({ ...toDraft(promotion), isActive: !promotion.isActive }));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/promotions'] }),
+    onError: onError('Failed to update promotion'),
+  });
+
+  const deletePromotionMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/admin/promotions/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promotions'] });
+      toast({ title: 'Promotion Deleted', description: 'The promo code has been removed.' });
+    },
+    onError: onError('Failed to delete promotion'),
+  });
+
+  const update = (changes: Partial<PromotionDraft>) => setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  const needsAmount = draft && draft.discountType !== 'free_delivery';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Promo Codes</CardTitle>
+          <CardDescription>
+            Codes customers enter when they order. The discount comes off the delivery fee after your pricing rules.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setDraft({ ...emptyDraft })}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Code
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading promo codes...</p>
+        ) : promotions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No promo codes yet.</p>
+        ) : (
+          promotions.map((promotion) => (
+            <div key={promotion.id} className={`flex items-center gap-3 rounded-lg border p-3 ${promotion.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-medium">{promotion.code}</span>
+                  <Badge variant="secondary">{describeDiscount(promotion)}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {promotion.redemptionCount}{promotion.maxRedemptions !== null ? ` / ${promotion.maxRedemptions}` : ''} used
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground truncate">{promotion.name} · {describeTerms(promotion, businesses, zones)}</p>
+              </div>
+              <Switch checked={promotion.isActive} onCheckedChange={() => togglePromotionMutation.mutate(promotion)} aria-label="Active" />
+              <Button variant="outline" size="sm" onClick={() => setReportFor(promotion)} aria-label="Redemptions">
+                <BarChart3 className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setDraft(toDraft(promotion))}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => deletePromotionMutation.mutate(promotion.id)} disabled={deletePromotionMutation.isPending}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <RedemptionsDialog promotion={reportFor} onClose={() => setReportFor(null)} />
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Promo Code' : 'New Promo Code'}</DialogTitle>
+            <DialogDescription>Leave a restriction empty to allow every delivery.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promoCode">Code</Label>
+                  <Input id="promoCode" className="font-mono uppercase" value={draft.code} placeholder="e.g. WELCOME10" onChange={(e) => update({ code: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promoName">Name</Label>
+                  <Input id="promoName" value={draft.name} placeholder="e.g. Welcome discount" onChange={(e) => update({ name: e.target.value })} />
+                  <p className="text-xs text-muted-foreground">Customers see this as a line on their price.</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Discount</Label>
+                  <Select value={draft.discountType} onValueChange={(value) => update({ discountType: value as PromotionDiscountType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROMOTION_DISCOUNT_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{DISCOUNT_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {needsAmount && (
+                  <div className="space-y-2">
+                    <Label htmlFor="promoAmount">{draft.discountType === 'percent' ? 'Percent' : 'Amount ($)'}</Label>
+                    <Input id="promoAmount" type="number" step="0.01" min="0" value={draft.amount} onChange={(e) => update({ amount: e.target.value })} />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promoStarts">Starts</Label>
+                  <Input id="promoStarts" type="datetime-local" value={draft.startsAt} onChange={(e) => update({ startsAt: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promoEnds">Ends</Label>
+                  <Input id="promoEnds" type="datetime-local" value={draft.endsAt} onChange={(e) => update({ endsAt: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Days</Label>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={draft.days.includes(day) ? 'default' : 'outline'}
+                      onClick={() => update({ days: toggle(draft.days, day) })}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">The day of delivery, in your business timezone.</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promoMaxRedemptions">Total uses</Label>
+                  <Input id="promoMaxRedemptions" type="number" step="1" min="1" placeholder="Unlimited" value={draft.maxRedemptions} onChange={(e) => update({ maxRedemptions: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promoPerCustomer">Uses per customer</Label>
+                  <Input id="promoPerCustomer" type="number" step="1" min="1" placeholder="Unlimited" value={draft.maxRedemptionsPerCustomer} onChange={(e) => update({ maxRedemptionsPerCustomer: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promoMinOrder">Min order value ($)</Label>
+                  <Input id="promoMinOrder" type="number" step="0.01" min="0" value={draft.minOrderValue} onChange={(e) => update({ minOrderValue: e.target.value })} />
+                </div>
+              </div>
+
+              {businesses.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Pickup business</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {businesses.map((business) => (
+                      <label key={business.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.businessIds.includes(business.id)}
+                          onCheckedChange={() => update({ businessIds: toggle(draft.businessIds, business.id) })}
+                        />
+                        {business.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {zones.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Service zone</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {zones.filter((zone) => zone.id).map((zone) => (
+                      <label key={zone.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.zoneIds.includes(zone.id!)}
+                          onCheckedChange={() => update({ zoneIds: toggle(draft.zoneIds, zone.id!) })}
+                        />
+                        {zone.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Switch id="promoFirstOrder" checked={draft.firstOrderOnly} onCheckedChange={(firstOrderOnly) => update({ firstOrderOnly })} />
+                <Label htmlFor="promoFirstOrder">First order only</Label>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">Only signed-in customers with no earlier deliveries can use it.</p>
+
+              <div className="flex items-center gap-2">
+                <Switch id="promoActive" checked={draft.isActive} onCheckedChange={(isActive) => update({ isActive })} />
+                <Label htmlFor="promoActive">Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => draft && savePromotionMutation.mutate(draft)}
+              disabled={!draft?.code.trim() || !draft?.name.trim() || (!!needsAmount && !draft?.amount.trim()) || savePromotionMutation.isPending}
+            >
+              {savePromotionMutation.isPending ? 'Saving...' : 'Save Code'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
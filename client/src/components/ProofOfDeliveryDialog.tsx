@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Camera, Eraser, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { DeliveryProof, DeliveryStop } from '@shared/schema';
+
+// Photos are downscaled before upload to keep requests small on mobile data
+const MAX_PHOTO_DIMENSION = 1280;
+const PHOTO_QUALITY = 0.8;
+
+export interface DeliveryProofStatus {
+  required: boolean;
+  proof: DeliveryProof | null;
+}
+
+function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(file);
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the photo'));
+    };
+    image.src = url;
+  });
+}
+
+function SignaturePad({ onChange }: { onChange: (dataUrl: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current!.getContext('2d')!;
+    const { x, y } = getPoint(event);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+    drawingRef.current = true;
+    canvasRef.current!.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = canvasRef.current!.getContext('2d')!;
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(canvasRef.current!.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={200}
+        className="w-full h-32 border rounded-md bg-white touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+        <Eraser className="h-3 w-3 mr-1" />
+        Clear
+      </Button>
+    </div>
+  );
+}
+
+interface ProofOfDeliveryDialogProps {
+  deliveryId: string;
+  driverId: string;
+  // Called once proof is saved (or skipped when not required) to mark the delivery completed
+  onComplete: () => void;
+  disabled?: boolean;
+}
+
+// "Mark Complete" for an in-progress delivery - captures photo, signature, recipient name and GPS first
+export function ProofOfDeliveryDialog({ deliveryId, driverId, onComplete, disabled }: ProofOfDeliveryDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [recipientName, setRecipientName] = useState('');
+  const [position, setPosition] = useState<GeolocationPosition | null>(null);
+
+  const { data: status } = useQuery<DeliveryProofStatus>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/proof`],
+  });
+
+  // Multi-stop deliveries can only be completed once every stop is done or skipped
+  const { data: stops = [] } = useQuery<DeliveryStop[]>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/stops`],
+  });
+  const stopsPending = stops.some(stop => stop.status === 'pending');
+
+  // Grab a GPS fix while the driver fills in the form
+  useEffect(() => {
+    if (!open || !('geolocation' in navigator)) return;
+    navigator.geolocation.getCurrentPosition(setPosition, () => setPosition(null), {
+      enableHighAccuracy: true,
+      timeout: 15000,
+    });
+  }, [open]);
+
+  const submitProofMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/driver/${driverId}/deliveries/${deliveryId}/proof`, 'POST', {
+        photo,
+        signature: signature ?? undefined,
+        recipientName,
+        latitude: position?.coords.latitude,
+        longitude: position?.coords.longitude,
+        accuracy: position?.coords.accuracy,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/delivery-requests/${deliveryId}/proof`] });
+      setOpen(false);
+      onComplete();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save proof of delivery"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handlePhotoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      setPhoto(await readPhoto(file));
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleSkip = () => {
+    setOpen(false);
+    onComplete();
+  };
+
+  const required = status?.required ?? false;
+  const canSubmit = !!photo && recipientName.trim().length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button disabled={disabled || stopsPending} className="flex-1">
+          {stopsPending ? 'Finish All Stops First' : 'Mark Complete'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Proof of Delivery</DialogTitle>
+          <DialogDescription>
+            {required
+              ? 'This delivery requires a photo and the recipient\'s name before it can be completed.'
+              : 'Optionally capture a photo and signature for this delivery.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`proof-photo-${deliveryId}`}>Photo *</Label>
+            {photo && <img src={photo} alt="Delivery" className="w-full rounded-md border" />}
+            <Label
+              htmlFor={`proof-photo-${deliveryId}`}
+              className="flex items-center justify-center gap-2 border border-dashed rounded-md p-3 cursor-pointer text-sm"
+            >
+              <Camera className="h-4 w-4" />
+              {photo ? 'Retake photo' : 'Take photo'}
+            </Label>
+            <input
+              id={`proof-photo-${deliveryId}`}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={handlePhotoChange}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`proof-recipient-${deliveryId}`}>Recipient Name *</Label>
+            <Input
+              id={`proof-recipient-${deliveryId}`}
+              value={recipientName}
+              onChange={(e) => setRecipientName(e.target.value)}
+              placeholder="Who received the delivery?"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Recipient Signature</Label>
+            <SignaturePad onChange={setSignature} />
+          </div>
+
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {position
+              ? `Location captured (±${Math.round(position.coords.accuracy)} m)`
+              : 'Location not available - proof will be saved without GPS'}
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {!required && (
+            <Button variant="outline" onClick={handleSkip}>
+              Complete Without Proof
+            </Button>
+          )}
+          <Button
+            onClick={() => submitProofMutation.mutate()}
+            disabled={!canSubmit || submitProofMutation.isPending}
+          >
+            {submitProofMutation.isPending ? 'Saving...' : 'Save & Complete'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
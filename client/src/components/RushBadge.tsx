@@ -0,0 +1,33 @@
+import { format } from 'date-fns';
+import { Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+interface RushBadgeProps {
+  isRush: boolean;
+  dueBy?: string | Date | null; // rush SLA target
+  showDue?: boolean; // Off once the delivery is finished
+}
+
+// Marks rush orders in the driver and dispatch queues, with when they're due
+export function RushBadge({ isRush, dueBy, showDue = true }: RushBadgeProps) {
+  if (!isRush) {
+    return null;
+  }
+
+  const due = dueBy ? new Date(dueBy) : null;
+  const overdue = !!due && due.getTime() < Date.now();
+
+  return (
+    <>
+      <Badge className="bg-red-600 hover:bg-red-700 text-white gap-1">
+        <Zap className="h-3 w-3" />
+        RUSH
+      </Badge>
+      {showDue && due && !isNaN(due.getTime()) && (
+        <Badge variant="outline" className={overdue ? 'text-red-600 border-red-600' : 'text-orange-600 border-orange-600'}>
+          {overdue ? `Overdue since ${format(due, 'h:mm a')}` : `Due by ${format(due, 'h:mm a')}`}
+        </Badge>
+      )}
+    </>
+  );
+}
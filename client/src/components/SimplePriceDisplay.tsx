@@ -3,6 +3,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { DollarSign, Info } from 'lucide-react';
 import { Link } from 'wouter';
+import type { MapsProviderName, QuoteLineItem } from '@shared/schema';
 
 interface PriceResult {
   distance: number;
@@ -15,6 +16,14 @@ interface PriceResult {
     baseFeeRadius: number;
     extraMiles: number;
   };
+  // Service zone the delivery address fell in, when the business uses zones
+  zone?: { name: string; estimatedTime: number } | null;
+  // One per leg when the route has extra stops
+  legs?: { from: string; to: string; distance: number; fee: number }[];
+  // Itemized charges from the server's quote; they add up to deliveryFee
+  breakdown?: QuoteLineItem[];
+  // 'haversine' when the maps provider was unavailable and distances are straight-line estimates
+  distanceProvider?: MapsProviderName | null;
 }
 
 interface SimplePriceDisplayProps {
@@ -28,7 +37,8 @@ export function SimplePriceDisplay({ result, isRush, className }: SimplePriceDis
     return null;
   }
 
-  const finalPrice = isRush ? result.deliveryFee * 1.5 : result.deliveryFee;
+  // The server prices rush orders itself, so deliveryFee already includes the rush rate
+  const finalPrice = result.deliveryFee;
 
   return (
     <Card className={className}>
@@ -44,7 +54,7 @@ export function SimplePriceDisplay({ result, isRush, className }: SimplePriceDis
             </p>
             {isRush && (
               <Badge variant="secondary" className="mt-1">
-                1.5× Rush Rate
+                Rush Rate
               </Badge>
             )}
           </div>
@@ -54,6 +64,9 @@ export function SimplePriceDisplay({ result, isRush, className }: SimplePriceDis
             <div className="text-sm text-muted-foreground">
               {result.distance.toFixed(1)} miles • {result.duration} minutes
             </div>
+            {result.distanceProvider === 'haversine' && (
+              <p className="text-xs text-muted-foreground">Estimated distance - the exact route couldn't be looked up</p>
+            )}
             {result.isWithinBaseRadius && (
               <Badge variant="default" className="bg-green-100 text-green-800">
                 Within base fee radius
@@ -61,6 +74,37 @@ export function SimplePriceDisplay({ result, isRush, className }: SimplePriceDis
             )}
           </div>
 
+          {result.zone && (
+            <div className="text-center text-sm text-muted-foreground">
+              {result.zone.name} zone • about {result.zone.estimatedTime} minutes
+            </div>
+          )}
+
+          {result.breakdown && result.breakdown.length > 0 && (
+            <div className="border-t pt-4 space-y-1">
+              {result.breakdown.map((item, index) => (
+                <div key={index} className="flex justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">{item.label}</span>
+                  <span className={item.amount < 0 ? 'text-green-600' : undefined}>
+                    {item.amount < 0 ? '-' : ''}${Math.abs(item.amount).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Per-leg breakdown for multi-stop routes */}
+          {result.legs && result.legs.length > 1 && (
+            <div className="border-t pt-4 space-y-1">
+              {result.legs.map((leg, index) => (
+                <div key={index} className="flex justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="truncate">Leg {index + 1}: {leg.to}</span>
+                  <span className="whitespace-nowrap">{leg.distance.toFixed(1)} mi • ${leg.fee.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Pricing Details Link */}
           <div className="border-t pt-4 text-center">
             <Link href="/pricing">
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorBody } from '@/lib/queryClient';
+import { ConnectionTestNotice, type ConnectionTestResult } from '@/components/ConnectionTestNotice';
+
+// Square settings as the admin settings endpoint returns them - secrets arrive masked to their last 4 characters
+export interface SquareSettings {
+  accessToken?: string;
+  applicationId?: string | null;
+  locationId?: string | null;
+  environment?: string;
+  configured?: boolean;
+  webhookSignatureKey?: string;
+  webhookUrl?: string | null;
+  webhookConfigured?: boolean;
+}
+
+const errorText = (error: unknown, fallback: string) => getApiErrorBody(error)?.error || fallback;
+
+// Connect the tenant's own Square account. Saved secrets are never sent back - leave a field blank to keep it.
+export function SquareSettingsCard({ settings }: { settings?: SquareSettings }) {
+  const queryClient = useQueryClient();
+  const [accessToken, setAccessToken] = useState('');
+  const [applicationId, setApplicationId] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [environment, setEnvironment] = useState('sandbox');
+  const [webhookSignatureKey, setWebhookSignatureKey] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+
+  useEffect(() => {
+    setApplicationId(settings?.applicationId || '');
+    setLocationId(settings?.locationId || '');
+    setEnvironment(settings?.environment || 'sandbox');
+    setWebhookUrl(settings?.webhookUrl || '');
+  }, [settings]);
+
+  const credentials = {
+    squareAccessToken: accessToken || undefined,
+    squareApplicationId: applicationId,
+    squareLocationId: locationId,
+    squareEnvironment: environment,
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/api/admin/square-settings', 'POST', {
+        ...credentials,
+        ...(webhookSignatureKey && { squareWebhookSignatureKey: webhookSignatureKey }),
+        squareWebhookUrl: webhookUrl,
+      }),
+    onSuccess: () => {
+      setAccessToken('');
+      setWebhookSignatureKey('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/business-settings'] });
+      toast({ title: 'Square Connected', description: 'Your Square credentials were saved.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorText(error, 'Failed to save Square settings'), variant: 'destructive' });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (): Promise<ConnectionTestResult> => {
+      const response = await apiRequest('/api/admin/square-settings/test', 'POST', credentials);
+      return response.json();
+    },
+    onSuccess: setTestResult,
+    onError: (error) => setTestResult({ success: false, error: errorText(error, 'Failed to test the connection') }),
+  });
+
+  const hasToken = !!accessToken || !!settings?.accessToken;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Square Payments</CardTitle>
+          <Badge variant={settings?.configured ? 'default' : 'secondary'}>
+            {settings?.configured ? 'Connected' : 'Not connected'}
+          </Badge>
+        </div>
+        <CardDescription>Take card payments, tips and refunds through your own Square account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="squareAccessToken">Access Token</Label>
+            <Input
+              id="squareAccessToken"
+              type="password"
+              autoComplete="off"
+              placeholder={settings?.accessToken ? `Saved (${settings.accessToken}) - enter a new one to replace it` : 'EAAA...'}
+              value={accessToken}
+              onChange={(e) => setAccessToken(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="squareEnvironment">Environment</Label>
+            <Select value={environment} onValueChange={setEnvironment}>
+              <SelectTrigger id="squareEnvironment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sandbox">Sandbox</SelectItem>
+                <SelectItem value="production">Production</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="squareApplicationId">Application ID</Label>
+            <Input id="squareApplicationId" value={applicationId} onChange={(e) => setApplicationId(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="squareLocationId">Location ID</Label>
+            <Input id="squareLocationId" value={locationId} onChange={(e) => setLocationId(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="squareWebhookSignatureKey">Webhook Signature Key</Label>
+            <Input
+              id="squareWebhookSignatureKey"
+              type="password"
+              autoComplete="off"
+              placeholder={settings?.webhookSignatureKey ? `Saved (${settings.webhookSignatureKey})` : 'Optional'}
+              value={webhookSignatureKey}
+              onChange={(e) => setWebhookSignatureKey(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="squareWebhookUrl">Webhook Notification URL</Label>
+            <Input
+              id="squareWebhookUrl"
+              placeholder="Only if it differs from this site's address"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {testResult && <ConnectionTestNotice result={testResult} />}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!hasToken || !applicationId || !locationId || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Square Settings'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={!hasToken || !locationId || testMutation.isPending}
+          >
+            {testMutation.isPending ? 'Testing...' : 'Test Connection'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorBody } from '@/lib/queryClient';
+import { ConnectionTestNotice, type ConnectionTestResult } from '@/components/ConnectionTestNotice';
+
+// Stripe settings as the admin settings endpoint returns them - secrets arrive masked to their last 4 characters
+export interface StripeSettings {
+  secretKey?: string;
+  publishableKey?: string | null;
+  webhookSecret?: string;
+  configured?: boolean;
+  webhookConfigured?: boolean;
+}
+
+const errorText = (error: unknown, fallback: string) => getApiErrorBody(error)?.error || fallback;
+
+// Connect the tenant's own Stripe account. Saved secrets are never sent back - leave a field blank to keep it.
+export function StripeSettingsCard({ settings }: { settings?: StripeSettings }) {
+  const queryClient = useQueryClient();
+  const [secretKey, setSecretKey] = useState('');
+  const [publishableKey, setPublishableKey] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+
+  useEffect(() => {
+    setPublishableKey(settings?.publishableKey || '');
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/api/admin/stripe-settings', 'POST', {
+        stripeSecretKey: secretKey || undefined,
+        stripePublishableKey: publishableKey,
+        ...(webhookSecret && { stripeWebhookSecret: webhookSecret }),
+      }),
+    onSuccess: () => {
+      setSecretKey('');
+      setWebhookSecret('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/business-settings'] });
+      toast({ title: 'Stripe Connected', description: 'Your Stripe keys were saved.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorText(error, 'Failed to save Stripe settings'), variant: 'destructive' });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (): Promise<ConnectionTestResult> => {
+      const response = await apiRequest('/api/admin/stripe-settings/test', 'POST', { stripeSecretKey: secretKey || undefined });
+      return response.json();
+    },
+    onSuccess: setTestResult,
+    onError: (error) => setTestResult({ success: false, error: errorText(error, 'Failed to test the connection') }),
+  });
+
+  const hasSecretKey = !!secretKey || !!settings?.secretKey;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Stripe Payments</CardTitle>
+          <Badge variant={settings?.configured ? 'default' : 'secondary'}>
+            {settings?.configured ? 'Connected' : 'Not connected'}
+          </Badge>
+        </div>
+        <CardDescription>Take card payments, tips and refunds through your own Stripe account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="stripeSecretKey">Secret Key</Label>
+            <Input
+              id="stripeSecretKey"
+              type="password"
+              autoComplete="off"
+              placeholder={settings?.secretKey ? `Saved (${settings.secretKey}) - enter a new one to replace it` : 'sk_live_...'}
+              value={secretKey}
+              onChange={(e) => setSecretKey(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stripePublishableKey">Publishable Key</Label>
+            <Input
+              id="stripePublishableKey"
+              placeholder="pk_live_..."
+              value={publishableKey}
+              onChange={(e) => setPublishableKey(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stripeWebhookSecret">Webhook Signing Secret</Label>
+            <Input
+              id="stripeWebhookSecret"
+              type="password"
+              autoComplete="off"
+              placeholder={settings?.webhookSecret ? `Saved (${settings.webhookSecret})` : 'Needed to confirm payments - whsec_...'}
+              value={webhookSecret}
+              onChange={(e) => setWebhookSecret(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {testResult && <ConnectionTestNotice result={testResult} />}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!hasSecretKey || !publishableKey || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Stripe Settings'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={!hasSecretKey || testMutation.isPending}
+          >
+            {testMutation.isPending ? 'Testing...' : 'Test Connection'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
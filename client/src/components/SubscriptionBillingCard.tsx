@@ -0,0 +1,173 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { PAID_PLAN_TYPES, SUBSCRIPTION_PLANS, type PaidPlanType, type SubscriptionPlan, type TenantBillingEvent } from '@shared/schema';
+
+interface BillingOverview {
+  planType: string;
+  billingStatus: string;
+  plan: SubscriptionPlan;
+  trialEndDate: string | null;
+  nextBillingDate: string | null;
+  pastDueAt: string | null;
+  cancelsAt: string | null;
+  readOnly: boolean;
+  usage: { driversOnDuty: number; deliveriesThisMonth: number };
+  history: TenantBillingEvent[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  trial: 'Free trial',
+  active: 'Active',
+  past_due: 'Past due',
+  cancelled: 'Cancelled',
+};
+
+const formatDay = (date: string | Date) => format(new Date(date), 'MMM d, yyyy');
+
+function UsageMeter({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">{limit === null ? `${used} (unlimited)` : `${used} of ${limit}`}</span>
+      </div>
+      {limit !== null && <Progress value={Math.min(100, (used / limit) * 100)} />}
+    </div>
+  );
+}
+
+// The business's subscription: plan and status, usage against the plan's limits, plan changes and billing history
+export function SubscriptionBillingCard() {
+  const queryClient = useQueryClient();
+  const { data: billing, isLoading, error } = useQuery<BillingOverview>({
+    queryKey: ['/api/admin/billing'],
+  });
+
+  const planMutation = useMutation({
+    mutationFn: async (planType: PaidPlanType): Promise<BillingOverview & { checkoutUrl: string | null }> => {
+      const response = await apiRequest('/api/admin/billing/plan', 'PUT', { planType });
+      return response.json();
+    },
+    onSuccess: ({ checkoutUrl, ...overview }, planType) => {
+      // Plan changes take effect once they're paid - the new plan shows when Stripe confirms the payment
+      if (checkoutUrl) {
+        window.location.href = checkoutUrl;
+        return;
+      }
+      queryClient.setQueryData(['/api/admin/billing'], overview);
+      toast({
+        title: 'Plan Change Requested',
+        description: `You'll move to the ${SUBSCRIPTION_PLANS[planType].name} plan as soon as the payment for the change goes through.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Failed to change plan'), variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-center text-muted-foreground py-8">Loading billing...</p>;
+  }
+  if (!billing) {
+    return <p className="text-center text-muted-foreground py-8">{getApiErrorMessage(error, 'Billing is not available for this business.')}</p>;
+  }
+
+  const lapsed = billing.billingStatus === 'past_due' || billing.billingStatus === 'cancelled';
+
+  const planAction = (planType: PaidPlanType) => {
+    if (billing.billingStatus === 'active') {
+      return SUBSCRIPTION_PLANS[planType].monthlyPrice > billing.plan.monthlyPrice ? 'Upgrade' : 'Downgrade';
+    }
+    return lapsed ? 'Reactivate' : 'Choose plan';
+  };
+
+  return (
+    <div className="space-y-6">
+      {lapsed && (
+        <div className="flex items-start gap-3 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+          <AlertTriangle className="h-5 w-5 shrink-0" />
+          <p>
+            {billing.readOnly
+              ? 'Your account is read-only: customers can\'t place orders and settings can\'t be changed. Choose a plan to reactivate it.'
+              : `Your trial has ended. Choose a plan by ${billing.cancelsAt ? formatDay(billing.cancelsAt) : 'the end of the grace period'} or your account becomes read-only.`}
+          </p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>{billing.plan.name}</CardTitle>
+            <Badge variant={lapsed ? 'destructive' : billing.billingStatus === 'active' ? 'default' : 'secondary'}>
+              {STATUS_LABELS[billing.billingStatus] ?? billing.billingStatus}
+            </Badge>
+          </div>
+          <CardDescription>
+            {billing.billingStatus === 'trial' && billing.trialEndDate && `Your free trial ends ${formatDay(billing.trialEndDate)}.`}
+            {billing.billingStatus === 'active' && `$${billing.plan.monthlyPrice}/month${billing.nextBillingDate ? ` - next bill ${formatDay(billing.nextBillingDate)}` : ''}`}
+            {billing.billingStatus === 'past_due' && billing.pastDueAt && `Past due since ${formatDay(billing.pastDueAt)}.`}
+            {billing.billingStatus === 'cancelled' && 'Cancelled - your data is kept until you reactivate.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <UsageMeter label="Deliveries this month" used={billing.usage.deliveriesThisMonth} limit={billing.plan.deliveriesPerMonth} />
+          <UsageMeter label="Drivers on duty" used={billing.usage.driversOnDuty} limit={billing.plan.drivers} />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {PAID_PLAN_TYPES.map((planType) => {
+          const plan = SUBSCRIPTION_PLANS[planType];
+          const isCurrent = billing.billingStatus === 'active' && billing.planType === planType;
+          return (
+            <Card key={planType} className={isCurrent ? 'ring-2 ring-primary' : ''}>
+              <CardHeader>
+                <CardTitle className="text-lg">{plan.name}</CardTitle>
+                <CardDescription>
+                  <span className="text-2xl font-bold text-foreground">${plan.monthlyPrice}</span>/month
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  <li>{plan.deliveriesPerMonth === null ? 'Unlimited deliveries' : `Up to ${plan.deliveriesPerMonth} deliveries/month`}</li>
+                  <li>{plan.drivers === null ? 'Unlimited drivers' : `Up to ${plan.drivers} drivers on duty`}</li>
+                </ul>
+                <Button
+                  className="w-full"
+                  variant={isCurrent ? 'outline' : 'default'}
+                  onClick={() => planMutation.mutate(planType)}
+                  disabled={isCurrent || planMutation.isPending}
+                >
+                  {isCurrent ? 'Current plan' : planAction(planType)}
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {billing.history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Billing History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {billing.history.map((event) => (
+              <div key={event.id} className="flex justify-between gap-4 border-b py-2 text-sm last:border-0">
+                <span>{event.message}</span>
+                <span className="text-muted-foreground whitespace-nowrap">{formatDay(event.createdAt)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MAX_TIP_AMOUNT, TIP_PRESET_PERCENTAGES } from '@shared/schema';
+
+interface TipSelectorProps {
+  baseAmount: number; // what the percentages are of - the delivery fee
+  value: number;
+  onChange: (amount: number) => void;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Preset percentages of the delivery fee, or a custom dollar amount
+export function TipSelector({ baseAmount, value, onChange }: TipSelectorProps) {
+  const [custom, setCustom] = useState<string | null>(null);
+  const presets = baseAmount > 0 ? TIP_PRESET_PERCENTAGES.map((percent) => ({ percent, amount: roundCents(baseAmount * percent / 100) })) : [];
+
+  const choose = (amount: number) => {
+    setCustom(null);
+    onChange(amount);
+  };
+
+  const setCustomAmount = (text: string) => {
+    setCustom(text);
+    const amount = parseFloat(text);
+    onChange(isNaN(amount) || amount < 0 ? 0 : Math.min(roundCents(amount), MAX_TIP_AMOUNT));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" variant={custom === null && value === 0 ? 'default' : 'outline'} onClick={() => choose(0)}>
+          No tip
+        </Button>
+        {presets.map(({ percent, amount }) => (
+          <Button
+            key={percent}
+            type="button"
+            size="sm"
+            variant={custom === null && value === amount && amount > 0 ? 'default' : 'outline'}
+            onClick={() => choose(amount)}
+          >
+            {percent}% (${amount.toFixed(2)})
+          </Button>
+        ))}
+        <Button type="button" size="sm" variant={custom !== null ? 'default' : 'outline'} onClick={() => setCustomAmount(value ? String(value) : '')}>
+          Custom
+        </Button>
+      </div>
+      {custom !== null && (
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          max={MAX_TIP_AMOUNT}
+          placeholder="Tip amount ($)"
+          value={custom}
+          onChange={(e) => setCustomAmount(e.target.value)}
+          className="max-w-[200px]"
+        />
+      )}
+      <p className="text-xs text-muted-foreground">All of your tip goes to your driver.</p>
+    </div>
+  );
+}
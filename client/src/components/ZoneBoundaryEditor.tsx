@@ -0,0 +1,290 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { AlertTriangle, Minus, Plus, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TILE_SIZE, project, unproject, getVisibleTiles } from '@/lib/webMercator';
+import { getPolygons, validateZoneBoundary } from '@shared/zoneGeometry';
+import type { ZoneBoundary } from '@shared/schema';
+
+export interface BackgroundZone {
+  id: string;
+  name: string;
+  boundaries: ZoneBoundary | null;
+}
+
+interface ZoneBoundaryEditorProps {
+  value: ZoneBoundary | null;
+  onChange: (boundary: ZoneBoundary | null) => void;
+  otherZones?: BackgroundZone[]; // Drawn in gray so overlaps are visible while editing
+  height?: number;
+}
+
+type Vertex = [number, number]; // [longitude, latitude], same order as GeoJSON
+
+const MAX_ZOOM = 18;
+const MIN_ZOOM = 3;
+const DEFAULT_CENTER = { latitude: 39.5, longitude: -98.35 };
+const CLICK_TOLERANCE = 4; // px a press can move and still count as a click
+
+// Open ring of the first polygon - the editor works on one polygon at a time
+function toVertices(boundary: ZoneBoundary | null): Vertex[] {
+  if (!boundary) return [];
+  const ring = getPolygons(boundary)[0]?.[0] || [];
+  return ring.slice(0, -1).map(([lng, lat]) => [lng, lat]);
+}
+
+function toBoundary(vertices: Vertex[]): ZoneBoundary | null {
+  if (vertices.length < 3) return null;
+  return { type: 'Polygon', coordinates: [[...vertices, vertices[0]]] };
+}
+
+// Center and zoom that fit the given points, or the whole country when there's nothing to show
+function fitView(points: Vertex[], width: number, height: number) {
+  if (points.length === 0 || width === 0) return { center: DEFAULT_CENTER, zoom: 4 };
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  const center = {
+    latitude: (Math.min(...lats) + Math.max(...lats)) / 2,
+    longitude: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  };
+  for (let zoom = 15; zoom > MIN_ZOOM; zoom--) {
+    const projected = points.map(([lng, lat]) => project(lat, lng, zoom));
+    const spanX = Math.max(...projected.map((p) => p.x)) - Math.min(...projected.map((p) => p.x));
+    const spanY = Math.max(...projected.map((p) => p.y)) - Math.min(...projected.map((p) => p.y));
+    if (spanX <= width - 80 && spanY <= height - 80) return { center, zoom };
+  }
+  return { center, zoom: MIN_ZOOM };
+}
+
+// Click the map to add corners, drag a corner to move it, double-click a corner to remove it
+export function ZoneBoundaryEditor({ value, onChange, otherZones = [], height = 420 }: ZoneBoundaryEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [vertices, setVertices] = useState<Vertex[]>(() => toVertices(value));
+  const [history, setHistory] = useState<Vertex[][]>([]);
+  const [view, setView] = useState<{ center: typeof DEFAULT_CENTER; zoom: number } | null>(null);
+  const pointer = useRef<{ startX: number; startY: number; moved: boolean; vertex: number | null; center: typeof DEFAULT_CENTER } | null>(null);
+
+  const isMultiPolygon = value?.type === 'MultiPolygon' && value.coordinates.length > 1;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => setWidth(entries[0].contentRect.width));
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit once the container has a size: this zone first, otherwise the tenant's other zones
+  useEffect(() => {
+    if (width === 0 || view) return;
+    const others = otherZones.flatMap((zone) =>
+      zone.boundaries ? getPolygons(zone.boundaries).flatMap((polygon) => polygon[0] as Vertex[]) : []
+    );
+    setView(fitView(vertices.length > 0 ? vertices : others, width, height));
+  }, [width, view, vertices, otherZones, height]);
+
+  const zoom = view?.zoom ?? 4;
+  const centerPoint = project((view?.center ?? DEFAULT_CENTER).latitude, (view?.center ?? DEFAULT_CENTER).longitude, zoom);
+  const left = centerPoint.x - width / 2;
+  const top = centerPoint.y - height / 2;
+  const tiles = width > 0 ? getVisibleTiles(zoom, left, top, width, height) : [];
+
+  const toScreen = ([lng, lat]: number[]) => {
+    const p = project(lat, lng, zoom);
+    return { x: p.x - left, y: p.y - top };
+  };
+  const toLngLat = (x: number, y: number): Vertex => {
+    const { latitude, longitude } = unproject(x + left, y + top, zoom);
+    return [Number(longitude.toFixed(6)), Number(latitude.toFixed(6))];
+  };
+
+  const commit = (next: Vertex[], recordHistory = true) => {
+    if (recordHistory) setHistory((h) => [...h, vertices]);
+    setVertices(next);
+    onChange(toBoundary(next));
+  };
+
+  const localPosition = (e: PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: PointerEvent, vertex: number | null = null) => {
+    if (isMultiPolygon || !view) return;
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    pointer.current = { startX: e.clientX, startY: e.clientY, moved: false, vertex, center: view.center };
+    if (vertex !== null) setHistory((h) => [...h, vertices]);
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const state = pointer.current;
+    if (!state || !view) return;
+    const dx = e.clientX - state.startX;
+    const dy = e.clientY - state.startY;
+    if (!state.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+    state.moved = true;
+
+    if (state.vertex !== null) {
+      const { x, y } = localPosition(e);
+      const next = vertices.map((v, i) => (i === state.vertex ? toLngLat(x, y) : v));
+      commit(next, false);
+    } else {
+      const start = project(state.center.latitude, state.center.longitude, zoom);
+      setView({ zoom, center: unproject(start.x - dx, start.y - dy, zoom) });
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    const state = pointer.current;
+    pointer.current = null;
+    if (!state || state.moved) return;
+    if (state.vertex !== null) {
+      // A press on a corner that never moved shouldn't leave an undo step behind
+      setHistory((h) => h.slice(0, -1));
+      return;
+    }
+    const { x, y } = localPosition(e);
+    commit([...vertices, toLngLat(x, y)]);
+  };
+
+  const removeVertex = (index: number) => {
+    commit(vertices.filter((_, i) => i !== index));
+  };
+
+  const undo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory((h) => h.slice(0, -1));
+    setVertices(previous);
+    onChange(toBoundary(previous));
+  };
+
+  const changeZoom = (delta: number) => {
+    if (!view) return;
+    setView({ ...view, zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom + delta)) });
+  };
+
+  const boundary = toBoundary(vertices);
+  const errors = vertices.length === 0 ? [] : boundary ? validateZoneBoundary(boundary) : ['Add at least 3 corners'];
+  const outline = vertices.map(toScreen);
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden rounded-lg bg-gray-100 touch-none select-none cursor-crosshair"
+        style={{ height }}
+        onPointerDown={(e) => handlePointerDown(e)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {tiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.src}
+            alt=""
+            draggable={false}
+            className="absolute pointer-events-none"
+            style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+        {width > 0 && (
+          <svg className="absolute inset-0" width={width} height={height}>
+            {otherZones.flatMap((zone) =>
+              zone.boundaries
+                ? getPolygons(zone.boundaries).map((polygon, i) => (
+                    <polygon
+                      key={`${zone.id}-${i}`}
+                      points={polygon[0].map(toScreen).map((p) => `${p.x},${p.y}`).join(' ')}
+                      className="fill-gray-500/20 stroke-gray-500 pointer-events-none"
+                      strokeWidth={1.5}
+                    >
+                      <title>{zone.name}</title>
+                    </polygon>
+                  ))
+                : []
+            )}
+            {isMultiPolygon &&
+              value &&
+              getPolygons(value).map((polygon, i) => (
+                <polygon
+                  key={i}
+                  points={polygon[0].map(toScreen).map((p) => `${p.x},${p.y}`).join(' ')}
+                  className="fill-blue-500/20 stroke-blue-600 pointer-events-none"
+                  strokeWidth={2}
+                />
+              ))}
+            {outline.length > 1 && (
+              <polygon
+                points={outline.map((p) => `${p.x},${p.y}`).join(' ')}
+                className={`pointer-events-none ${errors.length > 0 ? 'fill-red-500/20 stroke-red-600' : 'fill-blue-500/20 stroke-blue-600'}`}
+                strokeWidth={2}
+              />
+            )}
+            {outline.map((p, i) => (
+              <circle
+                key={i}
+                cx={p.x}
+                cy={p.y}
+                r={6}
+                className="fill-white stroke-blue-600 cursor-move"
+                strokeWidth={2}
+                onPointerDown={(e) => handlePointerDown(e, i)}
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  removeVertex(i);
+                }}
+              />
+            ))}
+          </svg>
+        )}
+        <div className="absolute top-2 right-2 flex flex-col gap-1" onPointerDown={(e) => e.stopPropagation()}>
+          <Button type="button" size="icon" variant="secondary" className="h-8 w-8" onClick={() => changeZoom(1)} aria-label="Zoom in">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button type="button" size="icon" variant="secondary" className="h-8 w-8" onClick={() => changeZoom(-1)} aria-label="Zoom out">
+            <Minus className="h-4 w-4" />
+          </Button>
+        </div>
+        <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-600">
+          © OpenStreetMap contributors
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {isMultiPolygon
+            ? 'This zone has several areas (imported from GeoJSON). Clear it to draw a single area here.'
+            : 'Click the map to add corners. Drag a corner to move it, double-click to remove it. Drag the map to pan.'}
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <Button type="button" size="sm" variant="outline" onClick={undo} disabled={history.length === 0}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setHistory([]);
+              setVertices([]);
+              onChange(null);
+            }}
+            disabled={vertices.length === 0 && !isMultiPolygon}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {errors.length > 0 && !isMultiPolygon && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{errors.join('. ')}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Link } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,13 +15,21 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
-import { insertDeliveryRequestGuestSchema, insertDeliveryRequestAuthenticatedSchema, PREDEFINED_PAYMENT_METHODS } from '@shared/schema';
-import { Loader2, Gift, User, LogIn, Star, MapPin, Phone, Globe } from 'lucide-react';
+import { apiRequest, getApiErrorBody, getApiErrorMessage } from '@/lib/queryClient';
+import { insertDeliveryRequestGuestSchema, insertDeliveryRequestAuthenticatedSchema, PREDEFINED_PAYMENT_METHODS, MAX_ADDITIONAL_STOPS, type DeliveryStopInput } from '@shared/schema';
+import { Loader2, Gift, User, LogIn, Star, MapPin, Phone, Globe, Plus, Trash2 } from 'lucide-react';
 import { z } from 'zod';
 import { AddressInput } from '@/components/AddressInput';
 import { SimplePriceDisplay } from '@/components/SimplePriceDisplay';
+import { TipSelector } from '@/components/TipSelector';
+import { OrderEligibilityNotice, type OpenWindow } from '@/components/OrderEligibilityNotice';
 
+interface DeliverySlotsResponse {
+  enabled: boolean;
+  date: string;
+  timezone: string;
+  slots: { start: string; end: string; label: string; capacity: number; remaining: number; available: boolean }[];
+}
 
 interface ReviewModalProps {
   isOpen: boolean;
@@ -33,9 +41,11 @@ interface ReviewModalProps {
   businessSettings: any;
   selectedPaymentMethod: string;
   setSelectedPaymentMethod: (method: string) => void;
-  onSubmit: (isPaid?: boolean, paymentResult?: any) => void;
+  onSubmit: () => void;
   submitting: boolean;
   user: any;
+  tipAmount: number;
+  setTipAmount: (amount: number) => void;
 }
 
 function ReviewModal({
@@ -50,7 +60,9 @@ function ReviewModal({
   setSelectedPaymentMethod,
   onSubmit,
   submitting,
-  user
+  user,
+  tipAmount,
+  setTipAmount
 }: ReviewModalProps) {
 
   
@@ -58,10 +70,7 @@ function ReviewModal({
   const getAvailablePaymentMethods = () => {
     const acceptedMethods = businessSettings?.acceptedPaymentMethods || ['cash_on_delivery', 'card_on_delivery'];
     
-    // Filter out online_payment temporarily until Stripe integration is added
-    const filteredMethods = acceptedMethods.filter((method: string) => method !== 'online_payment');
-    
-    return filteredMethods.map((method: string) => {
+    return acceptedMethods.map((method: string) => {
       const predefined = PREDEFINED_PAYMENT_METHODS.find(p => p.value === method);
       return {
         value: method,
@@ -70,12 +79,6 @@ function ReviewModal({
     });
   };
 
-  const handlePayNow = () => {
-    // For now, all payments are handled as cash/card on delivery
-    // Online payment integration will be added in future enhancement
-    onSubmit(false);
-  };
-
 
 
   const total = priceCalculation?.deliveryFee || 0;
@@ -88,7 +91,7 @@ function ReviewModal({
   }, [businessSettings, selectedPaymentMethod, setSelectedPaymentMethod]);
 
   const handleSubmit = () => {
-    onSubmit(false);
+    onSubmit();
     onOpenChange(false);
   };
 
@@ -124,9 +127,21 @@ function ReviewModal({
             <div className="bg-gray-50 p-4 rounded-lg space-y-2">
               <p><strong>Business:</strong> {selectedBusiness?.name}</p>
               <p><strong>Pickup Address:</strong> {formData?.pickupAddress}</p>
+              {formData?.stops?.map((stop: DeliveryStopInput, index: number) => (
+                <p key={index}>
+                  <strong>Stop {index + 1} ({stop.type === 'pickup' ? 'Pickup' : 'Drop-off'}):</strong> {stop.address}
+                  {stop.notes && <span className="text-sm text-gray-600"> - {stop.notes}</span>}
+                </p>
+              ))}
               <p><strong>Delivery Address:</strong> {formData?.deliveryAddress}</p>
-              <p><strong>Date:</strong> {formData?.preferredDate}</p>
-              <p><strong>Time:</strong> {formData?.preferredTime || 'ASAP'}</p>
+              {formData?.openWindow ? (
+                <p><strong>Pickup:</strong> When we open, {formData.openWindow.label}</p>
+              ) : (
+                <>
+                  <p><strong>Date:</strong> {formData?.preferredDate}</p>
+                  <p><strong>Time:</strong> {formData?.preferredTime || 'ASAP'}</p>
+                </>
+              )}
               {formData?.specialInstructions && (
                 <p><strong>Special Instructions:</strong> {formData.specialInstructions}</p>
               )}
@@ -140,12 +155,23 @@ function ReviewModal({
               <div className="bg-gray-50 p-4 rounded-lg">
                 <SimplePriceDisplay
                   result={priceCalculation}
-                  isRush={false}
+                  isRush={formData?.isRush === true}
                 />
               </div>
             </div>
           )}
 
+          {/* Driver tip - kept apart from the delivery fee, and only taken on the online payment invoice */}
+          {selectedPaymentMethod === 'online_payment' && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-lg">Tip Your Driver</h3>
+              <TipSelector baseAmount={total} value={tipAmount} onChange={setTipAmount} />
+              {tipAmount > 0 && (
+                <p className="text-sm font-medium">Total with tip: ${(total + tipAmount).toFixed(2)}</p>
+              )}
+            </div>
+          )}
+
           {/* Payment Method Selection */}
           <div className="space-y-4">
             <h3 className="font-semibold text-lg">Payment Method</h3>
@@ -206,6 +232,21 @@ export function EnhancedDeliveryForm() {
   const [reviewModalOpen, setReviewModalOpen] = useState(false);
   const [formData, setFormData] = useState<any>(null);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
+  const [trackingToken, setTrackingToken] = useState<string | null>(null);
+  const [invoiceUrl, setInvoiceUrl] = useState<string | null>(null);
+  const [stops, setStops] = useState<DeliveryStopInput[]>([]);
+  const [slotStart, setSlotStart] = useState<string | null>(null);
+  const [serviceAreaError, setServiceAreaError] = useState<string | null>(null);
+  const [minimumOrderError, setMinimumOrderError] = useState<string | null>(null);
+  // Promo code as typed, and the one sent for pricing once the customer applies it
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [tipAmount, setTipAmount] = useState(0);
+  // Opening time booked after being told the business is closed (tenants without delivery slots)
+  const [openWindow, setOpenWindow] = useState<OpenWindow | null>(null);
+  // Slot chosen from "Book for then" on another date - applied once the date change has cleared the old slot
+  const pendingSlot = useRef<OpenWindow | null>(null);
+  const queryClient = useQueryClient();
   
   // Fetch businesses
   const { data: businesses, isLoading: businessesLoading } = useQuery({
@@ -221,6 +262,8 @@ export function EnhancedDeliveryForm() {
 
 
   
+  const scheduledDeliveriesEnabled = businessSettings?.features?.scheduledDeliveries === true;
+  
   const schema = user ? insertDeliveryRequestAuthenticatedSchema : insertDeliveryRequestGuestSchema;
   
   const form = useForm({
@@ -236,6 +279,8 @@ export function EnhancedDeliveryForm() {
       preferredTime: '',
       paymentMethod: '',
       specialInstructions: '',
+      orderValue: '',
+      isRush: false,
       saveProfile: false,
       useStoredPayment: false,
     },
@@ -264,6 +309,57 @@ export function EnhancedDeliveryForm() {
     }
   };
 
+  // Real slot availability for the chosen date when the business takes scheduled orders
+  const preferredDate = form.watch('preferredDate');
+  const { data: slotData, isLoading: slotsLoading } = useQuery<DeliverySlotsResponse>({
+    queryKey: [`/api/delivery-slots?date=${preferredDate}`],
+    enabled: scheduledDeliveriesEnabled && !!preferredDate,
+    staleTime: 30000,
+    refetchInterval: 60000,
+  });
+
+  // A slot picked for another date no longer applies
+  useEffect(() => {
+    const pending = pendingSlot.current;
+    pendingSlot.current = null;
+    if (pending?.slotStart && pending.date === preferredDate) {
+      setSlotStart(pending.slotStart);
+      form.setValue('preferredTime', pending.label);
+      return;
+    }
+    setSlotStart(null);
+    if (scheduledDeliveriesEnabled) {
+      form.setValue('preferredTime', '');
+    }
+  }, [preferredDate, scheduledDeliveriesEnabled]);
+
+  // Take the next open window the server suggested: a delivery slot, or the next opening time
+  const bookNextWindow = (next: OpenWindow) => {
+    if (next.slotStart) {
+      if (next.date === preferredDate) {
+        setSlotStart(next.slotStart);
+        form.setValue('preferredTime', next.label);
+      } else {
+        pendingSlot.current = next;
+        form.setValue('preferredDate', next.date);
+      }
+      return;
+    }
+    setOpenWindow(next);
+    if (!form.getValues('preferredTime')) {
+      form.setValue('preferredTime', 'anytime');
+    }
+  };
+
+  const multiStopEnabled = businessSettings?.features?.multiStopDeliveries === true;
+  // Stops still being typed are left out of pricing and submission
+  const filledStops = multiStopEnabled ? stops.filter(stop => stop.address.trim()) : [];
+  const stopAddressesKey = filledStops.map(stop => stop.address).join('|');
+
+  const updateStop = (index: number, changes: Partial<DeliveryStopInput>) => {
+    setStops(prev => prev.map((stop, i) => i === index ? { ...stop, ...changes } : stop));
+  };
+
   // Calculate delivery price when addresses are available
   useEffect(() => {
     const pickupAddress = selectedBusiness?.address || form.watch('pickupAddress');
@@ -278,13 +374,27 @@ export function EnhancedDeliveryForm() {
             body: JSON.stringify({
               pickup: pickupAddress,
               delivery: deliveryAddress,
-              isRush: false
+              stops: filledStops.map(stop => stop.address),
+              slotStart: scheduledDeliveriesEnabled ? slotStart ?? undefined : undefined,
+              openWindowStart: openWindow?.start,
+              isRush: form.watch('isRush') === true,
+              // Pricing rules can depend on these, and the quote only holds for the same values
+              businessId: form.watch('businessId') || undefined,
+              userId: user?.id,
+              orderValue: form.watch('orderValue') || undefined,
+              promoCode: promoCode || undefined
             }),
           });
           
+          const data = await response.json();
           if (response.ok) {
-            const data = await response.json();
             setPriceCalculation(data);
+            setServiceAreaError(null);
+            setMinimumOrderError(null);
+          } else {
+            setPriceCalculation(null);
+            setServiceAreaError(data.reason === 'outside_service_area' ? data.message : null);
+            setMinimumOrderError(data.reason === 'below_minimum_order' ? data.message : null);
           }
         } catch (error) {
           console.error('Price calculation failed:', error);
@@ -295,8 +405,13 @@ export function EnhancedDeliveryForm() {
       calculatePrice();
     } else {
       setPriceCalculation(null);
+      setServiceAreaError(null);
+      setMinimumOrderError(null);
     }
-  }, [selectedBusiness?.address, form.watch('pickupAddress'), form.watch('deliveryAddress')]);
+  }, [selectedBusiness?.address, form.watch('pickupAddress'), form.watch('deliveryAddress'), stopAddressesKey, slotStart, openWindow?.start, form.watch('businessId'), form.watch('orderValue'), form.watch('isRush'), user?.id, promoCode]);
+
+  const eligibility = priceCalculation?.eligibility;
+  const ineligible = !!eligibility && !eligibility.eligible;
 
   // Fetch loyalty info for authenticated users (only if loyalty program is enabled)
   useEffect(() => {
@@ -324,12 +439,12 @@ export function EnhancedDeliveryForm() {
 
   // Handle form submission to show review modal
   const onFormSubmit = async (data: any) => {
-    setFormData(data);
+    setFormData({ ...data, stops: filledStops, openWindow });
     setReviewModalOpen(true);
   };
 
-  // Step 2: Handle final submission (with or without payment)
-  const onFinalSubmit = async (isPaid: boolean = false, paymentResult?: any) => {
+  // Step 2: Handle final submission - online payments are settled afterwards through the invoice the server sends
+  const onFinalSubmit = async () => {
     setSubmitting(true);
     
     try {
@@ -337,18 +452,25 @@ export function EnhancedDeliveryForm() {
         ...formData,
         userId: user?.id || undefined,
         paymentMethod: selectedPaymentMethod,
-        isPaid,
-        paymentId: paymentResult?.paymentId,
-        paymentStatus: isPaid ? 'completed' : 'pending',
-        totalAmount: priceCalculation?.deliveryFee || 0,
+        slotStart: scheduledDeliveriesEnabled ? slotStart ?? undefined : undefined,
+        openWindowStart: openWindow?.start,
+        // The server charges the quoted amount - it never trusts a total sent from here
+        quoteId: priceCalculation?.quote?.id,
+        quoteSignature: priceCalculation?.quote?.signature,
+        // Only a code the quote applied - the server checks it again before taking a redemption
+        promoCode: priceCalculation?.promotion?.code,
+        tipAmount: selectedPaymentMethod === 'online_payment' ? tipAmount : 0,
       };
 
       const result = await apiRequest('/api/delivery-requests', 'POST', requestData);
+      const delivery = await result.json();
+      setTrackingToken(delivery.trackingToken ?? null);
+      setInvoiceUrl(delivery.invoiceUrl ?? null);
 
       toast({
         title: "Success!",
-        description: isPaid ? 
-          "Your delivery request has been submitted and payment processed successfully!" :
+        description: delivery.invoiceUrl ?
+          "Your delivery request has been submitted. Pay online using the link we've sent you." :
           "Your delivery request has been submitted successfully. We'll contact you soon!",
       });
 
@@ -356,6 +478,13 @@ export function EnhancedDeliveryForm() {
       setReviewModalOpen(false);
       setFormData(null);
       setSelectedPaymentMethod('');
+      setStops([]);
+      setSlotStart(null);
+      setOpenWindow(null);
+      setPromoCodeInput('');
+      setPromoCode('');
+      setTipAmount(0);
+      queryClient.invalidateQueries({ queryKey: [`/api/delivery-slots?date=${formData.preferredDate}`] });
       
       // Reset only delivery-specific fields, preserve user profile data
       if (user && profile) {
@@ -367,6 +496,8 @@ export function EnhancedDeliveryForm() {
         form.setValue('preferredTime', '');
         form.setValue('paymentMethod', profile.preferredPaymentMethod || '');
         form.setValue('specialInstructions', '');
+        form.setValue('orderValue', '');
+        form.setValue('isRush', false);
         form.setValue('saveProfile', false);
         form.setValue('useStoredPayment', false);
         setSelectedBusiness(null); // Clear business selection
@@ -381,9 +512,23 @@ export function EnhancedDeliveryForm() {
       }
 
     } catch (error: any) {
+      // The quote expired or no longer matches - show the new price so the customer can confirm it
+      const body = getApiErrorBody(error);
+      if (body?.price) {
+        setPriceCalculation(body.price);
+        toast({
+          title: "Price updated",
+          description: `${body.message}. New total: $${Number(body.price.deliveryFee).toFixed(2)}`,
+        });
+        return;
+      }
+      // Someone may have taken the last place in the slot - show fresh availability
+      if (slotStart) {
+        queryClient.invalidateQueries({ queryKey: [`/api/delivery-slots?date=${formData?.preferredDate}`] });
+      }
       toast({
         title: "Error",
-        description: error.message || "Failed to submit delivery request. Please try again.",
+        description: getApiErrorMessage(error, "Failed to submit delivery request. Please try again."),
         variant: "destructive",
       });
     } finally {
@@ -405,6 +550,33 @@ export function EnhancedDeliveryForm() {
 
   return (
     <div className="space-y-6">
+      {/* Tracking link for the order just placed - guests have no other way back to it */}
+      {trackingToken && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="font-semibold text-green-900">Order received</h3>
+                <p className="text-sm text-green-700">Bookmark your tracking page to follow your delivery.</p>
+              </div>
+              <div className="flex gap-2">
+                {invoiceUrl && (
+                  <a href={invoiceUrl} target="_blank" rel="noopener noreferrer">
+                    <Button size="sm">Pay Now</Button>
+                  </a>
+                )}
+                <Link href={`/track/${trackingToken}`}>
+                  <Button size="sm" variant="outline">
+                    <MapPin className="h-4 w-4 mr-2" />
+                    Track Order
+                  </Button>
+                </Link>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Auth Status Banner */}
       {!user && (
         <Card className="border-orange-200 bg-orange-50">
@@ -618,19 +790,85 @@ export function EnhancedDeliveryForm() {
                         required
                         id={field.name}
                       />
+                      {serviceAreaError && (
+                        <p className="text-sm text-red-600">{serviceAreaError}</p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
-
+                {/* Extra stops between the pickup and the final delivery address */}
+                {multiStopEnabled && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label>Additional Stops</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Visited in order after pickup, before the delivery address. Each leg is priced separately.
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={stops.length >= MAX_ADDITIONAL_STOPS}
+                        onClick={() => setStops(prev => [...prev, { type: 'dropoff', address: '', notes: '' }])}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Stop
+                      </Button>
+                    </div>
+                    {stops.map((stop, index) => (
+                      <Card key={index}>
+                        <CardContent className="pt-4 space-y-3">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium">Stop {index + 1}</span>
+                            <Select
+                              value={stop.type}
+                              onValueChange={(value) => updateStop(index, { type: value as DeliveryStopInput['type'] })}
+                            >
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="pickup">Pickup</SelectItem>
+                                <SelectItem value="dropoff">Drop-off</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="ml-auto"
+                              onClick={() => setStops(prev => prev.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <AddressInput
+                            label="Stop Address"
+                            value={stop.address}
+                            onChange={(address) => updateStop(index, { address })}
+                            placeholder="Address for this stop"
+                            id={`stop-address-${index}`}
+                          />
+                          <Input
+                            value={stop.notes ?? ''}
+                            onChange={(e) => updateStop(index, { notes: e.target.value })}
+                            placeholder="Notes for the driver (optional)"
+                          />
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
                     name="preferredDate"
                     render={({ field }) => {
-                      const scheduledDeliveriesEnabled = businessSettings?.features?.scheduledDeliveries === true;
                       const todayDate = new Date().toISOString().split('T')[0];
                       
                       // If scheduled deliveries are disabled, lock to today's date
@@ -664,7 +902,40 @@ export function EnhancedDeliveryForm() {
                   <FormField
                     control={form.control}
                     name="preferredTime"
-                    render={({ field }) => (
+                    render={({ field }) => scheduledDeliveriesEnabled ? (
+                      <FormItem>
+                        <FormLabel>Delivery Slot *</FormLabel>
+                        <Select
+                          value={slotStart ?? ''}
+                          onValueChange={(value) => {
+                            const slot = slotData?.slots.find(s => s.start === value);
+                            setSlotStart(value);
+                            field.onChange(slot?.label ?? '');
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder={slotsLoading ? 'Loading slots...' : 'Select a delivery slot'} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {slotData?.slots.length === 0 && (
+                              <SelectItem value="none" disabled>No slots on this day</SelectItem>
+                            )}
+                            {slotData?.slots.map((slot) => (
+                              <SelectItem key={slot.start} value={slot.start} disabled={!slot.available}>
+                                {slot.label}
+                                {' '}
+                                <span className="text-muted-foreground">
+                                  {slot.remaining === 0 ? '(Full)' : slot.available ? `(${slot.remaining} left)` : '(Passed)'}
+                                </span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    ) : (
                       <FormItem>
                         <FormLabel>Pick up Time *</FormLabel>
                         <Select onValueChange={field.onChange} value={field.value}>
@@ -685,6 +956,16 @@ export function EnhancedDeliveryForm() {
                     )}
                   />
                 </div>
+
+                {openWindow && (
+                  <div className="flex items-center justify-between gap-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+                    <span>Booked for when we open: <strong>{openWindow.label}</strong></span>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setOpenWindow(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                <OrderEligibilityNotice eligibility={eligibility} onBookNextWindow={bookNextWindow} />
               </div>
 
 
@@ -695,6 +976,88 @@ export function EnhancedDeliveryForm() {
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold">Additional Information</h3>
                 
+                <FormField
+                  control={form.control}
+                  name="orderValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Order Value ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="Optional"
+                          {...field}
+                          value={field.value ?? ''}
+                        />
+                      </FormControl>
+                      <p className="text-sm text-muted-foreground">
+                        What the items being delivered cost
+                        {businessSettings?.deliveryPricing?.freeDeliveryThreshold > 0 &&
+                          ` - delivery is free on orders over $${Number(businessSettings.deliveryPricing.freeDeliveryThreshold).toFixed(2)}`}
+                      </p>
+                      {minimumOrderError && (
+                        <p className="text-sm text-red-600">{minimumOrderError}</p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="promoCode">Promo Code</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="promoCode"
+                      className="uppercase"
+                      placeholder="Optional"
+                      value={promoCodeInput}
+                      onChange={(e) => setPromoCodeInput(e.target.value)}
+                    />
+                    {promoCode ? (
+                      <Button type="button" variant="outline" onClick={() => { setPromoCodeInput(''); setPromoCode(''); }}>
+                        Remove
+                      </Button>
+                    ) : (
+                      <Button type="button" variant="outline" disabled={!promoCodeInput.trim()} onClick={() => setPromoCode(promoCodeInput.trim())}>
+                        Apply
+                      </Button>
+                    )}
+                  </div>
+                  {promoCode && priceCalculation?.promotion && (
+                    <p className="text-sm text-green-600">
+                      {priceCalculation.promotion.name} applied - ${Number(priceCalculation.promotion.discount).toFixed(2)} off
+                    </p>
+                  )}
+                  {promoCode && priceCalculation?.promotionError && (
+                    <p className="text-sm text-red-600">{priceCalculation.promotionError.message}</p>
+                  )}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="isRush"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value === true}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Rush delivery</FormLabel>
+                        <p className="text-sm text-muted-foreground">
+                          Goes to the front of the driver queue
+                          {businessSettings?.deliveryPricing?.rushDeliveryMultiplier &&
+                            ` - priced at ${businessSettings.deliveryPricing.rushDeliveryMultiplier}x the regular fee`}
+                        </p>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="specialInstructions"
@@ -748,12 +1111,12 @@ export function EnhancedDeliveryForm() {
               {selectedBusiness && form.watch('deliveryAddress') && (
                 <SimplePriceDisplay
                   result={priceCalculation}
-                  isRush={false}
+                  isRush={form.watch('isRush') === true}
                   className="mt-4"
                 />
               )}
 
-              <Button type="submit" size="lg" className="w-full" disabled={submitting}>
+              <Button type="submit" size="lg" className="w-full" disabled={submitting || !!serviceAreaError || !!minimumOrderError || ineligible}>
                 {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Review Delivery Request
               </Button>
@@ -776,6 +1139,8 @@ export function EnhancedDeliveryForm() {
         onSubmit={onFinalSubmit}
         submitting={submitting}
         user={user}
+        tipAmount={tipAmount}
+        setTipAmount={setTipAmount}
       />
     </div>
   );
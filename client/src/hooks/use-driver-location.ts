@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { apiRequest } from '../lib/queryClient';
+
+// Minimum time between pings sent to the server
+const PING_INTERVAL_MS = 30000;
+
+/**
+ * Watch the device's GPS and report it for the driver's in-progress delivery.
+ * Only runs while `deliveryId` is set and tracking is enabled for the business.
+ */
+export function useDriverLocationReporting(driverId?: string, deliveryId?: string, enabled: boolean = true) {
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!driverId || !deliveryId || !enabled) {
+      setIsSharing(false);
+      return;
+    }
+    if (!('geolocation' in navigator)) {
+      setError('Location is not available on this device');
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        setIsSharing(true);
+        setError(null);
+
+        const now = Date.now();
+        if (now - lastSentRef.current < PING_INTERVAL_MS) return;
+        lastSentRef.current = now;
+
+        try {
+          await apiRequest(`/api/driver/${driverId}/location`, 'POST', {
+            deliveryId,
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy ?? undefined,
+            heading: position.coords.heading ?? undefined,
+            speed: position.coords.speed ?? undefined,
+          });
+        } catch (err) {
+          console.error('Failed to send location update:', err);
+        }
+      },
+      (positionError) => {
+        setIsSharing(false);
+        setError(positionError.code === positionError.PERMISSION_DENIED
+          ? 'Location permission denied - customers will not see live updates'
+          : 'Unable to get your location');
+      },
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: 20000 }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      setIsSharing(false);
+    };
+  }, [driverId, deliveryId, enabled]);
+
+  return { isSharing, error };
+}
@@ -275,4 +275,56 @@ export function useCustomerDeliveriesRealtime(userId?: string) {
       supabase.removeChannel(channel);
     };
   }, [userId, subscribe, queryClient]);
-}
\ No newline at end of file
+}
+
+// Hook for live driver position on a single delivery (customer ETA card)
+export function useDeliveryLocationRealtime(deliveryId?: string, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+  const { subscribe } = useRealtimeSubscription();
+
+  useEffect(() => {
+    if (!deliveryId || !enabled) return;
+
+    const channel = subscribe(
+      `delivery-location-${deliveryId}`,
+      'driver_locations',
+      'INSERT',
+      `delivery_id=eq.${deliveryId}`,
+      () => {
+        queryClient.invalidateQueries({ 
+          queryKey: [`/api/delivery-requests/${deliveryId}/tracking`] 
+        });
+      }
+    );
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [deliveryId, enabled, subscribe, queryClient]);
+}
+
+// Hook for the dispatch map - refresh driver positions whenever one of the tenant's drivers pings
+export function useDriverLocationsRealtime(tenantId?: string) {
+  const queryClient = useQueryClient();
+  const { subscribe } = useRealtimeSubscription();
+
+  useEffect(() => {
+    if (!tenantId) return;
+
+    const channel = subscribe(
+      `dispatch-driver-locations-${tenantId}`,
+      'driver_locations',
+      'INSERT',
+      `tenant_id=eq.${tenantId}`,
+      () => {
+        queryClient.invalidateQueries({ 
+          queryKey: ['/api/dispatch/driver-locations'] 
+        });
+      }
+    );
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tenantId, subscribe, queryClient]);
+}
@@ -1,4 +1,11 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { supabase } from "./supabase";
+
+// The signed-in user's access token, so the server can tell who is acting (staff actions are recorded against it)
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +14,38 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pull the server's { message } out of an error thrown by throwIfResNotOk ("409: {...}")
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// String entries of the server's { errors } list, e.g. per-feature problems from a zone import
+export function getApiErrorDetails(error: unknown): string[] {
+  if (!(error instanceof Error)) return [];
+  try {
+    const { errors } = JSON.parse(error.message.replace(/^\d{3}: /, ''));
+    return Array.isArray(errors) ? errors.filter((e: unknown): e is string => typeof e === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// The server's JSON error body, for responses that carry more than a message (e.g. a re-priced quote)
+export function getApiErrorBody(error: unknown): Record<string, any> | null {
+  if (!(error instanceof Error)) return null;
+  try {
+    return JSON.parse(error.message.replace(/^\d{3}: /, ''));
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   url: string,
   method: string,
@@ -14,7 +53,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await authHeaders()),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +72,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: await authHeaders(),
       credentials: "include",
     });
 
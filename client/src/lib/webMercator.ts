@@ -0,0 +1,49 @@
+// Web Mercator helpers for the OpenStreetMap tile views (driver map, zone editor)
+
+export const TILE_SIZE = 256;
+
+export interface MapTile {
+  key: string;
+  src: string;
+  x: number;
+  y: number;
+}
+
+// Web Mercator projection to world pixel coordinates at the given zoom
+export function project(latitude: number, longitude: number, zoom: number) {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+// World pixel coordinates back to latitude/longitude
+export function unproject(x: number, y: number, zoom: number) {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / scale) * 360 - 180,
+  };
+}
+
+// Tiles covering a viewport whose top-left corner is at world pixel (left, top)
+export function getVisibleTiles(zoom: number, left: number, top: number, width: number, height: number): MapTile[] {
+  const tileCount = Math.pow(2, zoom);
+  const tiles: MapTile[] = [];
+  for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${tx}-${ty}`,
+        src: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${ty}.png`,
+        x: tx * TILE_SIZE - left,
+        y: ty * TILE_SIZE - top,
+      });
+    }
+  }
+  return tiles;
+}
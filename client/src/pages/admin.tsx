@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Switch } from '../components/ui/switch';
 import { toast } from '../hooks/use-toast';
 import { apiRequest } from '../lib/queryClient';
 import type { UserProfile, DeliveryRequest, Business, InsertBusiness } from '@shared/schema';
@@ -89,7 +90,8 @@ const businessFormSchema = {
   website: '',
   orderingInstructions: '',
   category: '',
-  imageUrl: null as string | null
+  imageUrl: null as string | null,
+  requireProofOfDelivery: false
 };
 
 // Edit business form schema
@@ -101,7 +103,8 @@ const editBusinessFormSchema = {
   website: '',
   orderingInstructions: '',
   category: '',
-  imageUrl: null as string | null
+  imageUrl: null as string | null,
+  requireProofOfDelivery: false
 };
 
 function AdminDashboard() {
@@ -313,7 +316,8 @@ function AdminDashboard() {
       website: business.website || '',
       orderingInstructions: business.orderingInstructions,
       category: business.category || '',
-      imageUrl: business.imageUrl || null
+      imageUrl: business.imageUrl || null,
+      requireProofOfDelivery: business.requireProofOfDelivery ?? false
     });
     setEditingBusinessId(business.id);
     
@@ -887,6 +891,15 @@ function AdminDashboard() {
                       />
                     </div>
 
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="edit-business-proof">Require proof of delivery</Label>
+                      <Switch
+                        id="edit-business-proof"
+                        checked={editBusinessForm.requireProofOfDelivery}
+                        onCheckedChange={(checked) => setEditBusinessForm(prev => ({ ...prev, requireProofOfDelivery: checked }))}
+                      />
+                    </div>
+
                     <div className="flex gap-2">
                       <Button 
                         type="submit" 
@@ -1003,6 +1016,15 @@ function AdminDashboard() {
                     />
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="business-proof">Require proof of delivery</Label>
+                    <Switch
+                      id="business-proof"
+                      checked={businessForm.requireProofOfDelivery}
+                      onCheckedChange={(checked) => setBusinessForm(prev => ({ ...prev, requireProofOfDelivery: checked }))}
+                    />
+                  </div>
+
                   <Button 
                     type="submit" 
                     disabled={addBusinessMutation.isPending}
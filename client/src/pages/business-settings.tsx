@@ -13,7 +13,7 @@ import { Switch } from '../components/ui/switch';
 import { Textarea } from '../components/ui/textarea';
 import { Separator } from '../components/ui/separator';
 import { toast } from '../hooks/use-toast';
-import { apiRequest } from '../lib/queryClient';
+import { apiRequest, getApiErrorMessage, getApiErrorDetails } from '../lib/queryClient';
 import { 
   Settings, 
   DollarSign, 
@@ -33,11 +33,26 @@ import {
   ChevronDown,
   LogOut,
   Truck,
-  X
+  X,
+  Download,
+  Upload,
+  CreditCard,
+  Map as MapIcon
 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '../components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
 import { LogoUpload } from '../components/LogoUpload';
-import { PREDEFINED_PAYMENT_METHODS } from '@shared/schema';
+import { ZoneBoundaryEditor } from '../components/ZoneBoundaryEditor';
+import { PricingRulesCard } from '../components/PricingRulesCard';
+import { PriceSimulator } from '../components/PriceSimulator';
+import { PromotionsCard } from '../components/PromotionsCard';
+import { DriverPayoutsCard } from '../components/DriverPayoutsCard';
+import { SubscriptionBillingCard } from '../components/SubscriptionBillingCard';
+import { PaymentProviderCard } from '../components/PaymentProviderCard';
+import type { SquareSettings } from '../components/SquareSettingsCard';
+import type { StripeSettings } from '../components/StripeSettingsCard';
+import { validateZoneBoundary } from '@shared/zoneGeometry';
+import { PREDEFINED_PAYMENT_METHODS, type AutoDispatchMode, type PaymentProviderName, type ZonePricingMode, type ZoneBoundary } from '@shared/schema';
 
 
 interface LogoBusinessSettings {
@@ -79,14 +94,36 @@ interface BusinessSettings {
     basePrice: number;
     pricePerMile: number;
     minimumOrder: number;
-    freeDeliveryThreshold: number; // Keep for backward compatibility but will be hidden
+    freeDeliveryThreshold: number; // 0 turns free delivery off
     rushDeliveryMultiplier: number;
+    urgentDeliveryFee: number; // Least a rush delivery costs
+    zonePricingMode: ZonePricingMode;
   };
   loyaltyProgram: {
     deliveriesForFreeDelivery: number;
   };
   distanceSettings: {
     baseFeeRadius: number;
+    maxDeliveryRadius: number;
+  };
+  dispatchSettings: {
+    maxActiveClaimsPerDriver: number;
+    autoDispatchMode: AutoDispatchMode;
+    rushSlaMinutes: number; // rush orders are due this long after release
+  };
+  driverPay: {
+    perDelivery: number;
+    perMile: number;
+    feePercent: number; // of the delivery fee the customer paid
+  };
+  proofOfDelivery: {
+    required: boolean;
+    paymentMethods: string[];
+  };
+  scheduling: {
+    slotMinutes: number;
+    slotCapacity: number;
+    releaseLeadMinutes: number;
   };
   notifications: {
     emailNotifications: boolean;
@@ -98,8 +135,12 @@ interface BusinessSettings {
     loyaltyProgram: boolean;
     realTimeTracking: boolean;
     scheduledDeliveries: boolean;
+    multiStopDeliveries: boolean;
     multiplePaymentMethods: boolean;
   };
+  paymentProvider?: PaymentProviderName;
+  squareSettings?: SquareSettings; // saved secrets come back masked
+  stripeSettings?: StripeSettings;
 
   acceptedPaymentMethods?: string[];
 
@@ -112,10 +153,11 @@ interface ServiceZone {
   tenantId: string;
   name: string;
   description: string;
-  coordinates: string; // JSON string of coordinates
-  deliveryFee: number;
-  estimatedTime: string;
+  deliveryFee: number | string;
+  estimatedTime: number; // minutes
+  zipCodes: string[];
   isActive: boolean;
+  boundaries: ZoneBoundary | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -153,14 +195,36 @@ const defaultSettings: Partial<BusinessSettings> = {
     basePrice: 3.00,
     pricePerMile: 1.50,
     minimumOrder: 10.00,
-    freeDeliveryThreshold: 50.00,
-    rushDeliveryMultiplier: 1.5
+    freeDeliveryThreshold: 0,
+    rushDeliveryMultiplier: 1.5,
+    urgentDeliveryFee: 10.00,
+    zonePricingMode: 'distance'
   },
   loyaltyProgram: {
     deliveriesForFreeDelivery: 10
   },
   distanceSettings: {
-    baseFeeRadius: 10.0
+    baseFeeRadius: 10.0,
+    maxDeliveryRadius: 25
+  },
+  dispatchSettings: {
+    maxActiveClaimsPerDriver: 3,
+    autoDispatchMode: 'suggest',
+    rushSlaMinutes: 45
+  },
+  driverPay: {
+    perDelivery: 0,
+    perMile: 0,
+    feePercent: 0
+  },
+  proofOfDelivery: {
+    required: false,
+    paymentMethods: []
+  },
+  scheduling: {
+    slotMinutes: 60,
+    slotCapacity: 4,
+    releaseLeadMinutes: 120
   },
   notifications: {
     emailNotifications: true,
@@ -172,6 +236,7 @@ const defaultSettings: Partial<BusinessSettings> = {
     loyaltyProgram: true,
     realTimeTracking: true,
     scheduledDeliveries: false,
+    multiStopDeliveries: false,
     multiplePaymentMethods: true
   },
 
@@ -184,11 +249,15 @@ export default function BusinessSettingsPage() {
   const [newZone, setNewZone] = useState<Partial<ServiceZone>>({
     name: '',
     description: '',
-    coordinates: '',
     deliveryFee: 5.00,
-    estimatedTime: '30-45 minutes',
+    estimatedTime: 45,
+    zipCodes: [],
     isActive: true
   });
+  const [newZoneZipCodes, setNewZoneZipCodes] = useState('');
+  const [editingZone, setEditingZone] = useState<ServiceZone | null>(null);
+  const [draftBoundary, setDraftBoundary] = useState<ZoneBoundary | null>(null);
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
   const [customPaymentMethod, setCustomPaymentMethod] = useState('');
   const [acceptedPaymentMethods, setAcceptedPaymentMethods] = useState<string[]>([]);
 
@@ -278,6 +347,11 @@ export default function BusinessSettingsPage() {
         features: { ...defaultSettings.features, ...businessSettings.features },
         notifications: { ...defaultSettings.notifications, ...businessSettings.notifications },
         deliveryPricing: { ...defaultSettings.deliveryPricing, ...businessSettings.deliveryPricing },
+        distanceSettings: { ...defaultSettings.distanceSettings, ...businessSettings.distanceSettings },
+        dispatchSettings: { ...defaultSettings.dispatchSettings, ...businessSettings.dispatchSettings },
+        driverPay: { ...defaultSettings.driverPay, ...businessSettings.driverPay },
+        proofOfDelivery: { ...defaultSettings.proofOfDelivery, ...businessSettings.proofOfDelivery },
+        scheduling: { ...defaultSettings.scheduling, ...businessSettings.scheduling },
         businessHours: { ...defaultBusinessHours, ...businessSettings.businessHours }
       } as BusinessSettings);
     }
@@ -314,11 +388,12 @@ export default function BusinessSettingsPage() {
       setNewZone({
         name: '',
         description: '',
-        coordinates: '',
         deliveryFee: 5.00,
-        estimatedTime: '30-45 minutes',
+        estimatedTime: 45,
+        zipCodes: [],
         isActive: true
       });
+      setNewZoneZipCodes('');
       toast({
         title: "Zone Created",
         description: "Service zone has been created successfully.",
@@ -327,12 +402,102 @@ export default function BusinessSettingsPage() {
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create service zone",
+        description: getApiErrorMessage(error, "Failed to create service zone"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Turn a service zone on or off
+  const updateZoneMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<ServiceZone> }) => {
+      return apiRequest(`/api/admin/service-zones/${id}`, 'PUT', updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/service-zones'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update service zone"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Save the area drawn in the zone editor
+  const saveBoundaryMutation = useMutation({
+    mutationFn: async ({ id, boundaries }: { id: string; boundaries: ZoneBoundary | null }) => {
+      const response = await apiRequest(`/api/admin/service-zones/${id}`, 'PUT', { boundaries });
+      return response.json() as Promise<ServiceZone & { warnings: string[] }>;
+    },
+    onSuccess: (zone) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/service-zones'] });
+      setEditingZone(null);
+      toast({
+        title: "Zone Area Saved",
+        description: zone.warnings.length > 0
+          ? `Saved, but ${zone.warnings.join('; ')}. Overlapping addresses use the first matching zone.`
+          : "The delivery area for this zone has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      const details = getApiErrorDetails(error);
+      toast({
+        title: "Error",
+        description: details.length > 0 ? details.join('. ') : getApiErrorMessage(error, "Failed to save zone area"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Import zones from a GeoJSON FeatureCollection file
+  const importZonesMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let collection: unknown;
+      try {
+        collection = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      const response = await apiRequest('/api/admin/service-zones/import', 'POST', { collection, replace: replaceOnImport });
+      return response.json() as Promise<{ imported: number; warnings: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/service-zones'] });
+      toast({
+        title: "Zones Imported",
+        description: `Imported ${result.imported} zone${result.imported === 1 ? '' : 's'}.${result.warnings.length > 0 ? ` Warnings: ${result.warnings.join('; ')}` : ''}`,
+      });
+    },
+    onError: (error: any) => {
+      const details = getApiErrorDetails(error);
+      toast({
+        title: "Import Failed",
+        description: details.length > 0 ? details.join('. ') : getApiErrorMessage(error, "Failed to import service zones"),
         variant: "destructive",
       });
     }
   });
 
+  const handleExportZones = async () => {
+    try {
+      const response = await apiRequest('/api/admin/service-zones/export', 'GET');
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'service-zones.geojson';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to export service zones"),
+        variant: "destructive",
+      });
+    }
+  };
+
   // Delete service zone mutation
   const deleteZoneMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -415,7 +580,8 @@ export default function BusinessSettingsPage() {
       });
       return;
     }
-    createZoneMutation.mutate(newZone);
+    const zipCodes = newZoneZipCodes.split(/[\s,]+/).map(zip => zip.trim()).filter(Boolean);
+    createZoneMutation.mutate({ ...newZone, zipCodes });
   };
 
   const updateBusinessHours = (day: string, field: string, value: string | boolean) => {
@@ -538,7 +704,7 @@ export default function BusinessSettingsPage() {
           </div>
         ) : (
           <Tabs defaultValue="general" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-7">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="general">
                 <Settings className="w-4 h-4 mr-2" />
                 General
@@ -567,6 +733,10 @@ export default function BusinessSettingsPage() {
                 <Palette className="w-4 h-4 mr-2" />
                 Branding
               </TabsTrigger>
+              <TabsTrigger value="billing">
+                <CreditCard className="w-4 h-4 mr-2" />
+                Billing
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="general" className="space-y-6">
@@ -679,6 +849,19 @@ export default function BusinessSettingsPage() {
                           }))}
                         />
                       </div>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <Label>Multi-Stop Deliveries</Label>
+                          <p className="text-sm text-muted-foreground">Let customers add extra pickup and drop-off stops to one delivery</p>
+                        </div>
+                        <Switch
+                          checked={settings.features.multiStopDeliveries}
+                          onCheckedChange={(checked) => setSettings(prev => ({
+                            ...prev,
+                            features: { ...prev.features, multiStopDeliveries: checked }
+                          }))}
+                        />
+                      </div>
                     </div>
                   </div>
 
@@ -717,6 +900,234 @@ export default function BusinessSettingsPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Driver Dispatch</CardTitle>
+                  <CardDescription>Control how drivers pick up deliveries from the queue</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="maxActiveClaimsPerDriver">Max Active Deliveries per Driver</Label>
+                    <Input
+                      id="maxActiveClaimsPerDriver"
+                      type="number"
+                      min="1"
+                      value={settings.dispatchSettings.maxActiveClaimsPerDriver}
+                      onChange={(e) => setSettings(prev => ({
+                        ...prev,
+                        dispatchSettings: { ...prev.dispatchSettings, maxActiveClaimsPerDriver: parseInt(e.target.value) || 1 }
+                      }))}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Drivers can't claim more deliveries while they have this many claimed or in progress
+                    </p>
+                  </div>
+                  <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="autoDispatchMode">Auto-Dispatch</Label>
+                    <Select
+                      value={settings.dispatchSettings.autoDispatchMode}
+                      onValueChange={(value) => setSettings(prev => ({
+                        ...prev,
+                        dispatchSettings: { ...prev.dispatchSettings, autoDispatchMode: value as AutoDispatchMode }
+                      }))}
+                    >
+                      <SelectTrigger id="autoDispatchMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="suggest">Suggest drivers only</SelectItem>
+                        <SelectItem value="auto_assign">Auto-assign best driver</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Drivers are ranked by current load, distance to the pickup and how long the order has waited
+                    </p>
+                  </div>
+                  <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="rushSlaMinutes">Rush Delivery Target (minutes)</Label>
+                    <Input
+                      id="rushSlaMinutes"
+                      type="number"
+                      min="1"
+                      value={settings.dispatchSettings.rushSlaMinutes}
+                      onChange={(e) => setSettings(prev => ({
+                        ...prev,
+                        dispatchSettings: { ...prev.dispatchSettings, rushSlaMinutes: parseInt(e.target.value) || 1 }
+                      }))}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Rush orders jump the queue and are flagged overdue this long after drivers can see them
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Driver Pay</CardTitle>
+                  <CardDescription>What drivers earn for each completed delivery - tips are paid on top in full</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="driverPayPerDelivery">Per Delivery ($)</Label>
+                    <Input
+                      id="driverPayPerDelivery"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={settings.driverPay.perDelivery}
+                      onChange={(e) => setSettings(prev => ({
+                        ...prev,
+                        driverPay: { ...prev.driverPay, perDelivery: parseFloat(e.target.value) || 0 }
+                      }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="driverPayPerMile">Per Mile ($)</Label>
+                    <Input
+                      id="driverPayPerMile"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={settings.driverPay.perMile}
+                      onChange={(e) => setSettings(prev => ({
+                        ...prev,
+                        driverPay: { ...prev.driverPay, perMile: parseFloat(e.target.value) || 0 }
+                      }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="driverPayFeePercent">Share of Delivery Fee (%)</Label>
+                    <Input
+                      id="driverPayFeePercent"
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      max="100"
+                      value={settings.driverPay.feePercent}
+                      onChange={(e) => setSettings(prev => ({
+                        ...prev,
+                        driverPay: { ...prev.driverPay, feePercent: Math.min(100, parseFloat(e.target.value) || 0) }
+                      }))}
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground md:col-span-3">
+                    Rates apply to deliveries completed after you save. Miles are the route distance the customer was quoted.
+                  </p>
+                </CardContent>
+              </Card>
+
+              {settings.features.scheduledDeliveries && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Scheduled Delivery Slots</CardTitle>
+                    <CardDescription>Slots are cut from your business hours in the {settings.timezone} timezone</CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="slotMinutes">Slot Length (minutes)</Label>
+                      <Select
+                        value={String(settings.scheduling.slotMinutes)}
+                        onValueChange={(value) => setSettings(prev => ({
+                          ...prev,
+                          scheduling: { ...prev.scheduling, slotMinutes: parseInt(value) }
+                        }))}
+                      >
+                        <SelectTrigger id="slotMinutes">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="30">30 minutes</SelectItem>
+                          <SelectItem value="60">1 hour</SelectItem>
+                          <SelectItem value="120">2 hours</SelectItem>
+                          <SelectItem value="240">4 hours</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="slotCapacity">Orders per Slot</Label>
+                      <Input
+                        id="slotCapacity"
+                        type="number"
+                        min="1"
+                        value={settings.scheduling.slotCapacity}
+                        onChange={(e) => setSettings(prev => ({
+                          ...prev,
+                          scheduling: { ...prev.scheduling, slotCapacity: parseInt(e.target.value) || 1 }
+                        }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="releaseLeadMinutes">Release to Drivers (minutes before)</Label>
+                      <Input
+                        id="releaseLeadMinutes"
+                        type="number"
+                        min="0"
+                        value={settings.scheduling.releaseLeadMinutes}
+                        onChange={(e) => setSettings(prev => ({
+                          ...prev,
+                          scheduling: { ...prev.scheduling, releaseLeadMinutes: parseInt(e.target.value) || 0 }
+                        }))}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Scheduled orders stay out of the driver queue until this long before their slot
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Proof of Delivery</CardTitle>
+                  <CardDescription>Require drivers to capture a photo and recipient name before completing a delivery</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Require for All Deliveries</Label>
+                      <p className="text-sm text-muted-foreground">Can also be required per pickup business from the admin dashboard</p>
+                    </div>
+                    <Switch
+                      checked={settings.proofOfDelivery.required}
+                      onCheckedChange={(checked) => setSettings(prev => ({
+                        ...prev,
+                        proofOfDelivery: { ...prev.proofOfDelivery, required: checked }
+                      }))}
+                    />
+                  </div>
+                  {!settings.proofOfDelivery.required && (
+                    <div>
+                      <Label className="text-sm font-medium mb-3 block">Require for These Payment Methods</Label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {acceptedPaymentMethods.map((method) => (
+                          <div key={method} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              id={`proof-${method}`}
+                              checked={settings.proofOfDelivery.paymentMethods.includes(method)}
+                              onChange={() => setSettings(prev => ({
+                                ...prev,
+                                proofOfDelivery: {
+                                  ...prev.proofOfDelivery,
+                                  paymentMethods: prev.proofOfDelivery.paymentMethods.includes(method)
+                                    ? prev.proofOfDelivery.paymentMethods.filter(m => m !== method)
+                                    : [...prev.proofOfDelivery.paymentMethods, method]
+                                }
+                              }))}
+                              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                            <Label htmlFor={`proof-${method}`} className="text-sm">
+                              {PREDEFINED_PAYMENT_METHODS.find(m => m.value === method)?.label || method}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
 
             <TabsContent value="profile" className="space-y-6">
@@ -866,6 +1277,26 @@ export default function BusinessSettingsPage() {
                           deliveryPricing: { ...prev.deliveryPricing, minimumOrder: parseFloat(e.target.value) || 0 }
                         }))}
                       />
+                      <p className="text-sm text-gray-600">
+                        Orders with a lower order value can't be placed. Set to 0 for no minimum.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="freeDeliveryThreshold">Free Delivery Over ($)</Label>
+                      <Input
+                        id="freeDeliveryThreshold"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={settings.deliveryPricing.freeDeliveryThreshold}
+                        onChange={(e) => setSettings(prev => ({
+                          ...prev,
+                          deliveryPricing: { ...prev.deliveryPricing, freeDeliveryThreshold: parseFloat(e.target.value) || 0 }
+                        }))}
+                      />
+                      <p className="text-sm text-gray-600">
+                        Delivery is free when the order value reaches this amount. Set to 0 to turn off.
+                      </p>
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="deliveriesForFree">Deliveries Until Free Delivery</Label>
@@ -901,6 +1332,23 @@ export default function BusinessSettingsPage() {
                         Deliveries within this distance get base fee only. Beyond this, per-mile charges apply.
                       </p>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxDeliveryRadius">Maximum Delivery Distance (miles)</Label>
+                      <Input
+                        id="maxDeliveryRadius"
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={settings.distanceSettings.maxDeliveryRadius}
+                        onChange={(e) => setSettings(prev => ({
+                          ...prev,
+                          distanceSettings: { ...prev.distanceSettings, maxDeliveryRadius: parseInt(e.target.value) || 0 }
+                        }))}
+                      />
+                      <p className="text-sm text-gray-600">
+                        Orders with a drop-off farther than this from the pickup are turned away. Set to 0 for no limit.
+                      </p>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="rushMultiplier">Rush Delivery Multiplier</Label>
                       <Input
@@ -914,6 +1362,23 @@ export default function BusinessSettingsPage() {
                         }))}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="urgentDeliveryFee">Urgent Delivery Minimum ($)</Label>
+                      <Input
+                        id="urgentDeliveryFee"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={settings.deliveryPricing.urgentDeliveryFee}
+                        onChange={(e) => setSettings(prev => ({
+                          ...prev,
+                          deliveryPricing: { ...prev.deliveryPricing, urgentDeliveryFee: parseFloat(e.target.value) || 0 }
+                        }))}
+                      />
+                      <p className="text-sm text-gray-600">
+                        Rush deliveries never cost less than this
+                      </p>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="currency">Currency</Label>
                       <Select
@@ -934,6 +1399,10 @@ export default function BusinessSettingsPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <PricingRulesCard zones={serviceZones} />
+              <PromotionsCard zones={serviceZones} />
+              <PriceSimulator />
             </TabsContent>
 
             <TabsContent value="hours" className="space-y-6">
@@ -987,6 +1456,56 @@ export default function BusinessSettingsPage() {
                   <CardDescription>Define delivery areas with custom pricing and time estimates</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  <div className="space-y-2 max-w-sm">
+                    <Label htmlFor="zonePricingMode">Zone Pricing</Label>
+                    <Select
+                      value={settings.deliveryPricing.zonePricingMode}
+                      onValueChange={(value) => setSettings(prev => ({
+                        ...prev,
+                        deliveryPricing: { ...prev.deliveryPricing, zonePricingMode: value as ZonePricingMode }
+                      }))}
+                    >
+                      <SelectTrigger id="zonePricingMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="distance">Distance pricing</SelectItem>
+                        <SelectItem value="zone">Zone fee</SelectItem>
+                        <SelectItem value="greater">Greater of zone fee and distance</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      While any zone is active, addresses outside every active zone can't be ordered to
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Button variant="outline" size="sm" onClick={handleExportZones} disabled={serviceZones.length === 0}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export GeoJSON
+                    </Button>
+                    <Button variant="outline" size="sm" asChild disabled={importZonesMutation.isPending}>
+                      <label className="cursor-pointer">
+                        <Upload className="w-4 h-4 mr-2" />
+                        {importZonesMutation.isPending ? 'Importing...' : 'Import GeoJSON'}
+                        <input
+                          type="file"
+                          accept=".geojson,.json,application/geo+json,application/json"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importZonesMutation.mutate(file);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                    </Button>
+                    <div className="flex items-center gap-2">
+                      <Switch id="replaceOnImport" checked={replaceOnImport} onCheckedChange={setReplaceOnImport} />
+                      <Label htmlFor="replaceOnImport" className="text-sm font-normal">Replace existing zones on import</Label>
+                    </div>
+                  </div>
+
                   {/* Add new zone form */}
                   <div className="border rounded-lg p-4 space-y-4">
                     <h4 className="font-medium">Add New Service Zone</h4>
@@ -1020,13 +1539,27 @@ export default function BusinessSettingsPage() {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="zoneTime">Estimated Time</Label>
+                        <Label htmlFor="zoneTime">Estimated Time (minutes)</Label>
                         <Input
                           id="zoneTime"
+                          type="number"
+                          min="1"
                           value={newZone.estimatedTime || ''}
-                          onChange={(e) => setNewZone(prev => ({ ...prev, estimatedTime: e.target.value }))}
-                          placeholder="30-45 minutes"
+                          onChange={(e) => setNewZone(prev => ({ ...prev, estimatedTime: parseInt(e.target.value) || 0 }))}
+                          placeholder="45"
+                        />
+                      </div>
+                      <div className="space-y-2 md:col-span-2">
+                        <Label htmlFor="zoneZipCodes">ZIP Codes</Label>
+                        <Input
+                          id="zoneZipCodes"
+                          value={newZoneZipCodes}
+                          onChange={(e) => setNewZoneZipCodes(e.target.value)}
+                          placeholder="52577, 52578"
                         />
+                        <p className="text-sm text-muted-foreground">
+                          Addresses in these ZIP codes are in this zone when they aren't inside a drawn boundary
+                        </p>
                       </div>
                     </div>
                     <Button 
@@ -1062,18 +1595,42 @@ export default function BusinessSettingsPage() {
                                 </span>
                                 <span className="flex items-center gap-1">
                                   <Clock className="w-3 h-3" />
-                                  {zone.estimatedTime}
+                                  {zone.estimatedTime} min
                                 </span>
                               </div>
+                              {zone.zipCodes?.length > 0 && (
+                                <p className="text-xs text-muted-foreground">ZIP codes: {zone.zipCodes.join(', ')}</p>
+                              )}
+                              <p className="text-xs text-muted-foreground">
+                                {zone.boundaries ? 'Delivery area drawn on map' : 'No area drawn - matched by ZIP code only'}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setEditingZone(zone);
+                                  setDraftBoundary(zone.boundaries);
+                                }}
+                              >
+                                <MapIcon className="w-4 h-4 mr-1" />
+                                Edit Area
+                              </Button>
+                              <Switch
+                                checked={zone.isActive}
+                                onCheckedChange={(checked) => updateZoneMutation.mutate({ id: zone.id!, updates: { isActive: checked } })}
+                                disabled={updateZoneMutation.isPending}
+                              />
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => deleteZoneMutation.mutate(zone.id!)}
+                                disabled={deleteZoneMutation.isPending}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
                             </div>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => deleteZoneMutation.mutate(zone.id!)}
-                              disabled={deleteZoneMutation.isPending}
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
                           </div>
                         </div>
                       ))
@@ -1087,27 +1644,46 @@ export default function BusinessSettingsPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Dialog open={!!editingZone} onOpenChange={(open) => !open && setEditingZone(null)}>
+                <DialogContent className="max-w-3xl">
+                  <DialogHeader>
+                    <DialogTitle>Delivery Area: {editingZone?.name}</DialogTitle>
+                    <DialogDescription>
+                      Addresses inside this area belong to the zone. Other zones are shown in gray.
+                    </DialogDescription>
+                  </DialogHeader>
+                  {editingZone && (
+                    <ZoneBoundaryEditor
+                      key={editingZone.id}
+                      value={draftBoundary}
+                      onChange={setDraftBoundary}
+                      otherZones={serviceZones
+                        .filter(zone => zone.id !== editingZone.id)
+                        .map(zone => ({ id: zone.id!, name: zone.name, boundaries: zone.boundaries }))}
+                    />
+                  )}
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setEditingZone(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={() => editingZone && saveBoundaryMutation.mutate({ id: editingZone.id!, boundaries: draftBoundary })}
+                      disabled={saveBoundaryMutation.isPending || (!!draftBoundary && validateZoneBoundary(draftBoundary).length > 0)}
+                    >
+                      {saveBoundaryMutation.isPending ? 'Saving...' : 'Save Area'}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
             </TabsContent>
 
             <TabsContent value="payments" className="space-y-6">
-              {/* Online Payment Integration Coming Soon */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Online Payment Integration</CardTitle>
-                  <CardDescription>Secure online payment processing for your delivery service</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="p-4 bg-blue-50 border border-blue-200 rounded-md">
-                    <div className="flex items-center gap-2 text-blue-700">
-                      <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                      <span className="font-medium">Online Payment Coming Soon!</span>
-                    </div>
-                    <p className="text-sm text-blue-600 mt-1">
-                      We're working on integrating Stripe for secure online payment processing. Until then, all deliveries are handled as cash or card on delivery.
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
+              <PaymentProviderCard
+                paymentProvider={businessSettings?.paymentProvider}
+                squareSettings={businessSettings?.squareSettings}
+                stripeSettings={businessSettings?.stripeSettings}
+              />
 
               {/* Payment Options Section */}
               <Card>
@@ -1217,6 +1793,8 @@ export default function BusinessSettingsPage() {
                   )}
                 </CardContent>
               </Card>
+
+              <DriverPayoutsCard />
             </TabsContent>
 
             <TabsContent value="branding" className="space-y-6">
@@ -1330,7 +1908,9 @@ export default function BusinessSettingsPage() {
               </Card>
             </TabsContent>
 
-
+            <TabsContent value="billing" className="space-y-6">
+              <SubscriptionBillingCard />
+            </TabsContent>
           </Tabs>
         )}
       </div>
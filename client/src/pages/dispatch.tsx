@@ -3,23 +3,32 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getApiErrorBody, getApiErrorMessage } from '@/lib/queryClient';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { useDriverProfileRealtime, useCustomerDeliveriesRealtime } from '@/hooks/use-realtime';
-import { Users, Truck, Clock, Plus, Eye, RefreshCw, Home, User, ChevronDown, LogOut, Globe, Settings } from 'lucide-react';
+import { useDriverProfileRealtime, useCustomerDeliveriesRealtime, useDriverLocationsRealtime } from '@/hooks/use-realtime';
+import { Users, Truck, Clock, Plus, Eye, RefreshCw, Home, User, ChevronDown, LogOut, Globe, Settings, History, UserCheck, MapPin } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Link } from 'wouter';
 import { format } from 'date-fns';
+import { DeliveryTimeline } from '@/components/DeliveryTimeline';
+import { DriverLocationMap } from '@/components/DriverLocationMap';
+import { DeliveryProofView } from '@/components/DeliveryProofView';
+import { DeliveryStops } from '@/components/DeliveryStops';
+import { DeliveryPayments } from '@/components/DeliveryPayments';
+import { RushBadge } from '@/components/RushBadge';
+import type { DeliveryProofStatus } from '@/components/ProofOfDeliveryDialog';
+import type { DriverLocation } from '@shared/schema';
 
 interface BusinessSettings {
   logoUrl?: string;
@@ -37,6 +46,7 @@ const phoneOrderSchema = z.object({
   paymentMethod: z.string().min(1, 'Payment method is required'),
   specialInstructions: z.string().optional(),
   businessId: z.string().optional(),
+  isRush: z.boolean(),
 });
 
 type PhoneOrderFormData = z.infer<typeof phoneOrderSchema>;
@@ -67,9 +77,28 @@ interface Delivery {
   claimedByDriver?: string;
   claimedAt?: string;
   driverNotes?: string;
+  isRush: boolean;
+  dueBy?: string | null;
+  paymentStatus?: string | null;
+  refundedAmount?: string;
   createdAt: string;
 }
 
+interface DriverCandidate {
+  driverId: string;
+  score: number;
+  activeDeliveries: number;
+  distanceMiles: number | null;
+  breakdown: { load: number; distance: number; wait: number };
+}
+
+interface DispatchSuggestion {
+  deliveryId: string;
+  isRush: boolean;
+  waitMinutes: number;
+  candidates: DriverCandidate[];
+}
+
 interface Business {
   id: string;
   name: string;
@@ -78,8 +107,200 @@ interface Business {
   isActive: boolean;
 }
 
+// Button that opens the full status history for a delivery
+function DeliveryProofSection({ deliveryId }: { deliveryId: string }) {
+  const { data: status, isLoading } = useQuery<DeliveryProofStatus>({
+    queryKey: [`/api/delivery-requests/${deliveryId}/proof`],
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading proof of delivery...</p>;
+  }
+
+  return (
+    <div className="border-t pt-4 mt-4">
+      <p className="text-sm font-medium mb-2">Proof of Delivery</p>
+      {status?.proof ? (
+        <DeliveryProofView proof={status.proof} />
+      ) : (
+        <p className="text-xs text-muted-foreground">No proof was captured for this delivery</p>
+      )}
+    </div>
+  );
+}
+
+function DeliveryHistoryDialog({ delivery, isAdmin }: { delivery: Delivery; isAdmin: boolean }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Delivery History</DialogTitle>
+          <DialogDescription>
+            {delivery.customerName} • #{delivery.id.slice(-8)}
+          </DialogDescription>
+        </DialogHeader>
+        <DeliveryStops deliveryId={delivery.id} />
+        <DeliveryTimeline deliveryId={delivery.id} showActors />
+        {delivery.status === 'completed' && <DeliveryProofSection deliveryId={delivery.id} />}
+        <DeliveryPayments deliveryId={delivery.id} canRefund={isAdmin} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const RETURN_TO_QUEUE = '__queue__';
+
+// Push a queued delivery to an on-duty driver, or move/pull back one that is already assigned
+function AssignDriverControl({ delivery, drivers }: { delivery: Delivery; drivers: Driver[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedDriver, setSelectedDriver] = useState('');
+  const isReassign = !!delivery.claimedByDriver;
+
+  const assignMutation = useMutation({
+    mutationFn: (driverId: string) => {
+      if (!isReassign) {
+        return apiRequest(`/api/dispatch/deliveries/${delivery.id}/assign`, 'POST', { driverId });
+      }
+      return apiRequest(`/api/dispatch/deliveries/${delivery.id}/reassign`, 'POST', {
+        driverId: driverId === RETURN_TO_QUEUE ? null : driverId
+      });
+    },
+    onSuccess: (_data, driverId) => {
+      const driver = drivers.find((d) => d.id === driverId);
+      toast({
+        title: driverId === RETURN_TO_QUEUE ? 'Returned to Queue' : 'Delivery Assigned',
+        description: driverId === RETURN_TO_QUEUE
+          ? 'The delivery is back in the waiting queue.'
+          : `Waiting for ${driver?.fullName || 'the driver'} to accept.`,
+      });
+      setSelectedDriver('');
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/deliveries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/suggestions'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/delivery-requests/${delivery.id}/history`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Assignment Failed',
+        description: getApiErrorMessage(error, 'Failed to assign delivery.'),
+        variant: 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/deliveries'] });
+    },
+  });
+
+  const candidates = drivers.filter((d) => d.isOnDuty && d.id !== delivery.claimedByDriver);
+
+  return (
+    <div className="flex items-center gap-2 mt-2">
+      <Select value={selectedDriver} onValueChange={setSelectedDriver}>
+        <SelectTrigger className="w-48 h-8 text-sm">
+          <SelectValue placeholder={isReassign ? 'Reassign to...' : 'Assign to...'} />
+        </SelectTrigger>
+        <SelectContent>
+          {isReassign && <SelectItem value={RETURN_TO_QUEUE}>Return to queue</SelectItem>}
+          {candidates.map((driver) => (
+            <SelectItem key={driver.id} value={driver.id}>
+              {driver.fullName || driver.email}
+            </SelectItem>
+          ))}
+          {candidates.length === 0 && !isReassign && (
+            <SelectItem value="none" disabled>No drivers on duty</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      <Button
+        size="sm"
+        onClick={() => assignMutation.mutate(selectedDriver)}
+        disabled={!selectedDriver || assignMutation.isPending}
+      >
+        <UserCheck className="h-4 w-4 mr-1" />
+        {isReassign ? 'Reassign' : 'Assign'}
+      </Button>
+    </div>
+  );
+}
+
+// Top ranked drivers from the auto-dispatch engine, each with a one-click assign
+function DriverSuggestions({ delivery, suggestion, drivers }: {
+  delivery: Delivery;
+  suggestion?: DispatchSuggestion;
+  drivers: Driver[];
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const assignMutation = useMutation({
+    mutationFn: (driverId: string) =>
+      apiRequest(`/api/dispatch/deliveries/${delivery.id}/assign`, 'POST', { driverId }),
+    onSuccess: () => {
+      toast({ title: 'Delivery Assigned', description: 'Waiting for the driver to accept.' });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/deliveries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/suggestions'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Assignment Failed',
+        description: getApiErrorMessage(error, 'Failed to assign delivery.'),
+        variant: 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispatch/suggestions'] });
+    },
+  });
+
+  const topCandidates = suggestion?.candidates.slice(0, 3) ?? [];
+  if (topCandidates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <p className="text-xs font-medium text-muted-foreground mb-2">Suggested drivers</p>
+      <div className="space-y-1">
+        {topCandidates.map((candidate, index) => {
+          const driver = drivers.find((d) => d.id === candidate.driverId);
+          return (
+            <div key={candidate.driverId} className="flex items-center justify-between text-sm">
+              <span>
+                {index + 1}. {driver?.fullName || driver?.email || `Driver ${candidate.driverId.slice(-6)}`}
+                <span className="text-muted-foreground">
+                  {' '}• {candidate.activeDeliveries} active
+                  {candidate.distanceMiles !== null && ` • ${candidate.distanceMiles.toFixed(1)} mi to pickup`}
+                </span>
+              </span>
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant="outline"
+                  title={`Load ${candidate.breakdown.load} + Distance ${candidate.breakdown.distance} + Wait ${candidate.breakdown.wait}`}
+                >
+                  {Math.round(candidate.score)}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => assignMutation.mutate(candidate.driverId)}
+                  disabled={assignMutation.isPending}
+                >
+                  Assign
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export default function DispatchPage() {
   const { user, profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showPhoneOrderDialog, setShowPhoneOrderDialog] = useState(false);
@@ -102,6 +323,22 @@ export default function DispatchPage() {
     refetchInterval: 30000, // Refresh every 30 seconds
   }) as { data: Delivery[], isLoading: boolean };
 
+  // Fetch ranked driver suggestions for the waiting queue
+  const { data: suggestions = [] } = useQuery<DispatchSuggestion[]>({
+    queryKey: ['/api/dispatch/suggestions'],
+    refetchInterval: 30000, // Refresh every 30 seconds
+  });
+
+  // Fetch latest GPS position of each driver for the map
+  const { data: driverLocations = [] } = useQuery<DriverLocation[]>({
+    queryKey: ['/api/dispatch/driver-locations'],
+    refetchInterval: 15000, // Refresh every 15 seconds
+  });
+  const { data: tenant } = useQuery<{ id: string }>({
+    queryKey: ['/api/tenant'],
+  });
+  useDriverLocationsRealtime(tenant?.id);
+
   // Fetch businesses for phone orders
   const { data: businesses = [], isLoading: loadingBusinesses } = useQuery({
     queryKey: ['/api/businesses'],
@@ -131,9 +368,13 @@ export default function DispatchPage() {
       paymentMethod: 'cash',
       specialInstructions: '',
       businessId: '',
+      isRush: false,
     },
   });
 
+  // Phone orders are priced by the server like any other - the first submit returns the quote to read back to the caller
+  const [phoneQuote, setPhoneQuote] = useState<{ id: string; signature: string; totalAmount: number } | null>(null);
+
   // Watch for business selection changes and auto-populate pickup address
   const selectedBusinessId = form.watch('businessId');
   useEffect(() => {
@@ -155,10 +396,20 @@ export default function DispatchPage() {
         description: 'The phone order has been added to the waiting queue.',
       });
       form.reset();
+      setPhoneQuote(null);
       setShowPhoneOrderDialog(false);
       queryClient.invalidateQueries({ queryKey: ['/api/dispatch/deliveries'] });
     },
     onError: (error: any) => {
+      const body = getApiErrorBody(error);
+      if (body?.price?.quote) {
+        setPhoneQuote(body.price.quote);
+        toast({
+          title: 'Confirm the price',
+          description: `This order comes to $${Number(body.price.quote.totalAmount).toFixed(2)}. Add it again to confirm.`,
+        });
+        return;
+      }
       toast({
         title: 'Error',
         description: error.message || 'Failed to create phone order.',
@@ -180,6 +431,8 @@ export default function DispatchPage() {
     const phoneOrderData = {
       ...data,
       email: 'phone-order@sarasquickie.com',
+      quoteId: phoneQuote?.id,
+      quoteSignature: phoneQuote?.signature,
     };
     
     createPhoneOrder.mutate(phoneOrderData);
@@ -265,7 +518,7 @@ export default function DispatchPage() {
                   </DropdownMenuItem>
                   
                   {/* Admin Dashboard - Available to admins only */}
-                  {profile?.role === 'admin' && (
+                  {isAdmin && (
                     <DropdownMenuItem asChild>
                       <Link href="/admin" className="flex items-center w-full">
                         <Settings className="w-4 h-4 mr-2" />
@@ -275,7 +528,7 @@ export default function DispatchPage() {
                   )}
                   
                   {/* Business Settings - Available to admins only */}
-                  {profile?.role === 'admin' && (
+                  {isAdmin && (
                     <DropdownMenuItem asChild>
                       <Link href="/business-settings" className="flex items-center w-full">
                         <Settings className="w-4 h-4 mr-2" />
@@ -477,6 +730,25 @@ export default function DispatchPage() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="isRush"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel>Rush delivery - jumps the queue at the rush rate</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+
+                  {phoneQuote && (
+                    <p className="text-sm">
+                      <strong>Quoted price:</strong> ${Number(phoneQuote.totalAmount).toFixed(2)}
+                    </p>
+                  )}
+
                   <div className="flex justify-end gap-2 pt-4">
                     <Button type="button" variant="outline" onClick={() => setShowPhoneOrderDialog(false)}>
                       Cancel
@@ -493,11 +765,12 @@ export default function DispatchPage() {
       </div>
 
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="drivers">Drivers ({drivers.length})</TabsTrigger>
           <TabsTrigger value="queue">Queue ({availableDeliveries.length})</TabsTrigger>
           <TabsTrigger value="active">Active ({activeDeliveries.length})</TabsTrigger>
+          <TabsTrigger value="map">Map ({driverLocations.length})</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -572,15 +845,18 @@ export default function DispatchPage() {
                         {delivery.pickupAddress} → {delivery.deliveryAddress}
                       </p>
                     </div>
-                    <Badge variant={
-                      delivery.status === 'completed' ? 'default' :
-                      delivery.status === 'in_progress' ? 'secondary' :
-                      delivery.status === 'claimed' ? 'outline' : 'destructive'
-                    }>
-                      {delivery.status === 'in_progress' ? 'In Transit' :
-                       delivery.status === 'claimed' ? 'Driver Assigned' :
-                       delivery.status}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={
+                        delivery.status === 'completed' ? 'default' :
+                        delivery.status === 'in_progress' ? 'secondary' :
+                        delivery.status === 'claimed' ? 'outline' : 'destructive'
+                      }>
+                        {delivery.status === 'in_progress' ? 'In Transit' :
+                         delivery.status === 'claimed' ? 'Driver Assigned' :
+                         delivery.status}
+                      </Badge>
+                      <DeliveryHistoryDialog delivery={delivery} isAdmin={isAdmin} />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -670,6 +946,7 @@ export default function DispatchPage() {
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <p className="font-medium">{delivery.customerName}</p>
+                          <RushBadge isRush={delivery.isRush} dueBy={delivery.dueBy} />
                           {delivery.usedFreeDelivery && (
                             <Badge variant="outline" className="text-green-600 border-green-600">
                               FREE DELIVERY
@@ -693,6 +970,11 @@ export default function DispatchPage() {
                             <p className="text-sm"><strong>Instructions:</strong> {delivery.specialInstructions}</p>
                           </div>
                         )}
+                        <DriverSuggestions
+                          delivery={delivery}
+                          suggestion={suggestions.find((s) => s.deliveryId === delivery.id)}
+                          drivers={drivers}
+                        />
                       </div>
                       <div className="text-right">
                         <p className="text-xs text-muted-foreground">
@@ -700,6 +982,8 @@ export default function DispatchPage() {
                             ? format(new Date(delivery.createdAt), 'MMM d, h:mm a')
                             : 'Unknown date'}
                         </p>
+                        <DeliveryHistoryDialog delivery={delivery} isAdmin={isAdmin} />
+                        <AssignDriverControl delivery={delivery} drivers={onDutyDrivers} />
                       </div>
                     </div>
                   </div>
@@ -734,6 +1018,7 @@ export default function DispatchPage() {
                             <Badge variant={delivery.status === 'in_progress' ? 'default' : 'secondary'}>
                               {delivery.status === 'in_progress' ? 'In Transit' : 'Driver Assigned'}
                             </Badge>
+                            <RushBadge isRush={delivery.isRush} dueBy={delivery.dueBy} />
                             {delivery.usedFreeDelivery && (
                               <Badge variant="outline" className="text-green-600 border-green-600">
                                 FREE DELIVERY
@@ -758,6 +1043,12 @@ export default function DispatchPage() {
                             </div>
                           )}
                         </div>
+                        <div className="text-right">
+                          <DeliveryHistoryDialog delivery={delivery} isAdmin={isAdmin} />
+                          {delivery.status === 'claimed' && (
+                            <AssignDriverControl delivery={delivery} drivers={onDutyDrivers} />
+                          )}
+                        </div>
                       </div>
                     </div>
                   );
@@ -771,6 +1062,57 @@ export default function DispatchPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Map Tab */}
+        <TabsContent value="map" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Driver Locations
+              </CardTitle>
+              <CardDescription>Live positions of drivers with a delivery in progress</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DriverLocationMap
+                markers={driverLocations.map((location) => {
+                  const driver = drivers.find((d) => d.id === location.driverId);
+                  return {
+                    id: location.driverId,
+                    latitude: location.latitude,
+                    longitude: location.longitude,
+                    label: driver?.fullName || `Driver ${location.driverId.slice(-6)}`,
+                    detail: location.etaMinutes != null ? `ETA ${location.etaMinutes} min` : undefined,
+                  };
+                })}
+              />
+              <div className="space-y-2">
+                {driverLocations.map((location) => {
+                  const driver = drivers.find((d) => d.id === location.driverId);
+                  const delivery = deliveries.find((d) => d.id === location.deliveryId);
+                  return (
+                    <div key={location.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                      <div>
+                        <p className="font-medium">{driver?.fullName || `Driver ${location.driverId.slice(-6)}`}</p>
+                        {delivery && (
+                          <p className="text-muted-foreground">To {delivery.customerName} - {delivery.deliveryAddress}</p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        {location.etaMinutes != null && (
+                          <Badge variant="secondary">ETA {location.etaMinutes} min</Badge>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Updated {format(new Date(location.recordedAt), 'h:mm:ss a')}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
       </div>
     </div>
@@ -10,13 +10,21 @@ import { Textarea } from '../components/ui/textarea';
 import { Label } from '../components/ui/label';
 import { Switch } from '../components/ui/switch';
 import { toast } from '../hooks/use-toast';
-import { apiRequest } from '../lib/queryClient';
+import { apiRequest, getApiErrorMessage } from '../lib/queryClient';
 import { useDriverProfileRealtime, useAvailableDeliveriesRealtime, useDriverDeliveriesRealtime } from '../hooks/use-realtime';
-import type { DeliveryRequest, UserProfile } from '@shared/schema';
+import { useDriverLocationReporting } from '../hooks/use-driver-location';
+import { ProofOfDeliveryDialog } from '../components/ProofOfDeliveryDialog';
+import { DeliveryStops } from '../components/DeliveryStops';
+import { RushBadge } from '../components/RushBadge';
+import { DriverEarnings } from '../components/DriverEarnings';
+import type { DeliveryRequest, DeliveryAssignment, UserProfile } from '@shared/schema';
 
 interface BusinessSettings {
   logoUrl?: string;
   businessName?: string;
+  features?: {
+    realTimeTracking?: boolean;
+  };
 }
 import { Truck, Clock, MapPin, Phone, DollarSign, Package, Home, Power, PowerOff, User, ChevronDown, LogOut, Globe, Settings } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '../components/ui/dropdown-menu';
@@ -73,9 +81,25 @@ export default function DriverPortal() {
     enabled: !!user
   });
 
+  // Fetch dispatcher assignments waiting for this driver to accept or decline
+  const { data: pendingAssignments = [] } = useQuery<DeliveryAssignment[]>({
+    queryKey: ['/api/driver', user?.id, 'assignments'],
+    enabled: !!user,
+    refetchInterval: 30000, // Refresh every 30 seconds
+  });
+
   // Filter active deliveries only  
   const activeDeliveries = myDeliveries.filter(d => d.status !== 'completed');
 
+  // Share GPS with dispatch and the customer while a delivery is in progress
+  const inProgressDelivery = activeDeliveries.find(d => d.status === 'in_progress');
+  const trackingEnabled = businessSettings?.features?.realTimeTracking !== false;
+  const { isSharing: isSharingLocation, error: locationError } = useDriverLocationReporting(
+    user?.id,
+    inProgressDelivery?.id,
+    trackingEnabled
+  );
+
   // Claim delivery mutation
   const claimDeliveryMutation = useMutation({
     mutationFn: async ({ deliveryId, notes }: { deliveryId: string; notes?: string }) => {
@@ -92,6 +116,17 @@ export default function DriverPortal() {
       setActiveTab('my-deliveries'); // Auto-switch to My Deliveries tab
     },
     onError: (error: any) => {
+      // 409 means someone else got there first (or we're at the claim limit) - refresh the queue
+      if (error.message?.startsWith('409')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/driver/deliveries/available'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'deliveries'] });
+        toast({
+          title: "Delivery Unavailable",
+          description: getApiErrorMessage(error, "This delivery was already claimed by another driver"),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: error.message || "Failed to claim delivery",
@@ -107,6 +142,7 @@ export default function DriverPortal() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'deliveries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'earnings'] });
       toast({
         title: "Status Updated",
         description: "Delivery status has been updated successfully.",
@@ -115,7 +151,34 @@ export default function DriverPortal() {
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to update status",
+        description: getApiErrorMessage(error, "Failed to update status"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Accept or decline a dispatcher assignment
+  const respondToAssignmentMutation = useMutation({
+    mutationFn: async ({ assignmentId, accept }: { assignmentId: string; accept: boolean }) => {
+      return apiRequest(`/api/driver/${user!.id}/assignments/${assignmentId}/respond`, 'POST', { accept });
+    },
+    onSuccess: (_data, { accept }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'deliveries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/driver/deliveries/available'] });
+      toast({
+        title: accept ? "Assignment Accepted" : "Assignment Declined",
+        description: accept
+          ? "The delivery is yours. Start it when you're ready."
+          : "The delivery has been returned to the queue.",
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/driver', user?.id, 'deliveries'] });
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to respond to assignment"),
         variant: "destructive",
       });
     }
@@ -333,12 +396,18 @@ export default function DriverPortal() {
         </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="available">
             Available ({availableDeliveries.length})
           </TabsTrigger>
           <TabsTrigger value="my-deliveries">
             Active ({activeDeliveries.length})
+            {pendingAssignments.length > 0 && (
+              <Badge className="ml-2 bg-blue-600 text-white">{pendingAssignments.length} new</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="earnings">
+            Earnings
           </TabsTrigger>
         </TabsList>
 
@@ -375,6 +444,7 @@ export default function DriverPortal() {
                       <div>
                         <div className="flex items-center gap-2">
                           <CardTitle className="text-lg">{delivery.customerName}</CardTitle>
+                          <RushBadge isRush={delivery.isRush} dueBy={delivery.dueBy} />
                           {delivery.usedFreeDelivery && (
                             <Badge className="bg-yellow-500 hover:bg-yellow-600 text-white">
                               FREE DELIVERY
@@ -421,6 +491,11 @@ export default function DriverPortal() {
                       <div className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4 text-gray-500" />
                         <span className="text-sm">{delivery.paymentMethod}</span>
+                        {parseFloat(delivery.tipAmount) > 0 && (
+                          <Badge variant="outline" className="text-green-700 border-green-600">
+                            ${parseFloat(delivery.tipAmount).toFixed(2)} tip
+                          </Badge>
+                        )}
                       </div>
                     </div>
 
@@ -449,6 +524,16 @@ export default function DriverPortal() {
           <div className="flex items-center gap-2 mb-4">
             <Truck className="h-5 w-5" />
             <h2 className="text-xl font-semibold">Active Deliveries</h2>
+            {inProgressDelivery && trackingEnabled && (
+              locationError ? (
+                <Badge variant="destructive" className="ml-auto">{locationError}</Badge>
+              ) : isSharingLocation ? (
+                <Badge variant="secondary" className="ml-auto gap-1">
+                  <MapPin className="h-3 w-3" />
+                  Sharing location
+                </Badge>
+              ) : null
+            )}
           </div>
 
           {loadingMy ? (
@@ -463,13 +548,16 @@ export default function DriverPortal() {
             </Card>
           ) : (
             <div className="grid gap-4">
-              {activeDeliveries.map((delivery: DeliveryRequest) => (
+              {activeDeliveries.map((delivery: DeliveryRequest) => {
+                const pendingAssignment = pendingAssignments.find(a => a.deliveryId === delivery.id);
+                return (
                 <Card key={delivery.id} className={`border-l-4 ${delivery.usedFreeDelivery ? 'border-l-yellow-500 bg-yellow-50' : 'border-l-blue-500'}`}>
                   <CardHeader>
                     <div className="flex justify-between items-start">
                       <div>
                         <div className="flex items-center gap-2">
                           <CardTitle className="text-lg">{delivery.customerName}</CardTitle>
+                          <RushBadge isRush={delivery.isRush} dueBy={delivery.dueBy} />
                           {delivery.usedFreeDelivery && (
                             <Badge className="bg-yellow-500 hover:bg-yellow-600 text-white">
                               FREE DELIVERY
@@ -516,9 +604,20 @@ export default function DriverPortal() {
                       <div className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4 text-gray-500" />
                         <span className="text-sm">{delivery.paymentMethod}</span>
+                        {parseFloat(delivery.tipAmount) > 0 && (
+                          <Badge variant="outline" className="text-green-700 border-green-600">
+                            ${parseFloat(delivery.tipAmount).toFixed(2)} tip
+                          </Badge>
+                        )}
                       </div>
                     </div>
 
+                    <DeliveryStops
+                      deliveryId={delivery.id}
+                      driverId={user!.id}
+                      canUpdate={delivery.status === 'in_progress'}
+                    />
+
                     {delivery.specialInstructions && (
                       <div className="bg-gray-50 p-3 rounded-md">
                         <p className="font-medium text-sm mb-1">Special Instructions</p>
@@ -553,8 +652,36 @@ export default function DriverPortal() {
                       </div>
                     </div>
 
+                    {pendingAssignment && (
+                      <div className="bg-blue-50 border border-blue-200 p-3 rounded-lg">
+                        <p className="font-medium text-sm text-blue-900">Dispatch assigned this delivery to you</p>
+                        {pendingAssignment.notes && (
+                          <p className="text-sm text-blue-800 mt-1">{pendingAssignment.notes}</p>
+                        )}
+                        <div className="flex gap-2 mt-3">
+                          <Button
+                            size="sm"
+                            onClick={() => respondToAssignmentMutation.mutate({ assignmentId: pendingAssignment.id, accept: true })}
+                            disabled={respondToAssignmentMutation.isPending}
+                            className="flex-1"
+                          >
+                            Accept
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => respondToAssignmentMutation.mutate({ assignmentId: pendingAssignment.id, accept: false })}
+                            disabled={respondToAssignmentMutation.isPending}
+                            className="flex-1"
+                          >
+                            Decline
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex gap-2">
-                      {delivery.status === 'claimed' && (
+                      {delivery.status === 'claimed' && !pendingAssignment && (
                         <Button 
                           onClick={() => handleStatusUpdate(delivery.id, 'in_progress')}
                           disabled={updateStatusMutation.isPending}
@@ -564,22 +691,25 @@ export default function DriverPortal() {
                         </Button>
                       )}
                       {delivery.status === 'in_progress' && (
-                        <Button 
-                          onClick={() => handleStatusUpdate(delivery.id, 'completed')}
+                        <ProofOfDeliveryDialog
+                          deliveryId={delivery.id}
+                          driverId={user!.id}
+                          onComplete={() => handleStatusUpdate(delivery.id, 'completed')}
                           disabled={updateStatusMutation.isPending}
-                          className="flex-1"
-                        >
-                          Mark Complete
-                        </Button>
+                        />
                       )}
                     </div>
                   </CardContent>
                 </Card>
-              ))}
+                );
+              })}
             </div>
           )}
         </TabsContent>
 
+        <TabsContent value="earnings" className="space-y-4">
+          {user && <DriverEarnings driverId={user.id} />}
+        </TabsContent>
 
       </Tabs>
       </div>
@@ -34,6 +34,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { EnhancedDeliveryForm } from "@/components/ui/enhanced-delivery-form";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useCustomerDeliveriesRealtime } from "@/hooks/use-realtime";
+import { DeliveryTimeline } from "@/components/DeliveryTimeline";
+import { DeliveryEta } from "@/components/DeliveryEta";
 import MarketingSite from "@/components/MarketingSite";
 import TenantNotFound from "./tenant-not-found";
 
@@ -485,6 +487,15 @@ function DeliverySiteContent() {
                             <span>On the way to your destination</span>
                           </div>
                         )}
+
+                        {delivery.status === 'in_progress' && (
+                          <DeliveryEta deliveryId={delivery.id} />
+                        )}
+
+                        <div className="border-t pt-3">
+                          <p className="text-xs font-medium text-gray-500 mb-2">Status History</p>
+                          <DeliveryTimeline deliveryId={delivery.id} />
+                        </div>
                       </CardContent>
                     </Card>
                   ))
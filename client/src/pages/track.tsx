@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, Heart, MapPin, Package, RotateCcw, Truck, User } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TipSelector } from "@/components/TipSelector";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { DeliveryTimeline } from "@/components/DeliveryTimeline";
+import { DeliveryEtaBanner, type DeliveryTracking } from "@/components/DeliveryEta";
+import { DeliveryProofView } from "@/components/DeliveryProofView";
+import type { DeliveryEvent, DeliveryProof } from "@shared/schema";
+
+interface TrackedDelivery {
+  id: string;
+  status: string;
+  businessName: string | null;
+  deliveryAddress: string;
+  preferredDate: string;
+  preferredTime: string;
+  createdAt: string;
+  driverFirstName: string | null;
+  totalAmount: string | null;
+  tipAmount: string;
+  tipInvoiceUrl: string | null;
+  canTip: boolean;
+  paymentStatus: string | null;
+  invoiceUrl: string | null;
+  refundedAmount: string;
+  refunds: { amount: string; status: string; createdAt: string }[];
+  events: DeliveryEvent[];
+  tracking: DeliveryTracking;
+  proof: (Pick<DeliveryProof, 'photoUrl' | 'signatureUrl' | 'recipientName' | 'latitude' | 'longitude'> & { capturedAt: string }) | null;
+}
+
+const STATUS_DISPLAY: Record<string, { label: string; description: string }> = {
+  pending: { label: 'Received', description: 'We have your order and will get it ready soon.' },
+  available: { label: 'Finding a Driver', description: 'Your order is waiting for the next available driver.' },
+  claimed: { label: 'Driver Assigned', description: 'A driver has your order and is preparing for pickup.' },
+  in_progress: { label: 'On the Way', description: 'Your driver is on the way.' },
+  completed: { label: 'Delivered', description: 'Your order has been delivered. Thank you!' },
+  cancelled: { label: 'Cancelled', description: 'This order was cancelled.' },
+};
+
+// Tip the driver once the order has arrived - payment happens on the invoice it opens
+function TipDriverCard({ token, delivery }: { token: string; delivery: TrackedDelivery }) {
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState(0);
+  const tipped = parseFloat(delivery.tipAmount) > 0;
+
+  const tipMutation = useMutation({
+    mutationFn: async (): Promise<{ tipAmount: string; tipInvoiceUrl: string | null }> => {
+      const response = await apiRequest(`/api/track/${token}/tip`, 'POST', { amount });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/track/${token}`] });
+      if (result.tipInvoiceUrl) {
+        window.open(result.tipInvoiceUrl, '_blank', 'noopener');
+      }
+    },
+  });
+
+  if (!tipped && !delivery.canTip) {
+    return null;
+  }
+
+  const driver = delivery.driverFirstName || 'your driver';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Heart className="h-4 w-4 text-pink-500" />
+          {tipped ? 'Thanks for Tipping' : `Tip ${driver}`}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tipped ? (
+          <>
+            <p className="text-sm">You tipped {driver} ${parseFloat(delivery.tipAmount).toFixed(2)}.</p>
+            {delivery.tipInvoiceUrl && (
+              <a href={delivery.tipInvoiceUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 underline">
+                View or pay your tip invoice
+              </a>
+            )}
+          </>
+        ) : (
+          <>
+            <TipSelector baseAmount={parseFloat(delivery.totalAmount ?? '') || 0} value={amount} onChange={setAmount} />
+            <Button onClick={() => tipMutation.mutate()} disabled={amount <= 0 || tipMutation.isPending}>
+              {tipMutation.isPending ? 'Sending...' : `Tip $${amount.toFixed(2)}`}
+            </Button>
+            {tipMutation.isError && (
+              <p className="text-sm text-red-600">{getApiErrorMessage(tipMutation.error, 'Could not add your tip')}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Money sent back to the customer - only shown once a refund has been made
+function RefundsCard({ delivery }: { delivery: TrackedDelivery }) {
+  if (delivery.refunds.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <RotateCcw className="h-4 w-4 text-blue-500" />
+          {delivery.paymentStatus === 'refunded' ? 'Order Refunded' : 'Refunds'}
+        </CardTitle>
+        <CardDescription>
+          ${parseFloat(delivery.refundedAmount).toFixed(2)} refunded to your original payment method
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {delivery.refunds.map((refund, index) => (
+          <div key={index} className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-muted-foreground">{format(new Date(refund.createdAt), 'MMM d, h:mm a')}</span>
+            <span className="flex items-center gap-2">
+              {refund.status === 'pending' && <Badge variant="outline">Processing</Badge>}
+              <span className="font-medium">${parseFloat(refund.amount).toFixed(2)}</span>
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Public order status for guest customers - reached through the link shown after checkout
+export default function TrackOrder({ params }: { params: { token: string } }) {
+  const { data: delivery, isLoading, error } = useQuery<TrackedDelivery>({
+    queryKey: [`/api/track/${params.token}`],
+    refetchInterval: 30000, // Refresh every 30 seconds
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <p className="text-sm text-muted-foreground">Loading your order...</p>
+      </div>
+    );
+  }
+
+  if (error || !delivery) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Order Not Found</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              This tracking link is invalid or belongs to a different delivery service.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const display = STATUS_DISPLAY[delivery.status] || { label: delivery.status, description: '' };
+
+  return (
+    <div className="min-h-screen w-full bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Track Your Order
+              </CardTitle>
+              <Badge variant={delivery.status === 'cancelled' ? 'destructive' : 'default'}>
+                {display.label}
+              </Badge>
+            </div>
+            <CardDescription>
+              {delivery.businessName ? `${delivery.businessName} • ` : ''}
+              Placed {format(new Date(delivery.createdAt), 'MMM d, h:mm a')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm">{display.description}</p>
+
+            <DeliveryEtaBanner tracking={delivery.tracking} />
+
+            {delivery.invoiceUrl && (
+              <div className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+                <span>This order hasn't been paid yet.</span>
+                <a href={delivery.invoiceUrl} target="_blank" rel="noopener noreferrer">
+                  <Button size="sm">Pay Now</Button>
+                </a>
+              </div>
+            )}
+
+            <div className="space-y-2 text-sm">
+              <div className="flex items-start gap-2">
+                <MapPin className="h-4 w-4 mt-0.5 text-green-500" />
+                <span>{delivery.deliveryAddress}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Truck className="h-4 w-4 text-blue-500" />
+                <span>Pickup {delivery.preferredDate} at {delivery.preferredTime}</span>
+              </div>
+              {delivery.driverFirstName && (
+                <div className="flex items-center gap-2">
+                  <User className="h-4 w-4 text-gray-500" />
+                  <span>Your driver is {delivery.driverFirstName}</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {delivery.proof && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Delivery Receipt</CardTitle>
+              <CardDescription>Proof of delivery captured by your driver</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DeliveryProofView proof={delivery.proof} />
+            </CardContent>
+          </Card>
+        )}
+
+        <RefundsCard delivery={delivery} />
+
+        <TipDriverCard token={params.token} delivery={delivery} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Order History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DeliveryTimeline deliveryId={delivery.id} events={delivery.events} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
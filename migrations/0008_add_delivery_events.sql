@@ -0,0 +1,25 @@
+-- Migration: Add delivery events table for status audit trail
+-- Date: October 2026
+-- Description: Record every delivery status transition with the actor and notes
+
+CREATE TABLE IF NOT EXISTS delivery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  delivery_id VARCHAR NOT NULL REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_type TEXT NOT NULL,
+  actor_id TEXT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_events_delivery_id ON delivery_events(delivery_id, created_at);
+
+-- Seed a creation event for existing deliveries so their history is not empty
+INSERT INTO delivery_events (tenant_id, delivery_id, from_status, to_status, actor_type, created_at)
+SELECT tenant_id, id, NULL, status, 'system', created_at
+FROM delivery_requests
+WHERE NOT EXISTS (
+  SELECT 1 FROM delivery_events WHERE delivery_events.delivery_id = delivery_requests.id
+);
@@ -0,0 +1,9 @@
+-- Migration: Add per-driver active claim limit
+-- Date: October 2026
+-- Description: Cap how many claimed/in-progress deliveries a single driver can hold at once
+
+ALTER TABLE business_settings
+ADD COLUMN IF NOT EXISTS max_active_claims_per_driver INTEGER DEFAULT 3;
+
+-- Speeds up the claim limit check and the driver's "my deliveries" list
+CREATE INDEX IF NOT EXISTS idx_delivery_requests_claimed_by_status ON delivery_requests(claimed_by_driver, status);
@@ -0,0 +1,18 @@
+-- Migration: Add delivery assignments table
+-- Date: October 2026
+-- Description: Track dispatcher-initiated assignments and the driver's accept/decline response
+
+CREATE TABLE IF NOT EXISTS delivery_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  delivery_id VARCHAR NOT NULL REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  driver_id TEXT NOT NULL,
+  assigned_by TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  notes TEXT,
+  responded_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_assignments_delivery_id ON delivery_assignments(delivery_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_delivery_assignments_driver_pending ON delivery_assignments(driver_id) WHERE status = 'pending';
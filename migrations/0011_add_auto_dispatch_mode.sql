@@ -0,0 +1,6 @@
+-- Migration: Add auto-dispatch mode to business settings
+-- Date: October 2026
+-- Description: Let tenants choose between driver suggestions only and automatic assignment
+
+ALTER TABLE business_settings
+ADD COLUMN IF NOT EXISTS auto_dispatch_mode TEXT DEFAULT 'suggest';
@@ -0,0 +1,31 @@
+-- Migration: Add driver locations table for live tracking
+-- Date: October 2026
+-- Description: Store GPS pings from drivers with an in-progress delivery (used when enable_real_time_tracking is on)
+
+CREATE TABLE IF NOT EXISTS driver_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  driver_id TEXT NOT NULL,
+  delivery_id VARCHAR REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  accuracy DOUBLE PRECISION,
+  heading DOUBLE PRECISION,
+  speed DOUBLE PRECISION,
+  eta_minutes INTEGER,
+  recorded_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_locations_driver ON driver_locations(driver_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_locations_delivery ON driver_locations(delivery_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_locations_tenant ON driver_locations(tenant_id, recorded_at DESC);
+
+-- Customers receive new pings for their delivery through Supabase realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE driver_locations;
+  END IF;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
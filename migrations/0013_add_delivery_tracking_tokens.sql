@@ -0,0 +1,12 @@
+-- Migration: Add tracking tokens to delivery requests
+-- Date: October 2026
+-- Description: Unguessable per-delivery token for the public /track/:token page used by guest customers
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tracking_token TEXT;
+
+-- Backfill existing deliveries so their customers can be sent a link too
+UPDATE delivery_requests
+SET tracking_token = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+WHERE tracking_token IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delivery_requests_tracking_token ON delivery_requests(tracking_token);
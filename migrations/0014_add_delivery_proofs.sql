@@ -0,0 +1,27 @@
+-- Migration: Add proof of delivery
+-- Date: October 2026
+-- Description: Photo, signature, recipient name and GPS captured at drop-off, plus the settings that make it mandatory
+
+CREATE TABLE IF NOT EXISTS delivery_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  delivery_id VARCHAR NOT NULL UNIQUE REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  driver_id TEXT NOT NULL,
+  photo_url TEXT NOT NULL,
+  signature_url TEXT,
+  recipient_name TEXT NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy DOUBLE PRECISION,
+  captured_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_proofs_tenant ON delivery_proofs(tenant_id, captured_at DESC);
+
+-- Tenant-wide requirement, or only for orders paid with the listed payment methods
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS require_proof_of_delivery BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS proof_of_delivery_payment_methods TEXT[] DEFAULT ARRAY[]::text[];
+
+-- Per pickup business requirement
+ALTER TABLE businesses ADD COLUMN IF NOT EXISTS require_proof_of_delivery BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,20 @@
+-- Migration: Add delivery stops for multi-stop deliveries
+-- Date: October 2026
+-- Description: Ordered pickup/drop-off stops with per-stop status and notes (used when enable_multi_stop_deliveries is on)
+
+CREATE TABLE IF NOT EXISTS delivery_stops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  delivery_id VARCHAR NOT NULL REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('pickup', 'dropoff')),
+  address TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'skipped')),
+  driver_notes TEXT,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (delivery_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_stops_delivery ON delivery_stops(delivery_id, sequence);
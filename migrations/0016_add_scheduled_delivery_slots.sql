@@ -0,0 +1,16 @@
+-- Migration: Add scheduled delivery slots
+-- Date: October 2026
+-- Description: Time slot booked for a scheduled delivery, when it is released to drivers, and the per-tenant slot settings
+
+ALTER TABLE delivery_requests
+  ADD COLUMN IF NOT EXISTS scheduled_slot_start TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS scheduled_slot_end TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS release_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_delivery_requests_slot ON delivery_requests(tenant_id, scheduled_slot_start)
+  WHERE scheduled_slot_start IS NOT NULL;
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS delivery_slot_minutes INTEGER DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS delivery_slot_capacity INTEGER DEFAULT 4,
+  ADD COLUMN IF NOT EXISTS scheduled_release_lead_minutes INTEGER DEFAULT 120;
@@ -0,0 +1,6 @@
+-- Migration: Add zone pricing mode
+-- Date: October 2026
+-- Description: Per-tenant choice of how service zone fees combine with distance pricing (zone, distance or the greater of the two)
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS zone_pricing_mode TEXT DEFAULT 'distance';
@@ -0,0 +1,23 @@
+-- Migration: Add delivery quotes
+-- Date: October 2026
+-- Description: Server-issued, signed price quotes - orders are charged the quoted amount instead of a client-supplied total
+
+CREATE TABLE IF NOT EXISTS delivery_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  pickup_address TEXT NOT NULL,
+  delivery_address TEXT NOT NULL,
+  stops JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_rush BOOLEAN NOT NULL DEFAULT FALSE,
+  distance DOUBLE PRECISION NOT NULL,
+  breakdown JSONB NOT NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  signature TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_quotes_tenant ON delivery_quotes(tenant_id, expires_at);
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS quote_id UUID;
@@ -0,0 +1,26 @@
+-- Migration: Add pricing rules
+-- Date: October 2026
+-- Description: Ordered per-tenant pricing rules, the order value customers enter, and the pricing inputs a quote is bound to
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  action TEXT NOT NULL,
+  amount NUMERIC(10, 2),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_tenant ON pricing_rules(tenant_id, position);
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS order_value NUMERIC(10, 2);
+
+ALTER TABLE delivery_quotes
+  ADD COLUMN IF NOT EXISTS business_id VARCHAR,
+  ADD COLUMN IF NOT EXISTS customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS order_value NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS deliver_at TIMESTAMP;
@@ -0,0 +1,28 @@
+-- Migration: Add maps lookup cache
+-- Date: October 2026
+-- Description: Caches geocodes and pairwise distances by normalized address so quotes stop calling the maps provider every time
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  address_key TEXT PRIMARY KEY,
+  formatted_address TEXT,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  provider TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS distance_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  origin_key TEXT NOT NULL,
+  destination_key TEXT NOT NULL,
+  distance DOUBLE PRECISION NOT NULL,
+  duration INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (origin_key, destination_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_expires ON geocode_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_distance_cache_expires ON distance_cache(expires_at);
@@ -0,0 +1,10 @@
+-- Migration: Add rush delivery priority
+-- Date: October 2026
+-- Description: Rush orders are stored on the delivery, sorted first in the driver queue and given a per-tenant SLA target
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS is_rush BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS due_by TIMESTAMP;
+
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS rush_sla_minutes INTEGER DEFAULT 45;
+
+CREATE INDEX IF NOT EXISTS idx_delivery_requests_queue ON delivery_requests(status, is_rush DESC, due_by, created_at);
@@ -0,0 +1,41 @@
+-- Migration: Add promo codes
+-- Date: October 2026
+-- Description: Tenant promo codes with validity windows, limits and business/zone restrictions, one redemption row per order that used one
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'::uuid,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  discount_type TEXT NOT NULL,
+  amount NUMERIC(10, 2),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  starts_at TIMESTAMP,
+  ends_at TIMESTAMP,
+  days JSONB NOT NULL DEFAULT '[]'::jsonb,
+  max_redemptions INTEGER,
+  max_redemptions_per_customer INTEGER,
+  first_order_only BOOLEAN NOT NULL DEFAULT FALSE,
+  min_order_value NUMERIC(10, 2),
+  business_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  zone_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (tenant_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  promotion_id UUID NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  delivery_id VARCHAR NOT NULL UNIQUE REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  customer_id TEXT,
+  customer_email TEXT NOT NULL,
+  discount_amount NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion ON promotion_redemptions(promotion_id, created_at DESC);
+
+ALTER TABLE delivery_quotes ADD COLUMN IF NOT EXISTS promo_code TEXT;
@@ -0,0 +1,9 @@
+-- Migration: Add driver tips
+-- Date: October 2026
+-- Description: Tips are stored apart from the delivery fee, added at checkout or invoiced through Square after delivery
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tip_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tip_source TEXT;
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tipped_at TIMESTAMP;
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tip_invoice_id TEXT;
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tip_invoice_url TEXT;
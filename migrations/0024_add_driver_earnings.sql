@@ -0,0 +1,41 @@
+-- Migration: Add driver earnings ledger and payouts
+-- Date: October 2026
+-- Description: Per-tenant driver pay rates, an earnings row per completed delivery (and per later tip), and payout period close-outs
+
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS driver_pay_per_delivery NUMERIC(10, 2) DEFAULT 0;
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS driver_pay_per_mile NUMERIC(10, 2) DEFAULT 0;
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS driver_pay_fee_percent NUMERIC(5, 2) DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS driver_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  period_start TIMESTAMP NOT NULL,
+  period_end TIMESTAMP NOT NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  earning_count INTEGER NOT NULL,
+  driver_count INTEGER NOT NULL,
+  closed_by TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_payouts_tenant ON driver_payouts(tenant_id, period_end DESC);
+
+CREATE TABLE IF NOT EXISTS driver_earnings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  driver_id TEXT NOT NULL,
+  delivery_id VARCHAR NOT NULL REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  delivery_pay NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  mileage_pay NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  fee_share_pay NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  tip_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  distance DOUBLE PRECISION,
+  payout_id UUID REFERENCES driver_payouts(id),
+  earned_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (delivery_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_earnings_driver ON driver_earnings(driver_id, earned_at);
+CREATE INDEX IF NOT EXISTS idx_driver_earnings_unpaid ON driver_earnings(tenant_id, earned_at) WHERE payout_id IS NULL;
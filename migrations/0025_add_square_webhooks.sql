@@ -0,0 +1,21 @@
+-- Migration: Add Square webhook receiver
+-- Date: October 2026
+-- Description: Per-tenant webhook signature key and notification URL, and a record of received events so each is applied once
+
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS square_webhook_signature_key TEXT;
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS square_webhook_url TEXT;
+
+CREATE TABLE IF NOT EXISTS square_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  object_id TEXT,
+  delivery_id VARCHAR,
+  outcome TEXT,
+  received_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (tenant_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_requests_square_payment ON delivery_requests(square_payment_id) WHERE square_payment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_delivery_requests_square_invoice ON delivery_requests(square_invoice_id) WHERE square_invoice_id IS NOT NULL;
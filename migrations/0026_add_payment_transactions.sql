@@ -0,0 +1,21 @@
+-- Migration: Add payment transactions ledger
+-- Date: October 2026
+-- Description: Charges, refunds and adjustments per delivery, and a running refunded total so partial refunds can't exceed what was charged
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10, 2) DEFAULT 0 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS payment_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  delivery_id VARCHAR NOT NULL REFERENCES delivery_requests(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  status TEXT DEFAULT 'completed' NOT NULL,
+  square_payment_id TEXT,
+  square_refund_id TEXT UNIQUE,
+  reason TEXT,
+  actor_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_delivery ON payment_transactions(delivery_id, created_at);
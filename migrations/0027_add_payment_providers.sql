@@ -0,0 +1,10 @@
+-- Migration: Add payment provider choice
+-- Date: October 2026
+-- Description: Tenants pick Square or Stripe for card payments; Stripe credentials (secret key and webhook secret encrypted), and which provider took each order's payment
+
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS payment_provider TEXT DEFAULT 'square';
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS stripe_secret_key TEXT;
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS stripe_publishable_key TEXT;
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS stripe_webhook_secret TEXT;
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS payment_provider TEXT;
@@ -0,0 +1,20 @@
+-- Migration: Add tenant billing lifecycle
+-- Date: October 2026
+-- Description: Trial reminders, past-due and cancellation dates on tenants, and a billing history per tenant
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS trial_reminder_days INTEGER;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS past_due_at TIMESTAMP;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS tenant_billing_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  message TEXT NOT NULL,
+  plan_type TEXT,
+  actor_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_billing_events_tenant ON tenant_billing_events(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tenants_billing_status ON tenants(billing_status);
@@ -0,0 +1,25 @@
+-- Migration: Restrict who can read driver GPS pings
+-- Date: October 2026
+-- Description: driver_locations is in the supabase_realtime publication, and realtime only enforces what RLS allows.
+-- Staff see their own tenant's drivers, customers see the pings for their own deliveries. The server connects as the
+-- table owner and is not affected.
+
+ALTER TABLE driver_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "driver_locations_staff_view" ON driver_locations;
+CREATE POLICY "driver_locations_staff_view" ON driver_locations
+FOR SELECT USING (
+  tenant_id IN (
+    SELECT tenant_id FROM business_staff
+    WHERE id = auth.uid()::text AND role IN ('admin', 'dispatcher')
+  )
+);
+
+DROP POLICY IF EXISTS "driver_locations_customer_view" ON driver_locations;
+CREATE POLICY "driver_locations_customer_view" ON driver_locations
+FOR SELECT USING (
+  delivery_id IN (
+    SELECT id FROM delivery_requests
+    WHERE user_id::text = auth.uid()::text AND status = 'in_progress'
+  )
+);
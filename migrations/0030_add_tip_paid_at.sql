@@ -0,0 +1,14 @@
+-- Migration: Track when a driver tip was paid
+-- Date: October 2026
+-- Description: Drivers are credited with a tip only once the payment provider confirms it was paid - with the order's
+-- invoice for checkout tips, or the tip's own invoice when added after delivery. Checkout tips on orders that were
+-- already paid count as paid from when they were given.
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS tip_paid_at TIMESTAMP;
+
+UPDATE delivery_requests
+SET tip_paid_at = tipped_at
+WHERE tip_source = 'checkout'
+  AND tip_amount > 0
+  AND payment_status IN ('paid', 'refunded')
+  AND tip_paid_at IS NULL;
@@ -0,0 +1,8 @@
+-- Migration: Keep the Square order behind an order's invoice
+-- Date: October 2026
+-- Description: Square's payment notifications name the order a payment was for, not the invoice. Storing the order
+-- lets a paid invoice's payment be matched to its delivery, so the payment can be refunded later.
+
+ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS square_order_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_delivery_requests_square_order ON delivery_requests(square_order_id) WHERE square_order_id IS NOT NULL;
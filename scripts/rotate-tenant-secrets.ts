@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+
+// Tenant Secrets Rotation - re-wraps every tenant's stored credentials with the current master key
+//
+// 1. Generate a new key: openssl rand -base64 32
+// 2. Set TENANT_SECRETS_KEY to the new key and TENANT_SECRETS_PREVIOUS_KEYS to the old one, and deploy
+// 3. Run: npm run secrets:rotate
+// 4. Once it reports no failures, remove the old key from TENANT_SECRETS_PREVIOUS_KEYS
+//
+// Secrets saved before encryption was added are encrypted on the way. Safe to run again.
+
+import { and, eq } from "drizzle-orm";
+import { db } from "../server/db.js";
+import { businessSettings } from "../shared/schema.js";
+import { TENANT_SECRET_FIELDS, rewrapTenantSecret } from "../server/tenantSecrets.js";
+
+async function rotateTenantSecrets() {
+  console.log("Starting tenant secrets rotation...");
+
+  const rows = await db.select().from(businessSettings);
+  let rotatedCount = 0;
+  let currentCount = 0;
+  let errorCount = 0;
+
+  for (const row of rows) {
+    for (const field of TENANT_SECRET_FIELDS) {
+      const stored = row[field];
+      if (!stored) continue;
+
+      try {
+        const rewrapped = rewrapTenantSecret(row.tenantId, field, stored);
+        if (!rewrapped) {
+          currentCount++;
+          continue;
+        }
+
+        // Only replace the value we read, so a secret saved while this runs isn't overwritten
+        const [updated] = await db
+          .update(businessSettings)
+          .set({ [field]: rewrapped })
+          .where(and(eq(businessSettings.id, row.id), eq(businessSettings[field], stored)))
+          .returning({ id: businessSettings.id });
+
+        if (updated) {
+          console.log(`✓ Rotated ${field} for tenant ${row.tenantId}`);
+          rotatedCount++;
+        } else {
+          console.log(`- ${field} for tenant ${row.tenantId} changed during rotation - it was saved with the current key`);
+          currentCount++;
+        }
+      } catch (error) {
+        console.error(`Error rotating ${field} for tenant ${row.tenantId}:`, error);
+        errorCount++;
+      }
+    }
+  }
+
+  console.log(`\nTenant secrets rotation completed:`);
+  console.log(`- ${rotatedCount} secrets re-encrypted`);
+  console.log(`- ${currentCount} secrets already on the current key`);
+  console.log(`- ${errorCount} secrets failed`);
+
+  if (errorCount > 0) {
+    process.exit(1);
+  }
+}
+
+rotateTenantSecrets()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Fatal error in tenant secrets rotation:", error);
+    process.exit(1);
+  });
@@ -329,7 +329,7 @@ router.patch('/businesses/:id/toggle', async (req, res) => {
 router.patch('/businesses/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, phone, address, website, orderingInstructions, category, imageUrl } = req.body;
+    const { name, phone, address, website, orderingInstructions, category, imageUrl, requireProofOfDelivery } = req.body;
 
     // Validate required fields
     if (!name || !phone || !address || !orderingInstructions) {
@@ -345,7 +345,8 @@ router.patch('/businesses/:id', async (req, res) => {
         website: website?.trim() || null,
         orderingInstructions: orderingInstructions.trim(),
         category: category?.trim() || null,
-        imageUrl: imageUrl || null
+        imageUrl: imageUrl || null,
+        requireProofOfDelivery: requireProofOfDelivery ?? false
       })
       .where(eq(businesses.id, id))
       .returning();
@@ -368,7 +369,7 @@ router.patch('/businesses/:id', async (req, res) => {
 // Add new business
 router.post('/businesses', async (req, res) => {
   try {
-    const { name, phone, address, website, orderingInstructions, category, imageUrl } = req.body;
+    const { name, phone, address, website, orderingInstructions, category, imageUrl, requireProofOfDelivery } = req.body;
 
     // Validate required fields
     if (!name || !phone || !address || !orderingInstructions) {
@@ -385,6 +386,7 @@ router.post('/businesses', async (req, res) => {
         orderingInstructions: orderingInstructions.trim(),
         category: category?.trim() || null,
         imageUrl: imageUrl || null,
+        requireProofOfDelivery: requireProofOfDelivery ?? false,
         isActive: true
       })
       .returning();
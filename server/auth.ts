@@ -0,0 +1,73 @@
+import type { Request } from 'express';
+import type { BusinessStaff, DeliveryRequest } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { supabase } from './supabaseStorage.js';
+
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+type StaffRole = 'admin' | 'dispatcher' | 'driver';
+
+/**
+ * The Supabase user behind the request's `Authorization: Bearer <access token>` header, verified with Supabase.
+ * Null when there's no token, the token is invalid or expired, or Supabase isn't configured.
+ */
+export async function getSessionUserId(req: Request): Promise<string | null> {
+  const header = req.get('authorization');
+  if (!supabase || !header?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(header.slice('Bearer '.length));
+  if (error || !data?.user) {
+    return null;
+  }
+  return data.user.id;
+}
+
+/**
+ * The signed-in staff member of the tenant, who must hold one of the given roles.
+ * Anything that records who acted (status changes, assignments, refunds, plan changes) takes its actor from here
+ * rather than from the request body.
+ */
+export async function requireStaff(req: Request, store: IStorage, tenantId: string, roles: readonly StaffRole[]): Promise<BusinessStaff> {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    throw new AuthError('Sign in to continue');
+  }
+
+  const staff = await store.getBusinessStaffById(userId);
+  if (!staff || staff.tenantId !== tenantId || !roles.includes(staff.role as StaffRole)) {
+    throw new AuthError("You don't have permission to do that", 403);
+  }
+  return staff;
+}
+
+/**
+ * Someone allowed to follow a delivery: a staff member of its tenant holding one of the given roles (staff is set),
+ * or the signed-in customer who placed it (staff is null). Guests follow their order through the tracking link.
+ */
+export async function requireDeliveryViewer(
+  req: Request,
+  store: IStorage,
+  delivery: DeliveryRequest,
+  roles: readonly StaffRole[]
+): Promise<{ staff: BusinessStaff | null }> {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    throw new AuthError('Sign in to continue');
+  }
+
+  const staff = await store.getBusinessStaffById(userId);
+  if (staff && staff.tenantId === delivery.tenantId && roles.includes(staff.role as StaffRole)) {
+    return { staff };
+  }
+  if (delivery.userId === userId) {
+    return { staff: null };
+  }
+  throw new AuthError("You don't have permission to do that", 403);
+}
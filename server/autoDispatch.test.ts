@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutoDispatchEngine } from './autoDispatch.js';
+import { FakeDistanceProvider } from './distanceProvider.js';
+import { MemStorage } from './storage.js';
+
+const TENANT_ID = '00000000-0000-0000-0000-000000000001';
+const SHOP = '1004 A Ave E, Oskaloosa, IA 52577'; // the default tenant's business address
+
+/**
+ * Two on-duty drivers who can each hold two deliveries: one idle at the shop, one already out on a delivery to Oak St.
+ * Pickups near Oak St are a long way from the shop, so the busy driver is closer but has less capacity left.
+ */
+async function setUp() {
+  const store = new MemStorage();
+  await store.updateBusinessSettings(TENANT_ID, { maxActiveClaimsPerDriver: 2 });
+  const idle = await store.createBusinessStaff({ tenantId: TENANT_ID, role: 'driver', isOnDuty: true }, 'driver-idle');
+  const busy = await store.createBusinessStaff({ tenantId: TENANT_ID, role: 'driver', isOnDuty: true }, 'driver-busy');
+
+  const order = (pickupAddress: string, deliveryAddress: string) => store.createDeliveryRequest({
+    tenantId: TENANT_ID,
+    businessId: 'shop',
+    customerName: 'Test Customer',
+    phone: '555-0100',
+    email: 'customer@example.com',
+    pickupAddress,
+    deliveryAddress,
+    preferredDate: '2026-10-19',
+    preferredTime: '12:00',
+    paymentMethod: 'cash'
+  });
+
+  const outForDelivery = await order(SHOP, 'Oak St');
+  await store.claimDelivery(busy.id, outForDelivery.id);
+
+  const distances = new FakeDistanceProvider()
+    .setDistance(SHOP, 'Oak St Market', 10)
+    .setDistance('Oak St', 'Oak St Market', 1)
+    .setDistance(SHOP, 'Oak St Deli', 10)
+    .setDistance('Oak St', 'Oak St Deli', 0.5);
+
+  return { store, idle, busy, order, engine: new AutoDispatchEngine(store, distances) };
+}
+
+test('scores drivers on load, distance to the pickup and wait time', async () => {
+  const { idle, busy, order, engine } = await setUp();
+  const market = await order('Oak St Market', '12 Elm St');
+
+  const [suggestion] = await engine.getSuggestions(TENANT_ID, new Date(market.createdAt.getTime() + 15 * 60000));
+
+  assert.equal(suggestion.deliveryId, market.id);
+  assert.equal(suggestion.waitMinutes, 15);
+  assert.deepEqual(suggestion.candidates.map(c => c.driverId), [busy.id, idle.id]);
+  assert.deepEqual(suggestion.candidates[0], {
+    driverId: busy.id,
+    score: 65,
+    activeDeliveries: 1,
+    distanceMiles: 1,
+    breakdown: { load: 20, distance: 37.5, wait: 7.5 }
+  });
+  assert.deepEqual(suggestion.candidates[1].breakdown, { load: 40, distance: 15, wait: 7.5 });
+});
+
+test('leaves out drivers at capacity and drivers who declined the delivery', async () => {
+  const { store, idle, busy, order, engine } = await setUp();
+  const market = await order('Oak St Market', '12 Elm St');
+  await store.claimDelivery(busy.id, (await order(SHOP, 'Oak St')).id); // busy driver now holds two
+  const assignment = await store.assignDelivery(market.id, idle.id, { type: 'dispatcher', id: 'dispatcher-1' });
+  await store.respondToAssignment(assignment.id, idle.id, false);
+
+  const [suggestion] = await engine.getSuggestions(TENANT_ID);
+
+  assert.equal(suggestion.deliveryId, market.id);
+  assert.deepEqual(suggestion.candidates, []);
+});
+
+test('assigns the best pairs first without going over a driver\'s capacity', async () => {
+  const { store, idle, busy, order, engine } = await setUp();
+  const market = await order('Oak St Market', '12 Elm St');
+  const deli = await order('Oak St Deli', '34 Pine St');
+
+  // The busy driver scores best for both, but only has room for one more - the deli, where the lead is larger
+  const assignments = await engine.autoAssign(TENANT_ID, new Date(), { type: 'dispatcher', id: 'dispatcher-1' });
+
+  assert.deepEqual(
+    assignments.map(a => [a.deliveryId, a.driverId]),
+    [[deli.id, busy.id], [market.id, idle.id]]
+  );
+  assert.equal((await store.getDeliveryRequestById(market.id))?.claimedByDriver, idle.id);
+  const [event] = (await store.getDeliveryEvents(deli.id)).filter(e => e.toStatus === 'claimed');
+  assert.equal(event.actorId, 'dispatcher-1');
+});
@@ -0,0 +1,214 @@
+import type { BusinessStaff, DeliveryAssignment, DeliveryEventActor, DeliveryRequest, AutoDispatchMode } from '../shared/schema.js';
+import {
+  DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER,
+  DeliveryClaimError,
+  DeliveryTransitionError,
+  isActiveDriverStatus
+} from '../shared/deliveryStateMachine.js';
+import type { IStorage } from './storage.js';
+import { getDistanceProvider, type DistanceProvider } from './distanceProvider.js';
+
+// Points available for each factor - a perfect candidate scores 100
+const SCORE_WEIGHTS = {
+  load: 40,     // fewer active deliveries is better
+  distance: 45, // closer to the pickup is better
+  wait: 15      // deliveries that have waited longer are dispatched first
+};
+const HALF_DISTANCE_SCORE_MILES = 5; // a driver this far from the pickup gets half the distance points
+const FULL_WAIT_SCORE_MINUTES = 30;  // wait points max out after this long in the queue
+
+export interface DriverCandidate {
+  driverId: string;
+  score: number;
+  activeDeliveries: number;
+  distanceMiles: number | null; // null when the route could not be calculated
+  breakdown: { load: number; distance: number; wait: number };
+}
+
+export interface DispatchSuggestion {
+  deliveryId: string;
+  isRush: boolean;
+  waitMinutes: number;
+  candidates: DriverCandidate[]; // best first
+}
+
+interface DriverState {
+  driver: BusinessStaff;
+  activeDeliveries: number;
+  // Where the driver will be when free: drop-off of their latest active delivery, or the business address when idle
+  origin: string | null;
+}
+
+/**
+ * Ranks on-duty drivers for each available delivery and optionally hands deliveries out.
+ * Auto-assignments go through the normal assignment flow, so drivers still accept or decline them.
+ */
+export class AutoDispatchEngine {
+  constructor(private store: IStorage, private distanceProvider?: DistanceProvider) {}
+
+  async getSuggestions(tenantId: string, now: Date = new Date()): Promise<DispatchSuggestion[]> {
+    const settings = await this.store.getBusinessSettings(tenantId);
+    const maxActiveClaims = settings?.maxActiveClaimsPerDriver ?? DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER;
+
+    const deliveries = (await this.store.getAvailableDeliveries())
+      .filter(d => d.tenantId === tenantId && !d.claimedByDriver);
+    if (deliveries.length === 0) return [];
+
+    const drivers = await this.getDriverStates(tenantId, settings?.businessAddress ?? null);
+    const distances = new Map<string, Promise<number | null>>();
+
+    const suggestions: DispatchSuggestion[] = [];
+    for (const delivery of deliveries) {
+      const declinedBy = await this.getDeclinedDriverIds(delivery.id);
+      const eligible = drivers.filter(d => d.activeDeliveries < maxActiveClaims && !declinedBy.has(d.driver.id));
+      const waitMinutes = this.getWaitMinutes(delivery, now);
+
+      const candidates = await Promise.all(eligible.map(async (state) => {
+        const distanceMiles = state.origin
+          ? await this.getCachedDistance(distances, state.origin, delivery.pickupAddress)
+          : null;
+        return this.scoreCandidate(state, distanceMiles, waitMinutes, maxActiveClaims);
+      }));
+
+      candidates.sort((a, b) => b.score - a.score);
+      suggestions.push({ deliveryId: delivery.id, isRush: delivery.isRush, waitMinutes, candidates });
+    }
+
+    // Rush deliveries first, then longest-waiting
+    return suggestions.sort((a, b) => Number(b.isRush) - Number(a.isRush) || b.waitMinutes - a.waitMinutes);
+  }
+
+  /**
+   * Greedily assign the highest scoring (delivery, driver) pairs until deliveries or driver capacity run out.
+   * Returns the assignments that were created. actor is the dispatcher who ran it by hand, if anyone did.
+   */
+  async autoAssign(tenantId: string, now: Date = new Date(), actor: DeliveryEventActor = { type: 'system' }): Promise<DeliveryAssignment[]> {
+    const settings = await this.store.getBusinessSettings(tenantId);
+    const maxActiveClaims = settings?.maxActiveClaimsPerDriver ?? DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER;
+    const suggestions = await this.getSuggestions(tenantId, now);
+
+    // Rush deliveries get first pick of the drivers
+    const pairs = suggestions
+      .flatMap(s => s.candidates.map(c => ({ deliveryId: s.deliveryId, isRush: s.isRush, candidate: c })))
+      .sort((a, b) => Number(b.isRush) - Number(a.isRush) || b.candidate.score - a.candidate.score);
+
+    const assignedDeliveries = new Set<string>();
+    const driverLoads = new Map<string, number>();
+    const assignments: DeliveryAssignment[] = [];
+
+    for (const { deliveryId, candidate } of pairs) {
+      if (assignedDeliveries.has(deliveryId)) continue;
+      const load = driverLoads.get(candidate.driverId) ?? candidate.activeDeliveries;
+      if (load >= maxActiveClaims) continue;
+
+      try {
+        const assignment = await this.store.assignDelivery(
+          deliveryId,
+          candidate.driverId,
+          actor,
+          `Auto-assigned (score ${candidate.score})`
+        );
+        assignments.push(assignment);
+        assignedDeliveries.add(deliveryId);
+        driverLoads.set(candidate.driverId, load + 1);
+      } catch (error) {
+        // Someone claimed it while we were scoring - move on to the next pair
+        if (error instanceof DeliveryClaimError || error instanceof DeliveryTransitionError) {
+          assignedDeliveries.add(deliveryId);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return assignments;
+  }
+
+  private scoreCandidate(state: DriverState, distanceMiles: number | null, waitMinutes: number, maxActiveClaims: number): DriverCandidate {
+    const load = SCORE_WEIGHTS.load * (1 - state.activeDeliveries / Math.max(maxActiveClaims, 1));
+    // Unknown distance scores as if the driver were HALF_DISTANCE_SCORE_MILES away
+    const distance = distanceMiles === null
+      ? SCORE_WEIGHTS.distance / 2
+      : SCORE_WEIGHTS.distance * (HALF_DISTANCE_SCORE_MILES / (HALF_DISTANCE_SCORE_MILES + distanceMiles));
+    const wait = SCORE_WEIGHTS.wait * Math.min(waitMinutes / FULL_WAIT_SCORE_MINUTES, 1);
+
+    const round = (n: number) => Math.round(n * 10) / 10;
+    return {
+      driverId: state.driver.id,
+      score: round(load + distance + wait),
+      activeDeliveries: state.activeDeliveries,
+      distanceMiles,
+      breakdown: { load: round(load), distance: round(distance), wait: round(wait) }
+    };
+  }
+
+  private async getDriverStates(tenantId: string, businessAddress: string | null): Promise<DriverState[]> {
+    const drivers = (await this.store.getDrivers(tenantId)).filter(d => d.isOnDuty);
+
+    return Promise.all(drivers.map(async (driver) => {
+      const active = (await this.store.getDriverDeliveries(driver.id))
+        .filter(d => isActiveDriverStatus(d.status))
+        .sort((a, b) => new Date(b.claimedAt ?? 0).getTime() - new Date(a.claimedAt ?? 0).getTime());
+
+      return {
+        driver,
+        activeDeliveries: active.length,
+        origin: active[0]?.deliveryAddress ?? businessAddress
+      };
+    }));
+  }
+
+  private async getDeclinedDriverIds(deliveryId: string): Promise<Set<string>> {
+    const assignments = await this.store.getDeliveryAssignments(deliveryId);
+    return new Set(assignments.filter(a => a.status === 'declined').map(a => a.driverId));
+  }
+
+  private getWaitMinutes(delivery: DeliveryRequest, now: Date): number {
+    const created = new Date(delivery.createdAt).getTime();
+    if (isNaN(created)) return 0;
+    return Math.max(0, Math.round((now.getTime() - created) / 60000));
+  }
+
+  // Several drivers often share an origin (e.g. all idle at the shop), so look each route up once per run
+  private getCachedDistance(cache: Map<string, Promise<number | null>>, origin: string, destination: string): Promise<number | null> {
+    const key = `${origin}|${destination}`;
+    let distance = cache.get(key);
+    if (!distance) {
+      distance = this.lookupDistance(origin, destination);
+      cache.set(key, distance);
+    }
+    return distance;
+  }
+
+  private async lookupDistance(origin: string, destination: string): Promise<number | null> {
+    try {
+      const provider = this.distanceProvider ?? await getDistanceProvider();
+      const result = await provider.calculateDistance(origin, destination);
+      return result.status === 'OK' ? result.distance : null;
+    } catch (error) {
+      console.warn('Auto-dispatch distance lookup failed:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Run auto-assignment for a tenant if it has opted in. Safe to call fire-and-forget after
+ * anything that changes supply or demand (new delivery, driver on duty, declined assignment).
+ */
+export async function runAutoDispatchIfEnabled(store: IStorage, tenantId: string): Promise<DeliveryAssignment[]> {
+  try {
+    const settings = await store.getBusinessSettings(tenantId);
+    const mode: AutoDispatchMode = settings?.autoDispatchMode ?? 'suggest';
+    if (mode !== 'auto_assign') return [];
+
+    const assignments = await new AutoDispatchEngine(store).autoAssign(tenantId);
+    if (assignments.length > 0) {
+      console.log(`Auto-dispatch assigned ${assignments.length} deliveries for tenant ${tenantId}`);
+    }
+    return assignments;
+  } catch (error) {
+    console.error('Auto-dispatch failed:', error);
+    return [];
+  }
+}
@@ -0,0 +1,457 @@
+import { addDays, format, startOfMonth } from 'date-fns';
+import Stripe from 'stripe';
+import {
+  PAID_PLAN_TYPES,
+  SUBSCRIPTION_PLANS,
+  type BillingStatus,
+  type ChangeBillingPlan,
+  type PaidPlanType,
+  type PlanType,
+  type SubscriptionPlan,
+  type Tenant,
+  type TenantBillingEvent,
+  type TenantBillingEventKind
+} from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { DEFAULT_TENANT_ID, clearTenantCache } from './tenant.js';
+
+/**
+ * The SaaS subscription lifecycle. Trials get reminders as they run out, go past_due when they end without a plan,
+ * and are cancelled - read-only, see resolveTenant - once the grace period is over. Plans are Stripe subscriptions
+ * on the platform's own account (STRIPE_SECRET_KEY): a tenant only gets a plan once Stripe reports its invoice paid,
+ * each paid renewal moves nextBillingDate on, and a paid plan whose renewal isn't paid goes past_due like a trial.
+ */
+
+// Days before the trial ends that a reminder goes out
+export const TRIAL_REMINDER_DAYS = [7, 3, 1];
+export const PAST_DUE_GRACE_DAYS = 14;
+// Stripe collects a renewal shortly after the period ends and retries a declined card, so give it a little time
+export const RENEWAL_GRACE_DAYS = 2;
+const BILLING_HISTORY_LIMIT = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Thrown when a plan change can't be made or a plan limit is reached; status is the HTTP status the route answers with
+export class BillingError extends Error {
+  constructor(message: string, public status: 402 | 403 | 404 | 409 = 402) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
+
+export interface BillingLifecycleResult {
+  remindersSent: number;
+  pastDue: number;
+  cancelled: number;
+  failed: number;
+}
+
+// A requested plan change - it takes effect once paid, through checkoutUrl for a new subscription
+export interface PlanChangeResult {
+  tenant: Tenant;
+  checkoutUrl: string | null;
+}
+
+// A subscription invoice Stripe reported paid
+export interface SubscriptionPayment {
+  planType: PaidPlanType;
+  subscriptionId: string;
+  customerId: string | null;
+  paidThrough: Date; // end of the period the invoice covers
+  actorId: string | null; // admin who subscribed or changed plan - null for renewals
+}
+
+export interface PlanUsage {
+  driversOnDuty: number;
+  deliveriesThisMonth: number;
+}
+
+export interface BillingOverview {
+  planType: string;
+  billingStatus: string;
+  plan: SubscriptionPlan;
+  trialEndDate: Date | null;
+  nextBillingDate: Date | null;
+  pastDueAt: Date | null;
+  cancelsAt: Date | null; // end of the grace period while past_due
+  readOnly: boolean;
+  usage: PlanUsage;
+  history: TenantBillingEvent[];
+}
+
+// The platform's own business and the marketing site aren't billed
+const isBillingExempt = (tenantId: string) => tenantId === DEFAULT_TENANT_ID || tenantId === 'main-site';
+
+// Plans the tenant may have from before the current list are treated as a trial
+function getPlan(planType: string): SubscriptionPlan {
+  return SUBSCRIPTION_PLANS[planType as PlanType] ?? SUBSCRIPTION_PLANS.trial;
+}
+
+const formatDay = (date: Date) => format(date, 'MMM d, yyyy');
+
+// Emails the tenant's owner through SendGrid when SENDGRID_API_KEY is set. The billing page shows the same notice either way.
+async function emailTenant(tenant: Tenant, subject: string, message: string): Promise<void> {
+  const apiKey = process.env.SENDGRID_API_KEY;
+  if (!apiKey || !tenant.email) {
+    return;
+  }
+  try {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: tenant.email, name: tenant.ownerName }] }],
+        from: { email: process.env.BILLING_EMAIL_FROM || 'billing@alltowndelivery.com', name: 'AllTownDelivery' },
+        subject,
+        content: [{ type: 'text/plain', value: `Hi ${tenant.ownerName},\n\n${message}\n\nManage your plan under Settings > Billing.` }]
+      })
+    });
+    if (!response.ok) {
+      console.error(`Billing email to tenant ${tenant.id} failed: ${response.status} ${await response.text()}`);
+    }
+  } catch (error) {
+    console.error(`Error sending billing email to tenant ${tenant.id}:`, error);
+  }
+}
+
+async function recordBillingEvent(
+  store: IStorage,
+  tenant: Tenant,
+  kind: TenantBillingEventKind,
+  message: string,
+  actorId: string | null = null
+): Promise<TenantBillingEvent> {
+  return store.createTenantBillingEvent({ tenantId: tenant.id, kind, message, planType: tenant.planType, actorId });
+}
+
+// A lifecycle change the owner should hear about: kept in the billing history and emailed
+async function notifyTenant(store: IStorage, tenant: Tenant, kind: TenantBillingEventKind, subject: string, message: string): Promise<void> {
+  await recordBillingEvent(store, tenant, kind, message);
+  await emailTenant(tenant, subject, message);
+}
+
+const graceEnd = (tenant: Tenant) => addDays(tenant.pastDueAt ?? tenant.updatedAt, PAST_DUE_GRACE_DAYS);
+
+async function advanceTrial(store: IStorage, tenant: Tenant, now: Date): Promise<keyof BillingLifecycleResult | null> {
+  if (!tenant.trialEndDate) {
+    return null;
+  }
+
+  if (tenant.trialEndDate <= now) {
+    const lapsed = await store.updateTenantBilling(tenant.id, { billingStatus: 'past_due', pastDueAt: now }, 'trial');
+    if (!lapsed) return null;
+    await notifyTenant(store, lapsed, 'past_due', 'Your free trial has ended',
+      `Your free trial ended on ${formatDay(tenant.trialEndDate)}. Choose a plan by ${formatDay(graceEnd(lapsed))} to keep taking orders - after that your account becomes read-only.`);
+    return 'pastDue';
+  }
+
+  // Only the closest reminder that's due, so a tenant the job hasn't seen for a while gets one email, not several
+  const daysLeft = Math.ceil((tenant.trialEndDate.getTime() - now.getTime()) / DAY_MS);
+  const due = TRIAL_REMINDER_DAYS.filter(days => daysLeft <= days);
+  if (due.length === 0) {
+    return null;
+  }
+  const reminderDays = Math.min(...due);
+  if (tenant.trialReminderDays !== null && tenant.trialReminderDays <= reminderDays) {
+    return null;
+  }
+
+  const reminded = await store.updateTenantBilling(tenant.id, { trialReminderDays: reminderDays }, 'trial');
+  if (!reminded) return null;
+  await notifyTenant(store, reminded, 'trial_reminder', `Your free trial ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+    `Your free trial ends on ${formatDay(tenant.trialEndDate)}. Choose a plan before then to keep your deliveries running without interruption.`);
+  return 'remindersSent';
+}
+
+// A paid plan whose renewal hasn't been paid by the end of its period
+async function advanceActive(store: IStorage, tenant: Tenant, now: Date): Promise<keyof BillingLifecycleResult | null> {
+  if (!tenant.nextBillingDate || addDays(tenant.nextBillingDate, RENEWAL_GRACE_DAYS) > now) {
+    return null;
+  }
+  const lapsed = await store.updateTenantBilling(tenant.id, { billingStatus: 'past_due', pastDueAt: now }, 'active');
+  if (!lapsed) return null;
+  await notifyTenant(store, lapsed, 'past_due', 'Your subscription payment is overdue',
+    `We haven't received the payment for your ${getPlan(tenant.planType).name} plan that was due ${formatDay(tenant.nextBillingDate)}. Update your payment details by ${formatDay(graceEnd(lapsed))} to keep taking orders - after that your account becomes read-only.`);
+  return 'pastDue';
+}
+
+async function advancePastDue(store: IStorage, tenant: Tenant, now: Date): Promise<keyof BillingLifecycleResult | null> {
+  if (graceEnd(tenant) > now) {
+    return null;
+  }
+  const cancelled = await store.updateTenantBilling(tenant.id, { billingStatus: 'cancelled', cancelledAt: now }, 'past_due');
+  if (!cancelled) return null;
+  await notifyTenant(store, cancelled, 'cancelled', 'Your account is now read-only',
+    'Your subscription was cancelled because it went unpaid. Your data is still here, but new orders and changes are paused until you reactivate by choosing a plan.');
+  return 'cancelled';
+}
+
+/**
+ * Moves every trial, active and past_due tenant along the lifecycle as of now. Safe to run as often as you like - each
+ * reminder and status change happens once. Run it from a scheduler (see /api/cron/billing).
+ */
+export async function runBillingLifecycle(store: IStorage, now = new Date()): Promise<BillingLifecycleResult> {
+  const result: BillingLifecycleResult = { remindersSent: 0, pastDue: 0, cancelled: 0, failed: 0 };
+  const tenants = await store.getTenantsByBillingStatus(['trial', 'active', 'past_due']);
+
+  for (const tenant of tenants) {
+    if (isBillingExempt(tenant.id)) continue;
+    try {
+      const outcome = tenant.billingStatus === 'trial'
+        ? await advanceTrial(store, tenant, now)
+        : tenant.billingStatus === 'active'
+          ? await advanceActive(store, tenant, now)
+          : await advancePastDue(store, tenant, now);
+      if (outcome) result[outcome]++;
+    } catch (error) {
+      console.error(`Billing lifecycle failed for tenant ${tenant.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  if (result.pastDue > 0 || result.cancelled > 0) {
+    clearTenantCache(); // so resolveTenant sees the new status straight away
+  }
+  return result;
+}
+
+export async function getPlanUsage(store: IStorage, tenantId: string, now = new Date()): Promise<PlanUsage> {
+  const [drivers, deliveriesThisMonth] = await Promise.all([
+    store.getDrivers(tenantId),
+    store.countTenantDeliveriesSince(tenantId, startOfMonth(now))
+  ]);
+  return { driversOnDuty: drivers.filter(driver => driver.isOnDuty).length, deliveriesThisMonth };
+}
+
+export async function getBillingOverview(store: IStorage, tenantId: string, now = new Date()): Promise<BillingOverview> {
+  const tenant = await store.getTenant(tenantId);
+  if (!tenant) {
+    throw new BillingError('Business not found', 404);
+  }
+  const [usage, history] = await Promise.all([
+    getPlanUsage(store, tenantId, now),
+    store.getTenantBillingEvents(tenantId, BILLING_HISTORY_LIMIT)
+  ]);
+  return {
+    planType: tenant.planType,
+    billingStatus: tenant.billingStatus,
+    plan: getPlan(tenant.planType),
+    trialEndDate: tenant.trialEndDate,
+    nextBillingDate: tenant.nextBillingDate,
+    pastDueAt: tenant.pastDueAt,
+    cancelsAt: tenant.billingStatus === 'past_due' ? graceEnd(tenant) : null,
+    readOnly: tenant.billingStatus === 'cancelled',
+    usage,
+    history
+  };
+}
+
+// The platform's own Stripe account, which collects subscription fees - not a tenant's account
+function getPlatformStripe(): Stripe {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new BillingError("Plan changes aren't available right now - please contact support", 409);
+  }
+  return new Stripe(process.env.STRIPE_SECRET_KEY);
+}
+
+// Each plan is a product with a fixed ID on the platform account, so a paid invoice's lines say which plan it paid for
+const PLAN_PRODUCT_PREFIX = 'alltowndelivery_plan_';
+
+async function getPlanProduct(stripe: Stripe, planType: PaidPlanType): Promise<string> {
+  const id = `${PLAN_PRODUCT_PREFIX}${planType}`;
+  try {
+    await stripe.products.retrieve(id);
+  } catch (error) {
+    if (!(error instanceof Stripe.errors.StripeInvalidRequestError) || error.code !== 'resource_missing') {
+      throw error;
+    }
+    await stripe.products.create({ id, name: `AllTownDelivery ${SUBSCRIPTION_PLANS[planType].name}` });
+  }
+  return id;
+}
+
+async function planPrice(stripe: Stripe, planType: PaidPlanType) {
+  return {
+    currency: 'usd',
+    product: await getPlanProduct(stripe, planType),
+    unit_amount: SUBSCRIPTION_PLANS[planType].monthlyPrice * 100,
+    recurring: { interval: 'month' as const }
+  };
+}
+
+/**
+ * Asks Stripe to move a paid-up subscription to the plan and invoice the difference, or, for a trial, lapsed or
+ * never-paid tenant, starts a Stripe Checkout for the plan. Either way the tenant keeps its current plan until Stripe
+ * reports the invoice paid (see activateTenantPlan) - an unpaid plan change is never applied.
+ */
+export async function changeTenantPlan(
+  store: IStorage,
+  tenantId: string,
+  change: ChangeBillingPlan,
+  actorId: string,
+  returnUrl: string
+): Promise<PlanChangeResult> {
+  const tenant = await store.getTenant(tenantId);
+  if (!tenant) {
+    throw new BillingError('Business not found', 404);
+  }
+
+  const status = tenant.billingStatus as BillingStatus;
+  const next = SUBSCRIPTION_PLANS[change.planType];
+  if (status === 'active' && tenant.planType === change.planType) {
+    throw new BillingError(`You're already on the ${next.name} plan`, 409);
+  }
+  const stripe = getPlatformStripe();
+  const metadata = { tenantId, actorId };
+  const price = await planPrice(stripe, change.planType);
+
+  if (status === 'active' && tenant.stripeSubscriptionId) {
+    const subscription = await stripe.subscriptions.retrieve(tenant.stripeSubscriptionId);
+    // A pending update can't carry metadata, so name the admin first - the proration invoice picks it up
+    await stripe.subscriptions.update(subscription.id, { metadata });
+    await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: subscription.items.data[0].id, price_data: price }],
+      proration_behavior: 'always_invoice',
+      payment_behavior: 'pending_if_incomplete'
+    });
+    return { tenant, checkoutUrl: null };
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    line_items: [{ price_data: price, quantity: 1 }],
+    ...(tenant.stripeCustomerId ? { customer: tenant.stripeCustomerId } : { customer_email: tenant.email }),
+    subscription_data: { metadata },
+    metadata,
+    success_url: returnUrl,
+    cancel_url: returnUrl
+  });
+  if (!session.url) {
+    throw new BillingError("We couldn't start checkout - please try again", 409);
+  }
+  return { tenant, checkoutUrl: session.url };
+}
+
+/**
+ * Applies a paid subscription invoice: activates (or reactivates) the tenant on the plan it paid for and moves
+ * nextBillingDate to the end of the paid period. Replays of the same invoice change nothing further.
+ */
+export async function activateTenantPlan(store: IStorage, tenantId: string, payment: SubscriptionPayment): Promise<Tenant | undefined> {
+  const tenant = await store.getTenant(tenantId);
+  if (!tenant) {
+    return undefined;
+  }
+
+  const status = tenant.billingStatus as BillingStatus;
+  const nextBillingDate = tenant.nextBillingDate && tenant.nextBillingDate > payment.paidThrough ? tenant.nextBillingDate : payment.paidThrough;
+  const updated = await store.updateTenantBilling(tenant.id, {
+    planType: payment.planType,
+    billingStatus: 'active',
+    nextBillingDate,
+    pastDueAt: null,
+    cancelledAt: null,
+    stripeCustomerId: payment.customerId ?? tenant.stripeCustomerId,
+    stripeSubscriptionId: payment.subscriptionId
+  }, status);
+  if (!updated) {
+    throw new Error(`Billing status of tenant ${tenant.id} changed while applying a subscription payment`);
+  }
+
+  // A lapsed tenant that checked out again has a new subscription - stop the old one billing alongside it
+  if (tenant.stripeSubscriptionId && tenant.stripeSubscriptionId !== payment.subscriptionId) {
+    try {
+      await getPlatformStripe().subscriptions.cancel(tenant.stripeSubscriptionId);
+    } catch (error) {
+      console.error(`Error cancelling replaced subscription ${tenant.stripeSubscriptionId}:`, error);
+    }
+  }
+
+  const current = getPlan(tenant.planType);
+  const plan = SUBSCRIPTION_PLANS[payment.planType];
+  if (status === 'past_due' || status === 'cancelled') {
+    await recordBillingEvent(store, updated, 'reactivated', `Reactivated on the ${plan.name} plan`, payment.actorId);
+  } else if (status !== 'active') {
+    await recordBillingEvent(store, updated, 'plan_changed', `Subscribed to the ${plan.name} plan`, payment.actorId);
+  } else if (tenant.planType !== payment.planType) {
+    const direction = plan.monthlyPrice > current.monthlyPrice ? 'Upgraded' : 'Downgraded';
+    await recordBillingEvent(store, updated, 'plan_changed', `${direction} from ${current.name} to ${plan.name}`, payment.actorId);
+  }
+
+  clearTenantCache();
+  return updated;
+}
+
+/**
+ * Reads a subscription payment out of a verified platform Stripe event. Undefined for anything else.
+ */
+export function readSubscriptionPayment(event: Stripe.Event): { tenantId: string; payment: SubscriptionPayment } | undefined {
+  if (event.type !== 'invoice.paid') {
+    return undefined;
+  }
+  const invoice = event.data.object;
+  const details = invoice.parent?.subscription_details;
+  const metadata = details?.metadata ?? {};
+  // The plan paid for is the latest line charged - a plan change credits the old plan's unused time on a negative line
+  const [line] = invoice.lines.data
+    .filter(line => line.amount >= 0 && line.pricing?.price_details)
+    .sort((a, b) => b.period.end - a.period.end);
+  const product = line?.pricing?.price_details?.product;
+  const planType = PAID_PLAN_TYPES.find(plan => product === `${PLAN_PRODUCT_PREFIX}${plan}`);
+  if (!details?.subscription || !metadata.tenantId || !planType) {
+    return undefined;
+  }
+
+  return {
+    tenantId: metadata.tenantId,
+    payment: {
+      planType,
+      subscriptionId: typeof details.subscription === 'string' ? details.subscription : details.subscription.id,
+      customerId: typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id ?? null,
+      paidThrough: new Date(line.period.end * 1000),
+      actorId: invoice.billing_reason === 'subscription_cycle' ? null : metadata.actorId || null
+    }
+  };
+}
+
+/**
+ * Checks a platform billing webhook against STRIPE_BILLING_WEBHOOK_SECRET. Null when it isn't signed by Stripe.
+ */
+export function verifyBillingWebhook(rawBody: Buffer, signature: string | undefined): Stripe.Event | null {
+  const secret = process.env.STRIPE_BILLING_WEBHOOK_SECRET;
+  if (!secret || !signature) {
+    return null;
+  }
+  try {
+    return getPlatformStripe().webhooks.constructEvent(rawBody, signature, secret);
+  } catch {
+    return null;
+  }
+}
+
+// Rejects an order once the tenant has used its plan's deliveries for the month
+export async function assertCanTakeDelivery(store: IStorage, tenantId: string, now = new Date()): Promise<void> {
+  if (isBillingExempt(tenantId)) return;
+  const tenant = await store.getTenant(tenantId);
+  if (!tenant) return;
+
+  if (tenant.billingStatus === 'cancelled') {
+    throw new BillingError("This business isn't taking online orders right now");
+  }
+  const limit = getPlan(tenant.planType).deliveriesPerMonth;
+  if (limit !== null && await store.countTenantDeliveriesSince(tenantId, startOfMonth(now)) >= limit) {
+    throw new BillingError("This business can't take more online orders this month - please contact them directly");
+  }
+}
+
+// Rejects a driver coming on duty when the plan's drivers are already on duty
+export async function assertCanGoOnDuty(store: IStorage, tenantId: string, driverId: string): Promise<void> {
+  if (isBillingExempt(tenantId)) return;
+  const tenant = await store.getTenant(tenantId);
+  if (!tenant) return;
+
+  const plan = getPlan(tenant.planType);
+  if (plan.drivers === null) return;
+  const onDuty = (await store.getDrivers(tenantId)).filter(driver => driver.isOnDuty && driver.id !== driverId);
+  if (onDuty.length >= plan.drivers) {
+    throw new BillingError(`The ${plan.name} plan allows ${plan.drivers} drivers on duty at once - ask an admin to upgrade`);
+  }
+}
@@ -0,0 +1,23 @@
+import express, { type Request } from 'express';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Exact bytes of a webhook request - providers sign these, not the re-serialized JSON
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * JSON body parsing for both entry points (the long-running server and the Vercel function). Bodies go up to
+ * 10MB for logo uploads, and webhook routes keep the raw body for their signature checks.
+ */
+export const jsonBodyParser = express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/webhooks/')) {
+      (req as Request).rawBody = buf;
+    }
+  }
+});
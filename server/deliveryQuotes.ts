@@ -0,0 +1,333 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { normalizePromoCode, type BusinessSettings, type DeliveryQuote, type LoyaltyTier, type MapsProviderName, type QuoteLineItem, type ServiceZone } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import type { DistanceProvider } from './distanceProvider.js';
+import { calculateRouteLegs, type RouteLeg } from './deliveryStops.js';
+import { DEFAULT_TIMEZONE } from './deliverySlots.js';
+import { applyPricingRules, getLoyaltyTier, type AppliedPricingRule } from './pricingRules.js';
+import { findPromotion, promotionDiscount, promotionProblemMessage, type PromotionProblem } from './promotions.js';
+import { applyZonePricing, checkServiceArea, outsideServiceAreaMessage, type AddressGeocoder } from './serviceZones.js';
+
+// How long a customer has to check out before the price must be recalculated
+export const QUOTE_TTL_MINUTES = 15;
+
+// Falls back to a per-process key so development works without configuration; quotes then lapse on restart
+const signingSecret = process.env.QUOTE_SIGNING_SECRET || randomBytes(32).toString('hex');
+if (!process.env.QUOTE_SIGNING_SECRET) {
+  console.warn('QUOTE_SIGNING_SECRET is not set - price quotes will not survive a server restart');
+}
+
+// Thrown when a route can't be priced at all; details are merged into the 400 response body
+export class DeliveryPricingError extends Error {
+  constructor(message: string, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'DeliveryPricingError';
+  }
+}
+
+export interface QuoteInput {
+  pickup: string;
+  delivery: string;
+  stops: string[]; // extra drop-offs before the final delivery address
+  isRush: boolean;
+  businessId: string | null; // pickup business
+  customerId: string | null; // null for guests
+  orderValue: number | null; // value of the goods, when the customer entered one
+  deliverAt: Date | null; // booked slot or opening time; null prices for now
+  promoCode: string | null; // as the customer typed it
+}
+
+export interface PricingOptions {
+  now?: Date;
+  loyaltyTier?: LoyaltyTier | null; // the simulator picks a tier instead of looking up a customer
+}
+
+export interface PricedLeg extends RouteLeg {
+  fee: number;
+}
+
+// Everything /api/maps/calculate-delivery-fee has always returned, plus the itemized breakdown
+export interface DeliveryPrice {
+  distance: number;
+  duration: number;
+  deliveryFee: number;
+  distanceFee: number;
+  zone: { id: string; name: string; deliveryFee: number | null; estimatedTime: number } | null;
+  zonePricingMode: string | null;
+  estimatedTime: number;
+  isWithinBaseRadius: boolean;
+  pricing: { baseFee: number; pricePerMile: number; baseFeeRadius: number; extraMiles: number };
+  legs: PricedLeg[];
+  breakdown: QuoteLineItem[];
+  appliedRules: AppliedPricingRule[];
+  loyaltyTier: LoyaltyTier | null;
+  distanceProvider: MapsProviderName | null; // 'haversine' when any leg is an estimate
+  promotion: { id: string; code: string; name: string; discount: number } | null;
+  promotionError: { code: string; reason: PromotionProblem; message: string } | null; // the code was entered but didn't apply
+}
+
+export interface QuoteSummary {
+  id: string;
+  signature: string;
+  expiresAt: Date;
+  totalAmount: number;
+  breakdown: QuoteLineItem[];
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Prices a route with the tenant's distance pricing, service zones and rush multiplier, then its pricing rules,
+ * the urgent delivery minimum, the free delivery threshold and finally any promo code. Each leg is priced like a standalone delivery
+ * and the fees are summed.
+ */
+export async function priceDelivery(
+  store: IStorage,
+  tenantId: string,
+  settings: BusinessSettings | undefined,
+  input: QuoteInput,
+  provider: DistanceProvider & AddressGeocoder,
+  options: PricingOptions = {}
+): Promise<DeliveryPrice> {
+  if (!settings) {
+    throw new DeliveryPricingError('Delivery pricing is not set up for this business');
+  }
+
+  const minimumOrderValue = parseFloat(settings.minimumOrderValue ?? '') || 0;
+  if (input.orderValue !== null && input.orderValue < minimumOrderValue) {
+    throw new DeliveryPricingError(`Orders must be at least $${minimumOrderValue.toFixed(2)} for delivery`, {
+      reason: 'below_minimum_order',
+      minimumOrderValue
+    });
+  }
+
+  // Every drop-off has to be inside an active service zone; the final address's zone sets the zone fee
+  const dropoffs = [...input.stops, input.delivery];
+  const areaChecks = await Promise.all(dropoffs.map(address => checkServiceArea(store, tenantId, address, provider)));
+  const outsideIndex = areaChecks.findIndex(check => check.zonesConfigured && !check.match);
+  if (outsideIndex !== -1) {
+    throw new DeliveryPricingError(outsideServiceAreaMessage(dropoffs[outsideIndex]), {
+      reason: 'outside_service_area',
+      address: dropoffs[outsideIndex]
+    });
+  }
+  const zone: ServiceZone | null = areaChecks[areaChecks.length - 1].match?.zone ?? null;
+
+  const { legs, errorMessage } = await calculateRouteLegs([input.pickup, ...dropoffs], provider);
+  if (errorMessage) {
+    throw new DeliveryPricingError('Could not calculate distance', { error: errorMessage });
+  }
+
+  const pricing = {
+    baseDeliveryFee: parseFloat(settings.baseDeliveryFee ?? '') || 3.00,
+    pricePerMile: parseFloat(settings.pricePerMile ?? '') || 1.50,
+    baseFeeRadius: parseFloat(settings.baseFeeRadius ?? '') || 10.0,
+    rushDeliveryMultiplier: parseFloat(settings.rushDeliveryMultiplier ?? '') || 1.5
+  };
+  const rushMultiplier = input.isRush ? pricing.rushDeliveryMultiplier : 1;
+  const pricedLegs: PricedLeg[] = legs.map(leg => {
+    const extraMiles = Math.max(0, leg.distance - pricing.baseFeeRadius);
+    return { ...leg, fee: roundCents((pricing.baseDeliveryFee + extraMiles * pricing.pricePerMile) * rushMultiplier) };
+  });
+
+  const extraMiles = pricedLegs.reduce((sum, leg) => sum + Math.max(0, leg.distance - pricing.baseFeeRadius), 0);
+  const distanceFee = roundCents(pricedLegs.reduce((sum, leg) => sum + leg.fee, 0));
+  const zoneFee = zone ? (parseFloat(zone.deliveryFee ?? '') || 0) * rushMultiplier : null;
+  const deliveryFee = roundCents(applyZonePricing(settings.zonePricingMode, distanceFee, zoneFee));
+  const duration = pricedLegs.reduce((sum, leg) => sum + leg.duration, 0);
+
+  // Line items add up to deliveryFee; the zone line absorbs the difference when zone pricing replaces distance pricing
+  const baseAmount = roundCents(pricing.baseDeliveryFee * pricedLegs.length);
+  const extraAmount = roundCents(extraMiles * pricing.pricePerMile);
+  const breakdown: QuoteLineItem[] = [
+    { type: 'base_fee', label: pricedLegs.length > 1 ? `Base fee (${pricedLegs.length} legs)` : 'Base fee', amount: baseAmount }
+  ];
+  if (extraAmount > 0) {
+    breakdown.push({ type: 'extra_miles', label: `${extraMiles.toFixed(1)} extra miles`, amount: extraAmount });
+  }
+  if (input.isRush) {
+    breakdown.push({ type: 'rush', label: `Rush delivery (${pricing.rushDeliveryMultiplier}x)`, amount: roundCents(distanceFee - baseAmount - extraAmount) });
+  }
+  const zoneAdjustment = roundCents(deliveryFee - distanceFee);
+  if (zone && zoneAdjustment !== 0) {
+    breakdown.push({ type: 'zone', label: `${zone.name} zone pricing`, amount: zoneAdjustment });
+  }
+
+  // Rush deliveries never cost less than the urgent delivery fee
+  let total = deliveryFee;
+  const urgentDeliveryFee = parseFloat(settings.urgentDeliveryFee ?? '') || 0;
+  if (input.isRush && urgentDeliveryFee > total) {
+    breakdown.push({ type: 'rush', label: 'Urgent delivery minimum', amount: roundCents(urgentDeliveryFee - total) });
+    total = urgentDeliveryFee;
+  }
+
+  const loyaltyTier = options.loyaltyTier !== undefined
+    ? options.loyaltyTier
+    : input.customerId ? getLoyaltyTier(await store.getLoyaltyAccount(input.customerId, tenantId)) : null;
+  const distance = roundCents(pricedLegs.reduce((sum, leg) => sum + leg.distance, 0));
+  const rules = await store.getPricingRules(tenantId);
+  const ruled = applyPricingRules(rules, {
+    at: input.deliverAt ?? options.now ?? new Date(),
+    timeZone: settings.timezone || DEFAULT_TIMEZONE,
+    businessId: input.businessId,
+    zoneId: zone?.id ?? null,
+    distance,
+    extraMiles,
+    pricePerMile: pricing.pricePerMile,
+    rushMultiplier,
+    orderValue: input.orderValue,
+    loyaltyTier
+  }, total);
+  breakdown.push(...ruled.lines);
+  total = ruled.fee;
+
+  const freeDeliveryThreshold = parseFloat(settings.freeDeliveryThreshold ?? '') || 0;
+  if (freeDeliveryThreshold > 0 && input.orderValue !== null && input.orderValue >= freeDeliveryThreshold && total > 0) {
+    breakdown.push({ type: 'rule', label: `Free delivery on orders over $${freeDeliveryThreshold.toFixed(2)}`, amount: -total });
+    total = 0;
+  }
+
+  // A code that doesn't apply is reported back rather than failing the price
+  let promotion: DeliveryPrice['promotion'] = null;
+  let promotionError: DeliveryPrice['promotionError'] = null;
+  const promoCode = input.promoCode?.trim();
+  if (promoCode) {
+    const found = await findPromotion(store, tenantId, promoCode, {
+      at: input.deliverAt ?? options.now ?? new Date(),
+      timeZone: settings.timezone || DEFAULT_TIMEZONE,
+      businessId: input.businessId,
+      zoneId: zone?.id ?? null,
+      orderValue: input.orderValue
+    }, { customerId: input.customerId, customerEmail: null });
+    const discount = found.promotion && !found.problem ? promotionDiscount(found.promotion, total) : 0;
+    const problem = found.problem ?? (discount > 0 ? null : 'nothing_to_discount');
+    if (found.promotion && !problem) {
+      breakdown.push({ type: 'discount', label: found.promotion.name, amount: -discount });
+      total = roundCents(total - discount);
+      promotion = { id: found.promotion.id, code: found.promotion.code, name: found.promotion.name, discount };
+    } else if (problem) {
+      promotionError = { code: promoCode, reason: problem, message: promotionProblemMessage(problem) };
+    }
+  }
+
+  return {
+    distance,
+    duration,
+    deliveryFee: total,
+    distanceFee,
+    zone: zone ? { id: zone.id, name: zone.name, deliveryFee: zoneFee, estimatedTime: zone.estimatedTime } : null,
+    zonePricingMode: zone ? settings.zonePricingMode || 'distance' : null,
+    estimatedTime: zone?.estimatedTime ?? duration,
+    isWithinBaseRadius: pricedLegs.every(leg => leg.distance <= pricing.baseFeeRadius),
+    pricing: {
+      baseFee: pricing.baseDeliveryFee,
+      pricePerMile: pricing.pricePerMile,
+      baseFeeRadius: pricing.baseFeeRadius,
+      extraMiles
+    },
+    legs: pricedLegs,
+    breakdown,
+    appliedRules: ruled.appliedRules,
+    loyaltyTier,
+    distanceProvider: pricedLegs.some(leg => leg.provider === 'haversine') ? 'haversine' : pricedLegs[0]?.provider ?? null,
+    promotion,
+    promotionError
+  };
+}
+
+const formatOrderValue = (value: number | null) => value === null ? null : value.toFixed(2);
+const formatDeliverAt = (value: Date | null) => value === null ? null : new Date(value).toISOString();
+
+type SignedQuoteFields = 'id' | 'tenantId' | 'pickupAddress' | 'deliveryAddress' | 'stops' | 'isRush' |
+  'businessId' | 'customerId' | 'orderValue' | 'deliverAt' | 'promoCode' | 'totalAmount' | 'expiresAt';
+
+// Canonical form of what a quote promises - any change to these fields invalidates the signature
+function signQuote(quote: Pick<DeliveryQuote, SignedQuoteFields>): string {
+  const payload = JSON.stringify([
+    quote.id,
+    quote.tenantId,
+    quote.pickupAddress,
+    quote.deliveryAddress,
+    quote.stops,
+    quote.isRush,
+    quote.businessId ?? null,
+    quote.customerId ?? null,
+    quote.orderValue === null ? null : Number(quote.orderValue).toFixed(2),
+    formatDeliverAt(quote.deliverAt),
+    quote.promoCode ?? null,
+    Number(quote.totalAmount).toFixed(2),
+    new Date(quote.expiresAt).toISOString()
+  ]);
+  return createHmac('sha256', signingSecret).update(payload).digest('hex');
+}
+
+/**
+ * Persists a price as a quote the customer can check out with for the next QUOTE_TTL_MINUTES.
+ */
+export async function createDeliveryQuote(
+  store: IStorage,
+  tenantId: string,
+  input: QuoteInput,
+  price: DeliveryPrice,
+  now: Date = new Date()
+): Promise<QuoteSummary> {
+  const unsigned = {
+    id: randomUUID(),
+    tenantId,
+    pickupAddress: input.pickup,
+    deliveryAddress: input.delivery,
+    stops: input.stops,
+    isRush: input.isRush,
+    businessId: input.businessId,
+    customerId: input.customerId,
+    orderValue: formatOrderValue(input.orderValue),
+    deliverAt: input.deliverAt,
+    promoCode: price.promotion?.code ?? null, // only codes that applied - a rejected code is as if none was entered
+    distance: price.distance,
+    breakdown: price.breakdown,
+    totalAmount: price.deliveryFee.toFixed(2),
+    expiresAt: new Date(now.getTime() + QUOTE_TTL_MINUTES * 60000)
+  };
+  const quote = await store.createDeliveryQuote({ ...unsigned, signature: signQuote(unsigned) });
+  return {
+    id: quote.id,
+    signature: quote.signature,
+    expiresAt: quote.expiresAt,
+    totalAmount: Number(quote.totalAmount),
+    breakdown: quote.breakdown
+  };
+}
+
+export type QuoteProblem = 'quote_missing' | 'quote_expired' | 'quote_mismatch';
+
+/**
+ * Why a quote can't be used for this order, or null when it can. Mismatched addresses, a forged signature
+ * or a quote from another tenant all count as a mismatch.
+ */
+export function checkQuote(
+  quote: DeliveryQuote | undefined,
+  signature: unknown,
+  tenantId: string,
+  input: QuoteInput,
+  now: Date = new Date()
+): QuoteProblem | null {
+  if (!quote) return 'quote_missing';
+
+  const expected = Buffer.from(signQuote(quote));
+  const provided = Buffer.from(typeof signature === 'string' ? signature : '');
+  const signatureValid = expected.length === provided.length && timingSafeEqual(expected, provided) && quote.signature === signQuote(quote);
+  const sameOrder = quote.tenantId === tenantId &&
+    quote.pickupAddress === input.pickup &&
+    quote.deliveryAddress === input.delivery &&
+    quote.isRush === input.isRush &&
+    JSON.stringify(quote.stops ?? []) === JSON.stringify(input.stops) &&
+    (quote.businessId ?? null) === input.businessId &&
+    (quote.customerId ?? null) === input.customerId &&
+    (quote.orderValue === null ? null : Number(quote.orderValue).toFixed(2)) === formatOrderValue(input.orderValue) &&
+    formatDeliverAt(quote.deliverAt) === formatDeliverAt(input.deliverAt) &&
+    (quote.promoCode ?? null) === (input.promoCode?.trim() ? normalizePromoCode(input.promoCode) : null);
+  if (!signatureValid || !sameOrder) return 'quote_mismatch';
+
+  if (quote.usedAt || quote.expiresAt <= now) return 'quote_expired';
+  return null;
+}
@@ -0,0 +1,156 @@
+import type { BusinessSettings } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+
+type OperatingHours = NonNullable<BusinessSettings['operatingHours']>;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Same fallback the business settings API shows when a tenant hasn't saved hours yet
+export const DEFAULT_OPERATING_HOURS: OperatingHours = {
+  monday: { open: '09:00', close: '17:00', closed: false },
+  tuesday: { open: '09:00', close: '17:00', closed: false },
+  wednesday: { open: '09:00', close: '17:00', closed: false },
+  thursday: { open: '09:00', close: '17:00', closed: false },
+  friday: { open: '09:00', close: '17:00', closed: false },
+  saturday: { open: '10:00', close: '16:00', closed: false },
+  sunday: { open: '12:00', close: '16:00', closed: true }
+};
+
+export const DEFAULT_TIMEZONE = 'America/Chicago';
+export const DEFAULT_SLOT_MINUTES = 60;
+export const DEFAULT_SLOT_CAPACITY = 4;
+export const DEFAULT_RELEASE_LEAD_MINUTES = 120;
+
+export interface DeliverySlot {
+  start: Date;
+  end: Date;
+  label: string; // e.g. "9:00 AM - 10:00 AM", stored as the order's preferredTime
+  capacity: number;
+  booked: number;
+  remaining: number;
+  available: boolean; // false once full or already started
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function timeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+/**
+ * The instant a wall-clock date and time ("2026-10-20", "09:30") happens in the given timezone.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = timeZoneOffsetMinutes(new Date(guess), timeZone);
+  // Re-check the offset at the corrected instant so slots right after a DST change land correctly
+  const corrected = guess - offset * 60000;
+  return new Date(guess - timeZoneOffsetMinutes(new Date(corrected), timeZone) * 60000);
+}
+
+// Wall-clock date ("YYYY-MM-DD") and time ("HH:MM") of an instant in the given timezone
+export function toZonedParts(instant: Date, timeZone: string): { date: string; time: string; day: typeof DAY_NAMES[number] } {
+  const local = new Date(instant.getTime() + timeZoneOffsetMinutes(instant, timeZone) * 60000);
+  const iso = local.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16), day: DAY_NAMES[local.getUTCDay()] };
+}
+
+export function getDayHours(operatingHours: OperatingHours | null | undefined, date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  const dayName = DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  return (operatingHours || DEFAULT_OPERATING_HOURS)[dayName];
+}
+
+// "13:30" -> "1:30 PM"
+export function formatSlotTime(time: string): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${suffix}`;
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const total = hour * 60 + minute + minutes;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Delivery slots for a date, cut from the tenant's operating hours, with how many orders each already has.
+ * Closed days have no slots. A trailing window shorter than the slot length is dropped.
+ */
+export async function getDeliverySlots(
+  store: IStorage,
+  tenantId: string,
+  settings: BusinessSettings | undefined,
+  date: string,
+  now: Date = new Date()
+): Promise<DeliverySlot[]> {
+  const timeZone = settings?.timezone || DEFAULT_TIMEZONE;
+  const slotMinutes = settings?.deliverySlotMinutes || DEFAULT_SLOT_MINUTES;
+  const capacity = settings?.deliverySlotCapacity ?? DEFAULT_SLOT_CAPACITY;
+  const hours = getDayHours(settings?.operatingHours, date);
+  if (!hours || hours.closed) return [];
+
+  const windows: { open: string; close: string }[] = [];
+  for (let open = hours.open; toMinutes(open) + slotMinutes <= toMinutes(hours.close); open = addMinutes(open, slotMinutes)) {
+    windows.push({ open, close: addMinutes(open, slotMinutes) });
+  }
+  if (windows.length === 0) return [];
+
+  const slots = windows.map(({ open, close }) => ({
+    start: zonedTimeToUtc(date, open, timeZone),
+    end: zonedTimeToUtc(date, close, timeZone),
+    label: `${formatSlotTime(open)} - ${formatSlotTime(close)}`
+  }));
+
+  const booked = await store.getScheduledDeliveries(tenantId, slots[0].start, slots[slots.length - 1].end);
+  return slots.map(slot => {
+    const count = booked.filter(d => d.scheduledSlotStart && new Date(d.scheduledSlotStart).getTime() === slot.start.getTime()).length;
+    const remaining = Math.max(0, capacity - count);
+    return {
+      ...slot,
+      capacity,
+      booked: count,
+      remaining,
+      available: remaining > 0 && slot.start > now
+    };
+  });
+}
+
+/**
+ * When a scheduled order should appear in the driver queue. Orders inside the lead time are released straight away.
+ */
+export function getReleaseTime(settings: BusinessSettings | undefined, slotStart: Date): Date {
+  const leadMinutes = settings?.scheduledReleaseLeadMinutes ?? DEFAULT_RELEASE_LEAD_MINUTES;
+  return new Date(slotStart.getTime() - leadMinutes * 60000);
+}
+
+// The slot starting at exactly this instant, if the tenant offers one
+export async function findDeliverySlot(
+  store: IStorage,
+  tenantId: string,
+  settings: BusinessSettings | undefined,
+  slotStart: Date
+): Promise<DeliverySlot | undefined> {
+  const { date } = toZonedParts(slotStart, settings?.timezone || DEFAULT_TIMEZONE);
+  const slots = await getDeliverySlots(store, tenantId, settings, date);
+  return slots.find(slot => slot.start.getTime() === slotStart.getTime());
+}
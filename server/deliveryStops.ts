@@ -0,0 +1,52 @@
+import type { DeliveryRequest, DeliveryStopInput, InsertDeliveryStop, MapsProviderName } from '../shared/schema.js';
+import type { DistanceProvider } from './distanceProvider.js';
+
+export interface RouteLeg {
+  from: string;
+  to: string;
+  distance: number; // miles
+  duration: number; // minutes
+  provider?: MapsProviderName;
+}
+
+/**
+ * Full ordered route for a multi-stop delivery: the request's pickup, the customer's extra stops,
+ * then the request's delivery address as the final drop-off.
+ */
+export function buildDeliveryRoute(delivery: DeliveryRequest, stops: DeliveryStopInput[]): InsertDeliveryStop[] {
+  const route: DeliveryStopInput[] = [
+    { type: 'pickup', address: delivery.pickupAddress },
+    ...stops,
+    { type: 'dropoff', address: delivery.deliveryAddress }
+  ];
+
+  return route.map((stop, sequence) => ({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    sequence,
+    type: stop.type,
+    address: stop.address,
+    notes: stop.notes || null
+  }));
+}
+
+/**
+ * Distance and time for each consecutive pair of addresses.
+ * Stops at the first leg that can't be routed and reports it in errorMessage.
+ */
+export async function calculateRouteLegs(
+  addresses: string[],
+  provider: DistanceProvider
+): Promise<{ legs: RouteLeg[]; errorMessage?: string }> {
+  const legs: RouteLeg[] = [];
+  for (let i = 0; i < addresses.length - 1; i++) {
+    const from = addresses[i];
+    const to = addresses[i + 1];
+    const result = await provider.calculateDistance(from, to);
+    if (result.status !== 'OK') {
+      return { legs, errorMessage: result.errorMessage || `Could not route from ${from} to ${to}` };
+    }
+    legs.push({ from, to, distance: result.distance, duration: result.duration, provider: result.provider });
+  }
+  return { legs };
+}
@@ -1,8 +1,14 @@
 import express from 'express';
 import { db } from './db.js';
-import { userProfiles, deliveryRequests } from '../shared/schema.js';
-import { eq, or, and, sql } from 'drizzle-orm';
+import { userProfiles, deliveryRequests, assignDeliverySchema, reassignDeliverySchema } from '../shared/schema.js';
+import { DeliveryTransitionError, DeliveryClaimError, DeliveryAssignmentError } from '../shared/deliveryStateMachine.js';
+import { eq, or, and, sql, asc, desc } from 'drizzle-orm';
+import { z } from 'zod';
 import { storage } from './storage.js';
+import { getCurrentTenantId, getOrderTenantId } from './tenant.js';
+import { AutoDispatchEngine } from './autoDispatch.js';
+import { requireStaff, AuthError } from './auth.js';
+import { DRIVER_LOCATION_STALE_MINUTES, toDeliveryResponse } from './driverTracking.js';
 
 const router = express.Router();
 
@@ -81,22 +87,153 @@ router.get('/drivers', async (req, res) => {
   }
 });
 
-// Get all deliveries for dispatch monitoring
+// Get this tenant's deliveries for dispatch monitoring (the main site's orders belong to the default tenant)
 router.get('/deliveries', async (req, res) => {
   try {
     console.log('Fetching all deliveries for dispatch...');
     
+    // Rush orders first, like the driver queue
     const deliveries = await db
       .select()
-      .from(deliveryRequests);
+      .from(deliveryRequests)
+      .where(eq(deliveryRequests.tenantId, getOrderTenantId(req)))
+      .orderBy(desc(deliveryRequests.isRush), asc(deliveryRequests.dueBy), asc(deliveryRequests.createdAt));
     
     console.log(`Found ${deliveries.length} deliveries`);
     
-    res.json(deliveries);
+    res.json(deliveries.map(toDeliveryResponse));
   } catch (error) {
     console.error('Error fetching deliveries:', error);
     res.status(500).json({ error: 'Failed to fetch deliveries' });
   }
 });
 
+// Dispatchers can only hand work to drivers of this tenant who are currently on duty
+async function checkAssignableDriver(driverId: string, tenantId: string): Promise<{ status: number; error: string } | null> {
+  const driver = await storage.getBusinessStaffById(driverId);
+  if (!driver || driver.role !== 'driver' || driver.tenantId !== tenantId) {
+    return { status: 404, error: 'Driver not found' };
+  }
+  if (!driver.isOnDuty) {
+    return { status: 409, error: 'Driver is off duty' };
+  }
+  return null;
+}
+
+function handleAssignmentError(res: express.Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid assignment data', errors: error.errors });
+  }
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof DeliveryTransitionError || error instanceof DeliveryClaimError || error instanceof DeliveryAssignmentError) {
+    return res.status(409).json({ error: error.message });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({ error: fallbackMessage });
+}
+
+// Push an available delivery to a specific on-duty driver
+router.post('/deliveries/:id/assign', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { driverId, notes } = assignDeliverySchema.parse(req.body);
+    const tenantId = getCurrentTenantId(req);
+    const dispatcher = await requireStaff(req, storage, tenantId, ['admin', 'dispatcher']);
+    
+    const driverCheck = await checkAssignableDriver(driverId, tenantId);
+    if (driverCheck) {
+      return res.status(driverCheck.status).json({ error: driverCheck.error });
+    }
+    
+    const assignment = await storage.assignDelivery(id, driverId, { type: 'dispatcher', id: dispatcher.id }, notes);
+    res.json(assignment);
+  } catch (error) {
+    handleAssignmentError(res, error, 'Failed to assign delivery');
+  }
+});
+
+// Move a claimed delivery to another on-duty driver, or pull it back to the queue (driverId: null)
+router.post('/deliveries/:id/reassign', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { driverId, notes } = reassignDeliverySchema.parse(req.body);
+    const tenantId = getCurrentTenantId(req);
+    const dispatcher = await requireStaff(req, storage, tenantId, ['admin', 'dispatcher']);
+    
+    if (driverId) {
+      const driverCheck = await checkAssignableDriver(driverId, tenantId);
+      if (driverCheck) {
+        return res.status(driverCheck.status).json({ error: driverCheck.error });
+      }
+    }
+    
+    const assignment = await storage.reassignDelivery(id, driverId, { type: 'dispatcher', id: dispatcher.id }, notes);
+    res.json({ assignment });
+  } catch (error) {
+    handleAssignmentError(res, error, 'Failed to reassign delivery');
+  }
+});
+
+// Ranked driver suggestions for every available delivery
+router.get('/suggestions', async (req, res) => {
+  try {
+    const tenantId = getCurrentTenantId(req);
+    await requireStaff(req, storage, tenantId, ['admin', 'dispatcher']);
+    const suggestions = await new AutoDispatchEngine(storage).getSuggestions(tenantId);
+    res.json(suggestions);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error building dispatch suggestions:', error);
+    res.status(500).json({ error: 'Failed to build dispatch suggestions' });
+  }
+});
+
+// Assign every available delivery to its best driver now, regardless of the tenant's auto-dispatch mode
+router.post('/auto-assign', async (req, res) => {
+  try {
+    const tenantId = getCurrentTenantId(req);
+    const dispatcher = await requireStaff(req, storage, tenantId, ['admin', 'dispatcher']);
+    const assignments = await new AutoDispatchEngine(storage).autoAssign(tenantId, new Date(), { type: 'dispatcher', id: dispatcher.id });
+    res.json({ assigned: assignments.length, assignments });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error running auto-assign:', error);
+    res.status(500).json({ error: 'Failed to auto-assign deliveries' });
+  }
+});
+
+// Latest position of each driver who has pinged recently, for the dispatch map
+router.get('/driver-locations', async (req, res) => {
+  try {
+    const tenantId = getCurrentTenantId(req);
+    await requireStaff(req, storage, tenantId, ['admin', 'dispatcher']);
+    const since = new Date(Date.now() - DRIVER_LOCATION_STALE_MINUTES * 60 * 1000);
+    const locations = await storage.getLatestDriverLocations(tenantId, since);
+    res.json(locations);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error fetching driver locations:', error);
+    res.status(500).json({ error: 'Failed to fetch driver locations' });
+  }
+});
+
+// Assignment history for a delivery
+router.get('/deliveries/:id/assignments', async (req, res) => {
+  try {
+    const assignments = await storage.getDeliveryAssignments(req.params.id);
+    res.json(assignments);
+  } catch (error) {
+    console.error('Error fetching assignments:', error);
+    res.status(500).json({ error: 'Failed to fetch assignments' });
+  }
+});
+
 export default router;
\ No newline at end of file
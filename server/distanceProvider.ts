@@ -0,0 +1,66 @@
+import { googleMapsService, type DistanceResult } from './googleMaps.js';
+import { MapsService, NominatimGeocoder } from './mapsService.js';
+import { storage } from './storage.js';
+
+// Anything that can estimate the driving distance between two addresses.
+// MapsService and GoogleMapsService satisfy this as-is; FakeDistanceProvider lets dispatch logic run without any lookups.
+export interface DistanceProvider {
+  calculateDistance(originAddress: string, destinationAddress: string): Promise<DistanceResult>;
+}
+
+// Deterministic distances for tests and local development
+export class FakeDistanceProvider implements DistanceProvider {
+  private distances = new Map<string, number>();
+
+  constructor(private defaultMiles = 5, private averageMph = 30) {}
+
+  setDistance(originAddress: string, destinationAddress: string, miles: number): this {
+    this.distances.set(this.key(originAddress, destinationAddress), miles);
+    return this;
+  }
+
+  async calculateDistance(originAddress: string, destinationAddress: string): Promise<DistanceResult> {
+    const miles = this.distances.get(this.key(originAddress, destinationAddress))
+      ?? this.distances.get(this.key(destinationAddress, originAddress))
+      ?? this.defaultMiles;
+
+    return {
+      distance: miles,
+      duration: Math.ceil((miles / this.averageMph) * 60),
+      status: 'OK',
+      provider: 'fake'
+    };
+  }
+
+  private key(originAddress: string, destinationAddress: string): string {
+    return `${originAddress.trim().toLowerCase()}|${destinationAddress.trim().toLowerCase()}`;
+  }
+}
+
+/**
+ * Cached distances and geocodes for routes and pricing. Google when GOOGLE_MAPS_API_KEY is set, otherwise (or when
+ * Google fails) Nominatim geocodes and haversine estimates. DISTANCE_PROVIDER=haversine skips Google's Distance Matrix.
+ */
+export const mapsService = new MapsService(
+  storage,
+  [googleMapsService, new NominatimGeocoder()],
+  process.env.DISTANCE_PROVIDER === 'haversine' ? [] : [googleMapsService]
+);
+
+let activeProvider: DistanceProvider | null = null;
+
+/**
+ * Provider used by server-side features that need distances.
+ * mapsService by default; set DISTANCE_PROVIDER=fake for fixed distances with no lookups at all.
+ */
+export async function getDistanceProvider(): Promise<DistanceProvider> {
+  if (!activeProvider) {
+    activeProvider = process.env.DISTANCE_PROVIDER === 'fake' ? new FakeDistanceProvider() : mapsService;
+  }
+  return activeProvider;
+}
+
+// Swap the provider (e.g. a FakeDistanceProvider in tests). Pass null to go back to the default.
+export function setDistanceProvider(provider: DistanceProvider | null): void {
+  activeProvider = provider;
+}
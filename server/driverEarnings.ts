@@ -0,0 +1,184 @@
+import type { DeliveryRequest, DriverEarning, DriverPayout } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { DEFAULT_TIMEZONE, toZonedParts, zonedTimeToUtc } from './deliverySlots.js';
+import { totalEarningsByDriver, type PayoutDriverTotal, type PayoutStatement } from './payoutStatements.js';
+
+// What a tenant pays its drivers per completed delivery, on top of the tips they're given
+export interface DriverPayRates {
+  perDelivery: number;
+  perMile: number;
+  feePercent: number; // share of what the customer paid for the delivery
+}
+
+export interface DriverEarningsPeriod {
+  start: Date;
+  total: number;
+  tips: number;
+  deliveries: number;
+}
+
+export interface DriverEarningsSummary {
+  today: DriverEarningsPeriod;
+  week: DriverEarningsPeriod; // Monday to today in the tenant's timezone
+  earnings: DriverEarning[]; // this week's entries, newest first
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getDriverPayRates(settings: any): DriverPayRates {
+  return {
+    perDelivery: parseFloat(settings?.driverPayPerDelivery ?? '') || 0,
+    perMile: parseFloat(settings?.driverPayPerMile ?? '') || 0,
+    feePercent: parseFloat(settings?.driverPayFeePercent ?? '') || 0
+  };
+}
+
+export function calculateDriverPay(rates: DriverPayRates, distance: number | null, fee: number) {
+  const deliveryPay = roundCents(rates.perDelivery);
+  const mileagePay = roundCents((distance ?? 0) * rates.perMile);
+  const feeSharePay = roundCents(fee * rates.feePercent / 100);
+  return { deliveryPay, mileagePay, feeSharePay, total: roundCents(deliveryPay + mileagePay + feeSharePay) };
+}
+
+/**
+ * Records what the driver earned for a completed delivery at the tenant's current rates, and the tip if it has
+ * already been paid. Safe to call more than once - a delivery only ever gets one entry of each kind.
+ */
+export async function recordDeliveryEarnings(store: IStorage, delivery: DeliveryRequest): Promise<DriverEarning | undefined> {
+  if (delivery.status !== 'completed' || !delivery.claimedByDriver) {
+    return undefined;
+  }
+  const [settings, quote] = await Promise.all([
+    store.getBusinessSettings(delivery.tenantId),
+    delivery.quoteId ? store.getDeliveryQuote(delivery.quoteId) : Promise.resolve(undefined)
+  ]);
+  const distance = quote?.distance ?? null;
+  const pay = calculateDriverPay(getDriverPayRates(settings), distance, parseFloat(delivery.totalAmount ?? '') || 0);
+
+  const earning = await store.createDriverEarning({
+    tenantId: delivery.tenantId,
+    driverId: delivery.claimedByDriver,
+    deliveryId: delivery.id,
+    kind: 'delivery',
+    deliveryPay: pay.deliveryPay.toFixed(2),
+    mileagePay: pay.mileagePay.toFixed(2),
+    feeSharePay: pay.feeSharePay.toFixed(2),
+    totalAmount: pay.total.toFixed(2),
+    distance
+  });
+  await recordTipEarnings(store, delivery);
+  return earning;
+}
+
+// A tip is owed to the driver once the delivery is done and the provider has confirmed the tip was paid
+function paidTip(delivery: DeliveryRequest): number {
+  const tip = parseFloat(delivery.tipAmount) || 0;
+  return delivery.status === 'completed' && delivery.claimedByDriver && delivery.tipPaidAt ? tip : 0;
+}
+
+/**
+ * Credits the driver with a paid tip. Called both when the delivery completes and when the tip's payment is
+ * confirmed, whichever comes last does it.
+ */
+export async function recordTipEarnings(store: IStorage, delivery: DeliveryRequest): Promise<DriverEarning | undefined> {
+  const tip = paidTip(delivery);
+  if (tip <= 0) {
+    return undefined;
+  }
+  return store.createDriverEarning({
+    tenantId: delivery.tenantId,
+    driverId: delivery.claimedByDriver!,
+    deliveryId: delivery.id,
+    kind: 'tip',
+    tipAmount: tip.toFixed(2),
+    totalAmount: tip.toFixed(2)
+  });
+}
+
+/**
+ * Takes back a credited tip that was refunded, as a negative entry so it comes off the driver's next payout
+ * even if the tip has already been paid out.
+ */
+export async function reverseTipEarnings(store: IStorage, delivery: DeliveryRequest): Promise<DriverEarning | undefined> {
+  const tip = paidTip(delivery);
+  if (tip <= 0) {
+    return undefined;
+  }
+  return store.createDriverEarning({
+    tenantId: delivery.tenantId,
+    driverId: delivery.claimedByDriver!,
+    deliveryId: delivery.id,
+    kind: 'tip_reversal',
+    tipAmount: (-tip).toFixed(2),
+    totalAmount: (-tip).toFixed(2)
+  });
+}
+
+function summarizePeriod(earnings: DriverEarning[], start: Date): DriverEarningsPeriod {
+  const inPeriod = earnings.filter(earning => earning.earnedAt >= start);
+  return {
+    start,
+    total: roundCents(inPeriod.reduce((sum, earning) => sum + parseFloat(earning.totalAmount), 0)),
+    tips: roundCents(inPeriod.reduce((sum, earning) => sum + parseFloat(earning.tipAmount), 0)),
+    deliveries: inPeriod.filter(earning => earning.kind === 'delivery').length
+  };
+}
+
+/**
+ * A driver's earnings so far today and this week, with days and weeks starting at midnight in the tenant's timezone.
+ */
+export async function getDriverEarningsSummary(
+  store: IStorage,
+  tenantId: string,
+  driverId: string,
+  now: Date = new Date()
+): Promise<DriverEarningsSummary> {
+  const settings = await store.getBusinessSettings(tenantId);
+  const timeZone = settings?.timezone || DEFAULT_TIMEZONE;
+
+  const { date } = toZonedParts(now, timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const today = new Date(Date.UTC(year, month - 1, day));
+  const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+  const monday = new Date(today.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const dayStart = zonedTimeToUtc(date, '00:00', timeZone);
+  const weekStart = zonedTimeToUtc(monday, '00:00', timeZone);
+  const earnings = await store.getDriverEarnings(driverId, weekStart);
+
+  return {
+    today: summarizePeriod(earnings, dayStart),
+    week: summarizePeriod(earnings, weekStart),
+    earnings
+  };
+}
+
+// Drivers' display names from their profiles, keyed by profile ID
+async function getDriverNames(store: IStorage, driverIds: string[]): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(driverIds));
+  const profiles = await Promise.all(ids.map(id => store.getUserProfile(id)));
+  return new Map(ids.map((id, index) => [id, profiles[index]?.fullName || 'Unknown driver']));
+}
+
+/**
+ * What each driver would be paid if the period were closed at periodEnd.
+ */
+export async function previewDriverPayout(store: IStorage, tenantId: string, periodEnd: Date): Promise<PayoutDriverTotal[]> {
+  const earnings = await store.getUnpaidDriverEarnings(tenantId, periodEnd);
+  return totalEarningsByDriver(earnings, await getDriverNames(store, earnings.map(earning => earning.driverId)));
+}
+
+export async function getPayoutDriverTotals(store: IStorage, payout: DriverPayout): Promise<PayoutDriverTotal[]> {
+  const earnings = await store.getPayoutEarnings(payout.id);
+  return totalEarningsByDriver(earnings, await getDriverNames(store, earnings.map(earning => earning.driverId)));
+}
+
+// One driver's statement for a closed payout, undefined when they earned nothing in it
+export async function getPayoutStatement(store: IStorage, payout: DriverPayout, driverId: string): Promise<PayoutStatement | undefined> {
+  const earnings = (await store.getPayoutEarnings(payout.id)).filter(earning => earning.driverId === driverId);
+  if (earnings.length === 0) {
+    return undefined;
+  }
+  const [totals] = totalEarningsByDriver(earnings, await getDriverNames(store, [driverId]));
+  return { payout, driverId, driverName: totals.driverName, earnings, total: totals.total, tips: totals.tips };
+}
@@ -0,0 +1,74 @@
+import type { DeliveryRequest, DriverLocation, DriverLocationPing } from '../shared/schema.js';
+import { getDistanceProvider } from './distanceProvider.js';
+import type { IStorage } from './storage.js';
+
+// Re-query the route at most this often per delivery; in between, count the previous ETA down
+const ETA_REFRESH_SECONDS = 60;
+
+// Dispatch map only shows drivers who have pinged recently
+export const DRIVER_LOCATION_STALE_MINUTES = 30;
+
+/**
+ * Minutes from the driver's current position to the delivery address.
+ * Returns null when no route could be calculated - tracking still works, just without an ETA.
+ */
+export async function estimateEtaMinutes(
+  ping: DriverLocationPing,
+  delivery: DeliveryRequest,
+  previous?: DriverLocation,
+  now: Date = new Date()
+): Promise<number | null> {
+  if (previous?.etaMinutes != null) {
+    const elapsedSeconds = (now.getTime() - new Date(previous.recordedAt).getTime()) / 1000;
+    if (elapsedSeconds < ETA_REFRESH_SECONDS) {
+      return Math.max(0, Math.round(previous.etaMinutes - elapsedSeconds / 60));
+    }
+  }
+
+  try {
+    const provider = await getDistanceProvider();
+    const result = await provider.calculateDistance(`${ping.latitude},${ping.longitude}`, delivery.deliveryAddress);
+    return result.status === 'OK' ? result.duration : null;
+  } catch (error) {
+    console.warn('Could not calculate delivery ETA:', error);
+    return null;
+  }
+}
+
+export interface DeliveryTrackingInfo {
+  enabled: boolean;
+  status: string;
+  location: Pick<DriverLocation, 'latitude' | 'longitude' | 'heading' | 'recordedAt'> | null;
+  etaMinutes: number | null;
+}
+
+// What the customer sees of the driver: latest position and ETA, only while the delivery is in progress
+export async function getDeliveryTracking(store: IStorage, delivery: DeliveryRequest): Promise<DeliveryTrackingInfo> {
+  const settings = await store.getBusinessSettings(delivery.tenantId);
+  const enabled = settings?.enableRealTimeTracking ?? true;
+  if (!enabled || delivery.status !== 'in_progress') {
+    return { enabled, status: delivery.status, location: null, etaMinutes: null };
+  }
+
+  const location = await store.getLatestDeliveryLocation(delivery.id);
+  return {
+    enabled,
+    status: delivery.status,
+    location: location ? {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      heading: location.heading,
+      recordedAt: location.recordedAt
+    } : null,
+    etaMinutes: location?.etaMinutes ?? null
+  };
+}
+
+/**
+ * A delivery as sent to staff, drivers and order lists. The tracking token is the only credential for the public
+ * tracking page, so it goes to the customer with their order confirmation and nowhere else.
+ */
+export function toDeliveryResponse<T extends Pick<DeliveryRequest, 'trackingToken'>>(delivery: T): Omit<T, 'trackingToken'> {
+  const { trackingToken, ...rest } = delivery;
+  return rest;
+}
@@ -1,11 +1,15 @@
-interface DistanceResult {
+import type { MapsProviderName } from '../shared/schema.js';
+
+export interface DistanceResult {
   distance: number; // in miles
   duration: number; // in minutes
   status: 'OK' | 'ERROR';
   errorMessage?: string;
+  provider?: MapsProviderName; // set by MapsService - which provider produced the answer
+  cached?: boolean;
 }
 
-interface AddressValidationResult {
+export interface AddressValidationResult {
   isValid: boolean;
   formattedAddress?: string;
   coordinates?: {
@@ -13,22 +17,30 @@ interface AddressValidationResult {
     lng: number;
   };
   errorMessage?: string;
+  provider?: MapsProviderName;
+  cached?: boolean;
 }
 
 export class GoogleMapsService {
+  readonly name = 'google' as const;
   private apiKey: string;
 
-  constructor() {
-    this.apiKey = process.env.GOOGLE_MAPS_API_KEY || '';
-    if (!this.apiKey) {
-      throw new Error('GOOGLE_MAPS_API_KEY environment variable is required');
-    }
+  // A missing key no longer throws - the service reports itself unconfigured and MapsService falls back
+  constructor(apiKey = process.env.GOOGLE_MAPS_API_KEY || '') {
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
   }
 
   /**
    * Calculate driving distance and time between two addresses
    */
   async calculateDistance(originAddress: string, destinationAddress: string): Promise<DistanceResult> {
+    if (!this.isConfigured()) {
+      return { distance: 0, duration: 0, status: 'ERROR', errorMessage: 'GOOGLE_MAPS_API_KEY is not set' };
+    }
     try {
       const baseUrl = 'https://maps.googleapis.com/maps/api/distancematrix/json';
       const params = new URLSearchParams({
@@ -85,6 +97,9 @@ export class GoogleMapsService {
    * Validate and format an address using Google Places API
    */
   async validateAddress(address: string): Promise<AddressValidationResult> {
+    if (!this.isConfigured()) {
+      return { isValid: false, errorMessage: 'GOOGLE_MAPS_API_KEY is not set' };
+    }
     try {
       const baseUrl = 'https://maps.googleapis.com/maps/api/geocode/json';
       const params = new URLSearchParams({
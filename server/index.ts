@@ -3,10 +3,11 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { runMigrations } from "./migrate";
 import { resolveTenant } from "./tenant";
+import { jsonBodyParser } from "./bodyParser";
 
 const app = express();
 // Increase body size limits to handle logo uploads (up to 10MB)
-app.use(express.json({ limit: '10mb' }));
+app.use(jsonBodyParser);
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Add tenant resolution middleware early in the pipeline
@@ -0,0 +1,212 @@
+import type { MapsProviderName } from '../shared/schema.js';
+import type { AddressValidationResult, DistanceResult } from './googleMaps.js';
+import type { DistanceProvider } from './distanceProvider.js';
+import type { AddressGeocoder } from './serviceZones.js';
+import type { IStorage } from './storage.js';
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// A source of geocodes. isConfigured() is false when it can't be used at all (e.g. no API key), so it's skipped without a call.
+export interface GeocodingProvider {
+  readonly name: MapsProviderName;
+  isConfigured(): boolean;
+  validateAddress(address: string): Promise<AddressValidationResult>;
+}
+
+// A source of driving distances
+export interface RoutingProvider extends DistanceProvider {
+  readonly name: MapsProviderName;
+  isConfigured(): boolean;
+}
+
+export const MAPS_CACHE_TTL = {
+  geocodeDays: 30,
+  distanceDays: 7,
+  estimateHours: 1, // haversine estimates - kept briefly so the real provider gets asked again once it's back
+};
+
+// Straight-line miles are stretched by this much to approximate the road network
+export const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_MPH = 30;
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Cache key for an address - case, punctuation and spacing differences map to the same entry.
+ */
+export function normalizeAddress(address: string): string {
+  return address.toLowerCase().replace(/[.,#]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function haversineMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Driving estimate from coordinates alone: straight-line distance times ROAD_FACTOR, at an average town speed.
+ */
+export function estimateDrivingDistance(from: Coordinates, to: Coordinates): { distance: number; duration: number } {
+  const miles = haversineMiles(from, to) * ROAD_FACTOR;
+  return {
+    distance: Math.round(miles * 100) / 100,
+    duration: Math.ceil((miles / AVERAGE_SPEED_MPH) * 60),
+  };
+}
+
+// Keyless geocoding through OpenStreetMap's Nominatim API. Set NOMINATIM_URL to a self-hosted instance, or to an empty string to turn it off.
+export class NominatimGeocoder implements GeocodingProvider {
+  readonly name = 'nominatim' as const;
+
+  constructor(private baseUrl = process.env.NOMINATIM_URL ?? 'https://nominatim.openstreetmap.org') {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async validateAddress(address: string): Promise<AddressValidationResult> {
+    try {
+      const params = new URLSearchParams({ q: address, format: 'jsonv2', limit: '1' });
+      // Nominatim's usage policy requires an identifying User-Agent
+      const response = await fetch(`${this.baseUrl}/search?${params}`, {
+        headers: { 'User-Agent': 'delivery-platform/1.0 (address lookup)' }
+      });
+      if (!response.ok) {
+        return { isValid: false, errorMessage: `Nominatim error: ${response.status}` };
+      }
+
+      const results = await response.json();
+      if (!Array.isArray(results) || results.length === 0) {
+        return { isValid: false, errorMessage: 'No results found for this address' };
+      }
+
+      return {
+        isValid: true,
+        formattedAddress: results[0].display_name,
+        coordinates: { lat: parseFloat(results[0].lat), lng: parseFloat(results[0].lon) }
+      };
+    } catch (error) {
+      console.error('Error geocoding with Nominatim:', error);
+      return { isValid: false, errorMessage: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+/**
+ * Every distance and geocode the server needs goes through here. Answers are cached in storage by normalized
+ * address, providers are tried in order, and distances fall back to a haversine estimate between the two
+ * geocodes when no routing provider answers - so a missing or failing Google key degrades prices instead of
+ * breaking them. Results say which provider produced them.
+ */
+export class MapsService implements DistanceProvider, AddressGeocoder {
+  constructor(
+    private store: IStorage,
+    private geocoders: GeocodingProvider[],
+    private routers: RoutingProvider[]
+  ) {}
+
+  async validateAddress(address: string): Promise<AddressValidationResult> {
+    const addressKey = normalizeAddress(address);
+    const cached = await this.readCache(() => this.store.getCachedGeocode(addressKey));
+    if (cached) {
+      return {
+        isValid: true,
+        formattedAddress: cached.formattedAddress ?? undefined,
+        coordinates: { lat: cached.lat, lng: cached.lng },
+        provider: cached.provider,
+        cached: true
+      };
+    }
+
+    let failure: AddressValidationResult | null = null;
+    for (const geocoder of this.geocoders.filter(g => g.isConfigured())) {
+      const result = await geocoder.validateAddress(address);
+      if (result.isValid && result.coordinates) {
+        await this.writeCache(() => this.store.saveCachedGeocode({
+          addressKey,
+          formattedAddress: result.formattedAddress ?? null,
+          lat: result.coordinates!.lat,
+          lng: result.coordinates!.lng,
+          provider: geocoder.name,
+          expiresAt: new Date(Date.now() + MAPS_CACHE_TTL.geocodeDays * 24 * 60 * 60 * 1000)
+        }));
+        return { ...result, provider: geocoder.name, cached: false };
+      }
+      failure ??= { ...result, provider: geocoder.name };
+    }
+
+    return failure ?? { isValid: false, errorMessage: 'No geocoding provider is configured' };
+  }
+
+  async calculateDistance(originAddress: string, destinationAddress: string): Promise<DistanceResult> {
+    const originKey = normalizeAddress(originAddress);
+    const destinationKey = normalizeAddress(destinationAddress);
+    const cached = await this.readCache(() => this.store.getCachedDistance(originKey, destinationKey));
+    if (cached) {
+      return { distance: cached.distance, duration: cached.duration, status: 'OK', provider: cached.provider, cached: true };
+    }
+
+    let failure: DistanceResult | null = null;
+    for (const router of this.routers.filter(r => r.isConfigured())) {
+      const result = await router.calculateDistance(originAddress, destinationAddress);
+      if (result.status === 'OK') {
+        await this.saveDistance(originKey, destinationKey, result, router.name, MAPS_CACHE_TTL.distanceDays * 24);
+        return { ...result, provider: router.name, cached: false };
+      }
+      failure ??= { ...result, provider: router.name };
+    }
+
+    const [origin, destination] = await Promise.all([
+      this.validateAddress(originAddress),
+      this.validateAddress(destinationAddress)
+    ]);
+    if (origin.coordinates && destination.coordinates) {
+      const estimate = estimateDrivingDistance(origin.coordinates, destination.coordinates);
+      const result: DistanceResult = { ...estimate, status: 'OK' };
+      await this.saveDistance(originKey, destinationKey, result, 'haversine', MAPS_CACHE_TTL.estimateHours);
+      return { ...result, provider: 'haversine', cached: false };
+    }
+
+    const unresolved = origin.coordinates ? destinationAddress : originAddress;
+    return failure ?? {
+      distance: 0,
+      duration: 0,
+      status: 'ERROR',
+      errorMessage: `Could not locate "${unresolved}"`
+    };
+  }
+
+  private async saveDistance(originKey: string, destinationKey: string, result: DistanceResult, provider: MapsProviderName, ttlHours: number) {
+    await this.writeCache(() => this.store.saveCachedDistance({
+      originKey,
+      destinationKey,
+      distance: result.distance,
+      duration: result.duration,
+      provider,
+      expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+    }));
+  }
+
+  // The cache only saves calls - a broken cache must never fail the lookup itself
+  private async readCache<T>(read: () => Promise<T | undefined>): Promise<T | undefined> {
+    try {
+      return await read();
+    } catch (error) {
+      console.warn('Maps cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  private async writeCache(write: () => Promise<unknown>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.warn('Maps cache write failed:', error);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import type { BusinessSettings, OrderEligibilityReason } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import type { DistanceProvider } from './distanceProvider.js';
+import type { RouteLeg } from './deliveryStops.js';
+import { DEFAULT_TIMEZONE, findDeliverySlot, formatSlotTime, getDayHours, getDeliverySlots, toZonedParts, zonedTimeToUtc } from './deliverySlots.js';
+
+export const DEFAULT_MAX_DELIVERY_RADIUS = 25; // miles, matches the column default
+
+// How far ahead to look for the next time the business takes orders
+const NEXT_WINDOW_SEARCH_DAYS = 14;
+
+export interface EligibilityIssue {
+  reason: OrderEligibilityReason;
+  message: string;
+  address?: string; // out_of_range: the drop-off that's too far
+  distance?: number; // out_of_range: miles from the pickup
+}
+
+// The next time an order can be booked - a delivery slot when the tenant schedules, otherwise opening time
+export interface OpenWindow {
+  start: string; // ISO instant
+  label: string; // e.g. "Mon, Oct 20, 9:00 AM"
+  date: string; // YYYY-MM-DD in the tenant's timezone
+  slotStart?: string; // Set when the window is a bookable delivery slot
+}
+
+export interface OrderEligibility {
+  eligible: boolean;
+  reasons: EligibilityIssue[];
+  nextWindow: OpenWindow | null; // Only looked up when the order is closed or outside a slot
+}
+
+export interface EligibilityRequest {
+  pickup: string;
+  dropoffs: string[];
+  slotStart?: Date | null; // Scheduled order for this delivery slot
+  openWindowStart?: Date | null; // Order placed while closed, booked for when the business opens
+  legs?: RouteLeg[]; // Already-routed legs - any running straight from the pickup to a drop-off saves a distance lookup
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function formatWindowDay(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' }).format(instant);
+}
+
+/**
+ * Whether the business is open at an instant, judged by its operating hours in its own timezone.
+ */
+export function isWithinOperatingHours(settings: BusinessSettings | undefined, instant: Date): boolean {
+  const { date, time } = toZonedParts(instant, settings?.timezone || DEFAULT_TIMEZONE);
+  const hours = getDayHours(settings?.operatingHours, date);
+  return !!hours && !hours.closed && time >= hours.open && time < hours.close;
+}
+
+/**
+ * The next bookable window after now: the first delivery slot with room when scheduling is on,
+ * otherwise the next opening time. Null when nothing opens within the search horizon.
+ */
+export async function findNextOpenWindow(
+  store: IStorage,
+  tenantId: string,
+  settings: BusinessSettings | undefined,
+  now: Date = new Date()
+): Promise<OpenWindow | null> {
+  const timeZone = settings?.timezone || DEFAULT_TIMEZONE;
+  const today = toZonedParts(now, timeZone).date;
+
+  for (let offset = 0; offset < NEXT_WINDOW_SEARCH_DAYS; offset++) {
+    const date = addDays(today, offset);
+
+    if (settings?.enableScheduledDeliveries) {
+      const slot = (await getDeliverySlots(store, tenantId, settings, date, now)).find(s => s.available);
+      if (slot) {
+        return {
+          start: slot.start.toISOString(),
+          label: `${formatWindowDay(slot.start, timeZone)}, ${slot.label}`,
+          date,
+          slotStart: slot.start.toISOString()
+        };
+      }
+      continue;
+    }
+
+    const hours = getDayHours(settings?.operatingHours, date);
+    if (!hours || hours.closed) continue;
+    const opens = zonedTimeToUtc(date, hours.open, timeZone);
+    if (opens > now) {
+      return { start: opens.toISOString(), label: `${formatWindowDay(opens, timeZone)}, ${formatSlotTime(hours.open)}`, date };
+    }
+  }
+  return null;
+}
+
+// Straight pickup-to-drop-off distance for each drop-off; ones that can't be routed are left out
+async function distancesFromPickup(
+  provider: DistanceProvider,
+  pickup: string,
+  dropoffs: string[],
+  legs: RouteLeg[] = []
+): Promise<{ address: string; distance: number }[]> {
+  const results: { address: string; distance: number }[] = [];
+  for (const address of dropoffs) {
+    const known = legs.find(leg => leg.from === pickup && leg.to === address);
+    if (known) {
+      results.push({ address, distance: known.distance });
+      continue;
+    }
+    const result = await provider.calculateDistance(pickup, address);
+    if (result.status === 'OK') {
+      results.push({ address, distance: result.distance });
+    } else {
+      console.warn(`Could not check delivery range for ${address}:`, result.errorMessage);
+    }
+  }
+  return results;
+}
+
+/**
+ * Checks an order against the tenant's maximum delivery radius and operating hours.
+ * Unscheduled orders need the business to be open now; scheduled ones need a real slot or opening time in the future.
+ */
+export async function checkOrderEligibility(
+  store: IStorage,
+  tenantId: string,
+  settings: BusinessSettings | undefined,
+  provider: DistanceProvider,
+  request: EligibilityRequest,
+  now: Date = new Date()
+): Promise<OrderEligibility> {
+  const reasons: EligibilityIssue[] = [];
+
+  const maxRadius = settings?.maxDeliveryRadius ?? DEFAULT_MAX_DELIVERY_RADIUS;
+  if (maxRadius > 0) {
+    const distances = await distancesFromPickup(provider, request.pickup, request.dropoffs, request.legs);
+    for (const { address, distance } of distances.filter(d => d.distance > maxRadius)) {
+      reasons.push({
+        reason: 'out_of_range',
+        message: `${address} is ${Math.round(distance * 10) / 10} miles away - we deliver up to ${maxRadius} miles`,
+        address,
+        distance
+      });
+    }
+  }
+
+  if (request.slotStart) {
+    const slot = await findDeliverySlot(store, tenantId, settings, request.slotStart);
+    if (!slot || slot.start <= now) {
+      reasons.push({ reason: 'outside_slot', message: slot ? 'That delivery slot has already started' : 'That delivery slot is not offered' });
+    }
+  } else if (request.openWindowStart) {
+    if (request.openWindowStart <= now || !isWithinOperatingHours(settings, request.openWindowStart)) {
+      reasons.push({ reason: 'outside_slot', message: 'That time is outside our business hours' });
+    }
+  } else if (!isWithinOperatingHours(settings, now)) {
+    reasons.push({ reason: 'closed', message: "We're closed right now" });
+  }
+
+  const needsWindow = reasons.some(issue => issue.reason === 'closed' || issue.reason === 'outside_slot');
+  return {
+    eligible: reasons.length === 0,
+    reasons,
+    nextWindow: needsWindow ? await findNextOpenWindow(store, tenantId, settings, now) : null
+  };
+}
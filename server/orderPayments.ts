@@ -0,0 +1,35 @@
+import type { DeliveryRequest } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import type { PaymentProvider } from './paymentProvider.js';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Sends the customer an invoice for an order paid online - the delivery fee plus any tip as its own line - from the
+ * tenant's payment provider. The order stays pending until the provider's webhook reports the invoice paid.
+ * Returns the order unchanged when the invoice can't be issued, so the business can follow up on payment.
+ */
+export async function invoiceOrder(store: IStorage, provider: PaymentProvider, delivery: DeliveryRequest): Promise<DeliveryRequest> {
+  try {
+    const invoice = await provider.createInvoice({
+      orderId: delivery.id,
+      customer: { name: delivery.customerName, email: delivery.email, phone: delivery.phone },
+      title: `Delivery ${delivery.id.slice(0, 8)}`,
+      description: `Delivery to ${delivery.deliveryAddress}`,
+      amountCents: toCents(parseFloat(delivery.totalAmount ?? '') || 0),
+      tipCents: toCents(parseFloat(delivery.tipAmount) || 0)
+    });
+    if (!invoice.success) {
+      throw new Error(invoice.error || 'Invoice creation failed');
+    }
+    return await store.updateDeliveryRequest(delivery.id, {
+      paymentProvider: provider.name,
+      squareInvoiceId: invoice.invoiceId ?? null,
+      squareOrderId: invoice.orderId ?? null,
+      invoiceUrl: invoice.publicUrl ?? null
+    });
+  } catch (error) {
+    console.error('Error invoicing order:', error);
+    return delivery;
+  }
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import type { DeliveryRequest, PaymentProviderName, PaymentTransactionStatus } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { getTenantSquareService, SquarePaymentProvider } from './squareService.js';
+import { StripePaymentProvider } from './stripeService.js';
+import { decryptTenantSecret } from './tenantSecrets.js';
+
+export interface ProviderInvoiceRequest {
+  orderId: string;
+  customer: { name: string; email?: string | null; phone?: string | null };
+  title: string;
+  description: string;
+  amountCents: number; // 0 for an invoice that only carries a tip
+  tipCents?: number; // invoiced as its own line
+}
+
+export interface ProviderInvoiceResult {
+  success: boolean;
+  invoiceId?: string;
+  orderId?: string; // Square only - the order behind the invoice, which its payment events name instead of the invoice
+  publicUrl?: string; // where the customer pays it
+  error?: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  status: PaymentTransactionStatus;
+}
+
+// A webhook request as it arrived, for checking its signature
+export interface WebhookRequest {
+  url: string; // full URL the provider posted to
+  rawBody: string | Buffer;
+  headers: Record<string, string | undefined>;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  accountName?: string; // the Square location or Stripe account the credentials reach
+  locations?: { id: string; name: string }[]; // Square only - active locations the token can see
+  error?: string;
+}
+
+/**
+ * A card processor a tenant takes payments through. Amounts are in cents. Orders are paid through invoices, which
+ * report failure in their result; refunds throw, since the caller has to undo its bookkeeping either way.
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName | 'fake';
+  createInvoice(request: ProviderInvoiceRequest): Promise<ProviderInvoiceResult>;
+  refund(paymentId: string, amountCents: number, reason: string): Promise<ProviderRefund>;
+  verifyWebhook(request: WebhookRequest): boolean;
+  testConnection(): Promise<ConnectionTestResult>;
+}
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+// Remembers everything it's asked to do and succeeds unless told otherwise - for tests and local development
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+  readonly invoices: (ProviderInvoiceRequest & { invoiceId: string })[] = [];
+  readonly refunds: { id: string; paymentId: string; amountCents: number; reason: string }[] = [];
+  failNext: 'invoice' | 'refund' | null = null;
+
+  constructor(private webhookSecret = 'fake-webhook-secret') {}
+
+  async createInvoice(request: ProviderInvoiceRequest): Promise<ProviderInvoiceResult> {
+    if (this.takeFailure('invoice')) {
+      return { success: false, error: 'Invoice creation failed' };
+    }
+    const invoiceId = `fake_inv_${randomUUID()}`;
+    this.invoices.push({ ...request, invoiceId });
+    return { success: true, invoiceId, publicUrl: `https://payments.example.com/invoices/${invoiceId}` };
+  }
+
+  async refund(paymentId: string, amountCents: number, reason: string): Promise<ProviderRefund> {
+    if (this.takeFailure('refund')) {
+      throw new Error('Refund failed');
+    }
+    const id = `fake_ref_${randomUUID()}`;
+    this.refunds.push({ id, paymentId, amountCents, reason });
+    return { id, status: 'completed' };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    return request.headers[FAKE_SIGNATURE_HEADER] === this.webhookSecret;
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    return { success: true, accountName: 'Fake payments' };
+  }
+
+  private takeFailure(operation: NonNullable<FakePaymentProvider['failNext']>): boolean {
+    if (this.failNext !== operation) return false;
+    this.failNext = null;
+    return true;
+  }
+}
+
+let overrideProvider: PaymentProvider | null = process.env.PAYMENT_PROVIDER === 'fake' ? new FakePaymentProvider() : null;
+
+// Use one provider for every tenant (e.g. a FakePaymentProvider in tests). Pass null to go back to each tenant's own.
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  overrideProvider = provider;
+}
+
+/**
+ * The tenant's configured provider, or the one named (e.g. the provider an order was paid through).
+ * Null when that provider hasn't been set up. PAYMENT_PROVIDER=fake uses a FakePaymentProvider for every tenant.
+ */
+export async function getTenantPaymentProvider(
+  store: IStorage,
+  tenantId: string,
+  name?: PaymentProviderName
+): Promise<PaymentProvider | null> {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+  const settings = await store.getBusinessSettings(tenantId);
+  const provider = name ?? (settings?.paymentProvider as PaymentProviderName | null) ?? 'square';
+
+  if (provider === 'stripe') {
+    const secretKey = decryptTenantSecret(tenantId, 'stripeSecretKey', settings?.stripeSecretKey);
+    if (!secretKey) {
+      return null;
+    }
+    return new StripePaymentProvider({
+      secretKey,
+      webhookSecret: decryptTenantSecret(tenantId, 'stripeWebhookSecret', settings?.stripeWebhookSecret)
+    });
+  }
+
+  const square = await getTenantSquareService(store, tenantId);
+  return square
+    ? new SquarePaymentProvider(square, decryptTenantSecret(tenantId, 'squareWebhookSignatureKey', settings?.squareWebhookSignatureKey))
+    : null;
+}
+
+// The provider that took the payment for an order - orders from before providers could be picked went through Square
+export function getDeliveryPaymentProvider(store: IStorage, delivery: DeliveryRequest): Promise<PaymentProvider | null> {
+  return getTenantPaymentProvider(store, delivery.tenantId, (delivery.paymentProvider as PaymentProviderName | null) ?? 'square');
+}
@@ -0,0 +1,137 @@
+import type { DeliveryRequest, PaymentStatus, SquareWebhookOutcome } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { reconcileProviderRefund, recordDeliveryCharge, type ReportedRefund } from './refunds.js';
+import { confirmTipPaid, dropUnpaidTip, refundTip } from './tips.js';
+
+// What a provider's webhook says about a delivery's payment, and which payment or invoice to find the delivery by.
+// A payment not yet known by its ID is found by the provider order it paid for (a Square invoice's order).
+export interface PaymentUpdate {
+  objectId: string;
+  match: { paymentId: string; orderId?: string } | { invoiceId: string };
+  status: PaymentStatus | null; // null when the event doesn't change the payment status
+  paymentId?: string; // the payment that settled an invoice, kept on the delivery so it can be refunded
+  refund?: ReportedRefund; // refunds go through the payment ledger, which decides when the order is fully refunded
+}
+
+// A verified notification, already read by the provider's own parser
+export interface PaymentEvent {
+  eventId: string;
+  eventType: string;
+  objectId: string | null;
+  update: PaymentUpdate | undefined; // undefined for event types we don't act on
+}
+
+export interface PaymentWebhookResult {
+  eventId: string;
+  duplicate: boolean; // seen before - nothing was done
+  outcome: SquareWebhookOutcome | null;
+  deliveryId: string | null;
+}
+
+// Payment statuses only move forward, so an old event replayed late can't undo a newer one
+const PAYMENT_STATUS_ORDER: Record<PaymentStatus, number> = { pending: 0, failed: 1, paid: 2, refunded: 3 };
+
+export function nextPaymentStatus(current: string | null, incoming: PaymentStatus): PaymentStatus | null {
+  const currentOrder = PAYMENT_STATUS_ORDER[(current || 'pending') as PaymentStatus] ?? 0;
+  return PAYMENT_STATUS_ORDER[incoming] > currentOrder ? incoming : null;
+}
+
+// A tip invoiced on its own after delivery - the driver is credited when it's paid and it's undone if it isn't
+async function applyTipInvoiceUpdate(store: IStorage, delivery: DeliveryRequest, status: PaymentStatus | null): Promise<boolean> {
+  switch (status) {
+    case 'paid':
+      return confirmTipPaid(store, delivery);
+    case 'refunded':
+      return refundTip(store, delivery);
+    case 'failed':
+      return dropUnpaidTip(store, delivery);
+    default:
+      return false;
+  }
+}
+
+async function applyPaymentUpdate(
+  store: IStorage,
+  tenantId: string,
+  update: PaymentUpdate | undefined
+): Promise<{ outcome: SquareWebhookOutcome; deliveryId: string | null }> {
+  if (!update || (!update.status && !update.refund)) {
+    return { outcome: 'ignored', deliveryId: null };
+  }
+
+  let delivery = 'paymentId' in update.match
+    ? await store.getDeliveryBySquarePaymentId(tenantId, update.match.paymentId)
+    : await store.getDeliveryBySquareInvoiceId(tenantId, update.match.invoiceId);
+  if (!delivery && 'paymentId' in update.match && update.match.orderId) {
+    delivery = await store.getDeliveryBySquareOrderId(tenantId, update.match.orderId);
+    // A declined attempt leaves the invoice open for the customer to try again, so only a completed payment counts
+    if (delivery && update.status !== 'paid') {
+      return { outcome: 'unchanged', deliveryId: delivery.id };
+    }
+  }
+  if (!delivery && 'invoiceId' in update.match) {
+    const tipped = await store.getDeliveryByTipInvoiceId(tenantId, update.match.invoiceId);
+    if (tipped) {
+      const changed = await applyTipInvoiceUpdate(store, tipped, update.status);
+      return { outcome: changed ? 'applied' : 'unchanged', deliveryId: tipped.id };
+    }
+  }
+  if (!delivery) {
+    return { outcome: 'unmatched', deliveryId: null };
+  }
+
+  if (update.refund) {
+    const changed = await reconcileProviderRefund(store, delivery, update.refund);
+    return { outcome: changed ? 'applied' : 'unchanged', deliveryId: delivery.id };
+  }
+
+  let changed = false;
+  if (update.paymentId && !delivery.squarePaymentId) {
+    delivery = await store.updateDeliveryRequest(delivery.id, { squarePaymentId: update.paymentId });
+    changed = true;
+  }
+
+  const status = update.status ? nextPaymentStatus(delivery.paymentStatus, update.status) : null;
+  if (!status) {
+    return { outcome: changed ? 'applied' : 'unchanged', deliveryId: delivery.id };
+  }
+  const updated = await store.updateDeliveryPaymentStatus(delivery.id, delivery.paymentStatus, status);
+  if (!updated) {
+    throw new Error(`Payment status of delivery ${delivery.id} changed while applying a webhook event`);
+  }
+  if (status === 'paid') {
+    await recordDeliveryCharge(store, updated);
+  }
+  // A checkout tip is a line on the order's invoice, so it's paid and refunded with the order
+  if (updated.tipSource === 'checkout') {
+    if (status === 'paid') await confirmTipPaid(store, updated);
+    if (status === 'refunded') await refundTip(store, updated);
+  }
+  return { outcome: 'applied', deliveryId: delivery.id };
+}
+
+/**
+ * Applies a verified provider notification to the tenant's deliveries. Each event ID is handled once - a replay
+ * returns duplicate without touching anything. If applying fails the event is forgotten again, so the provider's
+ * retry gets another go.
+ */
+export async function handlePaymentEvent(store: IStorage, tenantId: string, event: PaymentEvent): Promise<PaymentWebhookResult> {
+  const claimed = await store.claimSquareWebhookEvent({
+    tenantId,
+    eventId: event.eventId,
+    eventType: event.eventType,
+    objectId: event.update?.objectId ?? event.objectId
+  });
+  if (!claimed) {
+    return { eventId: event.eventId, duplicate: true, outcome: null, deliveryId: null };
+  }
+
+  try {
+    const { outcome, deliveryId } = await applyPaymentUpdate(store, tenantId, event.update);
+    await store.finishSquareWebhookEvent(claimed.id, outcome, deliveryId);
+    return { eventId: event.eventId, duplicate: false, outcome, deliveryId };
+  } catch (error) {
+    await store.releaseSquareWebhookEvent(claimed.id);
+    throw error;
+  }
+}
@@ -0,0 +1,141 @@
+import type { DriverEarning, DriverPayout } from '../shared/schema.js';
+
+// One driver's share of a payout, as printed on their statement
+export interface PayoutStatement {
+  payout: DriverPayout;
+  driverId: string;
+  driverName: string;
+  earnings: DriverEarning[];
+  total: number;
+  tips: number;
+}
+
+export interface PayoutDriverTotal {
+  driverId: string;
+  driverName: string;
+  earningCount: number;
+  total: number;
+  tips: number;
+}
+
+const money = (amount: number) => amount.toFixed(2);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Per-driver totals for a set of earnings, largest first.
+ */
+export function totalEarningsByDriver(earnings: DriverEarning[], driverNames: Map<string, string>): PayoutDriverTotal[] {
+  const totals = new Map<string, PayoutDriverTotal>();
+  for (const earning of earnings) {
+    const entry = totals.get(earning.driverId) ?? {
+      driverId: earning.driverId,
+      driverName: driverNames.get(earning.driverId) || 'Unknown driver',
+      earningCount: 0,
+      total: 0,
+      tips: 0
+    };
+    entry.earningCount += 1;
+    entry.total = Math.round((entry.total + parseFloat(earning.totalAmount)) * 100) / 100;
+    entry.tips = Math.round((entry.tips + parseFloat(earning.tipAmount)) * 100) / 100;
+    totals.set(earning.driverId, entry);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total);
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderStatementCsv(statement: PayoutStatement): string {
+  const header = ['Date', 'Delivery', 'Type', 'Miles', 'Delivery pay', 'Mileage pay', 'Fee share', 'Tip', 'Total'];
+  const rows = statement.earnings.map(earning => [
+    day(earning.earnedAt),
+    earning.deliveryId,
+    earning.kind,
+    earning.distance === null ? '' : earning.distance.toFixed(1),
+    earning.deliveryPay,
+    earning.mileagePay,
+    earning.feeSharePay,
+    earning.tipAmount,
+    earning.totalAmount
+  ]);
+  rows.push(['', '', 'Total', '', '', '', '', money(statement.tips), money(statement.total)]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function statementLines(statement: PayoutStatement): string[] {
+  const { payout } = statement;
+  const lines = [
+    'Driver payout statement',
+    '',
+    `Driver: ${statement.driverName}`,
+    `Period: ${day(payout.periodStart)} to ${day(payout.periodEnd)}`,
+    `Closed: ${day(payout.createdAt)}`,
+    '',
+    'Date        Delivery  Type           Miles      Pay      Tip    Total'
+  ];
+  for (const earning of statement.earnings) {
+    const pay = parseFloat(earning.totalAmount) - parseFloat(earning.tipAmount);
+    lines.push([
+      day(earning.earnedAt).padEnd(12),
+      earning.deliveryId.slice(0, 8).padEnd(10),
+      earning.kind.padEnd(13), // up to tip_reversal
+      (earning.distance === null ? '-' : earning.distance.toFixed(1)).padStart(7),
+      money(pay).padStart(9),
+      earning.tipAmount.padStart(9),
+      earning.totalAmount.padStart(9)
+    ].join(''));
+  }
+  lines.push('', `Tips: $${money(statement.tips)}`, `Total due: $${money(statement.total)}`);
+  return lines;
+}
+
+// PDF text strings escape backslashes and parentheses, and the standard fonts only cover Latin-1
+function pdfText(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * A plain one-column PDF of the statement - US Letter pages of monospaced text, so no PDF library is needed.
+ */
+export function renderStatementPdf(statement: PayoutStatement): Buffer {
+  const linesPerPage = 60;
+  const lines = statementLines(statement);
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then a page and its content stream for each page
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>'
+  ];
+  for (const [index, pageLines] of pages.entries()) {
+    const content = [
+      'BT',
+      '/F1 10 Tf',
+      '12 TL',
+      '50 750 Td',
+      ...pageLines.map(line => `(${pdfText(line)}) '`),
+      'ET'
+    ].join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  }
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,108 @@
+import { LOYALTY_TIER_MIN_DELIVERIES, LOYALTY_TIERS, type CustomerLoyaltyAccount, type LoyaltyTier, type PricingRule, type PricingRuleConditions, type QuoteLineItem } from '../shared/schema.js';
+import { toZonedParts } from './deliverySlots.js';
+
+// Everything about a trip the rule conditions can look at
+export interface PricingContext {
+  at: Date; // when the delivery happens - the booked slot, or now
+  timeZone: string;
+  businessId: string | null;
+  zoneId: string | null;
+  distance: number; // miles, whole route
+  extraMiles: number; // miles past the base fee radius, summed over legs
+  pricePerMile: number;
+  rushMultiplier: number; // 1 unless rush
+  orderValue: number | null;
+  loyaltyTier: LoyaltyTier | null; // null for guests
+}
+
+export interface AppliedPricingRule {
+  id: string;
+  name: string;
+  amount: number; // what the rule changed the fee by
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Highest tier the customer's completed deliveries qualify for. Customers without an account start at bronze.
+ */
+export function getLoyaltyTier(account: Pick<CustomerLoyaltyAccount, 'totalDeliveries'> | undefined): LoyaltyTier {
+  const deliveries = account?.totalDeliveries ?? 0;
+  return [...LOYALTY_TIERS].reverse().find(tier => deliveries >= LOYALTY_TIER_MIN_DELIVERIES[tier]) ?? 'bronze';
+}
+
+function inRange(value: number | null, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value === null) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+// Start inclusive, end exclusive; an end at or before the start runs past midnight
+function inTimeWindow(time: string, start: string, end: string): boolean {
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * Whether a trip meets every condition a rule sets.
+ */
+export function pricingRuleMatches(conditions: PricingRuleConditions, context: PricingContext): boolean {
+  const { date, time } = toZonedParts(context.at, context.timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  if (conditions.days?.length && !conditions.days.includes(weekday)) return false;
+  if (conditions.startTime && conditions.endTime && !inTimeWindow(time, conditions.startTime, conditions.endTime)) return false;
+  if (conditions.businessIds?.length && (!context.businessId || !conditions.businessIds.includes(context.businessId))) return false;
+  if (conditions.zoneIds?.length && (!context.zoneId || !conditions.zoneIds.includes(context.zoneId))) return false;
+  if (!inRange(context.distance, conditions.minDistance, conditions.maxDistance)) return false;
+  if (!inRange(context.orderValue, conditions.minOrderValue, conditions.maxOrderValue)) return false;
+  if (conditions.loyaltyTiers?.length && (!context.loyaltyTier || !conditions.loyaltyTiers.includes(context.loyaltyTier))) return false;
+  return true;
+}
+
+// New fee after one rule's action
+function applyAction(rule: PricingRule, fee: number, context: PricingContext): number {
+  const amount = parseFloat(rule.amount ?? '') || 0;
+  switch (rule.action) {
+    case 'flat_fee':
+      return fee + amount;
+    case 'percent':
+      return fee + fee * amount / 100;
+    case 'per_mile':
+      // Re-prices the miles past the base radius at this rate
+      return fee + context.extraMiles * (amount - context.pricePerMile) * context.rushMultiplier;
+    case 'waive':
+      return 0;
+    case 'cap':
+      return Math.min(fee, amount);
+    default:
+      return fee;
+  }
+}
+
+/**
+ * Runs the tenant's active rules in position order against a fee. Every matching rule applies, each one
+ * to the fee the previous rules left, and the fee never goes below zero.
+ */
+export function applyPricingRules(
+  rules: PricingRule[],
+  context: PricingContext,
+  fee: number
+): { fee: number; lines: QuoteLineItem[]; appliedRules: AppliedPricingRule[] } {
+  const lines: QuoteLineItem[] = [];
+  const appliedRules: AppliedPricingRule[] = [];
+  let current = fee;
+
+  for (const rule of rules) {
+    if (!rule.isActive || !pricingRuleMatches(rule.conditions, context)) continue;
+    const next = roundCents(Math.max(0, applyAction(rule, current, context)));
+    const amount = roundCents(next - current);
+    appliedRules.push({ id: rule.id, name: rule.name, amount });
+    if (amount !== 0) {
+      lines.push({ type: 'rule', label: rule.name, amount });
+    }
+    current = next;
+  }
+
+  return { fee: current, lines, appliedRules };
+}
@@ -0,0 +1,155 @@
+import { normalizePromoCode, type Promotion } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { toZonedParts } from './deliverySlots.js';
+
+// The trip a code is being used on
+export interface PromotionTrip {
+  at: Date; // when the delivery happens - the booked slot, or now
+  timeZone: string;
+  businessId: string | null;
+  zoneId: string | null;
+  orderValue: number | null;
+}
+
+// Who is using the code. Guests are only known by email, and only once they place the order.
+export interface PromotionCustomer {
+  customerId: string | null;
+  customerEmail: string | null;
+}
+
+export type PromotionProblem =
+  | 'not_found'
+  | 'not_started'
+  | 'expired'
+  | 'wrong_day'
+  | 'below_minimum_order'
+  | 'wrong_business'
+  | 'wrong_zone'
+  | 'first_order_only'
+  | 'limit_reached'
+  | 'customer_limit_reached'
+  | 'nothing_to_discount';
+
+// A code's limit was used up by another order while this one was being placed - raised as the order is saved
+export class PromotionClaimError extends Error {
+  constructor(public problem: PromotionProblem) {
+    super(promotionProblemMessage(problem));
+    this.name = 'PromotionClaimError';
+  }
+}
+
+export function promotionProblemMessage(problem: PromotionProblem): string {
+  switch (problem) {
+    case 'not_found':
+      return "That promo code isn't valid";
+    case 'not_started':
+      return "That promo code isn't active yet";
+    case 'expired':
+      return 'That promo code has expired';
+    case 'wrong_day':
+      return "That promo code can't be used on this day";
+    case 'below_minimum_order':
+      return "Your order value is below this promo code's minimum";
+    case 'wrong_business':
+      return "That promo code doesn't apply to this business";
+    case 'wrong_zone':
+      return "That promo code doesn't apply to this delivery area";
+    case 'first_order_only':
+      return 'That promo code is for your first delivery - sign in to use it';
+    case 'limit_reached':
+      return 'That promo code has been fully redeemed';
+    case 'customer_limit_reached':
+      return "You've already used that promo code";
+    case 'nothing_to_discount':
+      return 'Your delivery is already free';
+  }
+}
+
+function weekday(at: Date, timeZone: string): number {
+  const [year, month, day] = toZonedParts(at, timeZone).date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Whether a code's window, days, minimum order and business/zone restrictions allow this trip.
+ * Inactive codes read as not found so customers can't probe for them.
+ */
+export function checkPromotionTerms(promotion: Promotion | undefined, trip: PromotionTrip): PromotionProblem | null {
+  if (!promotion || !promotion.isActive) return 'not_found';
+  if (promotion.startsAt && trip.at < promotion.startsAt) return 'not_started';
+  if (promotion.endsAt && trip.at >= promotion.endsAt) return 'expired';
+  if (promotion.days.length && !promotion.days.includes(weekday(trip.at, trip.timeZone))) return 'wrong_day';
+
+  const minOrderValue = parseFloat(promotion.minOrderValue ?? '') || 0;
+  if (minOrderValue > 0 && (trip.orderValue === null || trip.orderValue < minOrderValue)) return 'below_minimum_order';
+  if (promotion.businessIds.length && (!trip.businessId || !promotion.businessIds.includes(trip.businessId))) return 'wrong_business';
+  if (promotion.zoneIds.length && (!trip.zoneId || !promotion.zoneIds.includes(trip.zoneId))) return 'wrong_zone';
+  return null;
+}
+
+/**
+ * Whether the code still has redemptions left overall and for this customer. Both limits are enforced
+ * again atomically by storage.createDeliveryRequest when the order is placed.
+ */
+export async function checkPromotionLimits(
+  store: IStorage,
+  promotion: Promotion,
+  customer: PromotionCustomer
+): Promise<PromotionProblem | null> {
+  if (promotion.maxRedemptions !== null && promotion.redemptionCount >= promotion.maxRedemptions) return 'limit_reached';
+
+  if (promotion.firstOrderOnly) {
+    if (!customer.customerId) return 'first_order_only';
+    const earlier = (await store.getDeliveryRequests(customer.customerId)).filter(d => d.status !== 'cancelled');
+    if (earlier.length > 0) return 'customer_limit_reached';
+  }
+
+  if (promotion.maxRedemptionsPerCustomer !== null && (customer.customerId || customer.customerEmail)) {
+    const used = await store.countPromotionRedemptions(promotion.id, customer);
+    if (used >= promotion.maxRedemptionsPerCustomer) return 'customer_limit_reached';
+  }
+  return null;
+}
+
+/**
+ * Looks a code up for the tenant and checks it against the trip and customer.
+ */
+export async function findPromotion(
+  store: IStorage,
+  tenantId: string,
+  code: string,
+  trip: PromotionTrip,
+  customer: PromotionCustomer
+): Promise<{ promotion: Promotion | null; problem: PromotionProblem | null }> {
+  const promotion = await store.getPromotionByCode(tenantId, normalizePromoCode(code));
+  const problem = checkPromotionTerms(promotion, trip) ?? await checkPromotionLimits(store, promotion!, customer);
+  return { promotion: problem === 'not_found' ? null : promotion ?? null, problem };
+}
+
+/**
+ * How much a promotion takes off a delivery fee - never more than the fee itself.
+ */
+export function promotionDiscount(promotion: Promotion, fee: number): number {
+  const amount = parseFloat(promotion.amount ?? '') || 0;
+  const discount = promotion.discountType === 'percent' ? fee * amount / 100
+    : promotion.discountType === 'flat' ? amount
+    : fee;
+  return Math.round(Math.min(fee, Math.max(0, discount)) * 100) / 100;
+}
+
+/**
+ * Re-checks a quoted code as the order is placed. The quote already checked the code's terms; this catches
+ * codes deactivated since and limits a guest's email has already used. The redemption itself is taken with
+ * the order insert (CreateDeliveryOptions.promotion).
+ */
+export async function checkQuotedPromotion(
+  store: IStorage,
+  tenantId: string,
+  code: string,
+  customer: PromotionCustomer
+): Promise<{ promotion: Promotion | null; problem: PromotionProblem | null }> {
+  const promotion = await store.getPromotionByCode(tenantId, normalizePromoCode(code));
+  if (!promotion || !promotion.isActive) return { promotion: null, problem: 'not_found' };
+
+  return { promotion, problem: await checkPromotionLimits(store, promotion, customer) };
+}
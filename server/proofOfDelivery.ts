@@ -0,0 +1,57 @@
+import type { Business, DeliveryProof, DeliveryRequest, SubmitDeliveryProof } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { supabaseStorageService } from './supabaseStorage.js';
+
+/**
+ * Whether the driver must capture proof before completing this delivery.
+ * Required when the tenant requires it for everything, for the order's payment method, or for its pickup business.
+ */
+export function isProofOfDeliveryRequired(settings: any, business: Business | undefined, delivery: DeliveryRequest): boolean {
+  if (settings?.requireProofOfDelivery) return true;
+  if ((settings?.proofOfDeliveryPaymentMethods ?? []).includes(delivery.paymentMethod)) return true;
+  return business?.requireProofOfDelivery ?? false;
+}
+
+export async function getProofRequirement(store: IStorage, delivery: DeliveryRequest): Promise<boolean> {
+  const [settings, business] = await Promise.all([
+    store.getBusinessSettings(delivery.tenantId),
+    delivery.businessId ? store.getBusinessById(delivery.businessId) : Promise.resolve(undefined)
+  ]);
+  return isProofOfDeliveryRequired(settings, business, delivery);
+}
+
+// Split a validated "data:image/png;base64,..." URL into bytes and content type
+function decodeImageDataUrl(dataUrl: string): { buffer: Buffer; contentType: string } {
+  const [header, base64] = dataUrl.split(',', 2);
+  const contentType = header.slice('data:'.length, header.indexOf(';'));
+  return { buffer: Buffer.from(base64, 'base64'), contentType };
+}
+
+// Upload the captured images and record the proof against the delivery
+export async function saveDeliveryProof(
+  store: IStorage,
+  delivery: DeliveryRequest,
+  driverId: string,
+  submission: SubmitDeliveryProof
+): Promise<DeliveryProof> {
+  const photo = decodeImageDataUrl(submission.photo);
+  const photoUrl = await supabaseStorageService.uploadDeliveryProof(photo.buffer, delivery.id, 'photo', photo.contentType);
+
+  let signatureUrl: string | null = null;
+  if (submission.signature) {
+    const signature = decodeImageDataUrl(submission.signature);
+    signatureUrl = await supabaseStorageService.uploadDeliveryProof(signature.buffer, delivery.id, 'signature', signature.contentType);
+  }
+
+  return store.saveDeliveryProof({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    driverId,
+    photoUrl,
+    signatureUrl,
+    recipientName: submission.recipientName,
+    latitude: submission.latitude ?? null,
+    longitude: submission.longitude ?? null,
+    accuracy: submission.accuracy ?? null
+  });
+}
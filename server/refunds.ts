@@ -0,0 +1,227 @@
+import type { DeliveryRequest, PaymentTransaction, PaymentTransactionStatus, RefundPayment, PaymentAdjustment } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { getDeliveryPaymentProvider } from './paymentProvider.js';
+import { refundTip } from './tips.js';
+
+// Thrown when a refund or adjustment can't be made; status is the HTTP status the route answers with
+export class RefundError extends Error {
+  constructor(message: string, public status: 400 | 403 | 409 | 502 = 400) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export interface PaymentSummary {
+  charged: number;
+  adjustments: number;
+  refunded: number;
+  refundable: number; // what's left that can still be refunded
+  transactions: PaymentTransaction[];
+}
+
+// A refund the payment provider told us about, from its API or a webhook
+export interface ReportedRefund {
+  id: string;
+  status: PaymentTransactionStatus;
+  amountCents: number;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const sumAmounts = (transactions: PaymentTransaction[]) =>
+  roundCents(transactions.reduce((sum, transaction) => sum + parseFloat(transaction.amount), 0));
+
+// What the customer paid for the order - the fee plus a tip given at checkout
+function orderTotal(delivery: DeliveryRequest): number {
+  return roundCents((parseFloat(delivery.totalAmount ?? '') || 0) + (parseFloat(delivery.tipAmount) || 0));
+}
+
+/**
+ * Totals of a delivery's ledger. Orders paid before the ledger existed have no charge recorded, so a paid
+ * order without one counts its order total as charged.
+ */
+export function summarizePayments(delivery: DeliveryRequest, transactions: PaymentTransaction[]): PaymentSummary {
+  const live = transactions.filter(transaction => transaction.status !== 'failed');
+  const charges = live.filter(transaction => transaction.kind === 'charge');
+  const wasPaid = delivery.paymentStatus === 'paid' || delivery.paymentStatus === 'refunded';
+  const charged = charges.length > 0 ? sumAmounts(charges) : wasPaid ? orderTotal(delivery) : 0;
+  const adjustments = sumAmounts(live.filter(transaction => transaction.kind === 'adjustment'));
+  const refunded = parseFloat(delivery.refundedAmount) || 0;
+  return {
+    charged,
+    adjustments,
+    refunded,
+    refundable: Math.max(0, roundCents(charged + adjustments - refunded)),
+    transactions
+  };
+}
+
+export async function getPaymentSummary(store: IStorage, delivery: DeliveryRequest): Promise<PaymentSummary> {
+  return summarizePayments(delivery, await store.getPaymentTransactions(delivery.id));
+}
+
+/**
+ * Records the order total as charged, once per delivery.
+ */
+export async function recordDeliveryCharge(store: IStorage, delivery: DeliveryRequest): Promise<PaymentTransaction | undefined> {
+  const amount = orderTotal(delivery);
+  const transactions = await store.getPaymentTransactions(delivery.id);
+  if (amount <= 0 || transactions.some(transaction => transaction.kind === 'charge')) {
+    return undefined;
+  }
+  return store.createPaymentTransaction({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    kind: 'charge',
+    amount: amount.toFixed(2),
+    squarePaymentId: delivery.squarePaymentId
+  });
+}
+
+// Marks the order refunded once everything charged has gone back and Square has settled every refund
+async function markRefundedIfFull(store: IStorage, delivery: DeliveryRequest): Promise<DeliveryRequest> {
+  const summary = await getPaymentSummary(store, delivery);
+  const settled = !summary.transactions.some(transaction => transaction.kind === 'refund' && transaction.status === 'pending');
+  if (summary.charged > 0 && summary.refundable === 0 && settled && delivery.paymentStatus !== 'refunded') {
+    const refunded = await store.updateDeliveryPaymentStatus(delivery.id, delivery.paymentStatus, 'refunded');
+    if (!refunded) {
+      return delivery;
+    }
+    // A checkout tip went back to the customer with the rest of the order
+    if (refunded.tipSource === 'checkout' && await refundTip(store, refunded)) {
+      return (await store.getDeliveryRequestById(refunded.id)) ?? refunded;
+    }
+    return refunded;
+  }
+  return delivery;
+}
+
+/**
+ * Refunds all or part of an online payment through the provider that took it. The amount is reserved against the
+ * delivery first, so two refunds at once can't together go past what was charged, and handed back if the provider
+ * turns the refund down.
+ */
+export async function refundDeliveryPayment(
+  store: IStorage,
+  delivery: DeliveryRequest,
+  refund: RefundPayment,
+  actorId: string
+): Promise<{ delivery: DeliveryRequest; transaction: PaymentTransaction }> {
+  if (!delivery.squarePaymentId) {
+    throw new RefundError("This order wasn't paid online, so it can't be refunded here", 409);
+  }
+  const provider = await getDeliveryPaymentProvider(store, delivery);
+  if (!provider) {
+    throw new RefundError(`Connect ${delivery.paymentProvider === 'stripe' ? 'Stripe' : 'Square'} to issue refunds`, 409);
+  }
+
+  const summary = await getPaymentSummary(store, delivery);
+  if (refund.amount > summary.refundable) {
+    throw new RefundError(summary.refundable > 0 ? `Only $${summary.refundable.toFixed(2)} is left to refund` : 'This order has been fully refunded', 409);
+  }
+  const reserved = await store.reserveDeliveryRefund(delivery.id, refund.amount, roundCents(summary.charged + summary.adjustments));
+  if (!reserved) {
+    throw new RefundError('Another refund was just made on this order - check what is left and try again', 409);
+  }
+
+  const pending = (await store.createPaymentTransaction({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    kind: 'refund',
+    amount: refund.amount.toFixed(2),
+    status: 'pending',
+    squarePaymentId: delivery.squarePaymentId,
+    reason: refund.reason,
+    actorId
+  }))!;
+
+  let transaction: PaymentTransaction;
+  try {
+    const result = await provider.refund(delivery.squarePaymentId, toCents(refund.amount), refund.reason);
+    if (result.status === 'failed') {
+      throw new Error(`${provider.name} turned down refund ${result.id}`);
+    }
+    transaction = (await store.updatePaymentTransaction(pending.id, { status: result.status, squareRefundId: result.id })) ?? pending;
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    await store.updatePaymentTransaction(pending.id, { status: 'failed' });
+    await store.releaseDeliveryRefund(delivery.id, refund.amount);
+    throw new RefundError("The payment provider couldn't process the refund - please try again", 502);
+  }
+
+  return { delivery: await markRefundedIfFull(store, reserved), transaction };
+}
+
+/**
+ * Records money collected or credited outside Square, e.g. cash taken at the door or a goodwill credit.
+ */
+export async function adjustDeliveryPayment(
+  store: IStorage,
+  delivery: DeliveryRequest,
+  adjustment: PaymentAdjustment,
+  actorId: string
+): Promise<PaymentTransaction> {
+  const summary = await getPaymentSummary(store, delivery);
+  if (roundCents(summary.charged + summary.adjustments + adjustment.amount) < summary.refunded) {
+    throw new RefundError("An adjustment can't take the order below what has already been refunded", 409);
+  }
+  return (await store.createPaymentTransaction({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    kind: 'adjustment',
+    amount: adjustment.amount.toFixed(2),
+    reason: adjustment.reason,
+    actorId
+  }))!;
+}
+
+/**
+ * Brings the ledger in line with a refund the provider reported - ours settling or failing, or one made in the
+ * provider's dashboard. Returns whether anything changed.
+ */
+export async function reconcileProviderRefund(store: IStorage, delivery: DeliveryRequest, refund: ReportedRefund): Promise<boolean> {
+  const status = refund.status;
+  const existing = await store.getPaymentTransactionBySquareRefundId(refund.id);
+  if (existing) {
+    if (existing.status === status || existing.status === 'failed') {
+      return false;
+    }
+    await store.updatePaymentTransaction(existing.id, { status });
+    if (status === 'failed') {
+      await store.releaseDeliveryRefund(delivery.id, parseFloat(existing.amount));
+    } else {
+      await markRefundedIfFull(store, delivery);
+    }
+    return true;
+  }
+
+  const transactions = await store.getPaymentTransactions(delivery.id);
+  if (transactions.some(transaction => transaction.kind === 'refund' && transaction.status === 'pending' && !transaction.squareRefundId)) {
+    // One of ours is still waiting for the provider's reply - fail so the webhook is retried once it has its refund ID
+    throw new Error(`Refund ${refund.id} may belong to a refund still in progress on delivery ${delivery.id}`);
+  }
+  if (status === 'failed') {
+    return false;
+  }
+
+  const amount = roundCents(refund.amountCents / 100);
+  const created = await store.createPaymentTransaction({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    kind: 'refund',
+    amount: amount.toFixed(2),
+    status,
+    squarePaymentId: delivery.squarePaymentId,
+    squareRefundId: refund.id,
+    reason: `Refunded in ${delivery.paymentProvider === 'stripe' ? 'Stripe' : 'Square'}`
+  });
+  if (!created) {
+    return false;
+  }
+  const reserved = await store.reserveDeliveryRefund(delivery.id, amount, null);
+  if (reserved && status === 'completed') {
+    await markRefundedIfFull(store, reserved);
+  }
+  return true;
+}
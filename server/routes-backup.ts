@@ -267,7 +267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const { status, driverNotes } = updateDeliveryStatusSchema.parse(req.body);
       
-      const delivery = await storage.updateDeliveryStatus(id, status, driverNotes);
+      const delivery = await storage.updateDeliveryStatus(id, status, { type: 'dispatcher' }, { notes: driverNotes });
       
       // Award loyalty points when delivery is completed
       if (status === 'completed' && delivery.userId) {
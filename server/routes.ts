@@ -1,9 +1,9 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage, SmartStorage } from "./storage.js";
+import { storage, SmartStorage, type CreateDeliveryOptions } from "./storage.js";
 import dispatchRoutes from "./dispatch-routes.js";
 import adminRoutes from "./admin-routes.js";
-import { getCurrentTenant, getCurrentTenantId } from "./tenant.js";
+import { getCurrentTenant, getCurrentTenantId, getOrderTenantId } from "./tenant.js";
 import { 
   insertDeliveryRequestSchema, 
   insertUserProfileSchema, 
@@ -13,14 +13,59 @@ import {
   claimDeliverySchema,
   updateDeliveryStatusSchema,
   updateDriverStatusSchema,
+  respondToAssignmentSchema,
+  driverLocationPingSchema,
+  submitDeliveryProofSchema,
+  deliveryStopInputSchema,
+  updateDeliveryStopSchema,
+  MAX_ADDITIONAL_STOPS,
   insertBusinessSchema,
+  insertServiceZoneSchema,
+  updateServiceZoneSchema,
+  insertPricingRuleSchema,
+  simulatePriceSchema,
+  insertPromotionSchema,
+  tipAmountSchema,
+  closeDriverPayoutSchema,
+  squareWebhookPayloadSchema,
+  stripeWebhookPayloadSchema,
+  refundPaymentSchema,
+  paymentAdjustmentSchema,
+  paymentProviderSelectionSchema,
+  PAYMENT_PROVIDERS,
+  changeBillingPlanSchema,
   insertTenantSchema,
+  type InsertServiceZone,
+  type DeliveryRequest,
 
   combinedBusinessSignupSchema
 } from "../shared/schema.js";
+import { DeliveryTransitionError, DeliveryClaimError, DeliveryAssignmentError, DeliveryStopError, DeliverySlotFullError, DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER, DEFAULT_RUSH_SLA_MINUTES } from "../shared/deliveryStateMachine.js";
 import { z } from "zod";
 import { ObjectStorageService } from "./objectStorage.js";
-import { googleMapsService } from "./googleMaps.js";
+import { mapsService } from "./distanceProvider.js";
+import { runAutoDispatchIfEnabled } from "./autoDispatch.js";
+import { estimateEtaMinutes, getDeliveryTracking, toDeliveryResponse } from "./driverTracking.js";
+import { getProofRequirement, saveDeliveryProof } from "./proofOfDelivery.js";
+import { buildDeliveryRoute } from "./deliveryStops.js";
+import { checkServiceArea, outsideServiceAreaMessage, checkZoneBoundary, toZoneFeatureCollection, parseZoneFeatureCollection } from "./serviceZones.js";
+import { checkOrderEligibility, DEFAULT_MAX_DELIVERY_RADIUS } from "./orderEligibility.js";
+import { priceDelivery, createDeliveryQuote, checkQuote, DeliveryPricingError } from "./deliveryQuotes.js";
+import { checkQuotedPromotion, promotionProblemMessage, PromotionClaimError, type PromotionProblem } from "./promotions.js";
+import { addTipAfterDelivery, TipError } from "./tips.js";
+import { recordDeliveryEarnings, getDriverEarningsSummary, previewDriverPayout, getPayoutDriverTotals, getPayoutStatement } from "./driverEarnings.js";
+import { renderStatementCsv, renderStatementPdf } from "./payoutStatements.js";
+import { handleSquareWebhook } from "./squareWebhooks.js";
+import { handleStripeWebhook } from "./stripeWebhooks.js";
+import { sealTenantSecrets, decryptTenantSecret, maskTenantSecret, isMaskedSecret, TenantSecretsError } from "./tenantSecrets.js";
+import { createSquareService } from "./squareService.js";
+import { StripePaymentProvider } from "./stripeService.js";
+import { getTenantPaymentProvider } from "./paymentProvider.js";
+import { invoiceOrder } from "./orderPayments.js";
+import { refundDeliveryPayment, adjustDeliveryPayment, getPaymentSummary, RefundError } from "./refunds.js";
+import { requireStaff, requireDeliveryViewer, AuthError } from "./auth.js";
+import { runBillingLifecycle, getBillingOverview, changeTenantPlan, activateTenantPlan, readSubscriptionPayment, verifyBillingWebhook, assertCanTakeDelivery, assertCanGoOnDuty, BillingError } from "./billing.js";
+import { getDeliverySlots, findDeliverySlot, getReleaseTime, toZonedParts, formatSlotTime, DEFAULT_TIMEZONE, DEFAULT_SLOT_MINUTES, DEFAULT_SLOT_CAPACITY, DEFAULT_RELEASE_LEAD_MINUTES } from "./deliverySlots.js";
 import { GooglePlacesService } from "./googlePlaces.js";
 import { db } from "./db.js";
 import { deliveryRequests } from "../shared/schema.js";
@@ -462,6 +507,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           loyaltyProgram: true,
           realTimeTracking: true,
           scheduledDeliveries: false,
+          multiStopDeliveries: false,
           multiplePaymentMethods: true
         },
         acceptedPaymentMethods: ['cash_on_delivery', 'card_on_delivery'],
@@ -757,7 +803,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const deliveries = await storage.getUserDeliveries(id);
-      res.json(deliveries);
+      res.json(deliveries.map(toDeliveryResponse));
     } catch (error) {
       console.error("Error fetching user deliveries:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -849,7 +895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/delivery-requests", async (req, res) => {
     try {
       const deliveries = await storage.getDeliveryRequests();
-      res.json(deliveries);
+      res.json(deliveries.map(toDeliveryResponse));
     } catch (error) {
       console.error("Error fetching delivery requests:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -859,7 +905,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create delivery request
   app.post("/api/delivery-requests", async (req, res) => {
     try {
-      const { userId, isPaid, paymentId, paymentStatus, totalAmount, ...deliveryData } = req.body;
+      const { userId, totalAmount, status, stops: rawStops, slotStart, openWindowStart, quoteId, quoteSignature, promoCode, tipAmount: rawTipAmount, ...deliveryData } = req.body;
+      const tenantId = getOrderTenantId(req);
+      const settings = await storage.getBusinessSettings(tenantId);
+      
+      // Within the deliveries the business's plan allows this month
+      await assertCanTakeDelivery(storage, tenantId);
+      
+      // Extra stops between the pickup and the final drop-off
+      const stops = z.array(deliveryStopInputSchema).max(MAX_ADDITIONAL_STOPS).parse(rawStops ?? []);
+      if (stops.length > 0 && !settings?.enableMultiStopDeliveries) {
+        return res.status(400).json({ message: "Multi-stop deliveries are not available" });
+      }
+      
+      // Optional driver tip on top of the quoted fee
+      const tipAmount = tipAmountSchema.parse(rawTipAmount ?? 0);
       
       let validatedData;
       if (userId) {
@@ -870,20 +930,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validatedData = insertDeliveryRequestGuestSchema.parse(deliveryData);
       }
       
-      // Add payment information if provided
+      // Every drop-off has to be inside one of the tenant's active service zones
+      const dropoffs = [...stops.filter(stop => stop.type === 'dropoff').map(stop => stop.address), validatedData.deliveryAddress];
+      for (const address of dropoffs) {
+        const area = await checkServiceArea(storage, tenantId, address, mapsService);
+        if (area.zonesConfigured && !area.match) {
+          return res.status(400).json({ message: outsideServiceAreaMessage(address), reason: 'outside_service_area', address });
+        }
+      }
+      
+      // Paying online means an invoice from the tenant's payment provider, so it has to be connected
+      const paymentProvider = validatedData.paymentMethod === 'online_payment' ? await getTenantPaymentProvider(storage, tenantId) : null;
+      if (validatedData.paymentMethod === 'online_payment' && !paymentProvider) {
+        return res.status(400).json({ message: "Online payment isn't available for this business" });
+      }
+      // A checkout tip is only taken as a line on that invoice - there's nothing to collect it through otherwise
+      if (tipAmount > 0 && !paymentProvider) {
+        return res.status(400).json({ message: "Tips can only be added when paying online" });
+      }
+      
+      // Within the delivery radius, and either open now or booked for a slot / opening time
+      const requestedSlot = slotStart ? new Date(slotStart) : null;
+      const requestedWindow = openWindowStart ? new Date(openWindowStart) : null;
+      if (requestedSlot && !settings?.enableScheduledDeliveries) {
+        return res.status(400).json({ message: "Scheduled deliveries are not available" });
+      }
+      if ((requestedSlot && isNaN(requestedSlot.getTime())) || (requestedWindow && isNaN(requestedWindow.getTime()))) {
+        return res.status(400).json({ message: "Invalid delivery time" });
+      }
+      const eligibility = await checkOrderEligibility(storage, tenantId, settings, mapsService, {
+        pickup: validatedData.pickupAddress,
+        dropoffs,
+        slotStart: requestedSlot,
+        openWindowStart: requestedWindow
+      });
+      if (!eligibility.eligible) {
+        const [first] = eligibility.reasons;
+        return res.status(400).json({ message: first.message, reason: first.reason, reasons: eligibility.reasons, nextWindow: eligibility.nextWindow });
+      }
+      
+      // Scheduled orders book a slot; the slot decides the date/time shown to drivers
+      let schedule: { preferredDate?: string; preferredTime?: string; scheduledSlotStart?: Date; scheduledSlotEnd?: Date; releaseAt?: Date } = {};
+      let slotCapacity: number | undefined;
+      if (requestedSlot) {
+        const slot = await findDeliverySlot(storage, tenantId, settings, requestedSlot);
+        if (!slot) {
+          return res.status(400).json({ message: "That delivery slot is not offered", reason: 'outside_slot' });
+        }
+        if (!slot.available) {
+          return res.status(409).json({
+            message: slot.remaining === 0 ? "That delivery slot is full - please pick another" : "That delivery slot has already started",
+            slotFull: slot.remaining === 0
+          });
+        }
+        schedule = {
+          preferredDate: toZonedParts(slot.start, settings?.timezone || DEFAULT_TIMEZONE).date,
+          preferredTime: slot.label,
+          scheduledSlotStart: slot.start,
+          scheduledSlotEnd: slot.end,
+          releaseAt: getReleaseTime(settings, slot.start)
+        };
+        // Checked again as the order is saved, in case the last place went while this order was being placed
+        slotCapacity = slot.capacity;
+      } else if (requestedWindow) {
+        // Placed while closed - held back from drivers until the business opens
+        const opens = toZonedParts(requestedWindow, settings?.timezone || DEFAULT_TIMEZONE);
+        schedule = {
+          preferredDate: opens.date,
+          preferredTime: formatSlotTime(opens.time),
+          releaseAt: requestedWindow
+        };
+      }
+      
+      // The amount charged comes from the server-issued quote, never from the client.
+      // Missing, expired, used or altered quotes are re-priced so the customer can confirm the current amount.
+      const quoteInput = {
+        pickup: validatedData.pickupAddress,
+        delivery: validatedData.deliveryAddress,
+        stops: stops.map(stop => stop.address),
+        isRush: validatedData.isRush ?? false,
+        businessId: validatedData.businessId || null,
+        customerId: userId || null,
+        orderValue: validatedData.orderValue != null ? parseFloat(validatedData.orderValue) : null,
+        deliverAt: requestedSlot ?? requestedWindow,
+        promoCode: typeof promoCode === 'string' && promoCode.trim() ? promoCode : null
+      };
+      const quote = typeof quoteId === 'string' ? await storage.getDeliveryQuote(quoteId) : undefined;
+      const quoteProblem = checkQuote(quote, quoteSignature, tenantId, quoteInput);
+      const redeemed = quote && !quoteProblem ? await storage.redeemDeliveryQuote(quote.id) : undefined;
+      if (!redeemed) {
+        const price = await priceDelivery(storage, tenantId, settings, quoteInput, mapsService);
+        const freshQuote = await createDeliveryQuote(storage, tenantId, quoteInput, price);
+        return res.status(409).json({
+          message: quoteProblem === 'quote_mismatch'
+            ? "Your order changed since it was priced - please confirm the updated price"
+            : "Your price quote has expired - please confirm the updated price",
+          reason: quoteProblem ?? 'quote_expired',
+          price: { ...price, quote: freshQuote }
+        });
+      }
+      
+      // A code that can't be used after all is dropped and the order re-priced for the customer to confirm
+      const rejectPromotion = async (code: string, problem: PromotionProblem) => {
+        const repriceInput = { ...quoteInput, promoCode: null };
+        const price = await priceDelivery(storage, tenantId, settings, repriceInput, mapsService);
+        const freshQuote = await createDeliveryQuote(storage, tenantId, repriceInput, price);
+        const message = promotionProblemMessage(problem);
+        return res.status(409).json({
+          message: `${message} - please confirm the updated price`,
+          reason: 'promotion_unavailable',
+          price: { ...price, promotionError: { code, reason: problem, message }, quote: freshQuote }
+        });
+      };
+      
+      // The quoted code is only counted against its limits now that the customer is known by email too;
+      // the redemption is taken as the order is saved
+      let promotionRedemption: CreateDeliveryOptions['promotion'];
+      if (redeemed.promoCode) {
+        const check = await checkQuotedPromotion(storage, tenantId, redeemed.promoCode, {
+          customerId: quoteInput.customerId,
+          customerEmail: validatedData.email
+        });
+        if (check.problem) {
+          return rejectPromotion(redeemed.promoCode, check.problem);
+        }
+        const discountLine = redeemed.breakdown.find(item => item.type === 'discount');
+        promotionRedemption = {
+          tenantId,
+          promotionId: check.promotion!.id,
+          customerId: quoteInput.customerId,
+          customerEmail: validatedData.email,
+          discountAmount: Math.abs(discountLine?.amount ?? 0).toFixed(2)
+        };
+      }
+      
+      // Orders start unpaid; only the payment provider's webhook can mark them paid
       const requestData = {
         ...validatedData,
-        squarePaymentId: paymentId || null,
-        paymentStatus: paymentStatus || 'pending',
-        totalAmount: totalAmount || null,
-        status: isPaid ? 'paid' : 'pending', // Set status to 'paid' for pre-paid requests
+        ...schedule,
+        tenantId,
+        squarePaymentId: null,
+        paymentProvider: null,
+        paymentStatus: 'pending',
+        totalAmount: redeemed.totalAmount,
+        quoteId: redeemed.id,
+        isRush: quoteInput.isRush,
+        // Rush SLA runs from when drivers can first see the order
+        dueBy: quoteInput.isRush
+          ? new Date((schedule.releaseAt ?? new Date()).getTime() + (settings?.rushSlaMinutes ?? DEFAULT_RUSH_SLA_MINUTES) * 60000)
+          : null,
+        tipAmount: tipAmount.toFixed(2),
+        tipSource: tipAmount > 0 ? 'checkout' : null,
+        tippedAt: tipAmount > 0 ? new Date() : null,
+        // Status is owned by the delivery state machine; payment state lives in paymentStatus
       };
       
-      const delivery = await storage.createDeliveryRequest(requestData);
+      let delivery: DeliveryRequest;
+      try {
+        delivery = await storage.createDeliveryRequest(requestData, { type: 'customer', id: userId || null }, { slotCapacity, promotion: promotionRedemption });
+      } catch (error) {
+        if (error instanceof PromotionClaimError && redeemed.promoCode) {
+          return rejectPromotion(redeemed.promoCode, error.problem);
+        }
+        throw error;
+      }
+      if (stops.length > 0) {
+        await storage.createDeliveryStops(buildDeliveryRoute(delivery, stops));
+      }
+      if (paymentProvider) {
+        delivery = await invoiceOrder(storage, paymentProvider, delivery);
+      }
       res.json(delivery);
+      
+      // Hand it to a driver straight away if the tenant uses auto-assign
+      void runAutoDispatchIfEnabled(storage, delivery.tenantId);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid delivery data", errors: error.errors });
+      } else if (error instanceof DeliveryPricingError) {
+        res.status(400).json({ message: error.message, ...error.details });
+      } else if (error instanceof BillingError) {
+        res.status(error.status).json({ message: error.message, reason: 'plan_limit' });
+      } else if (error instanceof DeliverySlotFullError) {
+        res.status(409).json({ message: error.message, slotFull: true });
       } else {
         console.error("Error creating delivery request:", error);
         res.status(500).json({ message: "Internal server error" });
@@ -911,21 +1140,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get delivery status history (audit trail) - staff see who made each change and their notes, the customer who
+  // placed the order gets the same redacted timeline as the public tracking page
+  app.get("/api/delivery-requests/:id/history", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const delivery = await storage.getDeliveryRequestById(id);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      const { staff } = await requireDeliveryViewer(req, storage, delivery, ['admin', 'dispatcher']);
+      const events = await storage.getDeliveryEvents(id);
+      res.json(staff ? events : events.map(event => ({ ...event, actorId: null, notes: null })));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error fetching delivery history:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Payment ledger for a delivery - charges, refunds and adjustments, with what's left to refund. Staff only: the
+  // reasons and who issued each entry are internal (customers see their refunds on the tracking page)
+  app.get("/api/delivery-requests/:id/payments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const delivery = await storage.getDeliveryRequestById(id);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      await requireStaff(req, storage, delivery.tenantId, ['admin', 'dispatcher']);
+      res.json({
+        ...(await getPaymentSummary(storage, delivery)),
+        paymentStatus: delivery.paymentStatus,
+        squarePaymentId: delivery.squarePaymentId
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error fetching delivery payments:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Record money collected or credited outside Square (admins only, with a reason)
+  app.post("/api/delivery-requests/:id/payment-adjustments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const adjustment = paymentAdjustmentSchema.parse(req.body);
+      const delivery = await storage.getDeliveryRequestById(id);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      const admin = await requireStaff(req, storage, delivery.tenantId, ['admin']);
+      const transaction = await adjustDeliveryPayment(storage, delivery, adjustment, admin.id);
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid adjustment", errors: error.errors });
+      } else if (error instanceof RefundError || error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error adjusting delivery payment:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Live tracking for a customer's delivery: driver position and ETA while it is in progress. Only for staff and the
+  // signed-in customer who placed it - guests get the same through /api/track/:token
+  app.get("/api/delivery-requests/:id/tracking", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const delivery = await storage.getDeliveryRequestById(id);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      await requireDeliveryViewer(req, storage, delivery, ['admin', 'dispatcher']);
+      res.json(await getDeliveryTracking(storage, delivery));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error fetching delivery tracking:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Proof of delivery for a delivery, and whether the driver has to capture it
+  app.get("/api/delivery-requests/:id/proof", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const delivery = await storage.getDeliveryRequestById(id);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      const [required, proof] = await Promise.all([
+        getProofRequirement(storage, delivery),
+        storage.getDeliveryProof(id)
+      ]);
+      res.json({ required, proof: proof ?? null });
+    } catch (error) {
+      console.error("Error fetching proof of delivery:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Ordered stops for a multi-stop delivery (empty for single drop-off deliveries)
+  app.get("/api/delivery-requests/:id/stops", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const delivery = await storage.getDeliveryRequestById(id);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      res.json(await storage.getDeliveryStops(id));
+    } catch (error) {
+      console.error("Error fetching delivery stops:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Bookable delivery slots for a date, with remaining capacity
+  app.get("/api/delivery-slots", async (req, res) => {
+    try {
+      const tenantId = getOrderTenantId(req);
+      const settings = await storage.getBusinessSettings(tenantId);
+      const timezone = settings?.timezone || DEFAULT_TIMEZONE;
+      const date = typeof req.query.date === 'string' ? req.query.date : toZonedParts(new Date(), timezone).date;
+      
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "date must be YYYY-MM-DD" });
+      }
+      if (!settings?.enableScheduledDeliveries) {
+        return res.json({ enabled: false, date, timezone, slots: [] });
+      }
+      
+      const slots = await getDeliverySlots(storage, tenantId, settings, date);
+      res.json({ enabled: true, date, timezone, slots });
+    } catch (error) {
+      console.error("Error fetching delivery slots:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Public order tracking for guests - the token is the only credential, so only share what the customer already knows
+  app.get("/api/track/:token", async (req, res) => {
+    try {
+      const delivery = await storage.getDeliveryByTrackingToken(getOrderTenantId(req), req.params.token);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Tracking link not found" });
+      }
+      
+      const [events, tracking, settings, driver, proof, payments] = await Promise.all([
+        storage.getDeliveryEvents(delivery.id),
+        getDeliveryTracking(storage, delivery),
+        storage.getBusinessSettings(delivery.tenantId),
+        delivery.claimedByDriver ? storage.getUserProfile(delivery.claimedByDriver) : Promise.resolve(undefined),
+        delivery.status === 'completed' ? storage.getDeliveryProof(delivery.id) : Promise.resolve(undefined),
+        storage.getPaymentTransactions(delivery.id)
+      ]);
+      
+      res.json({
+        id: delivery.id,
+        status: delivery.status,
+        businessName: settings?.businessName ?? null,
+        deliveryAddress: delivery.deliveryAddress,
+        preferredDate: delivery.preferredDate,
+        preferredTime: delivery.preferredTime,
+        createdAt: delivery.createdAt,
+        driverFirstName: driver?.fullName?.trim().split(/\s+/)[0] || null,
+        totalAmount: delivery.totalAmount,
+        tipAmount: delivery.tipAmount,
+        tipInvoiceUrl: delivery.tipInvoiceUrl,
+        canTip: delivery.status === 'completed' && !!delivery.claimedByDriver && parseFloat(delivery.tipAmount) === 0,
+        paymentStatus: delivery.paymentStatus,
+        invoiceUrl: delivery.paymentStatus === 'pending' ? delivery.invoiceUrl : null, // still to be paid online
+        refundedAmount: delivery.refundedAmount,
+        // Refunds the customer has been given - the reasons and who issued them stay internal
+        refunds: payments
+          .filter(payment => payment.kind === 'refund' && payment.status !== 'failed')
+          .map(payment => ({ amount: payment.amount, status: payment.status, createdAt: payment.createdAt })),
+        // Who made each change and their notes are internal
+        events: events.map(event => ({ ...event, actorId: null, notes: null })),
+        tracking,
+        proof: proof ? {
+          photoUrl: proof.photoUrl,
+          signatureUrl: proof.signatureUrl,
+          recipientName: proof.recipientName,
+          latitude: proof.latitude,
+          longitude: proof.longitude,
+          capturedAt: proof.capturedAt
+        } : null
+      });
+    } catch (error) {
+      console.error("Error fetching tracked delivery:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Tip the driver after delivery from the tracking page - the customer pays through an invoice from the business's payment provider
+  app.post("/api/track/:token/tip", async (req, res) => {
+    try {
+      const delivery = await storage.getDeliveryByTrackingToken(getOrderTenantId(req), req.params.token);
+      
+      if (!delivery) {
+        return res.status(404).json({ message: "Tracking link not found" });
+      }
+      
+      const amount = tipAmountSchema.parse(req.body?.amount);
+      const tipped = await addTipAfterDelivery(storage, delivery, amount);
+      res.json({ tipAmount: tipped.tipAmount, tipInvoiceUrl: tipped.tipInvoiceUrl });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid tip amount", errors: error.errors });
+      } else if (error instanceof TipError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error adding tip:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
   // Update delivery status (admin only)
   app.patch("/api/delivery-requests/:id/status", async (req, res) => {
     try {
       const { id } = req.params;
       const { status, driverNotes } = updateDeliveryStatusSchema.parse(req.body);
       
-      await storage.updateDeliveryStatus(id, status);
+      const delivery = await storage.getDeliveryRequestById(id);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      
+      const staff = await requireStaff(req, storage, delivery.tenantId, ['admin', 'dispatcher']);
+      const updated = await storage.updateDeliveryStatus(id, status, { type: 'dispatcher', id: staff.id }, { notes: driverNotes });
+      
+      // A dispatcher closing out a claimed delivery still pays its driver
+      if (status === 'completed') {
+        await recordDeliveryEarnings(storage, updated);
+      }
       
       // Award loyalty points when delivery is completed (if user exists)
       // Loyalty points temporarily disabled until proper user integration
       
       res.json({ message: "Status updated successfully" });
     } catch (error) {
-      console.error("Error updating delivery status:", error);
-      res.status(500).json({ message: "Internal server error" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid status data", errors: error.errors });
+      } else if (error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else if (error instanceof DeliveryTransitionError) {
+        res.status(409).json({ message: error.message, from: error.from, to: error.to });
+      } else {
+        console.error("Error updating delivery status:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
     }
   });
 
@@ -935,7 +1424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/driver/deliveries/available", async (req, res) => {
     try {
       const deliveries = await storage.getAvailableDeliveries();
-      res.json(deliveries);
+      res.json(deliveries.map(toDeliveryResponse));
     } catch (error) {
       console.error("Error fetching available deliveries:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -947,7 +1436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { driverId } = req.params;
       const deliveries = await storage.getDriverDeliveries(driverId);
-      res.json(deliveries);
+      res.json(deliveries.map(toDeliveryResponse));
     } catch (error) {
       console.error("Error fetching driver deliveries:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -960,11 +1449,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { driverId } = req.params;
       const { deliveryId, driverNotes } = claimDeliverySchema.parse(req.body);
       
-      const delivery = await storage.claimDelivery(driverId, deliveryId, driverNotes);
-      res.json(delivery);
+      const settings = await storage.getBusinessSettings(getCurrentTenantId(req));
+      const maxActiveClaims = settings?.maxActiveClaimsPerDriver ?? DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER;
+      
+      const delivery = await storage.claimDelivery(driverId, deliveryId, driverNotes, { maxActiveClaims });
+      res.json(toDeliveryResponse(delivery));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else if (error instanceof DeliveryClaimError) {
+        res.status(409).json({ message: error.message, reason: error.reason });
+      } else if (error instanceof DeliveryTransitionError) {
+        res.status(409).json({ message: error.message, from: error.from, to: error.to });
       } else {
         console.error("Error claiming delivery:", error);
         res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
@@ -978,6 +1474,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { driverId, deliveryId } = req.params;
       const updates = updateDeliveryStatusSchema.parse(req.body);
       
+      if (updates.status === 'completed') {
+        const existing = await storage.getDeliveryRequestById(deliveryId);
+        if (existing && existing.status !== 'completed' && await getProofRequirement(storage, existing) && !(await storage.getDeliveryProof(deliveryId))) {
+          return res.status(409).json({ message: "Proof of delivery is required before completing this delivery", proofRequired: true });
+        }
+        const stops = await storage.getDeliveryStops(deliveryId);
+        if (stops.some(stop => stop.status === 'pending')) {
+          return res.status(409).json({ message: "Complete or skip every stop before completing this delivery" });
+        }
+      }
+      
       const delivery = await storage.updateDeliveryForDriver(driverId, deliveryId, updates);
       
       // Award loyalty points when delivery is completed
@@ -985,10 +1492,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.updateLoyaltyPoints(delivery.userId, 1, delivery.usedFreeDelivery || false); // 1 point per completed delivery
       }
       
-      res.json(delivery);
+      // Record the driver's pay for it in the earnings ledger
+      if (updates.status === 'completed') {
+        await recordDeliveryEarnings(storage, delivery);
+      }
+      
+      res.json(toDeliveryResponse(delivery));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid update data", errors: error.errors });
+      } else if (error instanceof DeliveryTransitionError) {
+        res.status(409).json({ message: error.message, from: error.from, to: error.to });
       } else {
         console.error("Error updating delivery:", error);
         res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
@@ -996,6 +1510,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Capture proof of delivery (photo, optional signature, recipient name, GPS) before completing
+  app.post("/api/driver/:driverId/deliveries/:deliveryId/proof", async (req, res) => {
+    try {
+      const { driverId, deliveryId } = req.params;
+      const submission = submitDeliveryProofSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryRequestById(deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery request not found" });
+      }
+      if (delivery.claimedByDriver !== driverId) {
+        return res.status(403).json({ message: "This delivery is not assigned to you" });
+      }
+      if (delivery.status !== 'in_progress') {
+        return res.status(409).json({ message: "Proof can only be captured while the delivery is in progress" });
+      }
+      
+      const proof = await saveDeliveryProof(storage, delivery, driverId, submission);
+      res.json(proof);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid proof of delivery", errors: error.errors });
+      } else {
+        console.error("Error saving proof of delivery:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Complete or skip the next stop on a multi-stop delivery
+  app.patch("/api/driver/:driverId/stops/:stopId", async (req, res) => {
+    try {
+      const { driverId, stopId } = req.params;
+      const update = updateDeliveryStopSchema.parse(req.body);
+      
+      const stop = await storage.updateDeliveryStop(driverId, stopId, update);
+      res.json(stop);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid stop update", errors: error.errors });
+      } else if (error instanceof DeliveryStopError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error("Error updating delivery stop:", error);
+        res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+      }
+    }
+  });
+
+  // Record a GPS ping from a driver with a delivery in progress
+  app.post("/api/driver/:driverId/location", async (req, res) => {
+    try {
+      const { driverId } = req.params;
+      const ping = driverLocationPingSchema.parse(req.body);
+      
+      const settings = await storage.getBusinessSettings(getCurrentTenantId(req));
+      if (settings && settings.enableRealTimeTracking === false) {
+        return res.status(403).json({ message: "Real-time tracking is disabled for this business" });
+      }
+      
+      const inProgress = (await storage.getDriverDeliveries(driverId)).filter(d => d.status === 'in_progress');
+      const delivery = ping.deliveryId ? inProgress.find(d => d.id === ping.deliveryId) : inProgress[0];
+      if (!delivery) {
+        return res.status(409).json({ message: "Location updates are only accepted while a delivery is in progress" });
+      }
+      
+      const previous = await storage.getLatestDeliveryLocation(delivery.id);
+      const etaMinutes = await estimateEtaMinutes(ping, delivery, previous);
+      
+      const location = await storage.recordDriverLocation({
+        tenantId: delivery.tenantId,
+        driverId,
+        deliveryId: delivery.id,
+        latitude: ping.latitude,
+        longitude: ping.longitude,
+        accuracy: ping.accuracy ?? null,
+        heading: ping.heading ?? null,
+        speed: ping.speed ?? null,
+        etaMinutes
+      });
+      res.json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid location data", errors: error.errors });
+      } else {
+        console.error("Error recording driver location:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Driver's earnings today and this week, with this week's ledger entries
+  app.get("/api/driver/:driverId/earnings", async (req, res) => {
+    try {
+      const { driverId } = req.params;
+      res.json(await getDriverEarningsSummary(storage, getCurrentTenantId(req), driverId));
+    } catch (error) {
+      console.error("Error fetching driver earnings:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get dispatcher assignments waiting for this driver to accept or decline
+  app.get("/api/driver/:driverId/assignments", async (req, res) => {
+    try {
+      const { driverId } = req.params;
+      const assignments = await storage.getPendingAssignments(driverId);
+      res.json(assignments);
+    } catch (error) {
+      console.error("Error fetching driver assignments:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Accept or decline a dispatcher assignment - declining puts the delivery back in the queue
+  app.post("/api/driver/:driverId/assignments/:assignmentId/respond", async (req, res) => {
+    try {
+      const { driverId, assignmentId } = req.params;
+      const { accept, notes } = respondToAssignmentSchema.parse(req.body);
+      
+      const assignment = await storage.respondToAssignment(assignmentId, driverId, accept, notes);
+      res.json(assignment);
+      
+      if (!accept) {
+        // Offer the declined delivery to the next best driver
+        void runAutoDispatchIfEnabled(storage, assignment.tenantId);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid response data", errors: error.errors });
+      } else if (error instanceof DeliveryAssignmentError || error instanceof DeliveryTransitionError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error("Error responding to assignment:", error);
+        res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+      }
+    }
+  });
+
   // Update driver duty status
   app.patch("/api/driver/:driverId/status", async (req, res) => {
     try {
@@ -1019,6 +1672,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!staffMember) {
         return res.status(404).json({ message: "Driver not found" });
       }
+      if (updates.isOnDuty) {
+        await assertCanGoOnDuty(storage, staffMember.tenantId, driverId);
+      }
       
       const updatedStaff = await storage.updateBusinessStaff(driverId, {
         isOnDuty: updates.isOnDuty
@@ -1029,9 +1685,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isOnDuty: updatedStaff.isOnDuty,
         role: updatedStaff.role 
       });
+      
+      if (updatedStaff.isOnDuty) {
+        // A driver coming on duty may be the best fit for deliveries already waiting
+        void runAutoDispatchIfEnabled(storage, updatedStaff.tenantId);
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid status data", errors: error.errors });
+      } else if (error instanceof BillingError) {
+        res.status(error.status).json({ message: error.message });
       } else {
         console.error("Error updating driver status:", error);
         res.status(500).json({ message: "Internal server error" });
@@ -1065,13 +1728,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
             pricePerMile: 1.50,
             minimumOrder: 10.00,
             rushDeliveryMultiplier: 1.5,
-            freeDeliveryThreshold: 50.00
+            freeDeliveryThreshold: 50.00,
+            urgentDeliveryFee: 10.00,
+            zonePricingMode: 'distance'
           },
           loyaltyProgram: {
             deliveriesForFreeDelivery: 10
           },
           distanceSettings: {
-            baseFeeRadius: 10.0
+            baseFeeRadius: 10.0,
+            maxDeliveryRadius: DEFAULT_MAX_DELIVERY_RADIUS
+          },
+          dispatchSettings: {
+            maxActiveClaimsPerDriver: DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER,
+            autoDispatchMode: 'suggest',
+            rushSlaMinutes: DEFAULT_RUSH_SLA_MINUTES
+          },
+          driverPay: {
+            perDelivery: 0,
+            perMile: 0,
+            feePercent: 0
+          },
+          proofOfDelivery: {
+            required: false,
+            paymentMethods: []
+          },
+          scheduling: {
+            slotMinutes: DEFAULT_SLOT_MINUTES,
+            slotCapacity: DEFAULT_SLOT_CAPACITY,
+            releaseLeadMinutes: DEFAULT_RELEASE_LEAD_MINUTES
           },
           businessHours: {
             monday: { open: '09:00', close: '17:00', closed: false },
@@ -1082,6 +1767,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             saturday: { open: '10:00', close: '16:00', closed: false },
             sunday: { open: '12:00', close: '16:00', closed: true }
           },
+          paymentProvider: 'square',
           acceptedPaymentMethods: ['cash_on_delivery', 'card_on_delivery', 'online_payment']
         };
         return res.json(defaultSettings);
@@ -1112,15 +1798,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         deliveryPricing: {
           basePrice: parseFloat(dbSettings.baseDeliveryFee) || 3.00,
           pricePerMile: parseFloat(dbSettings.pricePerMile) || 1.50,
-          minimumOrder: parseFloat(dbSettings.minimumOrderValue) || 10.00,
-          freeDeliveryThreshold: parseFloat(dbSettings.freeDeliveryThreshold) || 50.00,
-          rushDeliveryMultiplier: parseFloat(dbSettings.rushDeliveryMultiplier) || 1.5
+          minimumOrder: parseFloat(dbSettings.minimumOrderValue ?? "10.00"),
+          freeDeliveryThreshold: parseFloat(dbSettings.freeDeliveryThreshold ?? "0"),
+          rushDeliveryMultiplier: parseFloat(dbSettings.rushDeliveryMultiplier) || 1.5,
+          urgentDeliveryFee: parseFloat(dbSettings.urgentDeliveryFee ?? "10.00"),
+          zonePricingMode: dbSettings.zonePricingMode || 'distance'
         },
         loyaltyProgram: {
           deliveriesForFreeDelivery: dbSettings.pointsForFreeDelivery || 10
         },
         distanceSettings: {
-          baseFeeRadius: parseFloat(dbSettings.baseFeeRadius) || 10.0
+          baseFeeRadius: parseFloat(dbSettings.baseFeeRadius) || 10.0,
+          maxDeliveryRadius: dbSettings.maxDeliveryRadius ?? DEFAULT_MAX_DELIVERY_RADIUS
+        },
+        dispatchSettings: {
+          maxActiveClaimsPerDriver: dbSettings.maxActiveClaimsPerDriver ?? DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER,
+          autoDispatchMode: dbSettings.autoDispatchMode || 'suggest',
+          rushSlaMinutes: dbSettings.rushSlaMinutes ?? DEFAULT_RUSH_SLA_MINUTES
+        },
+        driverPay: {
+          perDelivery: parseFloat(dbSettings.driverPayPerDelivery) || 0,
+          perMile: parseFloat(dbSettings.driverPayPerMile) || 0,
+          feePercent: parseFloat(dbSettings.driverPayFeePercent) || 0
+        },
+        proofOfDelivery: {
+          required: dbSettings.requireProofOfDelivery ?? false,
+          paymentMethods: dbSettings.proofOfDeliveryPaymentMethods || []
+        },
+        scheduling: {
+          slotMinutes: dbSettings.deliverySlotMinutes ?? DEFAULT_SLOT_MINUTES,
+          slotCapacity: dbSettings.deliverySlotCapacity ?? DEFAULT_SLOT_CAPACITY,
+          releaseLeadMinutes: dbSettings.scheduledReleaseLeadMinutes ?? DEFAULT_RELEASE_LEAD_MINUTES
         },
         notifications: {
           emailNotifications: dbSettings.customerNotifications?.email ?? true,
@@ -1132,16 +1840,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           loyaltyProgram: dbSettings.enableLoyaltyProgram ?? true,
           realTimeTracking: dbSettings.enableRealTimeTracking ?? true,
           scheduledDeliveries: dbSettings.enableScheduledDeliveries ?? false,
+          multiStopDeliveries: dbSettings.enableMultiStopDeliveries ?? false,
           multiplePaymentMethods: true
         },
         // Removed: Google Reviews feature
         squareSettings: {
-          accessToken: dbSettings.squareAccessToken ? '***' : undefined,
+          accessToken: maskTenantSecret(dbSettings.tenantId, 'squareAccessToken', dbSettings.squareAccessToken),
           applicationId: dbSettings.squareApplicationId,
           locationId: dbSettings.squareLocationId,
           environment: dbSettings.squareEnvironment || 'sandbox',
-          configured: !!(dbSettings.squareAccessToken && dbSettings.squareApplicationId && dbSettings.squareLocationId)
+          configured: !!(dbSettings.squareAccessToken && dbSettings.squareApplicationId && dbSettings.squareLocationId),
+          webhookSignatureKey: maskTenantSecret(dbSettings.tenantId, 'squareWebhookSignatureKey', dbSettings.squareWebhookSignatureKey),
+          webhookUrl: dbSettings.squareWebhookUrl,
+          webhookConfigured: !!dbSettings.squareWebhookSignatureKey
+        },
+        stripeSettings: {
+          secretKey: maskTenantSecret(dbSettings.tenantId, 'stripeSecretKey', dbSettings.stripeSecretKey),
+          publishableKey: dbSettings.stripePublishableKey,
+          webhookSecret: maskTenantSecret(dbSettings.tenantId, 'stripeWebhookSecret', dbSettings.stripeWebhookSecret),
+          configured: !!dbSettings.stripeSecretKey,
+          webhookConfigured: !!dbSettings.stripeWebhookSecret
         },
+        paymentProvider: dbSettings.paymentProvider || 'square',
         acceptedPaymentMethods: dbSettings.acceptedPaymentMethods || ['cash_on_delivery', 'card_on_delivery', 'online_payment'],
         createdAt: dbSettings.createdAt,
         updatedAt: dbSettings.updatedAt
@@ -1178,12 +1898,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         pricePerMile: formData.deliveryPricing?.pricePerMile?.toString() || "1.50",
         minimumOrderValue: formData.deliveryPricing?.minimumOrder?.toString() || "10.00",
         rushDeliveryMultiplier: formData.deliveryPricing?.rushDeliveryMultiplier?.toString() || "1.5",
-        urgentDeliveryFee: formData.deliveryPricing?.basePrice ? 
-          (parseFloat(formData.deliveryPricing.basePrice) + 5.00).toString() : 
-          "10.00",
+        urgentDeliveryFee: formData.deliveryPricing?.urgentDeliveryFee?.toString() || "10.00",
         freeDeliveryThreshold: formData.deliveryPricing?.freeDeliveryThreshold?.toString() || "50.00",
+        zonePricingMode: formData.deliveryPricing?.zonePricingMode,
         pointsForFreeDelivery: formData.loyaltyProgram?.deliveriesForFreeDelivery || 10,
         baseFeeRadius: formData.distanceSettings?.baseFeeRadius?.toString() || "10.00",
+        maxDeliveryRadius: formData.distanceSettings?.maxDeliveryRadius,
+        maxActiveClaimsPerDriver: formData.dispatchSettings?.maxActiveClaimsPerDriver,
+        autoDispatchMode: formData.dispatchSettings?.autoDispatchMode,
+        rushSlaMinutes: formData.dispatchSettings?.rushSlaMinutes,
+        driverPayPerDelivery: formData.driverPay?.perDelivery?.toString(),
+        driverPayPerMile: formData.driverPay?.perMile?.toString(),
+        driverPayFeePercent: formData.driverPay?.feePercent?.toString(),
+        requireProofOfDelivery: formData.proofOfDelivery?.required,
+        proofOfDeliveryPaymentMethods: formData.proofOfDelivery?.paymentMethods,
+        deliverySlotMinutes: formData.scheduling?.slotMinutes,
+        deliverySlotCapacity: formData.scheduling?.slotCapacity,
+        scheduledReleaseLeadMinutes: formData.scheduling?.releaseLeadMinutes,
         customerNotifications: {
           email: formData.notifications?.emailNotifications ?? true,
           sms: formData.notifications?.smsNotifications ?? false,
@@ -1192,15 +1923,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         enableLoyaltyProgram: formData.features?.loyaltyProgram ?? true,
         enableRealTimeTracking: formData.features?.realTimeTracking ?? true,
         enableScheduledDeliveries: formData.features?.scheduledDeliveries ?? false,
+        enableMultiStopDeliveries: formData.features?.multiStopDeliveries ?? false,
         // Removed: Google Reviews fields
-        squareAccessToken: formData.squareSettings?.accessToken === '***' ? undefined : formData.squareSettings?.accessToken,
+        squareAccessToken: isMaskedSecret(formData.squareSettings?.accessToken) ? undefined : formData.squareSettings?.accessToken,
         squareApplicationId: formData.squareSettings?.applicationId,
         squareLocationId: formData.squareSettings?.locationId,
         squareEnvironment: formData.squareSettings?.environment || 'sandbox',
+        squareWebhookSignatureKey: isMaskedSecret(formData.squareSettings?.webhookSignatureKey) ? undefined : formData.squareSettings?.webhookSignatureKey,
+        squareWebhookUrl: formData.squareSettings?.webhookUrl,
+        stripeSecretKey: isMaskedSecret(formData.stripeSettings?.secretKey) ? undefined : formData.stripeSettings?.secretKey,
+        stripePublishableKey: formData.stripeSettings?.publishableKey,
+        stripeWebhookSecret: isMaskedSecret(formData.stripeSettings?.webhookSecret) ? undefined : formData.stripeSettings?.webhookSecret,
         acceptedPaymentMethods: formData.acceptedPaymentMethods || ['cash_on_delivery', 'card_on_delivery', 'online_payment']
       };
       
-      const dbSettings = await storage.updateBusinessSettings(tenantId, dbData);
+      const dbSettings = await storage.updateBusinessSettings(tenantId, sealTenantSecrets(tenantId, dbData));
       
       // Google Reviews configuration saved (simplified - no auto-fetching)
       
@@ -1222,15 +1959,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         deliveryPricing: {
           basePrice: parseFloat(dbSettings.baseDeliveryFee) || 3.00,
           pricePerMile: parseFloat(dbSettings.pricePerMile) || 1.50,
-          minimumOrder: parseFloat(dbSettings.minimumOrderValue) || 10.00,
-          freeDeliveryThreshold: parseFloat(dbSettings.freeDeliveryThreshold) || 50.00,
-          rushDeliveryMultiplier: parseFloat(dbSettings.rushDeliveryMultiplier) || 1.5
+          minimumOrder: parseFloat(dbSettings.minimumOrderValue ?? "10.00"),
+          freeDeliveryThreshold: parseFloat(dbSettings.freeDeliveryThreshold ?? "0"),
+          rushDeliveryMultiplier: parseFloat(dbSettings.rushDeliveryMultiplier) || 1.5,
+          urgentDeliveryFee: parseFloat(dbSettings.urgentDeliveryFee ?? "10.00"),
+          zonePricingMode: dbSettings.zonePricingMode || 'distance'
         },
         loyaltyProgram: {
           deliveriesForFreeDelivery: dbSettings.pointsForFreeDelivery || 10
         },
         distanceSettings: {
-          baseFeeRadius: parseFloat(dbSettings.baseFeeRadius) || 10.0
+          baseFeeRadius: parseFloat(dbSettings.baseFeeRadius) || 10.0,
+          maxDeliveryRadius: dbSettings.maxDeliveryRadius ?? DEFAULT_MAX_DELIVERY_RADIUS
+        },
+        dispatchSettings: {
+          maxActiveClaimsPerDriver: dbSettings.maxActiveClaimsPerDriver ?? DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER,
+          autoDispatchMode: dbSettings.autoDispatchMode || 'suggest',
+          rushSlaMinutes: dbSettings.rushSlaMinutes ?? DEFAULT_RUSH_SLA_MINUTES
+        },
+        driverPay: {
+          perDelivery: parseFloat(dbSettings.driverPayPerDelivery) || 0,
+          perMile: parseFloat(dbSettings.driverPayPerMile) || 0,
+          feePercent: parseFloat(dbSettings.driverPayFeePercent) || 0
+        },
+        proofOfDelivery: {
+          required: dbSettings.requireProofOfDelivery ?? false,
+          paymentMethods: dbSettings.proofOfDeliveryPaymentMethods || []
+        },
+        scheduling: {
+          slotMinutes: dbSettings.deliverySlotMinutes ?? DEFAULT_SLOT_MINUTES,
+          slotCapacity: dbSettings.deliverySlotCapacity ?? DEFAULT_SLOT_CAPACITY,
+          releaseLeadMinutes: dbSettings.scheduledReleaseLeadMinutes ?? DEFAULT_RELEASE_LEAD_MINUTES
         },
         notifications: {
           emailNotifications: dbSettings.customerNotifications?.email ?? true,
@@ -1242,16 +2001,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           loyaltyProgram: dbSettings.enableLoyaltyProgram ?? true,
           realTimeTracking: dbSettings.enableRealTimeTracking ?? true,
           scheduledDeliveries: dbSettings.enableScheduledDeliveries ?? false,
+          multiStopDeliveries: dbSettings.enableMultiStopDeliveries ?? false,
           multiplePaymentMethods: true
         },
         // Removed: Google Reviews feature
         squareSettings: {
-          accessToken: dbSettings.squareAccessToken ? '***' : undefined,
+          accessToken: maskTenantSecret(dbSettings.tenantId, 'squareAccessToken', dbSettings.squareAccessToken),
           applicationId: dbSettings.squareApplicationId,
           locationId: dbSettings.squareLocationId,
           environment: dbSettings.squareEnvironment || 'sandbox',
-          configured: !!(dbSettings.squareAccessToken && dbSettings.squareApplicationId && dbSettings.squareLocationId)
+          configured: !!(dbSettings.squareAccessToken && dbSettings.squareApplicationId && dbSettings.squareLocationId),
+          webhookSignatureKey: maskTenantSecret(dbSettings.tenantId, 'squareWebhookSignatureKey', dbSettings.squareWebhookSignatureKey),
+          webhookUrl: dbSettings.squareWebhookUrl,
+          webhookConfigured: !!dbSettings.squareWebhookSignatureKey
+        },
+        stripeSettings: {
+          secretKey: maskTenantSecret(dbSettings.tenantId, 'stripeSecretKey', dbSettings.stripeSecretKey),
+          publishableKey: dbSettings.stripePublishableKey,
+          webhookSecret: maskTenantSecret(dbSettings.tenantId, 'stripeWebhookSecret', dbSettings.stripeWebhookSecret),
+          configured: !!dbSettings.stripeSecretKey,
+          webhookConfigured: !!dbSettings.stripeWebhookSecret
         },
+        paymentProvider: dbSettings.paymentProvider || 'square',
         acceptedPaymentMethods: dbSettings.acceptedPaymentMethods || ['cash_on_delivery', 'card_on_delivery', 'online_payment'],
         createdAt: dbSettings.createdAt,
         updatedAt: dbSettings.updatedAt
@@ -1260,6 +2031,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(transformedSettings);
     } catch (error) {
       console.error("Error updating business settings:", error);
+      if (error instanceof TenantSecretsError) {
+        return res.status(500).json({ message: error.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -1267,49 +2041,278 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Square Settings Endpoint
   app.post("/api/admin/square-settings", async (req, res) => {
     try {
-      const tenantId = getCurrentTenantId(req);
-      
-      // Debug logging
-      console.log("=== SQUARE SETTINGS DEBUG ===");
-      console.log("Request body:", JSON.stringify(req.body, null, 2));
-      console.log("Access token received:", req.body.squareAccessToken ? `[${req.body.squareAccessToken.length} chars]` : 'undefined');
-      
-      // Validate the Square settings data
-      const { squareAccessToken, squareApplicationId, squareLocationId, squareEnvironment } = req.body;
+      const tenantId = getCurrentTenantId(req);
+      
+      // Validate the Square settings data
+      const { squareAccessToken, squareApplicationId, squareLocationId, squareEnvironment, squareWebhookSignatureKey, squareWebhookUrl } = req.body;
+      
+      // A blank or masked token keeps the one already saved
+      const keepAccessToken = !squareAccessToken || isMaskedSecret(squareAccessToken);
+      const existing = keepAccessToken ? await storage.getBusinessSettings(tenantId) : undefined;
+      if ((keepAccessToken && !existing?.squareAccessToken) || !squareApplicationId || !squareLocationId) {
+        return res.status(400).json({ 
+          success: false, 
+          error: "All Square fields are required: access token, application ID, and location ID" 
+        });
+      }
+
+      // Update only the Square-related fields in business settings
+      const updateData = sealTenantSecrets(tenantId, {
+        squareAccessToken: keepAccessToken ? undefined : squareAccessToken,
+        squareApplicationId,  
+        squareLocationId,
+        squareEnvironment: squareEnvironment || 'sandbox',
+        // Webhook settings are optional - leave them as they are unless sent
+        ...(squareWebhookSignatureKey !== undefined && !isMaskedSecret(squareWebhookSignatureKey) && { squareWebhookSignatureKey: squareWebhookSignatureKey || null }),
+        ...(squareWebhookUrl !== undefined && { squareWebhookUrl: squareWebhookUrl || null })
+      });
+      
+      const dbSettings = await storage.updateBusinessSettings(tenantId, updateData);
+      
+      res.json({
+        success: true,
+        message: "Square settings updated successfully",
+        settings: {
+          squareApplicationId: dbSettings.squareApplicationId,
+          squareLocationId: dbSettings.squareLocationId,
+          squareEnvironment: dbSettings.squareEnvironment,
+          accessTokenSaved: !!dbSettings.squareAccessToken,
+          accessToken: maskTenantSecret(tenantId, 'squareAccessToken', dbSettings.squareAccessToken),
+          webhookSignatureKeySaved: !!dbSettings.squareWebhookSignatureKey,
+          webhookSignatureKey: maskTenantSecret(tenantId, 'squareWebhookSignatureKey', dbSettings.squareWebhookSignatureKey)
+        }
+      });
+    } catch (error) {
+      console.error("Error updating Square settings:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof TenantSecretsError ? error.message : "Failed to update Square settings" 
+      });
+    }
+  });
+
+  // Check Square credentials against Square's locations endpoint. Fields left out (or masked) use the saved ones,
+  // so credentials can be tried before they're saved.
+  app.post("/api/admin/square-settings/test", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const settings = await storage.getBusinessSettings(tenantId);
+      const { squareAccessToken, squareApplicationId, squareLocationId, squareEnvironment } = req.body ?? {};
+      
+      const accessToken = squareAccessToken && !isMaskedSecret(squareAccessToken)
+        ? squareAccessToken
+        : decryptTenantSecret(tenantId, 'squareAccessToken', settings?.squareAccessToken);
+      const locationId = squareLocationId || settings?.squareLocationId;
+      if (!accessToken || !locationId) {
+        return res.status(400).json({ success: false, error: "Enter an access token and location ID to test" });
+      }
+      
+      const square = createSquareService({
+        accessToken,
+        applicationId: squareApplicationId || settings?.squareApplicationId || '',
+        locationId,
+        environment: (squareEnvironment || settings?.squareEnvironment) === 'production' ? 'production' : 'sandbox'
+      });
+      res.json(await square.testConnection());
+    } catch (error) {
+      console.error("Error testing Square connection:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof TenantSecretsError ? error.message : "Failed to test Square connection" 
+      });
+    }
+  });
+
+  // Stripe Settings Endpoint
+  app.post("/api/admin/stripe-settings", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const { stripeSecretKey, stripePublishableKey, stripeWebhookSecret } = req.body;
+      
+      // A blank or masked key keeps the one already saved
+      const keepSecretKey = !stripeSecretKey || isMaskedSecret(stripeSecretKey);
+      const existing = keepSecretKey ? await storage.getBusinessSettings(tenantId) : undefined;
+      if ((keepSecretKey && !existing?.stripeSecretKey) || !stripePublishableKey) {
+        return res.status(400).json({ 
+          success: false, 
+          error: "Both Stripe keys are required: secret key and publishable key" 
+        });
+      }
+      
+      const dbSettings = await storage.updateBusinessSettings(tenantId, sealTenantSecrets(tenantId, {
+        stripeSecretKey: keepSecretKey ? undefined : stripeSecretKey,
+        stripePublishableKey,
+        ...(stripeWebhookSecret !== undefined && !isMaskedSecret(stripeWebhookSecret) && { stripeWebhookSecret: stripeWebhookSecret || null })
+      }));
+      
+      res.json({
+        success: true,
+        message: "Stripe settings updated successfully",
+        settings: {
+          stripePublishableKey: dbSettings.stripePublishableKey,
+          secretKey: maskTenantSecret(tenantId, 'stripeSecretKey', dbSettings.stripeSecretKey),
+          webhookSecret: maskTenantSecret(tenantId, 'stripeWebhookSecret', dbSettings.stripeWebhookSecret)
+        }
+      });
+    } catch (error) {
+      console.error("Error updating Stripe settings:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof TenantSecretsError ? error.message : "Failed to update Stripe settings" 
+      });
+    }
+  });
+
+  // Check a Stripe secret key - the saved one unless a new one is sent
+  app.post("/api/admin/stripe-settings/test", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const { stripeSecretKey } = req.body ?? {};
+      const secretKey = stripeSecretKey && !isMaskedSecret(stripeSecretKey)
+        ? stripeSecretKey
+        : decryptTenantSecret(tenantId, 'stripeSecretKey', (await storage.getBusinessSettings(tenantId))?.stripeSecretKey);
+      if (!secretKey) {
+        return res.status(400).json({ success: false, error: "Enter a secret key to test" });
+      }
+      
+      res.json(await new StripePaymentProvider({ secretKey }).testConnection());
+    } catch (error) {
+      console.error("Error testing Stripe connection:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof TenantSecretsError ? error.message : "Failed to test Stripe connection" 
+      });
+    }
+  });
+
+  // Pick which provider takes the tenant's card payments, invoices and refunds. Refunds for earlier orders still
+  // go back through the provider that took them.
+  app.put("/api/admin/payment-provider", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const { paymentProvider } = paymentProviderSelectionSchema.parse(req.body);
+      
+      if (!(await getTenantPaymentProvider(storage, tenantId, paymentProvider))) {
+        return res.status(409).json({ message: `Connect ${paymentProvider === 'stripe' ? 'Stripe' : 'Square'} before switching to it` });
+      }
+      
+      const dbSettings = await storage.updateBusinessSettings(tenantId, { paymentProvider });
+      res.json({ paymentProvider: dbSettings.paymentProvider });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid payment provider", errors: error.errors });
+      } else {
+        console.error("Error switching payment provider:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Subscription plan, status, usage against the plan's limits, and billing history
+  app.get("/api/admin/billing", async (req, res) => {
+    try {
+      res.json(await getBillingOverview(storage, getCurrentTenantId(req)));
+    } catch (error) {
+      if (error instanceof BillingError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error fetching billing overview:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Upgrade or downgrade a paid-up plan, or start a checkout to end a trial or reactivate a lapsed account.
+  // Either way the plan only changes once Stripe reports it paid - checkoutUrl is set when the admin pays in Stripe Checkout.
+  app.put("/api/admin/billing/plan", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const change = changeBillingPlanSchema.parse(req.body);
+      const admin = await requireStaff(req, storage, tenantId, ['admin']);
+      const protocol = req.get("x-forwarded-proto")?.split(",")[0] || req.protocol;
+      const returnUrl = `${protocol}://${req.get("host")}/business-settings`;
+      const { checkoutUrl } = await changeTenantPlan(storage, tenantId, change, admin.id, returnUrl);
+      res.json({ ...(await getBillingOverview(storage, tenantId)), checkoutUrl });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid plan", errors: error.errors });
+      } else if (error instanceof BillingError || error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error changing plan:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Trial reminders and lapses for every tenant - called hourly by Vercel Cron, which sends CRON_SECRET as a bearer token
+  app.get("/api/cron/billing", async (req, res) => {
+    try {
+      if (!process.env.CRON_SECRET || req.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      res.json(await runBillingLifecycle(storage));
+    } catch (error) {
+      console.error("Error running billing lifecycle:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Subscription payments from the platform's own Stripe account - a paid invoice activates or renews the tenant's plan
+  app.post("/api/webhooks/billing", async (req, res) => {
+    try {
+      const event = req.rawBody ? verifyBillingWebhook(req.rawBody, req.get("stripe-signature")) : null;
+      if (!event) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+      
+      const payment = readSubscriptionPayment(event);
+      if (payment) {
+        await activateTenantPlan(storage, payment.tenantId, payment.payment);
+      }
+      res.json({ eventId: event.id, applied: !!payment });
+    } catch (error) {
+      // Answered with a 500 so Stripe retries it later
+      console.error("Error handling billing webhook:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Webhook notifications from a tenant's payment provider (square or stripe) for its payments, invoices and refunds.
+  // The tenant comes from the path because the provider calls from its own servers, not the tenant's domain.
+  app.post("/api/webhooks/:provider/:tenantId", async (req, res) => {
+    try {
+      const { tenantId } = req.params;
+      const providerName = z.enum(PAYMENT_PROVIDERS).safeParse(req.params.provider);
+      if (!providerName.success) {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
       
-      if (!squareAccessToken || !squareApplicationId || !squareLocationId) {
-        return res.status(400).json({ 
-          success: false, 
-          error: "All Square fields are required: access token, application ID, and location ID" 
-        });
+      const provider = await getTenantPaymentProvider(storage, tenantId, providerName.data);
+      if (!provider) {
+        return res.status(404).json({ message: "Payments are not set up for this business" });
       }
-
-      // Update only the Square-related fields in business settings
-      const updateData = {
-        squareAccessToken,
-        squareApplicationId,  
-        squareLocationId,
-        squareEnvironment: squareEnvironment || 'sandbox'
-      };
       
-      const dbSettings = await storage.updateBusinessSettings(tenantId, updateData);
+      // Square signs the notification URL as registered, which can differ from the one the request arrived on
+      const settings = await storage.getBusinessSettings(tenantId);
+      const protocol = req.get("x-forwarded-proto")?.split(",")[0] || req.protocol;
+      const url = (providerName.data === 'square' && settings?.squareWebhookUrl) || `${protocol}://${req.get("host")}${req.originalUrl}`;
+      const headers = Object.fromEntries(Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(",") : value]));
+      if (!req.rawBody || !provider.verifyWebhook({ url, rawBody: req.rawBody, headers })) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
       
-      res.json({
-        success: true,
-        message: "Square settings updated successfully",
-        settings: {
-          squareApplicationId: dbSettings.squareApplicationId,
-          squareLocationId: dbSettings.squareLocationId,
-          squareEnvironment: dbSettings.squareEnvironment,
-          accessTokenSaved: !!dbSettings.squareAccessToken
-        }
-      });
+      const result = providerName.data === 'stripe'
+        ? await handleStripeWebhook(storage, tenantId, stripeWebhookPayloadSchema.parse(req.body))
+        : await handleSquareWebhook(storage, tenantId, squareWebhookPayloadSchema.parse(req.body));
+      res.json(result);
     } catch (error) {
-      console.error("Error updating Square settings:", error);
-      res.status(500).json({ 
-        success: false, 
-        error: "Failed to update Square settings" 
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook payload", errors: error.errors });
+      }
+      // Anything else is answered with a 500 so the provider retries it later
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
@@ -1358,16 +2361,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         logoUrl: dbSettings.logoUrl,
         features: {
           loyaltyProgram: dbSettings.enableLoyaltyProgram ?? true,
-          scheduledDeliveries: dbSettings.enableScheduledDeliveries ?? false
+          realTimeTracking: dbSettings.enableRealTimeTracking ?? true,
+          scheduledDeliveries: dbSettings.enableScheduledDeliveries ?? false,
+          multiStopDeliveries: dbSettings.enableMultiStopDeliveries ?? false
         },
         deliveryPricing: {
           basePrice: parseFloat(dbSettings.baseDeliveryFee) || 3.00,
           pricePerMile: parseFloat(dbSettings.pricePerMile) || 1.50,
-          minimumOrder: parseFloat(dbSettings.minimumOrderValue) || 10.00,
-          freeDeliveryThreshold: parseFloat(dbSettings.freeDeliveryThreshold) || 50.00
+          minimumOrder: parseFloat(dbSettings.minimumOrderValue ?? "10.00"),
+          freeDeliveryThreshold: parseFloat(dbSettings.freeDeliveryThreshold ?? "0")
         },
         distanceSettings: {
-          baseFeeRadius: parseFloat(dbSettings.baseFeeRadius) || 10.0
+          baseFeeRadius: parseFloat(dbSettings.baseFeeRadius) || 10.0,
+          maxDeliveryRadius: dbSettings.maxDeliveryRadius ?? DEFAULT_MAX_DELIVERY_RADIUS
         },
         acceptedPaymentMethods: dbSettings.acceptedPaymentMethods || ['cash_on_delivery', 'card_on_delivery', 'online_payment'],
         businessHours: dbSettings.operatingHours || {
@@ -2061,7 +3067,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Google Maps API Routes
+  // Maps API Routes - answers come from mapsService and carry the provider that produced them
   
   // Calculate distance between two addresses
   app.post("/api/maps/calculate-distance", async (req, res) => {
@@ -2074,7 +3080,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const result = await googleMapsService.calculateDistance(pickup, delivery);
+      const result = await mapsService.calculateDistance(pickup, delivery);
       res.json(result);
     } catch (error) {
       console.error("Error calculating distance:", error);
@@ -2096,7 +3102,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const result = await googleMapsService.validateAddress(address);
+      const result = await mapsService.validateAddress(address);
       res.json(result);
     } catch (error) {
       console.error("Error validating address:", error);
@@ -2107,10 +3113,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Calculate delivery fee with distance
+  // Calculate delivery fee with distance - returns a quote the customer checks out with
   app.post("/api/maps/calculate-delivery-fee", async (req, res) => {
     try {
-      const { pickup, delivery, isRush = false } = req.body;
+      const { pickup, delivery, isRush = false, stops = [], slotStart, openWindowStart, businessId, userId, orderValue, promoCode } = req.body;
       
       if (!pickup || !delivery) {
         return res.status(400).json({ 
@@ -2119,48 +3125,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get business settings for pricing
-      const tenantId = getCurrentTenantId(req);
+      const tenantId = getOrderTenantId(req);
       const businessSettings = await storage.getBusinessSettings(tenantId);
       
       if (!businessSettings) {
         return res.status(404).json({ message: "Business settings not found" });
       }
 
-      // Calculate distance
-      const distanceResult = await googleMapsService.calculateDistance(pickup, delivery);
-      
-      if (distanceResult.status !== 'OK') {
-        return res.status(400).json({
-          message: "Could not calculate distance",
-          error: distanceResult.errorMessage
-        });
+      if (!Array.isArray(stops) || stops.length > MAX_ADDITIONAL_STOPS) {
+        return res.status(400).json({ message: `Up to ${MAX_ADDITIONAL_STOPS} additional stops are allowed` });
       }
 
-      // Calculate delivery fee
-      const deliveryFee = googleMapsService.calculateDeliveryFee(
-        distanceResult.distance,
-        {
-          baseDeliveryFee: parseFloat(businessSettings.baseDeliveryFee) || 3.00,
-          pricePerMile: parseFloat(businessSettings.pricePerMile) || 1.50,
-          baseFeeRadius: parseFloat(businessSettings.baseFeeRadius) || 10.0,
-          rushDeliveryMultiplier: parseFloat(businessSettings.rushDeliveryMultiplier) || 1.5
-        },
-        isRush
-      );
+      const parsedOrderValue = orderValue === undefined || orderValue === null || orderValue === "" ? null : Number(orderValue);
+      if (parsedOrderValue !== null && (isNaN(parsedOrderValue) || parsedOrderValue < 0)) {
+        return res.status(400).json({ message: "Order value must be a positive amount" });
+      }
 
-      res.json({
-        distance: distanceResult.distance,
-        duration: distanceResult.duration,
-        deliveryFee: deliveryFee,
-        isWithinBaseRadius: distanceResult.distance <= (parseFloat(businessSettings.baseFeeRadius) || 10.0),
-        pricing: {
-          baseFee: parseFloat(businessSettings.baseDeliveryFee) || 3.00,
-          pricePerMile: parseFloat(businessSettings.pricePerMile) || 1.50,
-          baseFeeRadius: parseFloat(businessSettings.baseFeeRadius) || 10.0,
-          extraMiles: Math.max(0, distanceResult.distance - (parseFloat(businessSettings.baseFeeRadius) || 10.0))
-        }
+      const parsedSlot = slotStart ? new Date(slotStart) : null;
+      const parsedWindow = openWindowStart ? new Date(openWindowStart) : null;
+      const requestedSlot = parsedSlot && !isNaN(parsedSlot.getTime()) ? parsedSlot : null;
+      const requestedWindow = parsedWindow && !isNaN(parsedWindow.getTime()) ? parsedWindow : null;
+
+      const input = {
+        pickup,
+        delivery,
+        stops: stops.filter((stop: unknown): stop is string => typeof stop === 'string' && !!stop.trim()),
+        isRush: isRush === true,
+        businessId: typeof businessId === 'string' && businessId ? businessId : null,
+        customerId: typeof userId === 'string' && userId ? userId : null,
+        orderValue: parsedOrderValue,
+        deliverAt: requestedSlot ?? requestedWindow,
+        promoCode: typeof promoCode === 'string' && promoCode.trim() ? promoCode : null
+      };
+      const price = await priceDelivery(storage, tenantId, businessSettings, input, mapsService);
+      const quote = await createDeliveryQuote(storage, tenantId, input, price);
+
+      // Same range and opening-hours checks order creation runs, so the form can warn before submission
+      const eligibility = await checkOrderEligibility(storage, tenantId, businessSettings, mapsService, {
+        pickup,
+        dropoffs: [...input.stops, delivery],
+        slotStart: requestedSlot,
+        openWindowStart: requestedWindow,
+        legs: price.legs
       });
+
+      res.json({ ...price, quote, eligibility });
     } catch (error) {
+      if (error instanceof DeliveryPricingError) {
+        return res.status(400).json({ message: error.message, ...error.details });
+      }
       console.error("Error calculating delivery fee:", error);
       res.status(500).json({ 
         message: "Failed to calculate delivery fee",
@@ -2183,13 +3196,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Export service zones as a GeoJSON FeatureCollection
+  app.get("/api/admin/service-zones/export", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const zones = await storage.getServiceZones(tenantId);
+      res.setHeader("Content-Type", "application/geo+json");
+      res.setHeader("Content-Disposition", 'attachment; filename="service-zones.geojson"');
+      res.send(JSON.stringify(toZoneFeatureCollection(zones), null, 2));
+    } catch (error) {
+      console.error("Error exporting service zones:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Check a boundary while it's being drawn, without saving
+  app.post("/api/admin/service-zones/validate", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const { boundaries, zoneId } = req.body;
+      res.json(await checkZoneBoundary(storage, tenantId, boundaries, zoneId));
+    } catch (error) {
+      console.error("Error validating service zone:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Import service zones from a GeoJSON FeatureCollection - all features must be valid or nothing is imported
+  app.post("/api/admin/service-zones/import", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const replace = req.body?.replace === true;
+      const parsed = parseZoneFeatureCollection(req.body?.collection);
+      const errors = [...parsed.errors];
+      const zonesToCreate: InsertServiceZone[] = [];
+      parsed.zones.forEach((zone, index) => {
+        const result = insertServiceZoneSchema.safeParse({ ...zone, tenantId });
+        if (result.success) {
+          zonesToCreate.push(result.data);
+        } else {
+          const label = typeof zone.name === "string" && zone.name ? zone.name : `Feature ${index + 1}`;
+          result.error.errors.forEach(issue => errors.push(`${label}: ${issue.path.join(".") || "zone"} - ${issue.message}`));
+        }
+      });
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Invalid GeoJSON import", errors });
+      }
+
+      const warnings = [...parsed.warnings];
+      if (replace) {
+        const existing = await storage.getServiceZones(tenantId);
+        for (const zone of existing) {
+          await storage.deleteServiceZone(zone.id);
+        }
+      } else {
+        for (const zone of zonesToCreate) {
+          const check = await checkZoneBoundary(storage, tenantId, zone.boundaries);
+          warnings.push(...check.warnings.map(warning => `${zone.name}: ${warning}`));
+        }
+      }
+
+      const imported = [];
+      for (const zone of zonesToCreate) {
+        imported.push(await storage.createServiceZone(zone));
+      }
+      res.json({ imported: imported.length, zones: imported, warnings });
+    } catch (error) {
+      console.error("Error importing service zones:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Create service zone
   app.post("/api/admin/service-zones", async (req, res) => {
     try {
       const tenantId = getCurrentTenantId(req);
-      const zone = await storage.createServiceZone({ ...req.body, tenantId });
-      res.json(zone);
+      const zoneData = insertServiceZoneSchema.parse({ ...req.body, tenantId });
+      const { errors, warnings } = await checkZoneBoundary(storage, tenantId, zoneData.boundaries);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Invalid zone boundary", errors });
+      }
+      const zone = await storage.createServiceZone(zoneData);
+      res.json({ ...zone, warnings });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service zone", errors: error.errors });
+      }
       console.error("Error creating service zone:", error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -2199,9 +3291,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/admin/service-zones/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const zone = await storage.updateServiceZone(id, req.body);
-      res.json(zone);
+      const tenantId = getCurrentTenantId(req);
+      const { tenantId: _tenantId, ...updates } = updateServiceZoneSchema.parse(req.body);
+      const { errors, warnings } = await checkZoneBoundary(storage, tenantId, updates.boundaries, id);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Invalid zone boundary", errors });
+      }
+      const zone = await storage.updateServiceZone(id, updates);
+      res.json({ ...zone, warnings });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service zone", errors: error.errors });
+      }
       console.error("Error updating service zone:", error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -2219,6 +3320,312 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pricing Rules API Routes
+
+  // Get pricing rules for tenant, in the order they run
+  app.get("/api/admin/pricing-rules", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      res.json(await storage.getPricingRules(tenantId));
+    } catch (error) {
+      console.error("Error fetching pricing rules:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create pricing rule - new rules run last unless a position is given
+  app.post("/api/admin/pricing-rules", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const existing = await storage.getPricingRules(tenantId);
+      const ruleData = insertPricingRuleSchema.parse({ position: existing.length, ...req.body, tenantId });
+      res.json(await storage.createPricingRule(ruleData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pricing rule", errors: error.errors });
+      }
+      console.error("Error creating pricing rule:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Set the order rules run in
+  app.put("/api/admin/pricing-rules/order", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const ids = z.array(z.string()).parse(req.body?.ids);
+      res.json(await storage.reorderPricingRules(tenantId, ids));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rule order", errors: error.errors });
+      }
+      console.error("Error reordering pricing rules:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Price a sample trip with the saved rules - nothing is quoted or stored
+  app.post("/api/admin/pricing-rules/simulate", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const trip = simulatePriceSchema.parse(req.body);
+      const settings = await storage.getBusinessSettings(tenantId);
+      const at = trip.at ?? new Date();
+      const price = await priceDelivery(storage, tenantId, settings, {
+        pickup: trip.pickup,
+        delivery: trip.delivery,
+        stops: trip.stops ?? [],
+        isRush: trip.isRush ?? false,
+        businessId: trip.businessId ?? null,
+        customerId: null,
+        orderValue: trip.orderValue ?? null,
+        deliverAt: at,
+        promoCode: trip.promoCode ?? null
+      }, mapsService, { now: at, loyaltyTier: trip.loyaltyTier ?? null });
+      res.json(price);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sample trip", errors: error.errors });
+      }
+      if (error instanceof DeliveryPricingError) {
+        return res.status(400).json({ message: error.message, ...error.details });
+      }
+      console.error("Error simulating price:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update pricing rule - the whole rule is sent, as edited in the rule dialog
+  app.put("/api/admin/pricing-rules/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      const { tenantId: _tenantId, ...updates } = insertPricingRuleSchema.parse({ ...req.body, tenantId });
+      const rule = await storage.updatePricingRule(id, tenantId, updates);
+      if (!rule) {
+        return res.status(404).json({ message: "Pricing rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pricing rule", errors: error.errors });
+      }
+      console.error("Error updating pricing rule:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete pricing rule
+  app.delete("/api/admin/pricing-rules/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      if (!(await storage.deletePricingRule(id, tenantId))) {
+        return res.status(404).json({ message: "Pricing rule not found" });
+      }
+      res.json({ message: "Pricing rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting pricing rule:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Promotions API Routes
+
+  // Get promo codes for tenant, newest first
+  app.get("/api/admin/promotions", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      res.json(await storage.getPromotions(tenantId));
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create promo code - codes are unique per tenant, ignoring case
+  app.post("/api/admin/promotions", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const promotionData = insertPromotionSchema.parse({ ...req.body, tenantId });
+      if (await storage.getPromotionByCode(tenantId, promotionData.code)) {
+        return res.status(409).json({ message: `The code ${promotionData.code} is already in use` });
+      }
+      res.json(await storage.createPromotion(promotionData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion", errors: error.errors });
+      }
+      console.error("Error creating promotion:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update promo code - the whole promotion is sent, as edited in the promotion dialog
+  app.put("/api/admin/promotions/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      const { tenantId: _tenantId, ...updates } = insertPromotionSchema.parse({ ...req.body, tenantId });
+      const sameCode = await storage.getPromotionByCode(tenantId, updates.code);
+      if (sameCode && sameCode.id !== id) {
+        return res.status(409).json({ message: `The code ${updates.code} is already in use` });
+      }
+      const promotion = await storage.updatePromotion(id, tenantId, updates);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion", errors: error.errors });
+      }
+      console.error("Error updating promotion:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete promo code - once it has been used it can only be deactivated, so its redemptions stay reportable
+  app.delete("/api/admin/promotions/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      const redemptions = await storage.getPromotionRedemptions(tenantId, id);
+      if (redemptions.length > 0) {
+        return res.status(409).json({ message: "This code has been used on orders - deactivate it instead" });
+      }
+      if (!(await storage.deletePromotion(id, tenantId))) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.json({ message: "Promotion deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Orders placed with a promo code, newest first
+  app.get("/api/admin/promotions/:id/redemptions", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      res.json(await storage.getPromotionRedemptions(tenantId, id));
+    } catch (error) {
+      console.error("Error fetching promotion redemptions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Driver Payouts API Routes
+
+  // Closed payout periods, most recent first
+  app.get("/api/admin/payouts", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      await requireStaff(req, storage, tenantId, ['admin']);
+      res.json(await storage.getDriverPayouts(tenantId));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching driver payouts:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // What each driver is owed for unpaid earnings before periodEnd (default now)
+  app.get("/api/admin/payouts/preview", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      await requireStaff(req, storage, tenantId, ['admin']);
+      const { periodEnd } = closeDriverPayoutSchema.parse({ periodEnd: req.query.periodEnd || new Date() });
+      res.json({ periodEnd, drivers: await previewDriverPayout(storage, tenantId, periodEnd) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payout period", errors: error.errors });
+      }
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error previewing driver payout:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Close a payout period - every unpaid earning before periodEnd is marked as paid by it
+  app.post("/api/admin/payouts", async (req, res) => {
+    try {
+      const tenantId = getCurrentTenantId(req);
+      const admin = await requireStaff(req, storage, tenantId, ['admin']);
+      const { periodEnd } = closeDriverPayoutSchema.parse(req.body);
+      if (periodEnd > new Date()) {
+        return res.status(400).json({ message: "A payout period can't end in the future" });
+      }
+      const payout = await storage.closeDriverPayout(tenantId, periodEnd, admin.id);
+      if (!payout) {
+        return res.status(409).json({ message: "There are no unpaid earnings before this date" });
+      }
+      res.json(payout);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payout period", errors: error.errors });
+      }
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error closing driver payout:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // A closed payout with its per-driver totals
+  app.get("/api/admin/payouts/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      await requireStaff(req, storage, tenantId, ['admin']);
+      const payout = await storage.getDriverPayout(id, tenantId);
+      if (!payout) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      res.json({ ...payout, drivers: await getPayoutDriverTotals(storage, payout) });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching driver payout:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Download one driver's statement for a closed payout (?format=csv or pdf)
+  app.get("/api/admin/payouts/:id/statements/:driverId", async (req, res) => {
+    try {
+      const { id, driverId } = req.params;
+      const tenantId = getCurrentTenantId(req);
+      await requireStaff(req, storage, tenantId, ['admin']);
+      const format = req.query.format === 'pdf' ? 'pdf' : 'csv';
+      const payout = await storage.getDriverPayout(id, tenantId);
+      if (!payout) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      const statement = await getPayoutStatement(storage, payout, driverId);
+      if (!statement) {
+        return res.status(404).json({ message: "This driver has no earnings in this payout" });
+      }
+      const filename = `payout-${payout.periodEnd.toISOString().slice(0, 10)}-${driverId.slice(0, 8)}.${format}`;
+      res.setHeader("Content-Type", format === 'pdf' ? "application/pdf" : "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(format === 'pdf' ? renderStatementPdf(statement) : renderStatementCsv(statement));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error generating payout statement:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Object upload endpoint  
   app.post("/api/objects/upload", async (req, res) => {
     try {
@@ -2271,26 +3678,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Removed: Manual refresh reviews endpoint - Google Reviews functionality disabled
 
+  // Refund all or part of a Square payment (admins only, with a reason)
   app.post("/api/payments/:paymentId/refund", async (req, res) => {
     try {
       const { paymentId } = req.params;
-      const { amount, reason } = req.body;
-
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ error: "Valid refund amount is required" });
+      const refund = refundPaymentSchema.parse(req.body);
+      
+      const delivery = await storage.getDeliveryBySquarePaymentId(getCurrentTenantId(req), paymentId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const admin = await requireStaff(req, storage, delivery.tenantId, ['admin']);
+      const result = await refundDeliveryPayment(storage, delivery, refund, admin.id);
+      res.json({ ...result, delivery: toDeliveryResponse(result.delivery), payments: await getPaymentSummary(storage, result.delivery) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid refund", errors: error.errors });
+      } else if (error instanceof RefundError || error instanceof AuthError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Refund processing error:", error);
+        res.status(500).json({ message: "Internal server error" });
       }
-
-      // Square integration temporarily disabled
-      return res.status(400).json({ 
-        success: false, 
-        error: "Refund processing temporarily unavailable" 
-      });
-    } catch (error: any) {
-      console.error("Refund processing error:", error);
-      res.status(500).json({ 
-        success: false, 
-        error: error.message || "Refund processing failed" 
-      });
     }
   });
 
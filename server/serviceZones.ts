@@ -0,0 +1,201 @@
+import type { ServiceZone, ZoneBoundary, ZonePricingMode } from '../shared/schema.js';
+import { isPointInBoundary, validateZoneBoundary, boundariesOverlap } from '../shared/zoneGeometry.js';
+import type { IStorage } from './storage.js';
+
+// Anything that can turn an address into coordinates - GoogleMapsService.validateAddress satisfies this
+export interface AddressGeocoder {
+  validateAddress(address: string): Promise<{ isValid: boolean; formattedAddress?: string; coordinates?: { lat: number; lng: number } }>;
+}
+
+export interface ZoneMatch {
+  zone: ServiceZone;
+  matchedBy: 'boundary' | 'zip';
+}
+
+export interface ServiceAreaCheck {
+  zonesConfigured: boolean; // false when the tenant has no active zones - every address is eligible
+  match: ZoneMatch | null;
+}
+
+export interface ZoneBoundaryCheck {
+  errors: string[]; // Boundary can't be saved
+  warnings: string[]; // Saved anyway - overlapping zones resolve to whichever is listed first
+}
+
+interface ZoneFeature {
+  type: 'Feature';
+  geometry: ZoneBoundary | null;
+  properties: Record<string, unknown>;
+}
+
+export interface ZoneFeatureCollection {
+  type: 'FeatureCollection';
+  features: ZoneFeature[];
+}
+
+// Last 5-digit ZIP in the address (street numbers come first, so the last match is the ZIP)
+export function extractZipCode(address: string): string | null {
+  const matches = address.match(/\b\d{5}(?:-\d{4})?\b/g);
+  return matches ? matches[matches.length - 1].slice(0, 5) : null;
+}
+
+/**
+ * Zone for a location: drawn boundaries win, ZIP membership is the fallback for zones
+ * without a boundary or when the address couldn't be geocoded.
+ */
+export function matchServiceZone(
+  zones: ServiceZone[],
+  location: { lat: number; lng: number } | null,
+  zipCode: string | null
+): ZoneMatch | null {
+  const active = zones.filter(zone => zone.isActive !== false);
+
+  if (location) {
+    const byBoundary = active.find(zone => zone.boundaries && isPointInBoundary(location.lat, location.lng, zone.boundaries));
+    if (byBoundary) return { zone: byBoundary, matchedBy: 'boundary' };
+  }
+
+  if (zipCode) {
+    const byZip = active.find(zone => zone.zipCodes?.includes(zipCode));
+    if (byZip) return { zone: byZip, matchedBy: 'zip' };
+  }
+
+  return null;
+}
+
+/**
+ * Which of the tenant's active zones an address falls in. Geocoding failures fall back to the ZIP in the address text.
+ */
+export async function checkServiceArea(
+  store: IStorage,
+  tenantId: string,
+  address: string,
+  geocoder: AddressGeocoder
+): Promise<ServiceAreaCheck> {
+  const zones = ((await store.getServiceZones(tenantId)) as ServiceZone[]).filter(zone => zone.isActive !== false);
+  if (zones.length === 0) {
+    return { zonesConfigured: false, match: null };
+  }
+
+  let location: { lat: number; lng: number } | null = null;
+  let zipCode = extractZipCode(address);
+  if (zones.some(zone => zone.boundaries)) {
+    try {
+      const geocoded = await geocoder.validateAddress(address);
+      if (geocoded.isValid && geocoded.coordinates) {
+        location = geocoded.coordinates;
+        zipCode = (geocoded.formattedAddress && extractZipCode(geocoded.formattedAddress)) || zipCode;
+      }
+    } catch (error) {
+      console.warn('Could not geocode address for service zone matching:', error);
+    }
+  }
+
+  return { zonesConfigured: true, match: matchServiceZone(zones, location, zipCode) };
+}
+
+export function outsideServiceAreaMessage(address: string): string {
+  return `Sorry, ${address} is outside our delivery area`;
+}
+
+/**
+ * Fee charged once a zone has matched: the zone's flat fee, the distance-based fee, or whichever is higher.
+ */
+export function applyZonePricing(mode: ZonePricingMode | string | null | undefined, distanceFee: number, zoneFee: number | null): number {
+  if (zoneFee === null) return distanceFee;
+  switch (mode) {
+    case 'zone':
+      return zoneFee;
+    case 'greater':
+      return Math.max(zoneFee, distanceFee);
+    default:
+      return distanceFee;
+  }
+}
+
+function overlapWarnings(zones: ServiceZone[], boundary: ZoneBoundary, name?: string): string[] {
+  return zones
+    .filter(zone => zone.boundaries && validateZoneBoundary(zone.boundaries).length === 0 && boundariesOverlap(boundary, zone.boundaries))
+    .map(zone => `${name ? `${name} overlaps` : 'Overlaps'} ${zone.name}`);
+}
+
+/**
+ * Validates a drawn boundary and lists the tenant's other zones it overlaps. A null boundary (ZIP-only zone) always passes.
+ */
+export async function checkZoneBoundary(
+  store: IStorage,
+  tenantId: string,
+  boundary: unknown,
+  excludeZoneId?: string
+): Promise<ZoneBoundaryCheck> {
+  if (boundary === null || boundary === undefined) {
+    return { errors: [], warnings: [] };
+  }
+  const errors = validateZoneBoundary(boundary);
+  if (errors.length > 0) {
+    return { errors, warnings: [] };
+  }
+  const others = ((await store.getServiceZones(tenantId)) as ServiceZone[]).filter(zone => zone.id !== excludeZoneId);
+  return { errors: [], warnings: overlapWarnings(others, boundary as ZoneBoundary) };
+}
+
+export function toZoneFeatureCollection(zones: ServiceZone[]): ZoneFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: zones.map(zone => ({
+      type: 'Feature',
+      geometry: zone.boundaries ?? null,
+      properties: {
+        name: zone.name,
+        description: zone.description,
+        deliveryFee: zone.deliveryFee,
+        estimatedTime: zone.estimatedTime,
+        isActive: zone.isActive,
+        zipCodes: zone.zipCodes ?? []
+      }
+    }))
+  };
+}
+
+/**
+ * Zone fields for each feature of an uploaded FeatureCollection, plus per-feature problems.
+ * Nothing should be imported unless errors is empty.
+ */
+export function parseZoneFeatureCollection(collection: unknown): { zones: Record<string, unknown>[]; errors: string[]; warnings: string[] } {
+  const body = collection as { type?: unknown; features?: unknown } | null;
+  if (!body || body.type !== 'FeatureCollection' || !Array.isArray(body.features)) {
+    return { zones: [], errors: ['Expected a GeoJSON FeatureCollection'], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  const zones: Record<string, unknown>[] = [];
+  const parsed: ServiceZone[] = [];
+  body.features.forEach((feature: any, index: number) => {
+    const properties = feature?.properties || {};
+    const label = typeof properties.name === 'string' && properties.name ? properties.name : `Feature ${index + 1}`;
+    if (!feature || feature.type !== 'Feature') {
+      errors.push(`${label}: not a GeoJSON Feature`);
+      return;
+    }
+    const geometry = feature.geometry ?? null;
+    const boundaryErrors = geometry ? validateZoneBoundary(geometry) : [];
+    boundaryErrors.forEach(message => errors.push(`${label}: ${message}`));
+    if (boundaryErrors.length > 0) return;
+
+    zones.push({
+      name: properties.name,
+      description: properties.description ?? null,
+      deliveryFee: properties.deliveryFee,
+      estimatedTime: properties.estimatedTime,
+      isActive: properties.isActive ?? true,
+      zipCodes: properties.zipCodes ?? [],
+      boundaries: geometry
+    });
+    parsed.push({ id: String(index), name: label, boundaries: geometry } as ServiceZone);
+  });
+
+  const warnings = parsed.flatMap((zone, index) =>
+    zone.boundaries ? overlapWarnings(parsed.slice(index + 1), zone.boundaries, zone.name) : []
+  );
+  return { zones, errors, warnings };
+}
@@ -1,11 +1,22 @@
 import { SquareClient, SquareEnvironment } from 'square';
-import { randomUUID } from 'crypto';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { IStorage } from './storage.js';
+import { decryptTenantSecret } from './tenantSecrets.js';
+import type {
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderInvoiceRequest,
+  ProviderInvoiceResult,
+  ProviderRefund,
+  WebhookRequest
+} from './paymentProvider.js';
 
 // Note: Square clients are now created per-tenant with their own credentials
 
 export interface PaymentRequest {
   paymentToken: string;
   amount: number; // Amount in cents
+  tipAmount?: number; // Driver tip in cents, charged on top of amount
   currency?: string;
   orderId?: string;
   customerId?: string;
@@ -25,7 +36,8 @@ export interface InvoiceRequest {
   customerId: string;
   title: string;
   description: string;
-  amount: number; // Amount in cents
+  amount: number; // Amount in cents - 0 for an invoice that only carries a tip
+  tipAmount?: number; // Driver tip in cents, invoiced as its own line
   dueDate?: string;
   autoCharge?: boolean;
 }
@@ -33,6 +45,7 @@ export interface InvoiceRequest {
 export interface InvoiceResult {
   success: boolean;
   invoiceId?: string;
+  orderId?: string;
   publicUrl?: string;
   status?: string;
   error?: string;
@@ -72,6 +85,13 @@ export class SquareService {
           amount: BigInt(request.amount),
           currency: (request.currency || 'USD') as 'USD'
         },
+        // Square keeps tips separate from amountMoney, so they show as tips in the seller's reports
+        ...(request.tipAmount && {
+          tipMoney: {
+            amount: BigInt(request.tipAmount),
+            currency: (request.currency || 'USD') as 'USD'
+          }
+        }),
         locationId: this.locationId!,
         autocomplete: true,
         note: request.description || 'Delivery payment processed via Square',
@@ -175,16 +195,25 @@ export class SquareService {
   async createInvoice(request: InvoiceRequest): Promise<InvoiceResult> {
     try {
       // First, create an order for the invoice
-      const order = await this.createOrder({
-        customerId: request.customerId,
-        lineItems: [{
+      const lineItems = [];
+      if (request.amount > 0) {
+        lineItems.push({
           name: request.title,
           quantity: '1',
-          basePriceMoney: {
-            amount: BigInt(request.amount),
-            currency: 'USD' as 'USD'
-          }
-        }]
+          basePriceMoney: { amount: BigInt(request.amount), currency: 'USD' as 'USD' }
+        });
+      }
+      if (request.tipAmount) {
+        lineItems.push({
+          name: 'Driver tip',
+          quantity: '1',
+          basePriceMoney: { amount: BigInt(request.tipAmount), currency: 'USD' as 'USD' }
+        });
+      }
+
+      const order = await this.createOrder({
+        customerId: request.customerId,
+        lineItems
       });
 
       if (!order?.id) {
@@ -248,6 +277,7 @@ export class SquareService {
         return {
           success: true,
           invoiceId: invoiceId,
+          orderId: order.id,
           publicUrl: publishResponse.invoice?.publicUrl,
           status: publishResponse.invoice?.status
         };
@@ -283,6 +313,35 @@ export class SquareService {
     }
   }
 
+  /**
+   * Checks the credentials against Square's locations endpoint and that the configured location is one of them
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const response = await this.client.locations.list();
+      const locations = (response.locations ?? [])
+        .filter(location => location.id && location.status !== 'INACTIVE')
+        .map(location => ({ id: location.id!, name: location.name || location.id! }));
+      const configured = locations.find(location => location.id === this.locationId);
+
+      if (!configured) {
+        return {
+          success: false,
+          locations,
+          error: `The access token works, but location ${this.locationId} isn't one of its active locations`
+        };
+      }
+      return { success: true, accountName: configured.name, locations };
+    } catch (error: any) {
+      console.error('Square connection test error:', error);
+      const detail = error?.errors?.[0]?.detail || error?.message;
+      return {
+        success: false,
+        error: error?.statusCode === 401 ? 'Square rejected the access token' : `Could not reach Square: ${detail || 'unknown error'}`
+      };
+    }
+  }
+
   /**
    * Process a refund
    */
@@ -319,4 +378,88 @@ export function createSquareService(config: {
   environment?: 'sandbox' | 'production';
 }) {
   return new SquareService(config);
-}
\ No newline at end of file
+}
+
+/**
+ * SquareService for the tenant's own Square account, or null when they haven't connected one.
+ */
+export async function getTenantSquareService(store: IStorage, tenantId: string): Promise<SquareService | null> {
+  const settings = await store.getBusinessSettings(tenantId);
+  if (!settings?.squareAccessToken || !settings.squareLocationId || !settings.squareApplicationId) {
+    return null;
+  }
+  return createSquareService({
+    accessToken: decryptTenantSecret(tenantId, 'squareAccessToken', settings.squareAccessToken)!,
+    applicationId: settings.squareApplicationId,
+    locationId: settings.squareLocationId,
+    environment: settings.squareEnvironment === 'production' ? 'production' : 'sandbox'
+  });
+}
+
+export const SQUARE_SIGNATURE_HEADER = 'x-square-hmacsha256-signature';
+
+/**
+ * Square's signature for a notification: base64 HMAC-SHA256 of the notification URL followed by the raw body,
+ * keyed with the subscription's signature key.
+ */
+export function signSquareWebhook(notificationUrl: string, rawBody: string | Buffer, signatureKey: string): string {
+  return createHmac('sha256', signatureKey).update(notificationUrl).update(rawBody).digest('base64');
+}
+
+export function verifySquareSignature(notificationUrl: string, rawBody: string | Buffer, signatureKey: string, signature: string | undefined): boolean {
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(signSquareWebhook(notificationUrl, rawBody, signatureKey));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// SquareService behind the PaymentProvider interface
+export class SquarePaymentProvider implements PaymentProvider {
+  readonly name = 'square' as const;
+
+  constructor(private square: SquareService, private webhookSignatureKey: string | null = null) {}
+
+  async createInvoice(request: ProviderInvoiceRequest): Promise<ProviderInvoiceResult> {
+    try {
+      // Square invoices are addressed to a customer record
+      const [firstName, ...lastNames] = request.customer.name.trim().split(/\s+/);
+      const customer = await this.square.createCustomer({
+        firstName,
+        lastName: lastNames.join(' ') || undefined,
+        email: request.customer.email ?? undefined,
+        phone: request.customer.phone ?? undefined
+      });
+      const invoice = await this.square.createInvoice({
+        orderId: request.orderId,
+        customerId: customer?.id,
+        title: request.title,
+        description: request.description,
+        amount: request.amountCents,
+        tipAmount: request.tipCents
+      });
+      return { success: invoice.success, invoiceId: invoice.invoiceId, orderId: invoice.orderId, publicUrl: invoice.publicUrl, error: invoice.error };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Invoice creation failed' };
+    }
+  }
+
+  async refund(paymentId: string, amountCents: number, reason: string): Promise<ProviderRefund> {
+    const refund = await this.square.refundPayment(paymentId, amountCents, reason);
+    if (!refund?.id) {
+      throw new Error('Square did not return the refund');
+    }
+    const status = refund.status === 'COMPLETED' ? 'completed' : refund.status === 'FAILED' || refund.status === 'REJECTED' ? 'failed' : 'pending';
+    return { id: refund.id, status };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    return !!this.webhookSignatureKey
+      && verifySquareSignature(request.url, request.rawBody, this.webhookSignatureKey, request.headers[SQUARE_SIGNATURE_HEADER]);
+  }
+
+  testConnection(): Promise<ConnectionTestResult> {
+    return this.square.testConnection();
+  }
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { squareWebhookPayloadSchema } from '../shared/schema.js';
+import { handleSquareWebhook, readPaymentUpdate } from './squareWebhooks.js';
+import { MemStorage } from './storage.js';
+
+const TENANT_ID = '00000000-0000-0000-0000-000000000001';
+
+// Notifications as Square sent them, parsed the way the webhook route parses them
+const fixture = (name: string) =>
+  squareWebhookPayloadSchema.parse(JSON.parse(readFileSync(new URL(`./__fixtures__/square/${name}.json`, import.meta.url), 'utf8')));
+
+const INVOICE_ID = 'inv:0-ChBm3hXz8Vb2Lq9Rk4Tn6WcJEJ8I';
+const ORDER_ID = 'q7Yv2HcB4xPn8KdR3mWt6LsFjA9ZY';
+const PAYMENT_ID = 'Rb4xW9mKc2TqLz7Hn5VjD8sPyF3gA';
+
+test('reads a paid invoice', () => {
+  assert.deepEqual(readPaymentUpdate(fixture('invoice.payment_made')), {
+    objectId: INVOICE_ID,
+    match: { invoiceId: INVOICE_ID },
+    status: 'paid'
+  });
+});
+
+test('reads a cancelled invoice as failed', () => {
+  assert.deepEqual(readPaymentUpdate(fixture('invoice.canceled')), {
+    objectId: 'inv:0-ChCx7Lp2Wq9Mn4Rt8Vk3Hb6ZEJ8I',
+    match: { invoiceId: 'inv:0-ChCx7Lp2Wq9Mn4Rt8Vk3Hb6ZEJ8I' },
+    status: 'failed'
+  });
+});
+
+test('reads a payment with the order it paid for, so an invoice payment can be matched', () => {
+  assert.deepEqual(readPaymentUpdate(fixture('payment.updated')), {
+    objectId: PAYMENT_ID,
+    match: { paymentId: PAYMENT_ID, orderId: ORDER_ID },
+    status: 'paid',
+    paymentId: PAYMENT_ID
+  });
+  assert.equal(readPaymentUpdate(fixture('payment.updated.failed'))?.status, 'failed');
+});
+
+test('reads a refund against the payment it refunds', () => {
+  assert.deepEqual(readPaymentUpdate(fixture('refund.updated')), {
+    objectId: 'Rb4xW9mKc2TqLz7Hn5VjD8sPyF3gA_Tm9Xc4Lq2Wv7Bn5Rk8Hp3Zj6DfY',
+    match: { paymentId: PAYMENT_ID },
+    status: null,
+    refund: { id: 'Rb4xW9mKc2TqLz7Hn5VjD8sPyF3gA_Tm9Xc4Lq2Wv7Bn5Rk8Hp3Zj6DfY', status: 'completed', amountCents: 500 }
+  });
+});
+
+test('a paid invoice keeps its payment, so the order can be refunded', async () => {
+  const store = new MemStorage();
+  const order = await store.createDeliveryRequest({
+    tenantId: TENANT_ID,
+    businessId: 'shop',
+    customerName: 'Dana Whitfield',
+    phone: '555-0100',
+    email: 'dana@example.com',
+    pickupAddress: '1004 A Ave E, Oskaloosa, IA 52577',
+    deliveryAddress: '218 N Market St, Oskaloosa, IA',
+    preferredDate: '2026-10-19',
+    preferredTime: '12:00',
+    paymentMethod: 'online_payment',
+    totalAmount: '14.50'
+  });
+  await store.updateDeliveryRequest(order.id, { paymentProvider: 'square', squareInvoiceId: INVOICE_ID, squareOrderId: ORDER_ID });
+
+  // A declined card leaves the invoice open for another try
+  const declined = await handleSquareWebhook(store, TENANT_ID, fixture('payment.updated.failed'));
+  assert.equal(declined.outcome, 'unchanged');
+  assert.equal((await store.getDeliveryRequestById(order.id))?.paymentStatus, 'pending');
+
+  const paid = await handleSquareWebhook(store, TENANT_ID, fixture('payment.updated'));
+  assert.equal(paid.outcome, 'applied');
+  const afterPayment = await store.getDeliveryRequestById(order.id);
+  assert.equal(afterPayment?.paymentStatus, 'paid');
+  assert.equal(afterPayment?.squarePaymentId, PAYMENT_ID);
+
+  assert.equal((await handleSquareWebhook(store, TENANT_ID, fixture('invoice.payment_made'))).outcome, 'unchanged');
+  assert.equal((await handleSquareWebhook(store, TENANT_ID, fixture('payment.updated'))).duplicate, true);
+
+  assert.equal((await handleSquareWebhook(store, TENANT_ID, fixture('refund.updated'))).outcome, 'applied');
+  const refunded = await store.getDeliveryRequestById(order.id);
+  assert.equal(refunded?.refundedAmount, '5.00');
+  assert.equal(refunded?.paymentStatus, 'paid'); // partly refunded
+});
@@ -0,0 +1,93 @@
+import type { PaymentStatus, PaymentTransactionStatus, SquareWebhookPayload } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { handlePaymentEvent, type PaymentUpdate, type PaymentWebhookResult } from './paymentWebhooks.js';
+
+function fromPaymentStatus(status: string | undefined): PaymentStatus | null {
+  switch (status) {
+    case 'COMPLETED':
+      return 'paid';
+    case 'FAILED':
+    case 'CANCELED':
+      return 'failed';
+    case 'APPROVED':
+    case 'PENDING':
+      return 'pending';
+    default:
+      return null;
+  }
+}
+
+function fromInvoiceStatus(status: string | undefined): PaymentStatus | null {
+  switch (status) {
+    case 'PAID':
+      return 'paid';
+    case 'FAILED':
+    case 'CANCELED':
+      return 'failed';
+    case 'REFUNDED':
+      return 'refunded';
+    case 'UNPAID':
+    case 'SCHEDULED':
+    case 'PARTIALLY_PAID':
+    case 'PAYMENT_PENDING':
+      return 'pending';
+    default:
+      return null; // DRAFT, PARTIALLY_REFUNDED
+  }
+}
+
+function fromRefundStatus(status: string | undefined): PaymentTransactionStatus {
+  if (status === 'COMPLETED') return 'completed';
+  if (status === 'FAILED' || status === 'REJECTED') return 'failed';
+  return 'pending';
+}
+
+/**
+ * Reads the payment, invoice or refund out of a notification. Undefined for event types we don't act on.
+ */
+export function readPaymentUpdate(payload: SquareWebhookPayload): PaymentUpdate | undefined {
+  const object = payload.data?.object ?? {};
+
+  // An invoice's payment is only known by the order it paid for until it's stored on the delivery
+  if (payload.type === 'payment.created' || payload.type === 'payment.updated') {
+    const payment = object.payment;
+    if (!payment?.id) return undefined;
+    return {
+      objectId: payment.id,
+      match: { paymentId: payment.id, ...(payment.order_id && { orderId: payment.order_id }) },
+      status: fromPaymentStatus(payment.status),
+      paymentId: payment.id
+    };
+  }
+
+  if (payload.type.startsWith('invoice.')) {
+    const invoice = object.invoice;
+    if (!invoice?.id) return undefined;
+    return { objectId: invoice.id, match: { invoiceId: invoice.id }, status: fromInvoiceStatus(invoice.status) };
+  }
+
+  if (payload.type === 'refund.created' || payload.type === 'refund.updated') {
+    const refund = object.refund;
+    if (!refund?.id || !refund.payment_id) return undefined;
+    return {
+      objectId: refund.id,
+      match: { paymentId: refund.payment_id },
+      status: null,
+      refund: { id: refund.id, status: fromRefundStatus(refund.status), amountCents: Number(refund.amount_money?.amount ?? 0) }
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Applies a verified Square notification to the tenant's deliveries - see handlePaymentEvent.
+ */
+export function handleSquareWebhook(store: IStorage, tenantId: string, payload: SquareWebhookPayload): Promise<PaymentWebhookResult> {
+  return handlePaymentEvent(store, tenantId, {
+    eventId: payload.event_id,
+    eventType: payload.type,
+    objectId: payload.data?.id ?? null,
+    update: readPaymentUpdate(payload)
+  });
+}
@@ -0,0 +1,123 @@
+import Stripe from 'stripe';
+import type { PaymentTransactionStatus } from '../shared/schema.js';
+import type {
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderInvoiceRequest,
+  ProviderInvoiceResult,
+  ProviderRefund,
+  WebhookRequest
+} from './paymentProvider.js';
+
+export const STRIPE_SIGNATURE_HEADER = 'stripe-signature';
+
+const INVOICE_DAYS_UNTIL_DUE = 30;
+
+function fromRefundStatus(status: string | null): PaymentTransactionStatus {
+  if (status === 'succeeded') return 'completed';
+  if (status === 'failed' || status === 'canceled') return 'failed';
+  return 'pending';
+}
+
+/**
+ * A tenant's own Stripe account behind the PaymentProvider interface. Orders are paid through Stripe-hosted invoices.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private stripe: Stripe;
+  private webhookSecret: string | null;
+
+  constructor(config: { secretKey: string; webhookSecret?: string | null }) {
+    if (!config.secretKey) {
+      throw new Error('Stripe secret key is required');
+    }
+    this.stripe = new Stripe(config.secretKey);
+    this.webhookSecret = config.webhookSecret ?? null;
+  }
+
+  async createInvoice(request: ProviderInvoiceRequest): Promise<ProviderInvoiceResult> {
+    try {
+      const customer = await this.stripe.customers.create({
+        name: request.customer.name,
+        ...(request.customer.email && { email: request.customer.email }),
+        ...(request.customer.phone && { phone: request.customer.phone })
+      });
+      const invoice = await this.stripe.invoices.create({
+        customer: customer.id,
+        collection_method: 'send_invoice',
+        days_until_due: INVOICE_DAYS_UNTIL_DUE,
+        description: request.description,
+        metadata: { orderId: request.orderId, title: request.title }
+      });
+      if (request.amountCents > 0) {
+        await this.stripe.invoiceItems.create({
+          customer: customer.id,
+          invoice: invoice.id,
+          amount: request.amountCents,
+          currency: 'usd',
+          description: request.title
+        });
+      }
+      if (request.tipCents) {
+        await this.stripe.invoiceItems.create({
+          customer: customer.id,
+          invoice: invoice.id,
+          amount: request.tipCents,
+          currency: 'usd',
+          description: 'Driver tip'
+        });
+      }
+
+      const finalized = await this.stripe.invoices.finalizeInvoice(invoice.id!);
+      await this.stripe.invoices.sendInvoice(finalized.id!);
+      return { success: true, invoiceId: finalized.id, publicUrl: finalized.hosted_invoice_url ?? undefined };
+    } catch (error: any) {
+      console.error('Stripe invoice error:', error);
+      return { success: false, error: error.message || 'Invoice creation failed' };
+    }
+  }
+
+  async refund(paymentId: string, amountCents: number, reason: string): Promise<ProviderRefund> {
+    try {
+      const refund = await this.stripe.refunds.create({
+        payment_intent: paymentId,
+        amount: amountCents,
+        reason: 'requested_by_customer',
+        metadata: { reason }
+      });
+      return { id: refund.id, status: fromRefundStatus(refund.status) };
+    } catch (error: any) {
+      console.error('Stripe refund error:', error);
+      throw new Error(`Refund failed: ${error.message}`);
+    }
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    const signature = request.headers[STRIPE_SIGNATURE_HEADER];
+    if (!this.webhookSecret || !signature) {
+      return false;
+    }
+    try {
+      this.stripe.webhooks.constructEvent(request.rawBody, signature, this.webhookSecret);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const account = await this.stripe.accounts.retrieve();
+      return {
+        success: true,
+        accountName: account.business_profile?.name || account.settings?.dashboard?.display_name || account.email || account.id
+      };
+    } catch (error: any) {
+      console.error('Stripe connection test error:', error);
+      return {
+        success: false,
+        error: error?.type === 'StripeAuthenticationError' ? 'Stripe rejected the secret key' : `Could not reach Stripe: ${error?.message || 'unknown error'}`
+      };
+    }
+  }
+}
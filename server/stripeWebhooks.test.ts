@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { stripeWebhookPayloadSchema } from '../shared/schema.js';
+import { readStripePaymentUpdate } from './stripeWebhooks.js';
+
+// Events as Stripe sent them, parsed the way the webhook route parses them
+const fixture = (name: string) =>
+  stripeWebhookPayloadSchema.parse(JSON.parse(readFileSync(new URL(`./__fixtures__/stripe/${name}.json`, import.meta.url), 'utf8')));
+
+const INVOICE_ID = 'in_1QxR6pGk2Lm9Np4TbC7dE2fH';
+const PAYMENT_INTENT_ID = 'pi_3QxR7qGk2Lm9Np4T0kM5nP7r';
+
+test('reads a paid invoice', () => {
+  assert.deepEqual(readStripePaymentUpdate(fixture('invoice.paid')), {
+    objectId: INVOICE_ID,
+    match: { invoiceId: INVOICE_ID },
+    status: 'paid'
+  });
+});
+
+test('reads a voided invoice as failed', () => {
+  assert.deepEqual(readStripePaymentUpdate(fixture('invoice.voided')), {
+    objectId: 'in_1QxU9kGk2Lm9Np4ThJ2kL4mN',
+    match: { invoiceId: 'in_1QxU9kGk2Lm9Np4ThJ2kL4mN' },
+    status: 'failed'
+  });
+});
+
+test('reads the payment intent that settled an invoice, so the order can be refunded', () => {
+  assert.deepEqual(readStripePaymentUpdate(fixture('invoice_payment.paid')), {
+    objectId: 'inpay_1QxR7rGk2Lm9Np4TfG8hJ3kL',
+    match: { invoiceId: INVOICE_ID },
+    status: 'paid',
+    paymentId: PAYMENT_INTENT_ID
+  });
+});
+
+test('reads a failed payment intent', () => {
+  assert.deepEqual(readStripePaymentUpdate(fixture('payment_intent.payment_failed')), {
+    objectId: 'pi_3QxR5aGk2Lm9Np4T0zY8xW7v',
+    match: { paymentId: 'pi_3QxR5aGk2Lm9Np4T0zY8xW7v' },
+    status: 'failed'
+  });
+});
+
+test('reads a refund against the payment intent it refunds', () => {
+  assert.deepEqual(readStripePaymentUpdate(fixture('refund.updated')), {
+    objectId: 're_3QxR7qGk2Lm9Np4T0sT4uV5w',
+    match: { paymentId: PAYMENT_INTENT_ID },
+    status: null,
+    refund: { id: 're_3QxR7qGk2Lm9Np4T0sT4uV5w', status: 'completed', amountCents: 500 }
+  });
+});
+
+test('ignores events it does not act on', () => {
+  assert.equal(readStripePaymentUpdate(fixture('customer.created')), undefined);
+});
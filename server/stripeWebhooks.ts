@@ -0,0 +1,74 @@
+import type Stripe from 'stripe';
+import type { PaymentTransactionStatus, StripeWebhookPayload } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { handlePaymentEvent, type PaymentUpdate, type PaymentWebhookResult } from './paymentWebhooks.js';
+
+const idOf = (value: string | { id?: string } | null | undefined) => (typeof value === 'string' ? value : value?.id);
+
+function fromRefundStatus(status: string | null): PaymentTransactionStatus {
+  if (status === 'succeeded') return 'completed';
+  if (status === 'failed' || status === 'canceled') return 'failed';
+  return 'pending';
+}
+
+/**
+ * Reads the invoice, payment intent or refund out of a Stripe event. Undefined for event types we don't act on.
+ */
+export function readStripePaymentUpdate(payload: StripeWebhookPayload): PaymentUpdate | undefined {
+  const event = payload as unknown as Stripe.Event;
+
+  switch (event.type) {
+    // A failed attempt leaves the invoice open for the customer to try again, so only voiding it counts as failed
+    case 'invoice.paid':
+    case 'invoice.voided':
+    case 'invoice.marked_uncollectible': {
+      const invoice = event.data.object;
+      if (!invoice.id) return undefined;
+      return { objectId: invoice.id, match: { invoiceId: invoice.id }, status: event.type === 'invoice.paid' ? 'paid' : 'failed' };
+    }
+
+    // Carries the payment intent behind a paid invoice, which refunds go through
+    case 'invoice_payment.paid': {
+      const invoicePayment = event.data.object;
+      const invoiceId = idOf(invoicePayment.invoice);
+      if (!invoiceId) return undefined;
+      return { objectId: invoicePayment.id, match: { invoiceId }, status: 'paid', paymentId: idOf(invoicePayment.payment.payment_intent) };
+    }
+
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed':
+    case 'payment_intent.canceled': {
+      const intent = event.data.object;
+      return { objectId: intent.id, match: { paymentId: intent.id }, status: event.type === 'payment_intent.succeeded' ? 'paid' : 'failed' };
+    }
+
+    case 'refund.created':
+    case 'refund.updated':
+    case 'refund.failed': {
+      const refund = event.data.object;
+      const paymentId = idOf(refund.payment_intent);
+      if (!paymentId) return undefined;
+      return {
+        objectId: refund.id,
+        match: { paymentId },
+        status: null,
+        refund: { id: refund.id, status: fromRefundStatus(refund.status), amountCents: refund.amount }
+      };
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Applies a verified Stripe event to the tenant's deliveries - see handlePaymentEvent.
+ */
+export function handleStripeWebhook(store: IStorage, tenantId: string, payload: StripeWebhookPayload): Promise<PaymentWebhookResult> {
+  return handlePaymentEvent(store, tenantId, {
+    eventId: payload.id,
+    eventType: payload.type,
+    objectId: typeof payload.data.object.id === 'string' ? payload.data.object.id : null,
+    update: readStripePaymentUpdate(payload)
+  });
+}
@@ -158,6 +158,30 @@ export class SupabaseStorageService {
     return this.getPublicURL(data.path);
   }
 
+  // Upload a proof-of-delivery photo or recipient signature
+  async uploadDeliveryProof(file: Buffer, deliveryId: string, kind: 'photo' | 'signature', contentType: string): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase client not initialized. Cannot upload proof of delivery.');
+    }
+    
+    const extension = contentType.split('/')[1] || 'png';
+    const filePath = `delivery-proofs/${deliveryId}/${kind}-${randomUUID()}.${extension}`;
+    
+    const { data, error } = await supabase.storage
+      .from(this.bucketName)
+      .upload(filePath, file, {
+        contentType,
+        upsert: false,
+        duplex: 'half'
+      });
+
+    if (error) {
+      throw new Error(`Failed to upload proof of delivery: ${error.message}`);
+    }
+
+    return this.getPublicURL(data.path);
+  }
+
   // Delete old logo when updating
   async deleteLogo(logoUrl: string): Promise<void> {
     if (!supabase) {
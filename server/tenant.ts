@@ -16,9 +16,15 @@ export interface TenantContext {
   logoUrl?: string;
   primaryColor: string;
   planType: string;
+  billingStatus?: string; // trial, active, past_due, cancelled
+  readOnly?: boolean; // subscription lapsed - see READ_ONLY_ALLOWED_PATHS
   isMainSite?: boolean; // Flag to indicate this is the main marketing site
 }
 
+// What a read-only tenant can still do besides reading: reactivate, sign in, and receive payment webhooks
+const READ_ONLY_ALLOWED_PATHS = ['/api/admin/billing', '/api/auth/', '/api/webhooks/'];
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 // In-memory tenant cache for performance
 const tenantCache = new Map<string, TenantContext>();
 
@@ -137,6 +143,8 @@ function transformTenant(dbTenant: any): TenantContext {
     logoUrl: dbTenant.logoUrl,
     primaryColor: dbTenant.primaryColor || '#f97316',
     planType: dbTenant.planType || 'basic',
+    billingStatus: dbTenant.billingStatus,
+    readOnly: dbTenant.billingStatus === 'cancelled',
   };
 }
 
@@ -227,6 +235,16 @@ export async function resolveTenant(req: Request, res: Response, next: NextFunct
       }
     }
 
+    // A cancelled subscription keeps its data visible, but nothing changes until the business reactivates.
+    // Other instances' caches pick up a lapse or reactivation within CACHE_TIMEOUT.
+    if (tenant.readOnly && !READ_METHODS.includes(req.method) && !READ_ONLY_ALLOWED_PATHS.some(path => req.path.startsWith(path))) {
+      return res.status(402).json({
+        error: 'Account read-only',
+        message: 'This business account is read-only until its subscription is reactivated.',
+        readOnly: true
+      });
+    }
+
     // Add tenant to request context
     (req as any).tenant = tenant;
     (req as any).isMainSite = isMainSite;
@@ -256,6 +274,12 @@ export function getCurrentTenantId(req: Request): string {
   return (req as any).tenantId || DEFAULT_TENANT_ID;
 }
 
+// Tenant that owns orders placed through this request.
+// The marketing site has no tenant of its own, so its orders belong to the default tenant.
+export function getOrderTenantId(req: Request): string {
+  return (req as any).isMainSite ? DEFAULT_TENANT_ID : getCurrentTenantId(req);
+}
+
 // Clear tenant cache (useful for admin operations)
 export function clearTenantCache() {
   tenantCache.clear();
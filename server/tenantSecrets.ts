@@ -0,0 +1,169 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for the payment credentials tenants give us. Each secret is encrypted with its own random
+ * data key (AES-256-GCM), and the data key is wrapped with the master key from TENANT_SECRETS_KEY. Rotating the
+ * master key only re-wraps data keys - see scripts/rotate-tenant-secrets.ts.
+ *
+ * Stored form: enc:v1:<master key id>:<wrapped data key>:<encrypted value>, each part base64 of iv + tag + ciphertext.
+ * Values saved before encryption was added have no prefix and are read as they are until the rotation command
+ * encrypts them.
+ */
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Business settings columns holding tenant secrets
+export const TENANT_SECRET_FIELDS = ['squareAccessToken', 'squareWebhookSignatureKey', 'stripeSecretKey', 'stripeWebhookSecret'] as const;
+export type TenantSecretField = typeof TENANT_SECRET_FIELDS[number];
+
+// Shown instead of a secret, followed by its last 4 characters
+export const SECRET_MASK = '••••';
+
+export class TenantSecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantSecretsError';
+  }
+}
+
+interface MasterKey {
+  id: string; // first 8 hex characters of the key's SHA-256, so a secret records which key wrapped it
+  key: Buffer;
+}
+
+function parseMasterKey(value: string): MasterKey {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new TenantSecretsError('Tenant secrets keys must be 32 bytes, base64 encoded (openssl rand -base64 32)');
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+// The key new secrets are wrapped with
+function currentMasterKey(): MasterKey {
+  const value = process.env.TENANT_SECRETS_KEY;
+  if (!value) {
+    throw new TenantSecretsError('TENANT_SECRETS_KEY is not set - tenant credentials cannot be saved or read');
+  }
+  return parseMasterKey(value);
+}
+
+// Keys that can still unwrap a secret: the current one, plus the comma-separated TENANT_SECRETS_PREVIOUS_KEYS while rotating
+function masterKeys(): MasterKey[] {
+  const previous = (process.env.TENANT_SECRETS_PREVIOUS_KEYS || '').split(',').filter(value => value.trim());
+  return [currentMasterKey(), ...previous.map(parseMasterKey)];
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// Ties a secret to its tenant and column, so a ciphertext copied into another row won't decrypt
+const secretContext = (tenantId: string, field: TenantSecretField) => `${tenantId}:${field}`;
+
+interface SealedSecret {
+  keyId: string;
+  wrappedKey: string;
+  value: string;
+}
+
+function parseSealedSecret(stored: string): SealedSecret {
+  const [keyId, wrappedKey, value] = stored.slice(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !value) {
+    throw new TenantSecretsError('Stored tenant secret is malformed');
+  }
+  return { keyId, wrappedKey, value };
+}
+
+function unwrapDataKey(secret: SealedSecret): Buffer {
+  const masterKey = masterKeys().find(candidate => candidate.id === secret.keyId);
+  if (!masterKey) {
+    throw new TenantSecretsError(`Tenant secret was encrypted with master key ${secret.keyId}, which is not configured`);
+  }
+  return open(masterKey.key, secret.wrappedKey, 'data-key');
+}
+
+export function isEncryptedSecret(stored: string | null | undefined): boolean {
+  return !!stored && stored.startsWith(PREFIX);
+}
+
+export function encryptTenantSecret(tenantId: string, field: TenantSecretField, value: string): string {
+  const masterKey = currentMasterKey();
+  const dataKey = randomBytes(32);
+  const wrappedKey = seal(masterKey.key, dataKey, 'data-key');
+  return `${PREFIX}${masterKey.id}:${wrappedKey}:${seal(dataKey, Buffer.from(value, 'utf8'), secretContext(tenantId, field))}`;
+}
+
+export function decryptTenantSecret(tenantId: string, field: TenantSecretField, stored: string | null | undefined): string | null {
+  if (!stored) {
+    return null;
+  }
+  if (!isEncryptedSecret(stored)) {
+    return stored; // saved before encryption - the rotation command encrypts it
+  }
+  const secret = parseSealedSecret(stored);
+  return open(unwrapDataKey(secret), secret.value, secretContext(tenantId, field)).toString('utf8');
+}
+
+/**
+ * The stored secret with its data key wrapped by the current master key, or encrypted for the first time if it
+ * was saved in plain text. Undefined when it is already up to date.
+ */
+export function rewrapTenantSecret(tenantId: string, field: TenantSecretField, stored: string): string | undefined {
+  if (!isEncryptedSecret(stored)) {
+    return encryptTenantSecret(tenantId, field, stored);
+  }
+  const secret = parseSealedSecret(stored);
+  const masterKey = currentMasterKey();
+  if (secret.keyId === masterKey.id) {
+    return undefined;
+  }
+  return `${PREFIX}${masterKey.id}:${seal(masterKey.key, unwrapDataKey(secret), 'data-key')}:${secret.value}`;
+}
+
+/**
+ * Encrypts the secrets in a business settings update. Empty values clear the secret; undefined leaves it alone.
+ */
+export function sealTenantSecrets<T extends Partial<Record<TenantSecretField, string | null | undefined>>>(tenantId: string, update: T): T {
+  const sealed = { ...update };
+  for (const field of TENANT_SECRET_FIELDS) {
+    const value = update[field];
+    if (value !== undefined) {
+      (sealed as Record<TenantSecretField, string | null>)[field] = value ? encryptTenantSecret(tenantId, field, value) : null;
+    }
+  }
+  return sealed;
+}
+
+// What the browser sees of a stored secret: the mask and its last 4 characters
+export function maskTenantSecret(tenantId: string, field: TenantSecretField, stored: string | null | undefined): string | undefined {
+  if (!stored) {
+    return undefined;
+  }
+  try {
+    const value = decryptTenantSecret(tenantId, field, stored) ?? '';
+    return value.length > 4 ? `${SECRET_MASK}${value.slice(-4)}` : SECRET_MASK;
+  } catch (error) {
+    console.error(`Error reading tenant secret ${field}:`, error);
+    return SECRET_MASK;
+  }
+}
+
+// A masked value sent back by a settings form, meaning "keep what is saved"
+export function isMaskedSecret(value: unknown): boolean {
+  return typeof value === 'string' && (value.startsWith(SECRET_MASK) || value === '***');
+}
@@ -0,0 +1,106 @@
+import type { DeliveryRequest } from '../shared/schema.js';
+import type { IStorage } from './storage.js';
+import { getTenantPaymentProvider } from './paymentProvider.js';
+import { recordTipEarnings, reverseTipEarnings } from './driverEarnings.js';
+
+// Thrown when a tip can't be taken; status is the HTTP status the route answers with
+export class TipError extends Error {
+  constructor(message: string, public status: 400 | 409 = 400) {
+    super(message);
+    this.name = 'TipError';
+  }
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Adds a tip to a delivered order and sends the customer an invoice for it from the tenant's payment provider.
+ * The tip is recorded first so a second request can't invoice twice, and taken back off if the invoice can't be issued.
+ * The driver is credited once the provider's webhook reports the invoice paid.
+ */
+export async function addTipAfterDelivery(store: IStorage, delivery: DeliveryRequest, amount: number): Promise<DeliveryRequest> {
+  if (delivery.status !== 'completed') {
+    throw new TipError('You can add a tip once your order has been delivered');
+  }
+  if (!delivery.claimedByDriver) {
+    throw new TipError('This delivery has no driver to tip');
+  }
+  if (amount <= 0) {
+    throw new TipError('Choose a tip amount');
+  }
+
+  const provider = await getTenantPaymentProvider(store, delivery.tenantId);
+  if (!provider) {
+    throw new TipError("Online tipping isn't available for this business");
+  }
+
+  const tipped = await store.addDeliveryTip(delivery.id, amount.toFixed(2), 'after_delivery');
+  if (!tipped) {
+    throw new TipError('This delivery has already been tipped', 409);
+  }
+
+  try {
+    const invoice = await provider.createInvoice({
+      orderId: delivery.id,
+      customer: { name: delivery.customerName, email: delivery.email, phone: delivery.phone },
+      title: `Tip ${delivery.id.slice(0, 8)}`,
+      description: 'Thank you for tipping your driver',
+      amountCents: 0,
+      tipCents: toCents(amount)
+    });
+    if (!invoice.success) {
+      throw new Error(invoice.error || 'Invoice creation failed');
+    }
+    return await store.updateDeliveryRequest(delivery.id, {
+      tipInvoiceId: invoice.invoiceId ?? null,
+      tipInvoiceUrl: invoice.publicUrl ?? null
+    });
+  } catch (error) {
+    console.error('Error invoicing tip:', error);
+    await store.updateDeliveryRequest(delivery.id, { tipAmount: '0', tipSource: null, tippedAt: null });
+    throw new TipError("We couldn't set up payment for your tip - please try again");
+  }
+}
+
+/**
+ * Marks a delivery's tip paid once the provider confirms it, and credits the driver if the delivery is done.
+ * Returns whether anything changed.
+ */
+export async function confirmTipPaid(store: IStorage, delivery: DeliveryRequest): Promise<boolean> {
+  if (!(parseFloat(delivery.tipAmount) > 0) || delivery.tipPaidAt) {
+    return false;
+  }
+  const paid = await store.updateDeliveryRequest(delivery.id, { tipPaidAt: new Date() });
+  await recordTipEarnings(store, paid);
+  return true;
+}
+
+/**
+ * Takes a refunded tip back off the driver's earnings. Returns whether anything changed.
+ */
+export async function refundTip(store: IStorage, delivery: DeliveryRequest): Promise<boolean> {
+  if (!delivery.tipPaidAt) {
+    return false;
+  }
+  await reverseTipEarnings(store, delivery);
+  await store.updateDeliveryRequest(delivery.id, { tipPaidAt: null });
+  return true;
+}
+
+/**
+ * Drops an after-delivery tip whose invoice was cancelled or failed before it was paid, so the customer can tip
+ * again. Returns whether anything changed.
+ */
+export async function dropUnpaidTip(store: IStorage, delivery: DeliveryRequest): Promise<boolean> {
+  if (delivery.tipPaidAt || delivery.tipSource !== 'after_delivery') {
+    return false;
+  }
+  await store.updateDeliveryRequest(delivery.id, {
+    tipAmount: '0',
+    tipSource: null,
+    tippedAt: null,
+    tipInvoiceId: null,
+    tipInvoiceUrl: null
+  });
+  return true;
+}
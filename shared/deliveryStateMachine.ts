@@ -0,0 +1,202 @@
+import type { DeliveryRequest, DeliveryEventActorType } from "./schema.js";
+
+// Delivery lifecycle shared by the server (enforcement) and the client (which buttons to show)
+//
+//   pending ──► available ──► claimed ──► in_progress ──► completed
+//      │            │  ▲          │             │
+//      │            │  └──────────┘ (release)   │
+//      └────────────┴─────────────┴─────────────┴──► cancelled
+
+export const DELIVERY_STATUSES = ['pending', 'available', 'claimed', 'in_progress', 'completed', 'cancelled'] as const;
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+// Status given to newly created delivery requests - they go straight to the driver queue
+export const INITIAL_DELIVERY_STATUS: DeliveryStatus = 'available';
+
+export const TERMINAL_DELIVERY_STATUSES: readonly DeliveryStatus[] = ['completed', 'cancelled'];
+
+// Statuses that count against a driver's concurrent claim limit
+export const ACTIVE_DRIVER_STATUSES: readonly DeliveryStatus[] = ['claimed', 'in_progress'];
+
+// Used when a tenant has not configured maxActiveClaimsPerDriver
+export const DEFAULT_MAX_ACTIVE_CLAIMS_PER_DRIVER = 3;
+
+// Used when a tenant has not configured rushSlaMinutes
+export const DEFAULT_RUSH_SLA_MINUTES = 45;
+
+interface QueuedDelivery {
+  isRush: boolean;
+  dueBy?: Date | string | null;
+  createdAt: Date | string;
+}
+
+const toTime = (value: Date | string | null | undefined) => value ? new Date(value).getTime() : Infinity;
+
+/**
+ * Queue order for drivers and dispatchers: rush orders first, soonest due first, then oldest first.
+ * Takes serialized dates too, so the client can sort the same way.
+ */
+export function compareDeliveryPriority(a: QueuedDelivery, b: QueuedDelivery): number {
+  if (a.isRush !== b.isRush) return a.isRush ? -1 : 1;
+  return (toTime(a.dueBy) - toTime(b.dueBy)) || (toTime(a.createdAt) - toTime(b.createdAt));
+}
+
+// Field changes that must accompany a transition
+export type DeliveryTransitionEffect =
+  | 'assign_driver' // set claimedByDriver / claimedAt
+  | 'clear_driver'; // clear claimedByDriver / claimedAt / driverNotes
+
+export interface DeliveryTransitionRule {
+  from: DeliveryStatus;
+  to: DeliveryStatus;
+  roles: readonly DeliveryEventActorType[];
+  effects?: readonly DeliveryTransitionEffect[];
+}
+
+export const DELIVERY_TRANSITIONS: readonly DeliveryTransitionRule[] = [
+  { from: 'pending', to: 'available', roles: ['dispatcher', 'system'] },
+  { from: 'pending', to: 'cancelled', roles: ['customer', 'dispatcher', 'system'] },
+  { from: 'available', to: 'claimed', roles: ['driver', 'dispatcher', 'system'], effects: ['assign_driver'] },
+  { from: 'available', to: 'cancelled', roles: ['customer', 'dispatcher', 'system'] },
+  { from: 'claimed', to: 'available', roles: ['driver', 'dispatcher', 'system'], effects: ['clear_driver'] },
+  { from: 'claimed', to: 'in_progress', roles: ['driver'] },
+  { from: 'claimed', to: 'cancelled', roles: ['dispatcher', 'system'], effects: ['clear_driver'] },
+  { from: 'in_progress', to: 'completed', roles: ['driver', 'dispatcher'] },
+  { from: 'in_progress', to: 'cancelled', roles: ['dispatcher'] },
+];
+
+export class DeliveryTransitionError extends Error {
+  readonly from: string;
+  readonly to: string;
+
+  constructor(from: string, to: string, message?: string) {
+    super(message || `Cannot change delivery status from '${from}' to '${to}'`);
+    this.name = "DeliveryTransitionError";
+    this.from = from;
+    this.to = to;
+    Object.setPrototypeOf(this, DeliveryTransitionError.prototype);
+  }
+}
+
+export type DeliveryClaimFailureReason = 'already_claimed' | 'claim_limit_reached' | 'not_released';
+
+const CLAIM_FAILURE_MESSAGES: Record<DeliveryClaimFailureReason, string> = {
+  already_claimed: "This delivery was already claimed by another driver",
+  claim_limit_reached: "You have reached the maximum number of active deliveries",
+  not_released: "This delivery is scheduled and isn't open to drivers yet"
+};
+
+// A claim lost a race with another driver, the driver is at their active claim limit, or a scheduled order is still held back
+export class DeliveryClaimError extends Error {
+  readonly reason: DeliveryClaimFailureReason;
+
+  constructor(reason: DeliveryClaimFailureReason, message?: string) {
+    super(message || CLAIM_FAILURE_MESSAGES[reason]);
+    this.name = "DeliveryClaimError";
+    this.reason = reason;
+    Object.setPrototypeOf(this, DeliveryClaimError.prototype);
+  }
+}
+
+// A dispatcher assignment cannot be acted on (already answered, withdrawn, or belongs to another driver)
+export class DeliveryAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryAssignmentError";
+    Object.setPrototypeOf(this, DeliveryAssignmentError.prototype);
+  }
+}
+
+// A multi-stop delivery stop cannot be completed yet (out of order, already done, or delivery not in progress)
+export class DeliveryStopError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryStopError";
+    Object.setPrototypeOf(this, DeliveryStopError.prototype);
+  }
+}
+
+// A scheduled delivery slot filled up while the order was being placed
+export class DeliverySlotFullError extends Error {
+  constructor(message = "That delivery slot is full - please pick another") {
+    super(message);
+    this.name = "DeliverySlotFullError";
+    Object.setPrototypeOf(this, DeliverySlotFullError.prototype);
+  }
+}
+
+// Scheduled orders stay out of drivers' and dispatchers' hands until their release time
+export function isReleased(delivery: { releaseAt: Date | null }, now: Date = new Date()): boolean {
+  return !delivery.releaseAt || new Date(delivery.releaseAt) <= now;
+}
+
+export function isDeliveryStatus(value: string): value is DeliveryStatus {
+  return (DELIVERY_STATUSES as readonly string[]).includes(value);
+}
+
+export function isActiveDriverStatus(status: string): boolean {
+  return (ACTIVE_DRIVER_STATUSES as readonly string[]).includes(status);
+}
+
+export function findTransition(from: string, to: string): DeliveryTransitionRule | undefined {
+  return DELIVERY_TRANSITIONS.find(t => t.from === from && t.to === to);
+}
+
+// Statuses the given role may move a delivery to from its current status
+export function getAllowedTransitions(from: string, role: DeliveryEventActorType): DeliveryStatus[] {
+  return DELIVERY_TRANSITIONS
+    .filter(t => t.from === from && t.roles.includes(role))
+    .map(t => t.to);
+}
+
+/**
+ * Validate a status change and return the rule that permits it.
+ * Returns null when the status is unchanged (e.g. a driver saving notes), which is always allowed.
+ * Throws DeliveryTransitionError for unknown statuses, illegal transitions or unauthorized roles.
+ */
+export function assertTransition(from: string, to: string, role: DeliveryEventActorType): DeliveryTransitionRule | null {
+  if (!isDeliveryStatus(to)) {
+    throw new DeliveryTransitionError(from, to, `Unknown delivery status '${to}'`);
+  }
+  if (from === to) {
+    return null;
+  }
+
+  const rule = findTransition(from, to);
+  if (!rule) {
+    throw new DeliveryTransitionError(from, to);
+  }
+  if (!rule.roles.includes(role)) {
+    throw new DeliveryTransitionError(from, to, `A ${role} cannot change delivery status from '${from}' to '${to}'`);
+  }
+  return rule;
+}
+
+// Translate a rule's side effects into the field updates to write alongside the new status
+export function getTransitionUpdates(
+  rule: DeliveryTransitionRule | null,
+  context: { driverId?: string | null; notes?: string | null; now?: Date } = {}
+): Partial<DeliveryRequest> {
+  const updates: Partial<DeliveryRequest> = {};
+  if (!rule) return updates;
+
+  updates.status = rule.to;
+  for (const effect of rule.effects ?? []) {
+    switch (effect) {
+      case 'assign_driver':
+        if (!context.driverId) {
+          throw new DeliveryTransitionError(rule.from, rule.to, "A driver is required to claim a delivery");
+        }
+        updates.claimedByDriver = context.driverId;
+        updates.claimedAt = context.now ?? new Date();
+        updates.driverNotes = context.notes ?? null;
+        break;
+      case 'clear_driver':
+        updates.claimedByDriver = null;
+        updates.claimedAt = null;
+        updates.driverNotes = null;
+        break;
+    }
+  }
+  return updates;
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, uuid, numeric, jsonb, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, uuid, numeric, jsonb, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DELIVERY_STATUSES } from "./deliveryStateMachine.js";
 
 // Removed: pendingSignups table - no longer needed with direct signup flow
 
@@ -36,6 +37,9 @@ export const tenants = pgTable("tenants", {
   stripeSubscriptionId: text("stripe_subscription_id"),
   billingStatus: text("billing_status").default("trial").notNull(), // trial, active, past_due, cancelled
   nextBillingDate: timestamp("next_billing_date"),
+  trialReminderDays: integer("trial_reminder_days"), // days left on the trial when the last reminder went out
+  pastDueAt: timestamp("past_due_at"),
+  cancelledAt: timestamp("cancelled_at"),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -106,6 +110,7 @@ export const businesses = pgTable("businesses", {
   isActive: boolean("is_active").default(true).notNull(),
   category: text("category"), // e.g., "restaurant", "grocery", "retail"
   imageUrl: text("image_url"), // Supabase Storage URL for business image
+  requireProofOfDelivery: boolean("require_proof_of_delivery").default(false).notNull(), // drivers must capture proof for orders picked up here
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -124,20 +129,169 @@ export const deliveryRequests = pgTable("delivery_requests", {
   paymentMethod: text("payment_method").notNull(),
   specialInstructions: text("special_instructions"),
   marketingConsent: text("marketing_consent"),
-  status: text("status").default("pending").notNull(), // pending, available, claimed, in_progress, completed, cancelled
+  status: text("status").default("pending").notNull(), // pending, available, claimed, in_progress, completed, cancelled - see deliveryStateMachine.ts
   usedFreeDelivery: boolean("used_free_delivery").default(false),
   claimedByDriver: uuid("claimed_by_driver"), // References user_profiles.id where role = 'driver'
   claimedAt: timestamp("claimed_at"),
   driverNotes: text("driver_notes"),
   // Payment and billing information
-  squarePaymentId: text("square_payment_id"), // Square payment ID for tracking
+  paymentProvider: text("payment_provider"), // square or stripe - who took the payment; null for orders from before Stripe, which went through Square
+  squarePaymentId: text("square_payment_id"), // Payment ID at paymentProvider (a PaymentIntent ID for Stripe) for tracking
   squareInvoiceId: text("square_invoice_id"), // Square invoice ID for invoicing
-  paymentStatus: text("payment_status").default("pending"), // pending, paid, failed, refunded
-  totalAmount: numeric("total_amount", { precision: 10, scale: 2 }), // Total delivery cost
+  squareOrderId: text("square_order_id"), // Square order behind the invoice - Square's payment events name the order, not the invoice
+  paymentStatus: text("payment_status").default("pending"), // pending, paid, failed, refunded - kept in step with Square by its webhooks
+  totalAmount: numeric("total_amount", { precision: 10, scale: 2 }), // Total delivery cost, copied from the quote
+  refundedAmount: numeric("refunded_amount", { precision: 10, scale: 2 }).default("0").notNull(), // Running total of refunds, reserved before Square is asked
+  quoteId: uuid("quote_id"), // delivery_quotes row the customer accepted at checkout
+  orderValue: numeric("order_value", { precision: 10, scale: 2 }), // Value of the goods as entered by the customer, for order-value pricing
+  // Rush orders are priced with the rush multiplier and urgent minimum, jump the driver queue and get the tenant's rush SLA
+  isRush: boolean("is_rush").default(false).notNull(),
+  dueBy: timestamp("due_by"), // SLA target for rush orders, null otherwise
   invoiceUrl: text("invoice_url"), // Square invoice public URL
+  // Driver tip on top of totalAmount - all of it goes to the claimed driver, and it never earns loyalty points
+  tipAmount: numeric("tip_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  tipSource: text("tip_source"), // checkout, after_delivery - null until the customer tips
+  tippedAt: timestamp("tipped_at"),
+  tipPaidAt: timestamp("tip_paid_at"), // when the provider confirmed the tip was paid - the driver is only credited from then
+  tipInvoiceId: text("tip_invoice_id"), // payment provider invoice for a tip added after delivery
+  tipInvoiceUrl: text("tip_invoice_url"),
+  trackingToken: text("tracking_token").unique(), // Secret for the public /track/:token page - never list it
+  // Scheduled deliveries - the booked time slot, null for same-day orders
+  scheduledSlotStart: timestamp("scheduled_slot_start"),
+  scheduledSlotEnd: timestamp("scheduled_slot_end"),
+  releaseAt: timestamp("release_at"), // Kept out of the driver queue until this time (slot start minus the tenant's lead time)
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Delivery status audit trail - one row per status transition
+export const deliveryEvents = pgTable("delivery_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  deliveryId: varchar("delivery_id").notNull().references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // null for the creation event
+  toStatus: text("to_status").notNull(),
+  actorType: text("actor_type").notNull(), // driver, dispatcher, customer, system
+  actorId: text("actor_id"), // Supabase user ID of the actor, when known
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Dispatcher-initiated assignments - the driver accepts or declines each one
+export const deliveryAssignments = pgTable("delivery_assignments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  deliveryId: varchar("delivery_id").notNull().references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  driverId: text("driver_id").notNull(), // business_staff.id of the assigned driver
+  assignedBy: text("assigned_by"), // Supabase user ID of the dispatcher, when known
+  status: text("status").default("pending").notNull(), // pending, accepted, declined, withdrawn
+  notes: text("notes"),
+  respondedAt: timestamp("responded_at"), // When the driver accepted/declined or the dispatcher withdrew it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// GPS pings from drivers while a delivery is in progress - pruned per DRIVER_LOCATION_RETENTION
+export const driverLocations = pgTable("driver_locations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  driverId: text("driver_id").notNull(),
+  deliveryId: varchar("delivery_id").references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  accuracy: doublePrecision("accuracy"), // meters, as reported by the device
+  heading: doublePrecision("heading"), // degrees from north
+  speed: doublePrecision("speed"), // meters per second
+  etaMinutes: integer("eta_minutes"), // to the delivery address, null when it couldn't be calculated
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+});
+
+// Ordered route for multi-stop deliveries (enableMultiStopDeliveries) - drivers work through the stops in sequence.
+// The parent's pickupAddress/deliveryAddress mirror the first and last stop.
+export const deliveryStops = pgTable("delivery_stops", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  deliveryId: varchar("delivery_id").notNull().references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(), // 0-based position in the route
+  type: text("type").notNull(), // pickup, dropoff
+  address: text("address").notNull(),
+  notes: text("notes"), // from the customer, e.g. "leave at side door"
+  status: text("status").default("pending").notNull(), // pending, completed, skipped
+  driverNotes: text("driver_notes"),
+  completedAt: timestamp("completed_at"), // when completed or skipped
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Evidence captured by the driver at drop-off - one per delivery, retaking replaces it
+export const deliveryProofs = pgTable("delivery_proofs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  deliveryId: varchar("delivery_id").notNull().unique().references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  driverId: text("driver_id").notNull(),
+  photoUrl: text("photo_url").notNull(), // Supabase Storage URL
+  signatureUrl: text("signature_url"), // Supabase Storage URL, when the recipient signed
+  recipientName: text("recipient_name").notNull(),
+  latitude: doublePrecision("latitude"), // where the driver was when capturing, null if GPS was unavailable
+  longitude: doublePrecision("longitude"),
+  accuracy: doublePrecision("accuracy"), // meters
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+});
+
+export const QUOTE_LINE_ITEM_TYPES = ['base_fee', 'extra_miles', 'rush', 'zone', 'rule', 'discount'] as const;
+export type QuoteLineItemType = typeof QUOTE_LINE_ITEM_TYPES[number];
+
+export interface QuoteLineItem {
+  type: QuoteLineItemType;
+  label: string;
+  amount: number; // dollars, negative for discounts
+}
+
+// Server-issued prices - order creation takes its totalAmount from an unexpired, unused quote instead of the client
+export const deliveryQuotes = pgTable("delivery_quotes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  pickupAddress: text("pickup_address").notNull(),
+  deliveryAddress: text("delivery_address").notNull(),
+  stops: jsonb("stops").$type<string[]>().default([]).notNull(), // extra drop-off addresses, in route order
+  isRush: boolean("is_rush").default(false).notNull(),
+  // What the pricing rules saw - the order has to match these too
+  businessId: varchar("business_id"),
+  customerId: text("customer_id"),
+  orderValue: numeric("order_value", { precision: 10, scale: 2 }),
+  deliverAt: timestamp("deliver_at"), // booked slot or opening time, null for as-soon-as-possible
+  promoCode: text("promo_code"), // normalized code the discount line came from
+  distance: doublePrecision("distance").notNull(), // miles, whole route
+  breakdown: jsonb("breakdown").$type<QuoteLineItem[]>().notNull(),
+  totalAmount: numeric("total_amount", { precision: 10, scale: 2 }).notNull(),
+  signature: text("signature").notNull(), // HMAC over the quote's contents - see server/deliveryQuotes.ts
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set when an order is placed with it; a quote can only be used once
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Map lookup caches - global rather than per tenant, since an address geocodes the same for everyone.
+// Keys are normalized addresses (see normalizeAddress in server/mapsService.ts); rows past expiresAt are ignored.
+export const geocodeCache = pgTable("geocode_cache", {
+  addressKey: text("address_key").primaryKey(),
+  formattedAddress: text("formatted_address"),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  provider: text("provider").$type<MapsProviderName>().notNull(), // who answered the original lookup
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const distanceCache = pgTable("distance_cache", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  originKey: text("origin_key").notNull(),
+  destinationKey: text("destination_key").notNull(),
+  distance: doublePrecision("distance").notNull(), // miles
+  duration: integer("duration").notNull(), // minutes
+  provider: text("provider").$type<MapsProviderName>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueRoute: unique().on(table.originKey, table.destinationKey), // one cached answer per direction
+}));
+
 // Business settings for tenant customization
 export const businessSettings = pgTable("business_settings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -203,6 +357,28 @@ export const businessSettings = pgTable("business_settings", {
   enableScheduledDeliveries: boolean("enable_scheduled_deliveries").default(false),
   enableMultiStopDeliveries: boolean("enable_multi_stop_deliveries").default(false),
   
+  // Scheduled Delivery Slots - cut from operatingHours in the tenant's timezone
+  deliverySlotMinutes: integer("delivery_slot_minutes").default(60),
+  deliverySlotCapacity: integer("delivery_slot_capacity").default(4), // orders per slot
+  scheduledReleaseLeadMinutes: integer("scheduled_release_lead_minutes").default(120), // how long before the slot drivers see the order
+  
+  // Dispatch Configuration
+  maxActiveClaimsPerDriver: integer("max_active_claims_per_driver").default(3), // claimed + in_progress deliveries per driver
+  rushSlaMinutes: integer("rush_sla_minutes").default(45), // rush orders are due this long after they're released to drivers
+  autoDispatchMode: text("auto_dispatch_mode").default("suggest"), // suggest, auto_assign
+  
+  // Driver Pay - added up per completed delivery in driver_earnings; tips always go to the driver in full
+  driverPayPerDelivery: numeric("driver_pay_per_delivery", { precision: 10, scale: 2 }).default("0"),
+  driverPayPerMile: numeric("driver_pay_per_mile", { precision: 10, scale: 2 }).default("0"),
+  driverPayFeePercent: numeric("driver_pay_fee_percent", { precision: 5, scale: 2 }).default("0"), // share of the delivery fee
+  
+  // Service Zone Pricing - only applies once the tenant has active zones
+  zonePricingMode: text("zone_pricing_mode").default("distance"), // zone, distance, greater
+  
+  // Proof of Delivery - also required per business via businesses.requireProofOfDelivery
+  requireProofOfDelivery: boolean("require_proof_of_delivery").default(false), // every delivery
+  proofOfDeliveryPaymentMethods: text("proof_of_delivery_payment_methods").array().default(sql`ARRAY[]::text[]`), // deliveries paid with these methods
+  
   // Google Reviews Integration
   googlePlaceId: text("google_place_id"),
   enableGoogleReviews: boolean("enable_google_reviews").default(false),
@@ -212,10 +388,20 @@ export const businessSettings = pgTable("business_settings", {
   requirePaymentUpfront: boolean("require_payment_upfront").default(false),
   
   // Square Payment Configuration (per tenant)
-  squareAccessToken: text("square_access_token"), // Encrypted tenant's Square access token
+  squareAccessToken: text("square_access_token"), // Tenant's Square access token, encrypted (server/tenantSecrets.ts)
   squareApplicationId: text("square_application_id"), // Tenant's Square application ID
   squareLocationId: text("square_location_id"), // Tenant's Square location ID
   squareEnvironment: text("square_environment").default("sandbox"), // sandbox or production
+  squareWebhookSignatureKey: text("square_webhook_signature_key"), // Signature key of the tenant's Square webhook subscription, encrypted
+  squareWebhookUrl: text("square_webhook_url"), // Notification URL exactly as registered with Square, when it differs from the one requests arrive on
+  
+  // Stripe Payment Configuration (per tenant)
+  stripeSecretKey: text("stripe_secret_key"), // Tenant's Stripe secret key, encrypted
+  stripePublishableKey: text("stripe_publishable_key"), // Used by Stripe.js on the checkout page
+  stripeWebhookSecret: text("stripe_webhook_secret"), // Signing secret of the tenant's Stripe webhook endpoint, encrypted
+  
+  // Which provider card payments, invoices and refunds go through
+  paymentProvider: text("payment_provider").default("square"), // square, stripe
   
   // Notifications
   customerNotifications: jsonb("customer_notifications").$type<{
@@ -230,6 +416,11 @@ export const businessSettings = pgTable("business_settings", {
 
 // Removed: googleReviews table - no longer needed
 
+// GeoJSON geometry for a zone's area - positions are [longitude, latitude]
+export type ZoneBoundary =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
 // Service area zones for delivery pricing
 export const serviceZones = pgTable("service_zones", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -240,9 +431,165 @@ export const serviceZones = pgTable("service_zones", {
   estimatedTime: integer("estimated_time_minutes").notNull(),
   isActive: boolean("is_active").default(true),
   zipCodes: text("zip_codes").array(),
-  boundaries: jsonb("boundaries"), // For future map integration
+  boundaries: jsonb("boundaries").$type<ZoneBoundary>(), // Matched before zipCodes when the address can be geocoded
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const PRICING_RULE_ACTIONS = ['flat_fee', 'percent', 'per_mile', 'waive', 'cap'] as const;
+export type PricingRuleAction = typeof PRICING_RULE_ACTIONS[number];
+
+// Customer tiers by completed deliveries with the tenant
+export const LOYALTY_TIERS = ['bronze', 'silver', 'gold'] as const;
+export type LoyaltyTier = typeof LOYALTY_TIERS[number];
+export const LOYALTY_TIER_MIN_DELIVERIES: Record<LoyaltyTier, number> = { bronze: 0, silver: 10, gold: 25 };
+
+// What a trip must look like for a pricing rule to apply - unset conditions match every trip
+export interface PricingRuleConditions {
+  days?: number[]; // 0 = Sunday, in the tenant's timezone
+  startTime?: string; // HH:MM; the window can run past midnight
+  endTime?: string;
+  businessIds?: string[]; // pickup business
+  zoneIds?: string[];
+  minDistance?: number; // miles, whole route
+  maxDistance?: number;
+  minOrderValue?: number;
+  maxOrderValue?: number;
+  loyaltyTiers?: LoyaltyTier[];
+}
+
+// Tenant pricing rules, applied in position order on top of distance and zone pricing
+export const pricingRules = pgTable("pricing_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  name: text("name").notNull(), // shown to customers as the line item label
+  position: integer("position").default(0).notNull(), // lowest runs first
+  isActive: boolean("is_active").default(true).notNull(),
+  conditions: jsonb("conditions").$type<PricingRuleConditions>().default({}).notNull(),
+  action: text("action").notNull(), // flat_fee, percent, per_mile, waive, cap
+  amount: numeric("amount", { precision: 10, scale: 2 }), // dollars, or a percentage for percent; unused by waive
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const PROMOTION_DISCOUNT_TYPES = ['percent', 'flat', 'free_delivery'] as const;
+export type PromotionDiscountType = typeof PROMOTION_DISCOUNT_TYPES[number];
+
+// Promo codes customers enter at checkout. The discount comes off the delivery fee after pricing rules run.
+export const promotions = pgTable("promotions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").default(sql`'00000000-0000-0000-0000-000000000001'::uuid`).notNull(),
+  code: text("code").notNull(), // stored uppercase; customers can type it in any case
+  name: text("name").notNull(), // shown to customers as the discount line
+  discountType: text("discount_type").notNull(), // percent, flat, free_delivery
+  amount: numeric("amount", { precision: 10, scale: 2 }), // percent off or dollars off; unused by free_delivery
+  isActive: boolean("is_active").default(true).notNull(),
+  startsAt: timestamp("starts_at"), // open-ended when null
+  endsAt: timestamp("ends_at"),
+  days: jsonb("days").$type<number[]>().default([]).notNull(), // 0 = Sunday in the tenant's timezone; empty for every day
+  maxRedemptions: integer("max_redemptions"), // across all customers, unlimited when null
+  maxRedemptionsPerCustomer: integer("max_redemptions_per_customer"),
+  firstOrderOnly: boolean("first_order_only").default(false).notNull(), // signed-in customers with no earlier deliveries
+  minOrderValue: numeric("min_order_value", { precision: 10, scale: 2 }),
+  businessIds: jsonb("business_ids").$type<string[]>().default([]).notNull(), // pickup business; empty for any
+  zoneIds: jsonb("zone_ids").$type<string[]>().default([]).notNull(),
+  redemptionCount: integer("redemption_count").default(0).notNull(), // bumped atomically when an order uses the code
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueTenantCode: unique().on(table.tenantId, table.code),
+}));
+
+// One row per order placed with a promo code, for reporting and per-customer limits
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").notNull(),
+  promotionId: uuid("promotion_id").notNull().references(() => promotions.id, { onDelete: "cascade" }),
+  deliveryId: varchar("delivery_id").notNull().unique().references(() => deliveryRequests.id, { onDelete: "cascade" }), // one code per order
+  customerId: text("customer_id"), // null for guests
+  customerEmail: text("customer_email").notNull(), // lowercased - limits guests per email
+  discountAmount: numeric("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const DRIVER_EARNING_KINDS = ['delivery', 'tip', 'tip_reversal'] as const;
+export type DriverEarningKind = typeof DRIVER_EARNING_KINDS[number];
+
+// A payout period close-out - every unpaid earning up to periodEnd is stamped with it
+export const driverPayouts = pgTable("driver_payouts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").notNull(),
+  periodStart: timestamp("period_start").notNull(), // earliest earning included
+  periodEnd: timestamp("period_end").notNull(),
+  totalAmount: numeric("total_amount", { precision: 10, scale: 2 }).notNull(),
+  earningCount: integer("earning_count").notNull(),
+  driverCount: integer("driver_count").notNull(),
+  closedBy: text("closed_by"), // Supabase user ID of the admin, when known
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Driver pay ledger - one row when a delivery is completed, and one more if it's tipped afterwards
+export const driverEarnings = pgTable("driver_earnings", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").notNull(),
+  driverId: text("driver_id").notNull(), // the delivery's claimedByDriver
+  deliveryId: varchar("delivery_id").notNull().references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // delivery, tip, tip_reversal (a paid tip that was refunded, taken back as a negative entry)
+  deliveryPay: numeric("delivery_pay", { precision: 10, scale: 2 }).default("0").notNull(), // flat per-delivery rate
+  mileagePay: numeric("mileage_pay", { precision: 10, scale: 2 }).default("0").notNull(),
+  feeSharePay: numeric("fee_share_pay", { precision: 10, scale: 2 }).default("0").notNull(), // percent of the delivery fee
+  tipAmount: numeric("tip_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  totalAmount: numeric("total_amount", { precision: 10, scale: 2 }).notNull(),
+  distance: doublePrecision("distance"), // miles from the delivery's quote, null when it had none
+  payoutId: uuid("payout_id").references(() => driverPayouts.id), // null until a payout closes it out
+  earnedAt: timestamp("earned_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueDeliveryKind: unique().on(table.deliveryId, table.kind), // recording the same completion twice is a no-op
+}));
+
+export const PAYMENT_TRANSACTION_KINDS = ['charge', 'refund', 'adjustment'] as const;
+export type PaymentTransactionKind = typeof PAYMENT_TRANSACTION_KINDS[number];
+export const PAYMENT_TRANSACTION_STATUSES = ['pending', 'completed', 'failed'] as const;
+export type PaymentTransactionStatus = typeof PAYMENT_TRANSACTION_STATUSES[number];
+
+// Money ledger per delivery - what was charged, refunded and adjusted by hand
+export const paymentTransactions = pgTable("payment_transactions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").notNull(),
+  deliveryId: varchar("delivery_id").notNull().references(() => deliveryRequests.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // charge, refund, adjustment
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(), // refunds are positive; adjustments are negative when they credit the customer
+  status: text("status").default("completed").notNull(), // pending, completed, failed
+  squarePaymentId: text("square_payment_id"),
+  squareRefundId: text("square_refund_id").unique(),
+  reason: text("reason"), // required for refunds and adjustments
+  actorId: text("actor_id"), // Supabase user ID of the admin, null for charges and refunds made in Square
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Payment provider webhook events already received - a retried or replayed event is only applied once
+export const squareWebhookEvents = pgTable("square_webhook_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").notNull(),
+  eventId: text("event_id").notNull(), // Square's event_id or Stripe's evt_ ID
+  eventType: text("event_type").notNull(), // e.g. payment.updated, invoice.payment_made, invoice.paid
+  objectId: text("object_id"), // the payment, invoice or refund the event is about
+  deliveryId: varchar("delivery_id"), // matched delivery, when there was one
+  outcome: text("outcome"), // applied, unchanged, unmatched, ignored - null while it's being processed
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueTenantEvent: unique().on(table.tenantId, table.eventId),
+}));
+
+// Subscription history per tenant - trial reminders, lapses and plan changes, shown on the billing page
+export const tenantBillingEvents = pgTable("tenant_billing_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // trial_reminder, past_due, cancelled, plan_changed, reactivated
+  message: text("message").notNull(),
+  planType: text("plan_type"), // plan after the event
+  actorId: text("actor_id"), // Supabase user ID of the admin, null for lifecycle changes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Legacy users table for username/password authentication (temporary until Supabase Auth migration)
@@ -297,10 +644,109 @@ export const insertServiceZoneSchema = createInsertSchema(serviceZones).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Zone name is required"),
+  deliveryFee: z.union([z.string(), z.number()]).transform(String).refine(value => !isNaN(parseFloat(value)) && parseFloat(value) >= 0, "Delivery fee must be a positive amount"),
+  estimatedTime: z.coerce.number().int().positive("Estimated time must be in minutes"),
+  zipCodes: z.array(z.string().trim().regex(/^\d{5}$/, "ZIP codes must be 5 digits")).optional(),
 });
 
 export const updateServiceZoneSchema = insertServiceZoneSchema.partial();
 
+// Pricing rule schemas
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+const optionalAmountSchema = z.number().nonnegative().optional();
+
+export const pricingRuleConditionsSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  startTime: timeOfDaySchema.optional(),
+  endTime: timeOfDaySchema.optional(),
+  businessIds: z.array(z.string().min(1)).optional(),
+  zoneIds: z.array(z.string().min(1)).optional(),
+  minDistance: optionalAmountSchema,
+  maxDistance: optionalAmountSchema,
+  minOrderValue: optionalAmountSchema,
+  maxOrderValue: optionalAmountSchema,
+  loyaltyTiers: z.array(z.enum(LOYALTY_TIERS)).optional(),
+})
+  .refine(c => !c.startTime === !c.endTime, { message: "Set both a start and end time, or neither", path: ["endTime"] })
+  .refine(c => c.minDistance === undefined || c.maxDistance === undefined || c.minDistance <= c.maxDistance, { message: "Minimum distance is more than the maximum", path: ["maxDistance"] })
+  .refine(c => c.minOrderValue === undefined || c.maxOrderValue === undefined || c.minOrderValue <= c.maxOrderValue, { message: "Minimum order value is more than the maximum", path: ["maxOrderValue"] });
+
+export const insertPricingRuleSchema = createInsertSchema(pricingRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Rule name is required"),
+  action: z.enum(PRICING_RULE_ACTIONS),
+  amount: z.union([z.string(), z.number()]).transform(String).refine(value => !isNaN(parseFloat(value)), "Amount must be a number").nullable().optional(),
+  conditions: pricingRuleConditionsSchema,
+})
+  .refine(rule => rule.action === 'waive' || (rule.amount !== null && rule.amount !== undefined), { message: "This action needs an amount", path: ["amount"] })
+  .refine(rule => !['cap', 'per_mile'].includes(rule.action) || parseFloat(rule.amount ?? '0') >= 0, { message: "Amount can't be negative", path: ["amount"] });
+
+// Sample trip for the Pricing tab's simulator - priced with the saved rules, no quote is issued
+export const simulatePriceSchema = z.object({
+  pickup: z.string().trim().min(1, "Pickup address is required"),
+  delivery: z.string().trim().min(1, "Delivery address is required"),
+  stops: z.array(z.string().trim().min(1)).optional(),
+  isRush: z.boolean().optional(),
+  businessId: z.string().nullable().optional(),
+  orderValue: z.number().nonnegative().nullable().optional(),
+  loyaltyTier: z.enum(LOYALTY_TIERS).nullable().optional(),
+  at: z.coerce.date().optional(), // defaults to now
+  promoCode: z.string().trim().min(1).optional(),
+});
+
+// Promotion schemas
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const optionalLimitSchema = z.number().int().positive().nullable().optional();
+
+export const insertPromotionSchema = createInsertSchema(promotions).omit({
+  id: true,
+  redemptionCount: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().trim().min(3, "Codes need at least 3 characters").max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Codes can only use letters, numbers, dashes and underscores")
+    .transform(normalizePromoCode),
+  name: z.string().trim().min(1, "Promotion name is required"),
+  discountType: z.enum(PROMOTION_DISCOUNT_TYPES),
+  amount: z.union([z.string(), z.number()]).transform(String).refine(value => !isNaN(parseFloat(value)) && parseFloat(value) > 0, "Amount must be more than zero").nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  maxRedemptions: optionalLimitSchema,
+  maxRedemptionsPerCustomer: optionalLimitSchema,
+  minOrderValue: z.union([z.string(), z.number()]).transform(String).refine(value => !isNaN(parseFloat(value)) && parseFloat(value) >= 0, "Minimum order must be a positive amount").nullable().optional(),
+  businessIds: z.array(z.string().min(1)).optional(),
+  zoneIds: z.array(z.string().min(1)).optional(),
+})
+  .refine(promo => promo.discountType === 'free_delivery' || (promo.amount !== null && promo.amount !== undefined), { message: "This discount needs an amount", path: ["amount"] })
+  .refine(promo => promo.discountType !== 'percent' || parseFloat(promo.amount ?? '0') <= 100, { message: "A percentage can't be more than 100", path: ["amount"] })
+  .refine(promo => !promo.startsAt || !promo.endsAt || promo.startsAt < promo.endsAt, { message: "The promotion ends before it starts", path: ["endsAt"] });
+
+export const insertPromotionRedemptionSchema = createInsertSchema(promotionRedemptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Driver earnings schemas
+export const insertDriverEarningSchema = createInsertSchema(driverEarnings, {
+  kind: z.enum(DRIVER_EARNING_KINDS),
+}).omit({
+  id: true,
+  payoutId: true,
+  earnedAt: true,
+});
+
+export const closeDriverPayoutSchema = z.object({
+  periodEnd: z.coerce.date(), // earnings before this moment are paid out
+});
+
 // Tenant schemas
 export const insertTenantSchema = createInsertSchema(tenants).omit({
   id: true,
@@ -312,6 +758,9 @@ export const insertTenantSchema = createInsertSchema(tenants).omit({
   stripeSubscriptionId: true,
   billingStatus: true,
   nextBillingDate: true,
+  trialReminderDays: true,
+  pastDueAt: true,
+  cancelledAt: true,
 });
 
 export const updateTenantSchema = insertTenantSchema.partial();
@@ -369,6 +818,8 @@ export const insertDeliveryRequestSchema = createInsertSchema(deliveryRequests).
   status: true,
   usedFreeDelivery: true,
   marketingConsent: true, // Remove marketing consent field
+  trackingToken: true, // Generated by the server
+  refundedAmount: true, // Only moved by refunds
 }).extend({
   businessId: z.string().min(1, "Please select a business"), // Make businessId required with validation
   customerName: z.string().min(1, "Customer name is required"),
@@ -381,6 +832,10 @@ export const insertDeliveryRequestSchema = createInsertSchema(deliveryRequests).
   paymentMethod: z.string().min(1, "Payment method is required"),
   specialInstructions: z.string().optional(), // Keep optional
   usedFreeDelivery: z.boolean().optional(), // Allow passing usedFreeDelivery flag
+  orderValue: z.union([z.string(), z.number()]) // Blank means not entered
+    .transform(value => String(value).trim() || null)
+    .refine(value => value === null || (!isNaN(parseFloat(value)) && parseFloat(value) >= 0), "Order value must be a positive amount")
+    .nullable().optional(),
 });
 
 export const insertDeliveryRequestGuestSchema = insertDeliveryRequestSchema.omit({
@@ -392,6 +847,17 @@ export const insertDeliveryRequestAuthenticatedSchema = insertDeliveryRequestSch
   useStoredPayment: z.boolean().optional(), // For using stored payment method
 });
 
+// Driver tips - presets are a percentage of the delivery fee
+export const TIP_PRESET_PERCENTAGES = [15, 18, 20] as const;
+export const TIP_SOURCES = ['checkout', 'after_delivery'] as const;
+export type TipSource = typeof TIP_SOURCES[number];
+export const MAX_TIP_AMOUNT = 200;
+
+export const tipAmountSchema = z.coerce.number()
+  .min(0, "Tip can't be negative")
+  .max(MAX_TIP_AMOUNT, `Tips are limited to $${MAX_TIP_AMOUNT}`)
+  .transform(amount => Math.round(amount * 100) / 100);
+
 // Driver-related schemas
 export const claimDeliverySchema = z.object({
   deliveryId: z.string(),
@@ -399,19 +865,190 @@ export const claimDeliverySchema = z.object({
 });
 
 export const updateDeliveryStatusSchema = z.object({
-  status: z.enum(['available', 'claimed', 'in_progress', 'completed', 'cancelled']),
+  status: z.enum(DELIVERY_STATUSES),
   driverNotes: z.string().optional(),
 });
 
+// Delivery event schemas
+export const DELIVERY_EVENT_ACTOR_TYPES = ['driver', 'dispatcher', 'customer', 'system'] as const;
+
+export const insertDeliveryEventSchema = createInsertSchema(deliveryEvents, {
+  actorType: z.enum(DELIVERY_EVENT_ACTOR_TYPES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Map lookup schemas
+// Where a distance or geocode came from - 'haversine' is the keyless straight-line estimate used when Google is unavailable
+export const MAPS_PROVIDERS = ['google', 'nominatim', 'haversine', 'fake'] as const;
+
+export const insertGeocodeCacheSchema = createInsertSchema(geocodeCache, {
+  provider: z.enum(MAPS_PROVIDERS),
+}).omit({
+  createdAt: true,
+});
+
+export const insertDistanceCacheSchema = createInsertSchema(distanceCache, {
+  provider: z.enum(MAPS_PROVIDERS),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Driver location schemas
+export const DRIVER_LOCATION_RETENTION = {
+  hours: 24, // pings older than this are deleted
+  maxPingsPerDriver: 1000, // and a driver never keeps more than this many
+};
+
+export const driverLocationPingSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+  heading: z.number().min(0).max(360).optional(),
+  speed: z.number().nonnegative().optional(),
+  deliveryId: z.string().optional(), // defaults to the driver's in-progress delivery
+});
+
+export const insertDriverLocationSchema = createInsertSchema(driverLocations).omit({
+  id: true,
+  recordedAt: true,
+});
+
+// Delivery stop schemas
+export const DELIVERY_STOP_TYPES = ['pickup', 'dropoff'] as const;
+export const DELIVERY_STOP_STATUSES = ['pending', 'completed', 'skipped'] as const;
+export const MAX_ADDITIONAL_STOPS = 8; // between the first pickup and the final drop-off
+
+export const deliveryStopInputSchema = z.object({
+  type: z.enum(DELIVERY_STOP_TYPES),
+  address: z.string().trim().min(1, "Stop address is required"),
+  notes: z.string().optional(),
+});
+
+export const updateDeliveryStopSchema = z.object({
+  status: z.enum(['completed', 'skipped']),
+  driverNotes: z.string().optional(),
+}).refine(data => data.status !== 'skipped' || !!data.driverNotes?.trim(), {
+  message: "Add a note explaining why the stop was skipped",
+  path: ["driverNotes"],
+});
+
+export const insertDeliveryStopSchema = createInsertSchema(deliveryStops).omit({
+  id: true,
+  status: true,
+  driverNotes: true,
+  completedAt: true,
+  createdAt: true,
+});
+
+// Proof of delivery schemas
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/=]+$/;
+
+export const submitDeliveryProofSchema = z.object({
+  photo: z.string().regex(IMAGE_DATA_URL, "Photo must be a PNG, JPEG or WebP image"),
+  signature: z.string().regex(IMAGE_DATA_URL, "Signature must be a PNG, JPEG or WebP image").optional(),
+  recipientName: z.string().trim().min(1, "Recipient name is required"),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  accuracy: z.number().nonnegative().optional(),
+});
+
+export const insertDeliveryProofSchema = createInsertSchema(deliveryProofs).omit({
+  id: true,
+  capturedAt: true,
+});
+
+export const insertDeliveryQuoteSchema = createInsertSchema(deliveryQuotes).omit({
+  usedAt: true,
+  createdAt: true,
+}).extend({
+  stops: z.array(z.string()).optional(),
+  breakdown: z.array(z.object({
+    type: z.enum(QUOTE_LINE_ITEM_TYPES),
+    label: z.string(),
+    amount: z.number(),
+  })),
+});
+
+// Dispatcher assignment schemas
+export const DELIVERY_ASSIGNMENT_STATUSES = ['pending', 'accepted', 'declined', 'withdrawn'] as const;
+
+export const assignDeliverySchema = z.object({
+  driverId: z.string().min(1),
+  notes: z.string().optional(),
+});
+
+// driverId null pulls the delivery back to the open queue
+export const reassignDeliverySchema = z.object({
+  driverId: z.string().min(1).nullable(),
+  notes: z.string().optional(),
+});
+
+export const respondToAssignmentSchema = z.object({
+  accept: z.boolean(),
+  notes: z.string().optional(),
+});
+
 export const updateDriverStatusSchema = z.object({
   isOnDuty: z.boolean(),
 });
 
+// Auto-dispatch: "suggest" ranks drivers for dispatchers, "auto_assign" also hands each delivery to the top driver
+export const AUTO_DISPATCH_MODES = ['suggest', 'auto_assign'] as const;
+export type AutoDispatchMode = typeof AUTO_DISPATCH_MODES[number];
+
+// How a matched service zone's fee combines with distance pricing
+export const ZONE_PRICING_MODES = ['zone', 'distance', 'greater'] as const;
+export type ZonePricingMode = typeof ZONE_PRICING_MODES[number];
+
+// Why an order can't be placed as requested: too far away, business closed right now, or the requested time isn't bookable
+export const ORDER_ELIGIBILITY_REASONS = ['out_of_range', 'closed', 'outside_slot'] as const;
+export type OrderEligibilityReason = typeof ORDER_ELIGIBILITY_REASONS[number];
+
+export const PAYMENT_STATUSES = ['pending', 'paid', 'failed', 'refunded'] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export const PAYMENT_PROVIDERS = ['square', 'stripe'] as const;
+export type PaymentProviderName = typeof PAYMENT_PROVIDERS[number];
+
+// trial is the 30-day trial every tenant starts on; the rest are the paid plans
+export const PLAN_TYPES = ['trial', 'basic', 'premium', 'enterprise'] as const;
+export type PlanType = typeof PLAN_TYPES[number];
+export const PAID_PLAN_TYPES = ['basic', 'premium', 'enterprise'] as const;
+export type PaidPlanType = typeof PAID_PLAN_TYPES[number];
+
+// Lapsed tenants go past_due when their trial ends unpaid, then cancelled (read-only) after a grace period
+export const BILLING_STATUSES = ['trial', 'active', 'past_due', 'cancelled'] as const;
+export type BillingStatus = typeof BILLING_STATUSES[number];
+
+export const TENANT_BILLING_EVENT_KINDS = ['trial_reminder', 'past_due', 'cancelled', 'plan_changed', 'reactivated'] as const;
+export type TenantBillingEventKind = typeof TENANT_BILLING_EVENT_KINDS[number];
+
+export interface SubscriptionPlan {
+  name: string;
+  monthlyPrice: number;
+  drivers: number | null; // on duty at once; null for unlimited
+  deliveriesPerMonth: number | null; // null for unlimited
+}
+
+// What each plan costs and allows. Trials get Professional's limits.
+export const SUBSCRIPTION_PLANS: Record<PlanType, SubscriptionPlan> = {
+  trial: { name: 'Free Trial', monthlyPrice: 0, drivers: 10, deliveriesPerMonth: 500 },
+  basic: { name: 'Starter', monthlyPrice: 29, drivers: 3, deliveriesPerMonth: 100 },
+  premium: { name: 'Professional', monthlyPrice: 79, drivers: 10, deliveriesPerMonth: 500 },
+  enterprise: { name: 'Enterprise', monthlyPrice: 149, drivers: null, deliveriesPerMonth: null },
+};
+
+export const SQUARE_WEBHOOK_OUTCOMES = ['applied', 'unchanged', 'unmatched', 'ignored'] as const;
+export type SquareWebhookOutcome = typeof SQUARE_WEBHOOK_OUTCOMES[number];
+
 // Payment method constants
 export const PREDEFINED_PAYMENT_METHODS = [
   { value: 'cash_on_delivery', label: 'Cash on Delivery' },
   { value: 'card_on_delivery', label: 'Card on Delivery' },
-  // { value: 'online_payment', label: 'Online Payment (Pre-paid)' }, // Temporarily disabled - Stripe integration coming soon
+  { value: 'online_payment', label: 'Online Payment (Pre-paid)' }, // through the tenant's payment provider
   { value: 'square_invoice', label: 'Square Invoice' },
   { value: 'bank_transfer', label: 'Bank Transfer' },
   { value: 'venmo', label: 'Venmo' },
@@ -475,12 +1112,84 @@ export const createInvoiceSchema = z.object({
   autoCharge: z.boolean().default(false),
 });
 
+export const insertPaymentTransactionSchema = createInsertSchema(paymentTransactions, {
+  kind: z.enum(PAYMENT_TRANSACTION_KINDS),
+  status: z.enum(PAYMENT_TRANSACTION_STATUSES).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const moneyAmount = z.coerce.number().transform(amount => Math.round(amount * 100) / 100);
+
+export const refundPaymentSchema = z.object({
+  amount: moneyAmount.refine(amount => amount > 0, "Enter an amount to refund"),
+  reason: z.string().trim().min(1, "Give a reason for the refund"),
+});
+
+export const paymentAdjustmentSchema = z.object({
+  amount: moneyAmount.refine(amount => amount !== 0, "Enter an adjustment amount"), // negative credits the customer
+  reason: z.string().trim().min(1, "Give a reason for the adjustment"),
+});
+
+export const paymentProviderSelectionSchema = z.object({
+  paymentProvider: z.enum(PAYMENT_PROVIDERS),
+});
+
+export const insertTenantBillingEventSchema = createInsertSchema(tenantBillingEvents, {
+  kind: z.enum(TENANT_BILLING_EVENT_KINDS),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Upgrading, downgrading, or picking a plan to reactivate a lapsed account
+export const changeBillingPlanSchema = z.object({
+  planType: z.enum(PAID_PLAN_TYPES),
+});
+
+// Envelope of a Square webhook notification - data.object holds the payment, invoice or refund
+export const squareWebhookPayloadSchema = z.object({
+  merchant_id: z.string().optional(),
+  type: z.string().min(1),
+  event_id: z.string().min(1),
+  created_at: z.string().optional(),
+  data: z.object({
+    type: z.string().optional(),
+    id: z.string().optional(),
+    object: z.record(z.any()).optional(),
+  }).optional(),
+});
+
+// Envelope of a Stripe event - data.object holds the invoice, payment intent or refund
+export const stripeWebhookPayloadSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  data: z.object({
+    object: z.record(z.any()),
+  }),
+});
+
+export const insertSquareWebhookEventSchema = createInsertSchema(squareWebhookEvents).omit({
+  id: true,
+  deliveryId: true,
+  outcome: true,
+  receivedAt: true,
+});
+
 // Removed: Legacy user schema - no longer needed
 
 // Additional type exports
 export type InsertBusiness = z.infer<typeof insertBusinessSchema>;
 export type Business = typeof businesses.$inferSelect;
 
+export type ServiceZone = typeof serviceZones.$inferSelect;
+export type InsertServiceZone = z.infer<typeof insertServiceZoneSchema>;
+
+export type PricingRule = typeof pricingRules.$inferSelect;
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+export type SimulatePrice = z.infer<typeof simulatePriceSchema>;
+
 // Removed: Google reviews types - no longer needed
 
 export type InsertDeliveryRequest = z.infer<typeof insertDeliveryRequestSchema>;
@@ -491,4 +1200,62 @@ export type ClaimDelivery = z.infer<typeof claimDeliverySchema>;
 export type UpdateDeliveryStatus = z.infer<typeof updateDeliveryStatusSchema>;
 export type UpdateDriverStatus = z.infer<typeof updateDriverStatusSchema>;
 
+export type DeliveryEvent = typeof deliveryEvents.$inferSelect;
+export type InsertDeliveryEvent = z.infer<typeof insertDeliveryEventSchema>;
+export type DeliveryEventActorType = typeof DELIVERY_EVENT_ACTOR_TYPES[number];
+export type DeliveryEventActor = { type: DeliveryEventActorType; id?: string | null };
+
+export type DriverLocation = typeof driverLocations.$inferSelect;
+export type InsertDriverLocation = z.infer<typeof insertDriverLocationSchema>;
+export type DriverLocationPing = z.infer<typeof driverLocationPingSchema>;
+
+export type DeliveryStop = typeof deliveryStops.$inferSelect;
+export type InsertDeliveryStop = z.infer<typeof insertDeliveryStopSchema>;
+export type DeliveryStopInput = z.infer<typeof deliveryStopInputSchema>;
+export type DeliveryStopType = typeof DELIVERY_STOP_TYPES[number];
+export type UpdateDeliveryStop = z.infer<typeof updateDeliveryStopSchema>;
+
+export type DeliveryProof = typeof deliveryProofs.$inferSelect;
+export type InsertDeliveryProof = z.infer<typeof insertDeliveryProofSchema>;
+export type SubmitDeliveryProof = z.infer<typeof submitDeliveryProofSchema>;
+
+export type DeliveryQuote = typeof deliveryQuotes.$inferSelect;
+export type InsertDeliveryQuote = z.infer<typeof insertDeliveryQuoteSchema>;
+
+export type MapsProviderName = typeof MAPS_PROVIDERS[number];
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type InsertGeocodeCacheEntry = z.infer<typeof insertGeocodeCacheSchema>;
+export type DistanceCacheEntry = typeof distanceCache.$inferSelect;
+export type InsertDistanceCacheEntry = z.infer<typeof insertDistanceCacheSchema>;
+
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+export type InsertPromotionRedemption = z.infer<typeof insertPromotionRedemptionSchema>;
+
+export type DriverEarning = typeof driverEarnings.$inferSelect;
+export type InsertDriverEarning = z.infer<typeof insertDriverEarningSchema>;
+export type DriverPayout = typeof driverPayouts.$inferSelect;
+
+export type PaymentTransaction = typeof paymentTransactions.$inferSelect;
+export type InsertPaymentTransaction = z.infer<typeof insertPaymentTransactionSchema>;
+export type RefundPayment = z.infer<typeof refundPaymentSchema>;
+export type PaymentAdjustment = z.infer<typeof paymentAdjustmentSchema>;
+
+export type TenantBillingUpdate = Partial<Pick<Tenant, 'planType' | 'billingStatus' | 'nextBillingDate' | 'trialReminderDays' | 'pastDueAt' | 'cancelledAt' | 'stripeCustomerId' | 'stripeSubscriptionId'>>;
+export type TenantBillingEvent = typeof tenantBillingEvents.$inferSelect;
+export type InsertTenantBillingEvent = z.infer<typeof insertTenantBillingEventSchema>;
+export type ChangeBillingPlan = z.infer<typeof changeBillingPlanSchema>;
+
+export type SquareWebhookPayload = z.infer<typeof squareWebhookPayloadSchema>;
+export type StripeWebhookPayload = z.infer<typeof stripeWebhookPayloadSchema>;
+export type SquareWebhookEvent = typeof squareWebhookEvents.$inferSelect;
+export type InsertSquareWebhookEvent = z.infer<typeof insertSquareWebhookEventSchema>;
+
+export type DeliveryAssignment = typeof deliveryAssignments.$inferSelect;
+export type DeliveryAssignmentStatus = typeof DELIVERY_ASSIGNMENT_STATUSES[number];
+export type AssignDelivery = z.infer<typeof assignDeliverySchema>;
+export type ReassignDelivery = z.infer<typeof reassignDeliverySchema>;
+export type RespondToAssignment = z.infer<typeof respondToAssignmentSchema>;
+
 // Removed: Legacy user types - no longer needed
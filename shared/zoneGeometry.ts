@@ -0,0 +1,139 @@
+// Geometry checks for service zone boundaries (GeoJSON Polygon/MultiPolygon, [longitude, latitude] positions).
+// Shared so the zone editor can flag problems while drawing; the server re-validates on save.
+
+import type { ZoneBoundary } from "./schema.js";
+
+type Position = number[];
+type Ring = Position[];
+
+// Ray casting against one ring
+function isPointInRing(lat: number, lng: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Inside the outer ring and outside every hole
+function isPointInPolygon(lat: number, lng: number, polygon: Ring[]): boolean {
+  const [outer, ...holes] = polygon;
+  return !!outer && isPointInRing(lat, lng, outer) && !holes.some(hole => isPointInRing(lat, lng, hole));
+}
+
+export function getPolygons(boundary: ZoneBoundary): Ring[][] {
+  return boundary.type === "Polygon" ? [boundary.coordinates] : boundary.coordinates;
+}
+
+export function isPointInBoundary(lat: number, lng: number, boundary: ZoneBoundary): boolean {
+  return getPolygons(boundary).some(polygon => isPointInPolygon(lat, lng, polygon));
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  const value = (b[1] - a[1]) * (c[0] - b[0]) - (b[0] - a[0]) * (c[1] - b[1]);
+  return value === 0 ? 0 : value > 0 ? 1 : 2;
+}
+
+function onSegment(a: Position, b: Position, c: Position): boolean {
+  return b[0] <= Math.max(a[0], c[0]) && b[0] >= Math.min(a[0], c[0]) &&
+    b[1] <= Math.max(a[1], c[1]) && b[1] >= Math.min(a[1], c[1]);
+}
+
+function segmentsIntersect(p1: Position, q1: Position, p2: Position, q2: Position): boolean {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (o1 === 0 && onSegment(p1, p2, q1)) || (o2 === 0 && onSegment(p1, q2, q1)) ||
+    (o3 === 0 && onSegment(p2, p1, q2)) || (o4 === 0 && onSegment(p2, q1, q2));
+}
+
+// Any two non-neighbouring edges crossing or touching
+function isSelfIntersecting(ring: Ring): boolean {
+  const edges = ring.length - 1;
+  for (let i = 0; i < edges; i++) {
+    for (let j = i + 1; j < edges; j++) {
+      const neighbours = j === i + 1 || (i === 0 && j === edges - 1);
+      if (!neighbours && segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function isPosition(value: unknown): value is Position {
+  return Array.isArray(value) && value.length >= 2 &&
+    typeof value[0] === "number" && typeof value[1] === "number" &&
+    value[0] >= -180 && value[0] <= 180 && value[1] >= -90 && value[1] <= 90;
+}
+
+function validateRing(ring: unknown, label: string): string[] {
+  if (!Array.isArray(ring) || !ring.every(isPosition)) {
+    return [`${label} must be a list of [longitude, latitude] positions`];
+  }
+  if (ring.length < 4) {
+    return [`${label} needs at least 3 distinct points`];
+  }
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return [`${label} is not closed - the last point must repeat the first`];
+  }
+  if (isSelfIntersecting(ring)) {
+    return [`${label} crosses itself`];
+  }
+  return [];
+}
+
+/**
+ * Problems that make a boundary unusable. An empty list means the boundary is valid.
+ */
+export function validateZoneBoundary(boundary: unknown): string[] {
+  const geometry = boundary as { type?: unknown; coordinates?: unknown } | null;
+  if (!geometry || typeof geometry !== "object") {
+    return ["Boundary must be a GeoJSON Polygon or MultiPolygon"];
+  }
+  if (geometry.type === "Polygon") {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+      return ["Polygon has no coordinates"];
+    }
+    return geometry.coordinates.flatMap((ring, index) => validateRing(ring, index === 0 ? "Boundary" : `Hole ${index}`));
+  }
+  if (geometry.type === "MultiPolygon") {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+      return ["MultiPolygon has no polygons"];
+    }
+    return geometry.coordinates.flatMap((polygon, p) =>
+      Array.isArray(polygon) && polygon.length > 0
+        ? polygon.flatMap((ring: unknown, index: number) => validateRing(ring, `Polygon ${p + 1} ${index === 0 ? "boundary" : `hole ${index}`}`))
+        : [`Polygon ${p + 1} has no coordinates`]
+    );
+  }
+  return ["Boundary must be a GeoJSON Polygon or MultiPolygon"];
+}
+
+/**
+ * Whether two valid boundaries share any area: an edge crossing, or one containing a vertex of the other.
+ */
+export function boundariesOverlap(a: ZoneBoundary, b: ZoneBoundary): boolean {
+  const outerA = getPolygons(a).map(polygon => polygon[0]);
+  const outerB = getPolygons(b).map(polygon => polygon[0]);
+
+  for (const ringA of outerA) {
+    for (const ringB of outerB) {
+      for (let i = 0; i < ringA.length - 1; i++) {
+        for (let j = 0; j < ringB.length - 1; j++) {
+          if (segmentsIntersect(ringA[i], ringA[i + 1], ringB[j], ringB[j + 1])) return true;
+        }
+      }
+    }
+  }
+  return outerA.some(ring => isPointInBoundary(ring[0][1], ring[0][0], b)) ||
+    outerB.some(ring => isPointInBoundary(ring[0][1], ring[0][0], a));
+}